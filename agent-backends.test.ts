@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import {
+  normalizeCodexEvent,
+  extractToolNames,
+  countToolCalls,
+  changedPaths,
+  splitCommandTemplate,
+  createCommandBackend,
+  createScriptedBackend,
+  parseAgentSpec,
+  type AgentEvent,
+  type AgentRunRequest,
+} from "./agent-backends.js";
+import { createEventMonitor } from "./loop-monitor.js";
+
+const TMP = join(process.cwd(), ".test-agent-backends");
+
+function request(overrides: Partial<AgentRunRequest> = {}): AgentRunRequest {
+  return { workdir: TMP, prompt: "Implement the story", model: "test-model", sandbox: "workspace-write", schemaFile: "schema.json", ...overrides };
+}
+
+beforeEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+  mkdirSync(TMP, { recursive: true });
+});
+
+afterEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+});
+
+describe("normalizeCodexEvent", () => {
+  it("maps the Codex wire format onto normalized events", () => {
+    expect(normalizeCodexEvent({ type: "thread.started", thread_id: "t-1" })).toEqual([{ kind: "session", sessionId: "t-1" }]);
+    expect(normalizeCodexEvent({ type: "item.completed", item: { type: "command_execution", command: "pnpm test", exit_code: 1 } }))
+      .toEqual([{ kind: "command", command: "pnpm test", exitCode: 1, output: undefined }]);
+    expect(normalizeCodexEvent({ type: "item.completed", item: { type: "file_change", path: "src/a.ts" } }))
+      .toEqual([{ kind: "file_change", path: "src/a.ts" }]);
+    expect(normalizeCodexEvent({ type: "turn.completed", usage: { input_tokens: 10, output_tokens: 5 } })[0]!.usage)
+      .toEqual({ inputTokens: 10, cachedInputTokens: undefined, outputTokens: 5 });
+  });
+
+  it("only counts items once, on completion", () => {
+    expect(normalizeCodexEvent({ type: "item.started", item: { type: "command_execution", command: "ls" } })).toEqual([]);
+  });
+});
+
+describe("event stream helpers", () => {
+  const events: AgentEvent[] = [
+    { kind: "command", command: '/bin/zsh -lc "cd /repo && pnpm test --run"', exitCode: 0 },
+    { kind: "tool_call", tool: "github.search" },
+    { kind: "file_change", path: "a.ts" },
+    { kind: "file_change", path: "a.ts" },
+    { kind: "message", text: "done" },
+  ];
+
+  it("extracts tool names, tool calls and changed paths", () => {
+    expect(extractToolNames(events)).toEqual(["pnpm test", "github.search", "file_change"]);
+    expect(countToolCalls(events)).toBe(2);
+    expect(changedPaths(events)).toEqual(["a.ts"]);
+  });
+
+  it("feeds the activity monitor", () => {
+    const monitor = createEventMonitor();
+    for (const event of [...events, { kind: "command" as const, command: "cat README.md", exitCode: 2 }]) monitor.observe(event);
+    const stats = monitor.getStats();
+    expect(stats.toolCalls).toBe(3);
+    expect(stats.testRuns).toBe(1);
+    expect(stats.fileExplorations).toBe(1);
+    expect(stats.fileWrites).toBe(2);
+    expect(stats.errorsHit).toBe(1);
+    expect(stats.timeToFirstToolCallMs).not.toBeNull();
+  });
+});
+
+describe("command backend", () => {
+  it("splits templates honouring quotes", () => {
+    expect(splitCommandTemplate(`agent run -e "a b" 'c d' {prompt}`)).toEqual(["agent", "run", "-e", "a b", "c d", "{prompt}"]);
+  });
+
+  it("passes the prompt as a single argument and uses plain stdout as the final message", async () => {
+    const backend = createCommandBackend({ type: "command", command: `node -e "console.log(process.argv[1])" {prompt}` });
+    const result = await backend.start(request({ prompt: `quote ' and "spaces"` })).result;
+    expect(result.exitCode).toBe(0);
+    expect(result.finalMessage).toBe(`quote ' and "spaces"`);
+  });
+
+  it("streams ndjson events to the listener", async () => {
+    const script = [
+      `console.log(JSON.stringify({kind:'session',sessionId:'s-42'}))`,
+      `console.log(JSON.stringify({kind:'command',command:'npm test',exitCode:0}))`,
+      `console.log(JSON.stringify({kind:'message',text:process.argv[1]}))`,
+    ].join(";");
+    const backend = createCommandBackend({ type: "command", command: `node -e "${script}" {model}`, format: "ndjson", name: "custom" });
+    const seen: AgentEvent[] = [];
+    const result = await backend.start(request({ onEvent: (e) => seen.push(e) })).result;
+
+    expect(result.backend).toBe("custom");
+    expect(result.sessionId).toBe("s-42");
+    expect(result.finalMessage).toBe("test-model");
+    expect(seen.map((e) => e.kind)).toEqual(["session", "command", "message"]);
+    expect(result.activityStats.testRuns).toBe(1);
+  });
+
+  it("reports spawn failures", async () => {
+    const backend = createCommandBackend({ type: "command", command: "ralph-no-such-agent-binary {prompt}" });
+    const result = await backend.start(request()).result;
+    expect(result.spawnError).toBeTruthy();
+    expect(result.exitCode).toBeNull();
+  });
+});
+
+describe("scripted backend", () => {
+  it("replays steps per story, writing files and a structured final message", async () => {
+    writeFileSync(join(TMP, "script.json"), JSON.stringify({
+      steps: [
+        { storyId: "story-b", files: { "b.ts": "export const b = 1;\n" }, finalMessage: "b done" },
+        { files: { "src/a.ts": "export const a = 1;\n" }, events: [{ kind: "command", command: "npm test", exitCode: 0 }], finalMessage: { success: true, summary: "a", learnings: "x", files_modified: [] } },
+      ],
+    }));
+    const backend = createScriptedBackend("script.json");
+
+    const a = await backend.start(request({ storyId: "story-a" })).result;
+    expect(a.exitCode).toBe(0);
+    expect(readFileSync(join(TMP, "src/a.ts"), "utf-8")).toContain("a = 1");
+    expect(changedPaths(a.events)).toEqual(["src/a.ts"]);
+    expect(JSON.parse(a.finalMessage).summary).toBe("a");
+
+    const b = await backend.start(request({ storyId: "story-b" })).result;
+    expect(b.finalMessage).toBe("b done");
+    expect(existsSync(join(TMP, "b.ts"))).toBe(true);
+
+    const exhausted = await backend.start(request({ storyId: "story-a" })).result;
+    expect(exhausted.exitCode).toBe(1);
+    expect(exhausted.events.some((e) => e.kind === "error" && e.text?.includes("Script exhausted"))).toBe(true);
+  });
+});
+
+describe("parseAgentSpec", () => {
+  it("accepts shorthand and JSON specs", () => {
+    expect(parseAgentSpec("codex")).toEqual({ type: "codex" });
+    expect(parseAgentSpec('{"type":"scripted","script":"s.json"}')).toEqual({ type: "scripted", script: "s.json" });
+    expect(parseAgentSpec({ type: "command", command: "x {prompt}", format: "ndjson" })).toMatchObject({ type: "command", format: "ndjson" });
+  });
+
+  it("rejects malformed specs", () => {
+    expect(parseAgentSpec("claude")).toContain("must be");
+    expect(parseAgentSpec({ type: "command" })).toContain("command template");
+    expect(parseAgentSpec({ type: "command", command: "x", format: "xml" })).toContain("format");
+    expect(parseAgentSpec({ type: "gemini" })).toContain("Unknown agent type");
+  });
+});
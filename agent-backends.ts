@@ -0,0 +1,597 @@
+/**
+ * Coding-agent backends behind a common runner interface.
+ *
+ * Every backend spawns (or simulates) an agent for one iteration, streams its
+ * activity as normalized AgentEvents, and resolves with the final message and
+ * session id. Downstream consumers (tool-name extraction, loop-monitor,
+ * verification) only ever see AgentEvents, never a backend's wire format.
+ *
+ * - codex:    `codex exec --json` (the default)
+ * - command:  any CLI described by an argv template, e.g. `my-agent run --model {model} {prompt}`
+ * - scripted: deterministic replay of a JSON script — for tests and demos
+ *
+ * The backend is chosen per story (`story.agent`), then per project (`prd.agent`),
+ * then from plugin config.
+ */
+
+import { spawn } from "node:child_process";
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import { processRegistry, monitorProgress } from "./process-helpers.js";
+import { createEventMonitor, type MonitorStats } from "./loop-monitor.js";
+
+// ============================================================================
+// Normalized events
+// ============================================================================
+
+export type AgentEventKind = "session" | "command" | "tool_call" | "file_change" | "message" | "reasoning" | "usage" | "error";
+
+export interface AgentEvent {
+  kind: AgentEventKind;
+  /** session */
+  sessionId?: string;
+  /** command */
+  command?: string;
+  exitCode?: number | null;
+  output?: string;
+  /** tool_call */
+  tool?: string;
+  /** file_change */
+  path?: string;
+  /** message / reasoning / error */
+  text?: string;
+  /** usage */
+  usage?: { inputTokens?: number; cachedInputTokens?: number; outputTokens?: number };
+}
+
+/** Codex `exec --json` wire format */
+export interface CodexEvent {
+  type: string;               // thread.started, turn.started, turn.completed, item.started, item.completed, error
+  thread_id?: string;         // on thread.started
+  item?: {
+    id?: string;
+    type?: string;            // command_execution, file_change, agent_message, reasoning, mcp_tool_call
+    command?: string;         // for command_execution
+    aggregated_output?: string;
+    exit_code?: number | null;
+    status?: string;
+    text?: string;            // for agent_message / reasoning
+    path?: string;            // for file_change
+    new_content?: string;     // for file_change
+    server?: string;          // for mcp_tool_call
+    tool?: string;            // for mcp_tool_call
+  };
+  usage?: {
+    input_tokens?: number;
+    cached_input_tokens?: number;
+    output_tokens?: number;
+  };
+  error?: string;
+  message?: string;
+}
+
+/**
+ * Map one Codex wire event onto normalized events. Items are reported on
+ * item.completed only, so a command that also emitted item.started counts once.
+ */
+export function normalizeCodexEvent(event: CodexEvent): AgentEvent[] {
+  if (event.type === "thread.started" && event.thread_id) return [{ kind: "session", sessionId: event.thread_id }];
+  if (event.type === "turn.completed" && event.usage) {
+    return [{
+      kind: "usage",
+      usage: { inputTokens: event.usage.input_tokens, cachedInputTokens: event.usage.cached_input_tokens, outputTokens: event.usage.output_tokens },
+    }];
+  }
+  if (event.type === "error" || event.type === "turn.failed") {
+    return [{ kind: "error", text: event.error || event.message || "Codex error" }];
+  }
+  if (event.type !== "item.completed" || !event.item) return [];
+
+  const item = event.item;
+  switch (item.type) {
+    case "command_execution":
+      return [{ kind: "command", command: item.command || "unknown", exitCode: item.exit_code, output: item.aggregated_output }];
+    case "mcp_tool_call":
+      return [{ kind: "tool_call", tool: [item.server, item.tool].filter(Boolean).join(".") || "mcp_tool_call" }];
+    case "file_change":
+      return item.path ? [{ kind: "file_change", path: item.path }] : [];
+    case "agent_message":
+      return item.text ? [{ kind: "message", text: item.text }] : [];
+    case "reasoning":
+      return item.text ? [{ kind: "reasoning", text: item.text }] : [];
+    default:
+      return [];
+  }
+}
+
+/** Parse a stdout line that is already a normalized AgentEvent (ndjson format) */
+function parseNormalizedLine(line: string): AgentEvent[] {
+  try {
+    const parsed = JSON.parse(line) as AgentEvent;
+    return parsed && typeof parsed.kind === "string" ? [parsed] : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseCodexLine(line: string): AgentEvent[] {
+  try {
+    return normalizeCodexEvent(JSON.parse(line) as CodexEvent);
+  } catch {
+    return [];
+  }
+}
+
+/** Distinct tool names from an event stream, e.g. "pnpm test", "file_change" */
+export function extractToolNames(events: AgentEvent[]): string[] {
+  const names = new Set<string>();
+  for (const event of events) {
+    if (event.kind === "command" && event.command) {
+      // Extract the base command name from the full command string
+      // e.g. '/usr/bin/zsh -lc "cd /foo && pnpm test"' → 'pnpm test'
+      const shellMatch = event.command.match(/-lc\s+"(?:cd\s+[^&]+&&\s*)?(.+?)"/);
+      const baseCmd = shellMatch ? shellMatch[1]! : event.command;
+      names.add(baseCmd.trim().split(/\s+/).slice(0, 2).join(" "));
+    } else if (event.kind === "file_change") {
+      names.add("file_change");
+    } else if (event.kind === "tool_call") {
+      names.add(event.tool || "tool_call");
+    }
+  }
+  return [...names];
+}
+
+export function countToolCalls(events: AgentEvent[]): number {
+  return events.filter((e) => e.kind === "command" || e.kind === "tool_call").length;
+}
+
+export function changedPaths(events: AgentEvent[]): string[] {
+  return [...new Set(events.filter((e) => e.kind === "file_change" && e.path).map((e) => e.path!))];
+}
+
+// ============================================================================
+// Backend interface
+// ============================================================================
+
+export type AgentSpec =
+  | { type: "codex" }
+  | {
+      type: "command";
+      /** argv template; placeholders: {prompt} {promptFile} {model} {reasoningEffort} {sandbox} {workdir} {outputFile} {schemaFile} */
+      command: string;
+      /** stdout format: Codex JSONL, normalized AgentEvent JSONL, or plain text (default: text) */
+      format?: "codex" | "ndjson" | "text";
+      name?: string;
+    }
+  | {
+      type: "scripted";
+      /** Script JSON, relative to the workdir */
+      script: string;
+    };
+
+export interface AgentRunRequest {
+  /** Absolute workdir */
+  workdir: string;
+  prompt: string;
+  model: string;
+  /** Reasoning effort ("low", "medium", "high"); unset leaves the agent's default */
+  reasoningEffort?: string;
+  sandbox: string;
+  /** JSON schema for the structured final message */
+  schemaFile: string;
+  storyId?: string;
+  debug?: boolean;
+  timeoutMs?: number;
+  stallTimeoutMs?: number;
+  onEvent?: (event: AgentEvent) => void;
+  /** processRegistry label, so the run can be killed from outside (budgets) */
+  processLabel?: string;
+  /** Aborting kills the agent (immediate cancel) */
+  signal?: AbortSignal;
+}
+
+export interface AgentRunResult {
+  backend: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  /** Killed after reporting no progress for stallTimeoutMs */
+  stalled: boolean;
+  /** Spawn failure — the agent never ran */
+  spawnError?: string;
+  stdout: string;
+  events: AgentEvent[];
+  /** Final message (structured JSON when the agent honoured the schema) */
+  finalMessage: string;
+  sessionId?: string;
+  activityInsights: string;
+  activityStats: MonitorStats;
+}
+
+export interface AgentRun {
+  result: Promise<AgentRunResult>;
+  kill(): void;
+}
+
+export interface AgentBackend {
+  name: string;
+  start(request: AgentRunRequest): AgentRun;
+}
+
+const DEFAULT_TIMEOUT_MS = 600000;
+
+// ============================================================================
+// Process-backed runs (codex, command)
+// ============================================================================
+
+interface ProcessRunSpec {
+  backend: string;
+  command: string;
+  args: string[];
+  parseLine: (line: string) => AgentEvent[];
+  /** Stall detection: which stdout lines count as progress (default: Codex item.completed) */
+  isProgress?: (line: string) => boolean;
+  outputFile?: string;
+  /** Plain-text agents: the whole stdout is the final message */
+  stdoutIsFinalMessage?: boolean;
+  cleanup?: () => void;
+}
+
+function runProcess(spec: ProcessRunSpec, request: AgentRunRequest): AgentRun {
+  const events: AgentEvent[] = [];
+  const monitor = createEventMonitor();
+  let sessionId: string | undefined;
+  let stdout = "";
+  let lineBuffer = "";
+  let settled = false;
+  let stalled = false;
+
+  const child = spawn(spec.command, spec.args, {
+    cwd: request.workdir,
+    env: {
+      ...process.env,
+      PATH: `${process.env.HOME}/.bun/bin:${process.env.HOME}/.local/bin:${process.env.PATH}`,
+    },
+    stdio: ["pipe", "pipe", "pipe"],
+  });
+  child.stdin?.end();
+
+  processRegistry.register(child, request.processLabel || `${spec.backend}-iteration`);
+
+  const abort = () => {
+    if (!child.killed) child.kill("SIGTERM");
+  };
+  if (request.signal?.aborted) abort();
+  else request.signal?.addEventListener("abort", abort, { once: true });
+
+  const record = (event: AgentEvent) => {
+    events.push(event);
+    monitor.observe(event);
+    if (event.kind === "session" && event.sessionId) sessionId = event.sessionId;
+    try { request.onEvent?.(event); } catch { /* listeners must not break the run */ }
+  };
+
+  const progressMonitor = monitorProgress(child.stdout!, {
+    stallTimeoutMs: request.stallTimeoutMs ?? 120000,
+    onStall: () => {
+      stalled = true;
+      if (!child.killed) child.kill("SIGTERM");
+    },
+    isProgress: spec.isProgress,
+  });
+
+  child.stdout?.on("data", (data: Buffer) => {
+    const chunk = data.toString();
+    stdout += chunk;
+    lineBuffer += chunk;
+    const lines = lineBuffer.split("\n");
+    lineBuffer = lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) spec.parseLine(line).forEach(record);
+    }
+  });
+  // stderr is drained so the child never blocks on a full pipe
+  child.stderr?.on("data", () => {});
+
+  return {
+    kill: () => {
+      if (!child.killed) child.kill("SIGTERM");
+    },
+    result: new Promise<AgentRunResult>((resolveRun) => {
+      const finish = (exitCode: number | null, timedOut: boolean, spawnError?: string) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        request.signal?.removeEventListener("abort", abort);
+        progressMonitor.cancel();
+        monitor.stop();
+        if (lineBuffer.trim()) spec.parseLine(lineBuffer).forEach(record);
+
+        let finalMessage = "";
+        if (spec.outputFile) {
+          try {
+            if (existsSync(spec.outputFile)) {
+              finalMessage = readFileSync(spec.outputFile, "utf-8");
+              unlinkSync(spec.outputFile);
+            }
+          } catch { /* skip */ }
+        }
+        if (!finalMessage) {
+          const lastMessage = [...events].reverse().find((e) => e.kind === "message");
+          finalMessage = lastMessage?.text || (spec.stdoutIsFinalMessage ? stdout.trim().slice(-20000) : "");
+        }
+        spec.cleanup?.();
+
+        resolveRun({
+          backend: spec.backend,
+          exitCode,
+          timedOut,
+          stalled,
+          spawnError,
+          stdout,
+          events,
+          finalMessage,
+          sessionId,
+          activityInsights: monitor.getInsights(),
+          activityStats: monitor.getStats(),
+        });
+      };
+
+      // Timeout — preserve partial data from accumulated stdout
+      const timer = setTimeout(() => {
+        child.kill("SIGTERM");
+        finish(null, true);
+      }, request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+      child.on("close", (code: number | null) => finish(code, false));
+      child.on("error", (err: Error) => finish(null, false, err.message));
+    }),
+  };
+}
+
+export function createCodexBackend(): AgentBackend {
+  return {
+    name: "codex",
+    start(request) {
+      const outputFile = join(request.workdir, `.ralph-last-message-${Date.now()}.txt`);
+      const args = [
+        "exec",
+        "--sandbox", request.sandbox,
+        "--json",
+        "--output-schema", request.schemaFile,
+        "-o", outputFile,
+        "-C", request.workdir,
+        "-m", request.model,
+        ...(request.reasoningEffort ? ["-c", `model_reasoning_effort=${request.reasoningEffort}`] : []),
+        request.prompt,
+      ];
+      if (request.debug) {
+        console.log(`[openclaw-codex-ralph] Running: codex ${args.slice(0, 5).join(" ")}...`);
+      }
+      return runProcess({ backend: "codex", command: "codex", args, parseLine: parseCodexLine, outputFile }, request);
+    },
+  };
+}
+
+/** Split an argv template into words, honouring single and double quotes */
+export function splitCommandTemplate(template: string): string[] {
+  const words: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  let inWord = false;
+  for (const ch of template) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      else current += ch;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      inWord = true;
+    } else if (/\s/.test(ch)) {
+      if (inWord) words.push(current);
+      current = "";
+      inWord = false;
+    } else {
+      current += ch;
+      inWord = true;
+    }
+  }
+  if (inWord) words.push(current);
+  return words;
+}
+
+/**
+ * Generic CLI backend. Placeholders are substituted per argv word, so a prompt
+ * with spaces or quotes stays a single argument and never reaches a shell.
+ */
+export function createCommandBackend(spec: Extract<AgentSpec, { type: "command" }>): AgentBackend {
+  const name = spec.name || "command";
+  const format = spec.format || "text";
+  return {
+    name,
+    start(request) {
+      const stamp = Date.now();
+      const outputFile = join(request.workdir, `.ralph-last-message-${stamp}.txt`);
+      const promptFile = join(request.workdir, `.ralph-prompt-${stamp}.md`);
+      const template = splitCommandTemplate(spec.command);
+      const usesPromptFile = template.some((w) => w.includes("{promptFile}"));
+      if (usesPromptFile) writeFileSync(promptFile, request.prompt);
+
+      const values: Record<string, string> = {
+        prompt: request.prompt,
+        promptFile,
+        model: request.model,
+        reasoningEffort: request.reasoningEffort ?? "",
+        sandbox: request.sandbox,
+        workdir: request.workdir,
+        outputFile,
+        schemaFile: request.schemaFile,
+      };
+      const [command, ...args] = template.map((w) => w.replace(/\{(\w+)\}/g, (m, key: string) => values[key] ?? m));
+      if (request.debug) {
+        console.log(`[openclaw-codex-ralph] Running (${name}): ${command} ${args.length} args`);
+      }
+
+      return runProcess({
+        backend: name,
+        command: command || "false",
+        args,
+        parseLine: format === "codex" ? parseCodexLine : format === "ndjson" ? parseNormalizedLine : () => [],
+        // Without a structured stream, any output line counts as progress
+        isProgress: format === "codex" ? undefined : format === "ndjson" ? (line) => parseNormalizedLine(line).length > 0 : () => true,
+        outputFile,
+        stdoutIsFinalMessage: format === "text",
+        cleanup: usesPromptFile ? () => { try { unlinkSync(promptFile); } catch { /* ignore */ } } : undefined,
+      }, request);
+    },
+  };
+}
+
+// ============================================================================
+// Scripted backend
+// ============================================================================
+
+export interface ScriptedStep {
+  /** Only used for this story (default: any story) */
+  storyId?: string;
+  /** Files written into the workdir, relative path → content */
+  files?: Record<string, string>;
+  /** Extra events to emit (file_change events for `files` are added automatically) */
+  events?: AgentEvent[];
+  /** Objects are JSON-encoded, i.e. a structured final message */
+  finalMessage?: string | Record<string, unknown>;
+  exitCode?: number;
+}
+
+/**
+ * Deterministic backend: replays steps from a script, consuming the first
+ * unused step that matches the story. Exhausting the script fails the run.
+ */
+export function createScriptedBackend(scriptPath: string): AgentBackend {
+  const consumed = new Set<number>();
+  let runs = 0;
+
+  return {
+    name: "scripted",
+    start(request) {
+      const monitor = createEventMonitor();
+      const events: AgentEvent[] = [];
+      const record = (event: AgentEvent) => {
+        events.push(event);
+        monitor.observe(event);
+        try { request.onEvent?.(event); } catch { /* listeners must not break the run */ }
+      };
+
+      let exitCode = 1;
+      let finalMessage = "";
+      const sessionId = `scripted-${++runs}`;
+      record({ kind: "session", sessionId });
+
+      try {
+        const file = isAbsolute(scriptPath) ? scriptPath : resolve(request.workdir, scriptPath);
+        const raw = JSON.parse(readFileSync(file, "utf-8")) as ScriptedStep[] | { steps: ScriptedStep[] };
+        const steps = Array.isArray(raw) ? raw : raw.steps;
+        const index = steps.findIndex((s, i) => !consumed.has(i) && (!s.storyId || s.storyId === request.storyId));
+
+        if (index === -1) {
+          record({ kind: "error", text: `Script exhausted: no step left for story ${request.storyId || "(none)"}` });
+        } else {
+          consumed.add(index);
+          const step = steps[index]!;
+          for (const [path, content] of Object.entries(step.files || {})) {
+            const target = join(request.workdir, path);
+            mkdirSync(dirname(target), { recursive: true });
+            writeFileSync(target, content);
+            record({ kind: "file_change", path });
+          }
+          (step.events || []).forEach(record);
+          finalMessage = typeof step.finalMessage === "string" ? step.finalMessage : step.finalMessage ? JSON.stringify(step.finalMessage) : "";
+          if (finalMessage) record({ kind: "message", text: finalMessage });
+          exitCode = step.exitCode ?? 0;
+        }
+      } catch (err) {
+        record({ kind: "error", text: `Failed to run script ${scriptPath}: ${(err as Error).message}` });
+      }
+      monitor.stop();
+
+      return {
+        kill: () => {},
+        result: Promise.resolve({
+          backend: "scripted",
+          exitCode,
+          timedOut: false,
+          stalled: false,
+          stdout: events.map((e) => JSON.stringify(e)).join("\n"),
+          events,
+          finalMessage,
+          sessionId,
+          activityInsights: monitor.getInsights(),
+          activityStats: monitor.getStats(),
+        }),
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+// Scripted backends keep their cursor across iterations, so instances are cached per spec
+const backendCache = new Map<string, AgentBackend>();
+
+export function getAgentBackend(spec: AgentSpec | undefined, workdir: string): AgentBackend {
+  const resolved = spec || { type: "codex" as const };
+  const key = resolved.type === "scripted"
+    ? `scripted:${isAbsolute(resolved.script) ? resolved.script : resolve(workdir, resolved.script)}`
+    : JSON.stringify(resolved);
+
+  const cached = backendCache.get(key);
+  if (cached) return cached;
+
+  const backend = resolved.type === "command"
+    ? createCommandBackend(resolved)
+    : resolved.type === "scripted"
+      ? createScriptedBackend(resolved.script)
+      : createCodexBackend();
+  backendCache.set(key, backend);
+  return backend;
+}
+
+/**
+ * Parse an agent spec from tool input: "codex", a JSON object string, or an object.
+ * Returns an error string for anything malformed.
+ */
+export function parseAgentSpec(raw: unknown): AgentSpec | string {
+  let value = raw;
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (trimmed === "codex") return { type: "codex" };
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      return `agent must be "codex" or a JSON object, got: ${trimmed.slice(0, 100)}`;
+    }
+  }
+  if (!value || typeof value !== "object") return "agent must be an object with a type";
+
+  const spec = value as Record<string, unknown>;
+  switch (spec.type) {
+    case "codex":
+      return { type: "codex" };
+    case "command":
+      if (typeof spec.command !== "string" || !spec.command.trim()) return "command agent needs a command template";
+      if (spec.format !== undefined && !["codex", "ndjson", "text"].includes(spec.format as string)) {
+        return `command agent format must be codex, ndjson or text, got: ${String(spec.format)}`;
+      }
+      return {
+        type: "command",
+        command: spec.command,
+        format: spec.format as "codex" | "ndjson" | "text" | undefined,
+        name: typeof spec.name === "string" ? spec.name : undefined,
+      };
+    case "scripted":
+      if (typeof spec.script !== "string" || !spec.script.trim()) return "scripted agent needs a script path";
+      return { type: "scripted", script: spec.script };
+    default:
+      return `Unknown agent type: ${String(spec.type)} (expected codex, command or scripted)`;
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { execSync } from "node:child_process";
+import {
+  storyBranchName,
+  loopBranchName,
+  getCurrentBranch,
+  checkoutStoryBranch,
+  checkoutLoopBranch,
+  buildStoryReviewSummary,
+  writeStoryBundle,
+} from "./branch-helpers.js";
+
+const TMP = join(process.cwd(), ".test-branch-helpers");
+const BUNDLES = join(process.cwd(), ".test-branch-bundles");
+const CLONE = join(process.cwd(), ".test-branch-clone");
+
+function initGit(dir: string) {
+  execSync("git init -b main", { cwd: dir, stdio: "pipe" });
+  execSync("git config user.email test@test.com", { cwd: dir, stdio: "pipe" });
+  execSync("git config user.name Test", { cwd: dir, stdio: "pipe" });
+  writeFileSync(join(dir, "app.ts"), "export const a = 1;\n");
+  execSync("git add -A && git commit -m init", { cwd: dir, stdio: "pipe" });
+}
+
+function commit(dir: string, file: string, content: string): string {
+  writeFileSync(join(dir, file), content);
+  execSync(`git add -A && git commit -m "add ${file}"`, { cwd: dir, stdio: "pipe" });
+  return execSync("git rev-parse --short HEAD", { cwd: dir, encoding: "utf-8" }).trim();
+}
+
+beforeEach(() => {
+  for (const dir of [TMP, BUNDLES, CLONE]) rmSync(dir, { recursive: true, force: true });
+  mkdirSync(TMP, { recursive: true });
+  initGit(TMP);
+});
+
+afterEach(() => {
+  for (const dir of [TMP, BUNDLES, CLONE]) rmSync(dir, { recursive: true, force: true });
+});
+
+describe("branch names", () => {
+  it("sanitizes ids into valid refs", () => {
+    expect(storyBranchName("story-abc123")).toBe("ralph/story-abc123");
+    expect(storyBranchName("weird id: ~^x..y")).toBe("ralph/weird-id-x.y");
+    expect(loopBranchName("ralph-lx1-abc")).toBe("ralph/loop-ralph-lx1-abc");
+  });
+});
+
+describe("checkoutStoryBranch", () => {
+  it("carries uncommitted changes and stacks on the previous story branch", () => {
+    writeFileSync(join(TMP, "one.ts"), "export const one = 1;\n");
+    const first = checkoutStoryBranch(TMP, "story-one");
+    expect(first).toEqual({ branch: "ralph/story-one", parent: "main" });
+    expect(existsSync(join(TMP, "one.ts"))).toBe(true);
+    execSync("git add -A && git commit -m one", { cwd: TMP, stdio: "pipe" });
+
+    const second = checkoutStoryBranch(TMP, "story-two");
+    expect(second).toEqual({ branch: "ralph/story-two", parent: "ralph/story-one" });
+    expect(getCurrentBranch(TMP)).toBe("ralph/story-two");
+  });
+
+  it("resets an existing branch from an earlier attempt to HEAD", () => {
+    execSync("git branch ralph/story-one", { cwd: TMP, stdio: "pipe" });
+    commit(TMP, "main-only.ts", "x\n");
+    checkoutStoryBranch(TMP, "story-one");
+    expect(existsSync(join(TMP, "main-only.ts"))).toBe(true);
+  });
+});
+
+describe("checkoutLoopBranch", () => {
+  it("creates the branch once and reuses it", () => {
+    expect(checkoutLoopBranch(TMP, "job-1")).toEqual({ branch: "ralph/loop-job-1", parent: "main" });
+    const hash = commit(TMP, "story.ts", "export const s = 1;\n");
+    expect(checkoutLoopBranch(TMP, "job-1")).toEqual({ branch: "ralph/loop-job-1", parent: null });
+
+    execSync("git checkout -q main", { cwd: TMP, stdio: "pipe" });
+    checkoutLoopBranch(TMP, "job-1");
+    expect(execSync("git rev-parse --short HEAD", { cwd: TMP, encoding: "utf-8" }).trim()).toBe(hash);
+  });
+});
+
+describe("review bundles", () => {
+  it("builds a summary with criteria, warnings and demo", () => {
+    const summary = buildStoryReviewSummary({
+      storyId: "story-x",
+      storyTitle: "Add login",
+      acceptanceCriteria: ["Form validates email"],
+      branch: "ralph/story-x",
+      parent: "main",
+      verificationWarnings: ["No test files modified"],
+      demoFile: "demos/story-x.md",
+      issueNumber: 7,
+    });
+    expect(summary).toContain("- [ ] Form validates email");
+    expect(summary).toContain("based on `main`");
+    expect(summary).toContain("No test files modified");
+    expect(summary).toContain("demos/story-x.md");
+    expect(summary).toContain("Closes #7");
+  });
+
+  it("writes a patch that applies with git am", () => {
+    execSync(`git clone -q "${TMP}" "${CLONE}"`, { stdio: "pipe" });
+    execSync("git config user.email test@test.com && git config user.name Test", { cwd: CLONE, stdio: "pipe" });
+
+    const hash = commit(TMP, "feature.ts", "export const feature = true;\n");
+    const bundle = writeStoryBundle(TMP, hash, "## Story: Feature", { dir: BUNDLES, name: "story-feature" });
+    expect(bundle).not.toBeNull();
+    expect(readFileSync(bundle!.summaryFile, "utf-8")).toContain(`git am ${bundle!.patchFile}`);
+
+    execSync(`git am -q "${bundle!.patchFile}"`, { cwd: CLONE, stdio: "pipe" });
+    expect(readFileSync(join(CLONE, "feature.ts"), "utf-8")).toContain("feature");
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Branch strategies and review bundles for Ralph commits.
+ *
+ * - current:   commit onto whatever branch is checked out (legacy behavior)
+ * - per-story: each passing story is committed on its own `ralph/<story-id>` branch,
+ *              forked from the branch that was checked out — so branches stack and
+ *              later stories still build on earlier ones
+ * - per-loop:  the loop switches to `ralph/loop-<job-id>` once and commits every story there
+ *
+ * Committed stories are then either pushed and opened as a PR (gh-issues.ts) or,
+ * offline, written as a `.patch` + markdown bundle for reviewers to apply by hand.
+ */
+
+import { execSync } from "node:child_process";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { homedir } from "node:os";
+
+export type BranchStrategy = "current" | "per-story" | "per-loop";
+
+export const RALPH_BUNDLES_DIR = join(homedir(), ".openclaw", "ralph-bundles");
+
+export interface BranchCheckout {
+  branch: string;
+  /** Branch that was checked out before switching — the PR base (null when detached or unknown) */
+  parent: string | null;
+}
+
+export interface StoryReviewInfo {
+  storyId: string;
+  storyTitle: string;
+  description?: string;
+  acceptanceCriteria?: string[];
+  branch?: string;
+  parent?: string | null;
+  commitHash?: string;
+  filesModified?: string[];
+  summary?: string;
+  verificationWarnings?: string[];
+  demoFile?: string;
+  issueNumber?: number;
+}
+
+export interface StoryBundle {
+  patchFile: string;
+  summaryFile: string;
+}
+
+function git(cmd: string, cwd: string, timeout = 30000): string {
+  return execSync(`git ${cmd}`, {
+    cwd,
+    encoding: "utf-8",
+    timeout,
+    stdio: ["pipe", "pipe", "pipe"],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+/** Turn an arbitrary id into something git accepts as a ref component */
+function toRefComponent(id: string): string {
+  return id.replace(/[^A-Za-z0-9._-]+/g, "-").replace(/\.{2,}/g, ".").replace(/^[-.]+|[-.]+$/g, "").replace(/\.lock$/, "") || "story";
+}
+
+export function storyBranchName(storyId: string): string {
+  return `ralph/${toRefComponent(storyId)}`;
+}
+
+export function loopBranchName(loopId: string): string {
+  return `ralph/loop-${toRefComponent(loopId)}`;
+}
+
+/** Checked-out branch name, or null when detached / not a repo */
+export function getCurrentBranch(workdir: string): string | null {
+  try {
+    const branch = git("rev-parse --abbrev-ref HEAD", workdir).trim();
+    return branch && branch !== "HEAD" ? branch : null;
+  } catch {
+    return null;
+  }
+}
+
+function branchExists(workdir: string, branch: string): boolean {
+  try {
+    git(`rev-parse --verify --quiet "refs/heads/${branch}"`, workdir);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Switch to a story branch at the current HEAD, carrying uncommitted changes.
+ * An existing branch of the same name (an earlier attempt) is reset to HEAD.
+ */
+export function checkoutStoryBranch(workdir: string, storyId: string): BranchCheckout | null {
+  const branch = storyBranchName(storyId);
+  const parent = getCurrentBranch(workdir);
+  if (parent === branch) return { branch, parent: null };
+  try {
+    git(`checkout -q -B "${branch}"`, workdir);
+    return { branch, parent };
+  } catch (err) {
+    console.error(`[openclaw-codex-ralph] Failed to check out ${branch}: ${(err as Error).message?.slice(0, 200)}`);
+    return null;
+  }
+}
+
+/**
+ * Switch to the loop's branch, creating it at the current HEAD the first time.
+ * Resumed loops find it already existing and just check it out.
+ */
+export function checkoutLoopBranch(workdir: string, loopId: string): BranchCheckout | null {
+  const branch = loopBranchName(loopId);
+  const parent = getCurrentBranch(workdir);
+  if (parent === branch) return { branch, parent: null };
+  try {
+    git(branchExists(workdir, branch) ? `checkout -q "${branch}"` : `checkout -q -b "${branch}"`, workdir);
+    return { branch, parent };
+  } catch (err) {
+    console.error(`[openclaw-codex-ralph] Failed to check out ${branch}: ${(err as Error).message?.slice(0, 200)}`);
+    return null;
+  }
+}
+
+/** Push a branch to origin (sets upstream). Story branches may be reset on retry, hence the lease. Best-effort. */
+export function pushBranch(workdir: string, branch: string): boolean {
+  try {
+    git(`push -q -u --force-with-lease origin "${branch}"`, workdir, 120000);
+    return true;
+  } catch (err) {
+    console.error(`[openclaw-codex-ralph] Failed to push ${branch}: ${(err as Error).message?.slice(0, 200)}`);
+    return false;
+  }
+}
+
+/** Markdown review summary — used as the PR body and as the offline bundle's README */
+export function buildStoryReviewSummary(info: StoryReviewInfo): string {
+  const lines = [`## Story: ${info.storyTitle}`, `ID: \`${info.storyId}\``];
+  if (info.branch) lines.push(`Branch: \`${info.branch}\`${info.parent ? ` (based on \`${info.parent}\`)` : ""}`);
+  if (info.commitHash) lines.push(`Commit: ${info.commitHash}`);
+  if (info.issueNumber) lines.push(`Closes #${info.issueNumber}`);
+
+  if (info.description) lines.push("", info.description);
+
+  if (info.acceptanceCriteria?.length) {
+    lines.push("", "### Acceptance Criteria", ...info.acceptanceCriteria.map((c) => `- [ ] ${c}`));
+  }
+
+  if (info.summary) lines.push("", "### Summary", info.summary);
+
+  if (info.filesModified?.length) {
+    lines.push("", "### Files", ...info.filesModified.map((f) => `- \`${f}\``));
+  }
+
+  if (info.verificationWarnings?.length) {
+    lines.push("", "### ⚠️ Verification Warnings", ...info.verificationWarnings.map((w) => `- ${w}`));
+  }
+
+  if (info.demoFile) lines.push("", "### Demo", `See \`${info.demoFile}\``);
+
+  lines.push("", "---", "_Generated by Ralph loop._");
+  return lines.join("\n");
+}
+
+/**
+ * Write an offline review bundle for a committed story: `<name>.patch`
+ * (git format-patch of the commit, apply with `git am`) and `<name>.md`.
+ */
+export function writeStoryBundle(
+  workdir: string,
+  commitHash: string,
+  summary: string,
+  bundle: { dir: string; name: string }
+): StoryBundle | null {
+  try {
+    const patch = git(`format-patch -1 --stdout ${commitHash}`, workdir);
+    mkdirSync(bundle.dir, { recursive: true });
+    const patchFile = join(bundle.dir, `${bundle.name}.patch`);
+    const summaryFile = join(bundle.dir, `${bundle.name}.md`);
+    writeFileSync(patchFile, patch);
+    writeFileSync(summaryFile, `${summary}\n\nApply with:\n\n\`\`\`\ngit am ${patchFile}\n\`\`\`\n`);
+    return { patchFile, summaryFile };
+  } catch (err) {
+    console.error(`[openclaw-codex-ralph] Failed to write review bundle for ${commitHash}: ${(err as Error).message?.slice(0, 200)}`);
+    return null;
+  }
+}
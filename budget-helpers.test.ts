@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  parseLoopBudget,
+  checkLoopBudget,
+  checkStoryBudget,
+  storySpend,
+  watchBudget,
+  type BudgetExceeded,
+} from "./budget-helpers.js";
+import type { TokenUsage } from "./usage-helpers.js";
+
+const usage = (inputTokens: number, outputTokens: number): TokenUsage => ({ inputTokens, cachedInputTokens: 0, outputTokens });
+const prices = { m: { input: 1, output: 10 }, big: { input: 10, output: 100 } };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("parseLoopBudget", () => {
+  it("picks budget params and rejects bad values", () => {
+    expect(parseLoopBudget({ workdir: "/x", maxTokens: 1000, maxCost: 2.5 })).toEqual({ maxTokens: 1000, maxCost: 2.5 });
+    expect(parseLoopBudget({ workdir: "/x" })).toBeUndefined();
+    expect(parseLoopBudget({ maxDurationMs: -1 })).toContain("maxDurationMs");
+    expect(parseLoopBudget({ maxStoryCost: "5" })).toContain("maxStoryCost");
+  });
+});
+
+describe("between-iteration checks", () => {
+  it("reports the first loop ceiling crossed", () => {
+    expect(checkLoopBudget(undefined, 1e9, { usage: usage(1e9, 0) })).toBeNull();
+    expect(checkLoopBudget({ maxDurationMs: 1000 }, 999, {})).toBeNull();
+    expect(checkLoopBudget({ maxDurationMs: 1000 }, 1000, {})).toMatchObject({ budget: "duration", limit: 1000 });
+    expect(checkLoopBudget({ maxTokens: 100 }, 0, { usage: usage(60, 40) })).toMatchObject({ budget: "tokens", used: 100 });
+    expect(checkLoopBudget({ maxCost: 1 }, 0, { costUsd: 1.5 })?.message).toContain("$1.5000");
+  });
+
+  it("checks per-story ceilings against the story's own spend", () => {
+    const results = [
+      { storyId: "a", usage: usage(500, 100), costUsd: 0.4 },
+      { storyId: "b", usage: usage(5000, 1000), costUsd: 4 },
+      { storyId: "a", usage: usage(500, 100), costUsd: 0.4 },
+    ];
+    const spentA = storySpend(results, "a");
+    expect(spentA.usage).toEqual(usage(1000, 200));
+    expect(checkStoryBudget({ maxStoryTokens: 2000 }, "a", spentA)).toBeNull();
+    expect(checkStoryBudget({ maxStoryCost: 0.8 }, "a", spentA)).toMatchObject({ budget: "story_cost", storyId: "a" });
+    expect(checkStoryBudget({ maxStoryTokens: 2000 }, "b", storySpend(results, "b"))).toMatchObject({ budget: "story_tokens", used: 6000 });
+  });
+});
+
+describe("watchBudget", () => {
+  it("trips the duration ceiling mid-iteration", () => {
+    vi.useFakeTimers();
+    const tripped: BudgetExceeded[] = [];
+    const watch = watchBudget({ maxDurationMs: 5000 }, {
+      loopStartedAt: Date.now() - 4000, loopSpent: {}, storyId: "a", storySpent: {}, model: "m", prices,
+      onExceeded: (e) => tripped.push(e),
+    });
+    vi.advanceTimersByTime(999);
+    expect(tripped).toHaveLength(0);
+    vi.advanceTimersByTime(1);
+    expect(tripped.map((e) => e.budget)).toEqual(["duration"]);
+    expect(watch.stop()?.budget).toBe("duration");
+  });
+
+  it("adds reported usage on top of what the loop and story already spent", () => {
+    const tripped: BudgetExceeded[] = [];
+    const watch = watchBudget({ maxCost: 1, maxStoryTokens: 10_000 }, {
+      loopStartedAt: Date.now(), loopSpent: { costUsd: 0.5 }, storyId: "a", storySpent: { usage: usage(8000, 0) }, model: "m", prices,
+      onExceeded: (e) => tripped.push(e),
+    });
+    watch.observe({ kind: "command", command: "ls" });
+    watch.observe({ kind: "usage", usage: { inputTokens: 1000, outputTokens: 500 } });
+    expect(tripped).toHaveLength(0);
+    // 2000 input + 1000 output: $0.002 + $0.01 keeps the loop under $1, but the story crosses 10k tokens
+    watch.observe({ kind: "usage", usage: { inputTokens: 1000, outputTokens: 500 } });
+    expect(tripped).toEqual([expect.objectContaining({ budget: "story_tokens", storyId: "a", used: 11_000 })]);
+
+    watch.observe({ kind: "usage", usage: { inputTokens: 1_000_000, outputTokens: 0 } });
+    expect(tripped).toHaveLength(1);
+    expect(watch.stop()?.budget).toBe("story_tokens");
+  });
+
+  it("prices usage at the model of the session that reported it", () => {
+    const tripped: BudgetExceeded[] = [];
+    const watch = watchBudget({ maxStoryCost: 0.05 }, {
+      loopStartedAt: Date.now(), loopSpent: {}, storyId: "a", storySpent: {}, model: "m", prices,
+      onExceeded: (e) => tripped.push(e),
+    });
+    // $0.001 + $0.01 at the watch's model
+    watch.observe({ kind: "usage", usage: { inputTokens: 1000, outputTokens: 1000 } });
+    expect(tripped).toHaveLength(0);
+    // The same usage from an escalated session costs ten times as much
+    watch.observe({ kind: "usage", usage: { inputTokens: 1000, outputTokens: 1000 } }, "big");
+    expect(tripped).toEqual([expect.objectContaining({ budget: "story_cost", storyId: "a" })]);
+    expect(tripped[0]?.used).toBeCloseTo(0.121);
+  });
+
+  it("is inert without a budget", () => {
+    const onExceeded = vi.fn();
+    const watch = watchBudget(undefined, { loopStartedAt: 0, loopSpent: {}, storyId: "a", storySpent: {}, model: "m", prices, onExceeded });
+    watch.observe({ kind: "usage", usage: { inputTokens: 1e9, outputTokens: 1e9 } });
+    expect(watch.stop()).toBeNull();
+    expect(onExceeded).not.toHaveBeenCalled();
+  });
+});
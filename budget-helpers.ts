@@ -0,0 +1,180 @@
+/**
+ * Loop budgets — wall-clock, token and cost ceilings for a whole loop, plus
+ * token and cost ceilings per story.
+ *
+ * Budgets are checked between iterations (the loop stops, or the story is
+ * skipped) and watched during an iteration: a BudgetWatch follows the agent's
+ * usage events and a deadline timer, and reports the first ceiling crossed so
+ * the caller can kill the running agent.
+ */
+
+import type { AgentEvent } from "./agent-backends.js";
+import { addUsage, computeCost, emptyUsage, usageFromEvents, type ModelPriceTable, type TokenUsage } from "./usage-helpers.js";
+
+export interface LoopBudget {
+  /** Wall-clock time since the loop started */
+  maxDurationMs?: number;
+  /** Input + output tokens across the loop */
+  maxTokens?: number;
+  /** USD across the loop */
+  maxCost?: number;
+  /** Input + output tokens one story may spend within the loop */
+  maxStoryTokens?: number;
+  /** USD one story may spend within the loop */
+  maxStoryCost?: number;
+}
+
+export type BudgetName = "duration" | "tokens" | "cost" | "story_tokens" | "story_cost";
+
+export interface BudgetExceeded {
+  budget: BudgetName;
+  limit: number;
+  used: number;
+  /** Set for per-story budgets */
+  storyId?: string;
+  message: string;
+}
+
+export interface Spend {
+  usage?: TokenUsage;
+  costUsd?: number;
+}
+
+export interface BudgetWatch {
+  /** model prices the event's usage when the session runs another model than the watch's (escalation, reviewer) */
+  observe(event: AgentEvent, model?: string): void;
+  /** Stop the deadline timer; returns the ceiling crossed during the run, if any */
+  stop(): BudgetExceeded | null;
+}
+
+const BUDGET_PARAMS = ["maxDurationMs", "maxTokens", "maxCost", "maxStoryTokens", "maxStoryCost"] as const;
+
+export function totalTokens(usage?: TokenUsage): number {
+  return usage ? usage.inputTokens + usage.outputTokens : 0;
+}
+
+/** Pick budget fields out of tool params; undefined when none are set. Returns an error string for bad values. */
+export function parseLoopBudget(params: Record<string, unknown>): LoopBudget | undefined | string {
+  const budget: LoopBudget = {};
+  for (const key of BUDGET_PARAMS) {
+    const value = params[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !(value > 0)) return `${key} must be a positive number`;
+    budget[key] = value;
+  }
+  return Object.keys(budget).length > 0 ? budget : undefined;
+}
+
+export function isStoryBudget(exceeded: BudgetExceeded): boolean {
+  return exceeded.storyId !== undefined;
+}
+
+/** Loop-wide ceilings: duration, tokens, cost */
+export function checkLoopBudget(budget: LoopBudget | undefined, elapsedMs: number, spent: Spend): BudgetExceeded | null {
+  if (!budget) return null;
+  if (budget.maxDurationMs !== undefined && elapsedMs >= budget.maxDurationMs) {
+    return { budget: "duration", limit: budget.maxDurationMs, used: elapsedMs, message: `Loop ran ${Math.round(elapsedMs / 1000)}s of its ${Math.round(budget.maxDurationMs / 1000)}s budget` };
+  }
+  const tokens = totalTokens(spent.usage);
+  if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+    return { budget: "tokens", limit: budget.maxTokens, used: tokens, message: `Loop used ${tokens} of its ${budget.maxTokens} token budget` };
+  }
+  if (budget.maxCost !== undefined && (spent.costUsd ?? 0) >= budget.maxCost) {
+    return { budget: "cost", limit: budget.maxCost, used: spent.costUsd!, message: `Loop spent $${spent.costUsd!.toFixed(4)} of its $${budget.maxCost} budget` };
+  }
+  return null;
+}
+
+/** Per-story ceilings: tokens, cost */
+export function checkStoryBudget(budget: LoopBudget | undefined, storyId: string, spent: Spend): BudgetExceeded | null {
+  if (!budget) return null;
+  const tokens = totalTokens(spent.usage);
+  if (budget.maxStoryTokens !== undefined && tokens >= budget.maxStoryTokens) {
+    return { budget: "story_tokens", limit: budget.maxStoryTokens, used: tokens, storyId, message: `Story used ${tokens} of its ${budget.maxStoryTokens} token budget` };
+  }
+  if (budget.maxStoryCost !== undefined && (spent.costUsd ?? 0) >= budget.maxStoryCost) {
+    return { budget: "story_cost", limit: budget.maxStoryCost, used: spent.costUsd!, storyId, message: `Story spent $${spent.costUsd!.toFixed(4)} of its $${budget.maxStoryCost} budget` };
+  }
+  return null;
+}
+
+/** What one story has spent so far, from the loop's iteration results */
+export function storySpend(results: Array<{ storyId: string } & Spend>, storyId: string): Spend {
+  const spend: Spend = {};
+  for (const r of results) {
+    if (r.storyId !== storyId) continue;
+    if (r.usage) spend.usage = addUsage(spend.usage ?? emptyUsage(), r.usage);
+    if (r.costUsd !== undefined) spend.costUsd = (spend.costUsd ?? 0) + r.costUsd;
+  }
+  return spend;
+}
+
+/**
+ * Watch one iteration against the budget. The deadline timer covers the duration
+ * ceiling; usage events are added on top of what the loop and story had already
+ * spent. onExceeded fires once, for the first ceiling crossed.
+ */
+export function watchBudget(
+  budget: LoopBudget | undefined,
+  opts: {
+    loopStartedAt: number;
+    loopSpent: Spend;
+    storyId: string;
+    storySpent: Spend;
+    /** Prices usage observed without a model of its own */
+    model: string;
+    prices: ModelPriceTable;
+    onExceeded: (exceeded: BudgetExceeded) => void;
+  }
+): BudgetWatch {
+  let exceeded: BudgetExceeded | null = null;
+  // By model, so each session is priced at its own rate
+  const usageEvents = new Map<string, AgentEvent[]>();
+
+  const trip = (over: BudgetExceeded | null) => {
+    if (!over || exceeded) return;
+    exceeded = over;
+    opts.onExceeded(over);
+  };
+
+  const runSpend = (): { usage: TokenUsage; costUsd?: number } => {
+    let usage = emptyUsage();
+    let costUsd: number | undefined;
+    for (const [model, events] of usageEvents) {
+      const modelUsage = usageFromEvents(events)!;
+      usage = addUsage(usage, modelUsage);
+      const cost = computeCost(modelUsage, model, opts.prices);
+      if (cost !== undefined) costUsd = (costUsd ?? 0) + cost;
+    }
+    return { usage, costUsd };
+  };
+
+  const withRun = (spent: Spend, run: { usage: TokenUsage; costUsd?: number }): Spend => ({
+    usage: addUsage(spent.usage ?? emptyUsage(), run.usage),
+    costUsd: run.costUsd === undefined ? spent.costUsd : (spent.costUsd ?? 0) + run.costUsd,
+  });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  if (budget?.maxDurationMs !== undefined) {
+    const remaining = Math.max(0, opts.loopStartedAt + budget.maxDurationMs - Date.now());
+    timer = setTimeout(() => trip(checkLoopBudget(budget, Date.now() - opts.loopStartedAt, opts.loopSpent)), remaining);
+  }
+
+  return {
+    observe(event, model = opts.model) {
+      if (!budget || exceeded || event.kind !== "usage") return;
+      usageEvents.set(model, [...(usageEvents.get(model) ?? []), event]);
+      const run = runSpend();
+      const candidates = [
+        checkLoopBudget({ ...budget, maxDurationMs: undefined }, 0, withRun(opts.loopSpent, run)),
+        checkStoryBudget(budget, opts.storyId, withRun(opts.storySpent, run)),
+      ];
+      // Only going past a token/cost ceiling kills — a run that lands exactly on it is left to finish
+      trip(candidates.find((over) => over && over.used > over.limit) ?? null);
+    },
+    stop() {
+      if (timer) clearTimeout(timer);
+      return exceeded;
+    },
+  };
+}
@@ -205,18 +205,23 @@ function extractTestInventory(workdir: string): TestFileInfo[] {
     } catch {
       continue;
     }
-    const describes: string[] = [];
-    let testCount = 0;
-    for (const line of content.split("\n")) {
-      const descMatch = line.match(/describe\s*\(\s*["'`]([^"'`]+)/);
-      if (descMatch && descMatch[1]) describes.push(descMatch[1]);
-      if (/\b(it|test)\s*\(/.test(line)) testCount++;
-    }
-    inventory.push({ file: relative(workdir, file), describes, testCount });
+    inventory.push({ file: relative(workdir, file), ...summarizeTestFile(content) });
   }
   return inventory;
 }
 
+/** describe() names and it()/test() count in one test file's source */
+export function summarizeTestFile(content: string): { describes: string[]; testCount: number } {
+  const describes: string[] = [];
+  let testCount = 0;
+  for (const line of content.split("\n")) {
+    const descMatch = line.match(/describe\s*\(\s*["'`]([^"'`]+)/);
+    if (descMatch && descMatch[1]) describes.push(descMatch[1]);
+    if (/\b(it|test)\s*\(/.test(line)) testCount++;
+  }
+  return { describes, testCount };
+}
+
 function findAllTestFiles(dir: string, depth = 4): string[] {
   if (depth <= 0) return [];
   const files: string[] = [];
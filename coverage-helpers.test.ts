@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, rmSync, utimesSync } from "node:fs";
+import { join } from "node:path";
+import { execSync } from "node:child_process";
+import { addedLines, newLineCoverage, readCoverageReport, formatLineRanges } from "./coverage-helpers.js";
+
+const TMP = join(process.cwd(), ".test-coverage-helpers");
+
+beforeEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+  mkdirSync(join(TMP, "coverage"), { recursive: true });
+  execSync("git init -q && git config user.email t@t && git config user.name t", { cwd: TMP, stdio: "pipe" });
+  writeFileSync(join(TMP, ".gitignore"), "coverage/\n");
+  writeFileSync(join(TMP, "math.ts"), "export const one = 1;\nexport const two = 2;\n");
+  execSync("git add -A && git commit -qm init", { cwd: TMP, stdio: "pipe" });
+});
+
+afterEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+});
+
+describe("addedLines", () => {
+  it("takes added lines from diff hunks and all lines of new files", () => {
+    writeFileSync(join(TMP, "math.ts"), "export const one = 1;\nexport const onePointFive = 1.5;\nexport const two = 2;\nexport const three = 3;\n");
+    writeFileSync(join(TMP, "extra.ts"), "export const a = 1;\nexport const b = 2;");
+
+    expect(Object.fromEntries(addedLines(TMP))).toEqual({ "math.ts": [2, 4], "extra.ts": [1, 2] });
+  });
+});
+
+describe("coverage reports", () => {
+  const added = new Map([["math.ts", [2, 3, 4]], ["fresh.ts", [1]], ["math.test.ts", [1]]]);
+
+  it("reads istanbul coverage-final.json by statement start line", () => {
+    writeFileSync(join(TMP, "coverage", "coverage-final.json"), JSON.stringify({
+      [join(TMP, "math.ts")]: {
+        path: join(TMP, "math.ts"),
+        statementMap: { 0: { start: { line: 1 }, end: { line: 1 } }, 1: { start: { line: 2 }, end: { line: 2 } }, 2: { start: { line: 4 }, end: { line: 4 } } },
+        s: { 0: 1, 1: 3, 2: 0 },
+      },
+    }));
+
+    const coverage = newLineCoverage(readCoverageReport(TMP)!, added);
+    expect(coverage).toMatchObject({ format: "istanbul", covered: 1, total: 2, percent: 50, uncovered: [{ file: "math.ts", lines: [4] }] });
+    // Source files the report never saw are called out; tests are not
+    expect(coverage.unreported).toEqual(["fresh.ts"]);
+  });
+
+  it("falls back to whole-file coverage for summary reports", () => {
+    writeFileSync(join(TMP, "coverage", "coverage-summary.json"), JSON.stringify({
+      total: { lines: { total: 10, covered: 9, pct: 90 } },
+      [join(TMP, "math.ts")]: { lines: { total: 4, covered: 3, pct: 75 } },
+    }));
+
+    expect(newLineCoverage(readCoverageReport(TMP)!, added)).toMatchObject({ format: "summary", covered: 3, total: 4, percent: 75, uncovered: [] });
+  });
+
+  it("ignores reports older than the validation run", () => {
+    const report = join(TMP, "coverage", "lcov.info");
+    writeFileSync(report, "SF:math.ts\nDA:2,1\nend_of_record\n");
+    const past = new Date(Date.now() - 60_000);
+    utimesSync(report, past, past);
+
+    expect(readCoverageReport(TMP, undefined, Date.now() - 1000)).toBeUndefined();
+    expect(readCoverageReport(TMP, "coverage/lcov.info")?.files.get("math.ts")?.lines?.get(2)).toBe(1);
+  });
+
+  it("formats line ranges", () => {
+    expect(formatLineRanges([20, 12, 13, 14, 30, 31])).toBe("12-14, 20, 30-31");
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Coverage of the lines a story added.
+ *
+ * Reads the coverage report validation produced — lcov, istanbul
+ * `coverage-final.json` or a c8/istanbul `coverage-summary.json` — and matches it
+ * against the lines added in the working-tree diff. A passing test suite says
+ * nothing about whether the new code ran; this does.
+ */
+
+import { execSync } from "node:child_process";
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { isAbsolute, join, relative } from "node:path";
+
+export type CoverageFormat = "lcov" | "istanbul" | "summary";
+
+export interface CoverageGate {
+  /** Minimum % of added lines covered; 0 turns the check off */
+  threshold: number;
+  severity: "WARN" | "REJECT";
+  /** Coverage report, relative to the workdir (default: coverage/lcov.info, coverage-final.json or coverage-summary.json) */
+  report?: string;
+}
+
+interface FileCoverage {
+  /** Hits per instrumented line (lcov, istanbul) */
+  lines?: Map<number, number>;
+  /** Whole-file line counts (summary reports carry nothing finer) */
+  summary?: { covered: number; total: number };
+}
+
+export interface CoverageData {
+  format: CoverageFormat;
+  /** Keyed by path relative to the workdir */
+  files: Map<string, FileCoverage>;
+  reportFile: string;
+}
+
+export interface NewLineCoverage {
+  format: CoverageFormat;
+  covered: number;
+  total: number;
+  percent: number;
+  /** Added lines the tests never ran, per file (empty for summary reports) */
+  uncovered: Array<{ file: string; lines: number[] }>;
+  /** Changed source files the report doesn't mention at all */
+  unreported: string[];
+  reportFile: string;
+}
+
+export const DEFAULT_COVERAGE_REPORTS = ["coverage/lcov.info", "coverage/coverage-final.json", "coverage/coverage-summary.json"];
+
+const SOURCE_FILE = /\.(?:[cm]?[jt]sx?|vue|svelte|py|go|rs|rb|java|kt)$/;
+const TEST_FILE = /\.(?:test|spec)\.|__tests__\//;
+
+function relativeFile(root: string, file: string): string {
+  return isAbsolute(file) ? relative(root, file) : file.replace(/^\.\//, "");
+}
+
+export function parseLcov(text: string, root: string): Map<string, FileCoverage> {
+  const files = new Map<string, FileCoverage>();
+  let lines: Map<number, number> | undefined;
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    if (line.startsWith("SF:")) {
+      lines = new Map();
+      files.set(relativeFile(root, line.slice(3)), { lines });
+    } else if (line.startsWith("DA:") && lines) {
+      const [num, hits] = line.slice(3).split(",");
+      lines.set(Number(num), Number(hits));
+    } else if (line === "end_of_record") {
+      lines = undefined;
+    }
+  }
+  return files;
+}
+
+interface IstanbulFile {
+  path?: string;
+  statementMap?: Record<string, { start: { line: number }; end: { line: number } }>;
+  s?: Record<string, number>;
+}
+
+/** A line counts as covered when any statement starting on it ran */
+export function parseIstanbulJson(data: Record<string, IstanbulFile>, root: string): Map<string, FileCoverage> {
+  const files = new Map<string, FileCoverage>();
+  for (const [key, file] of Object.entries(data)) {
+    if (!file?.statementMap || !file.s) continue;
+    const lines = new Map<number, number>();
+    for (const [id, loc] of Object.entries(file.statementMap)) {
+      const line = loc.start.line;
+      lines.set(line, Math.max(lines.get(line) ?? 0, file.s[id] ?? 0));
+    }
+    files.set(relativeFile(root, file.path || key), { lines });
+  }
+  return files;
+}
+
+export function parseCoverageSummary(data: Record<string, { lines?: { covered: number; total: number } }>, root: string): Map<string, FileCoverage> {
+  const files = new Map<string, FileCoverage>();
+  for (const [key, file] of Object.entries(data)) {
+    if (key === "total" || !file?.lines) continue;
+    files.set(relativeFile(root, key), { summary: { covered: file.lines.covered, total: file.lines.total } });
+  }
+  return files;
+}
+
+/**
+ * The coverage report under `root`, parsed. Reports older than `since` (ms) are
+ * left from an earlier run and ignored.
+ */
+export function readCoverageReport(root: string, reportFile?: string, since?: number): CoverageData | undefined {
+  for (const candidate of reportFile ? [reportFile] : DEFAULT_COVERAGE_REPORTS) {
+    const path = join(root, candidate);
+    if (!existsSync(path)) continue;
+    try {
+      if (since !== undefined && statSync(path).mtimeMs < since) continue;
+      const text = readFileSync(path, "utf-8");
+      if (!text.trimStart().startsWith("{")) return { format: "lcov", files: parseLcov(text, root), reportFile: candidate };
+      const data = JSON.parse(text);
+      const isSummary = data.total?.lines !== undefined;
+      return isSummary
+        ? { format: "summary", files: parseCoverageSummary(data, root), reportFile: candidate }
+        : { format: "istanbul", files: parseIstanbulJson(data, root), reportFile: candidate };
+    } catch {
+      continue;
+    }
+  }
+  return undefined;
+}
+
+export interface AddedLine {
+  line: number;
+  text: string;
+}
+
+/** Lines added per file, against HEAD — untracked files count as all-new */
+export function addedLineContents(root: string): Map<string, AddedLine[]> {
+  const added = new Map<string, AddedLine[]>();
+  const run = (cmd: string) => execSync(cmd, { cwd: root, encoding: "utf-8", timeout: 10000, stdio: ["pipe", "pipe", "pipe"], maxBuffer: 64 * 1024 * 1024 });
+  try {
+    let file: string | undefined;
+    let next = 0;
+    for (const line of run("git diff -U0 --no-color --no-ext-diff HEAD").split("\n")) {
+      if (line.startsWith("+++ ")) {
+        file = line === "+++ /dev/null" ? undefined : line.slice(6);
+        continue;
+      }
+      const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+      if (hunk) {
+        next = Number(hunk[1]);
+      } else if (file && line.startsWith("+")) {
+        const lines = added.get(file) ?? [];
+        lines.push({ line: next++, text: line.slice(1) });
+        added.set(file, lines);
+      }
+    }
+    for (const untracked of run("git ls-files --others --exclude-standard").split("\n").filter(Boolean)) {
+      const text = readFileSync(join(root, untracked), "utf-8");
+      added.set(untracked, text.split("\n").map((t, i) => ({ line: i + 1, text: t })));
+    }
+  } catch { /* not a git repo, or unreadable file — whatever was collected */ }
+  return added;
+}
+
+/** Line numbers added per file, against HEAD */
+export function addedLines(root: string): Map<string, number[]> {
+  return lineNumbers(addedLineContents(root));
+}
+
+export function lineNumbers(added: Map<string, AddedLine[]>): Map<string, number[]> {
+  return new Map([...added].map(([file, lines]) => [file, lines.map((l) => l.line)]));
+}
+
+/**
+ * Coverage of the added lines. Only lines the report instruments count (blank
+ * lines and comments aren't instrumented). Summary reports have no per-line data,
+ * so they fall back to whole-file coverage of the changed files.
+ */
+export function newLineCoverage(coverage: CoverageData, added: Map<string, number[]>): NewLineCoverage {
+  let covered = 0;
+  let total = 0;
+  const uncovered: NewLineCoverage["uncovered"] = [];
+  const unreported: string[] = [];
+
+  for (const [file, lines] of added) {
+    const fileCoverage = coverage.files.get(file);
+    if (!fileCoverage) {
+      if (SOURCE_FILE.test(file) && !TEST_FILE.test(file)) unreported.push(file);
+      continue;
+    }
+    if (fileCoverage.summary) {
+      covered += fileCoverage.summary.covered;
+      total += fileCoverage.summary.total;
+      continue;
+    }
+    const missed: number[] = [];
+    for (const line of lines) {
+      const hits = fileCoverage.lines!.get(line);
+      if (hits === undefined) continue;
+      total++;
+      if (hits > 0) covered++;
+      else missed.push(line);
+    }
+    if (missed.length > 0) uncovered.push({ file, lines: missed });
+  }
+
+  return {
+    format: coverage.format,
+    covered,
+    total,
+    percent: total === 0 ? 100 : Math.round((covered / total) * 1000) / 10,
+    uncovered,
+    unreported,
+    reportFile: coverage.reportFile,
+  };
+}
+
+/** "12-14, 20" */
+export function formatLineRanges(lines: number[]): string {
+  const ranges: string[] = [];
+  const sorted = [...lines].sort((a, b) => a - b);
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i]!;
+    while (sorted[i + 1] === sorted[i]! + 1) i++;
+    ranges.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+  }
+  return ranges.join(", ");
+}
+
+/** One line per file: "- src/a.ts: 12-14, 20" */
+export function formatUncoveredLines(coverage: NewLineCoverage, limit = 10): string {
+  const lines = coverage.uncovered.slice(0, limit).map((u) => `- ${u.file}: ${formatLineRanges(u.lines)}`);
+  if (coverage.uncovered.length > limit) lines.push(`- … ${coverage.uncovered.length - limit} more files`);
+  for (const file of coverage.unreported) lines.push(`- ${file}: not in the coverage report`);
+  return lines.join("\n");
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { selectModelRung, escalationLadderErrors, describeModelChoice } from "./escalation-helpers.js";
+
+const ladder = [
+  { afterFailures: 2, reasoningEffort: "high" },
+  { afterFailures: 1, model: "gpt-5.2-codex" },
+];
+const base = { model: "gpt-5.1-codex-mini" };
+
+describe("selectModelRung", () => {
+  it("stays on the story's own model until the first rung is reached", () => {
+    expect(selectModelRung(ladder, base, 0)).toEqual({ model: "gpt-5.1-codex-mini", reasoningEffort: undefined, rung: 0, failures: 0 });
+    expect(selectModelRung([], base, 5)).toMatchObject({ model: "gpt-5.1-codex-mini", rung: 0 });
+  });
+
+  it("climbs rung by rung, keeping what a rung leaves out", () => {
+    expect(selectModelRung(ladder, base, 1)).toMatchObject({ model: "gpt-5.2-codex", reasoningEffort: undefined, rung: 1 });
+    expect(selectModelRung(ladder, base, 2)).toMatchObject({ model: "gpt-5.2-codex", reasoningEffort: "high", rung: 2 });
+    expect(selectModelRung(ladder, { ...base, reasoningEffort: "low" }, 7)).toMatchObject({ model: "gpt-5.2-codex", reasoningEffort: "high", rung: 2 });
+    expect(describeModelChoice(selectModelRung(ladder, base, 3))).toBe("gpt-5.2-codex (high effort), rung 2 after 3 failures");
+  });
+});
+
+describe("escalationLadderErrors", () => {
+  it("accepts rungs with a threshold and a model or effort", () => {
+    expect(escalationLadderErrors(ladder)).toEqual([]);
+    expect(escalationLadderErrors({ afterFailures: 1 })).toEqual(["escalation must be an array of rungs"]);
+    expect(escalationLadderErrors([{ afterFailures: 0, model: "x" }, { afterFailures: 2 }, null])).toEqual([
+      "escalation[0]: afterFailures must be a positive integer",
+      "escalation[1]: needs a model or a reasoningEffort",
+      "escalation[2]: must be an object",
+    ]);
+  });
+});
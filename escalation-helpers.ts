@@ -0,0 +1,69 @@
+/**
+ * Model escalation — a story that keeps failing gets a stronger model.
+ *
+ * Rung 0 is the story's own model (story.model, else the loop's) and the
+ * configured reasoning effort. Each rung of the `escalation` ladder applies once
+ * the story has failed `afterFailures` times, counted from the iteration log;
+ * the highest rung reached wins. A rung that leaves out the model or the
+ * reasoning effort keeps the one below it, so `{afterFailures: 2,
+ * reasoningEffort: "high"}` turns the effort up on the previous rung's model.
+ */
+
+export interface ModelRung {
+  /** Failed attempts of a story before this rung applies */
+  afterFailures: number;
+  model?: string;
+  /** Reasoning effort for the agent ("low", "medium", "high") */
+  reasoningEffort?: string;
+}
+
+export interface ModelChoice {
+  model: string;
+  reasoningEffort?: string;
+  /** 0 = the story's own model, N = the Nth rung of the ladder */
+  rung: number;
+  /** Failed attempts the rung was picked for */
+  failures: number;
+}
+
+/** The rung a story has reached after `failures` failed attempts, climbing from `base` */
+export function selectModelRung(
+  ladder: ModelRung[],
+  base: { model: string; reasoningEffort?: string },
+  failures: number
+): ModelChoice {
+  const choice: ModelChoice = { model: base.model, reasoningEffort: base.reasoningEffort, rung: 0, failures };
+  const sorted = [...ladder].sort((a, b) => a.afterFailures - b.afterFailures);
+  sorted.forEach((rung, i) => {
+    if (failures < rung.afterFailures) return;
+    choice.model = rung.model || choice.model;
+    choice.reasoningEffort = rung.reasoningEffort || choice.reasoningEffort;
+    choice.rung = i + 1;
+  });
+  return choice;
+}
+
+/** Problems with a configured ladder — each rung needs afterFailures ≥ 1 and a model or reasoning effort */
+export function escalationLadderErrors(ladder: unknown): string[] {
+  if (!Array.isArray(ladder)) return ["escalation must be an array of rungs"];
+  const errors: string[] = [];
+  ladder.forEach((rung: Partial<ModelRung> | null, i) => {
+    if (!rung || typeof rung !== "object") {
+      errors.push(`escalation[${i}]: must be an object`);
+      return;
+    }
+    if (!Number.isInteger(rung.afterFailures) || rung.afterFailures! < 1) {
+      errors.push(`escalation[${i}]: afterFailures must be a positive integer`);
+    }
+    if (!rung.model && !rung.reasoningEffort) {
+      errors.push(`escalation[${i}]: needs a model or a reasoningEffort`);
+    }
+  });
+  return errors;
+}
+
+/** "gpt-5.2-codex (high effort), rung 2 after 2 failures" */
+export function describeModelChoice(choice: ModelChoice): string {
+  const effort = choice.reasoningEffort ? ` (${choice.reasoningEffort} effort)` : "";
+  return `${choice.model}${effort}, rung ${choice.rung} after ${choice.failures} ${choice.failures === 1 ? "failure" : "failures"}`;
+}
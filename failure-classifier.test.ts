@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { classifyFailure, failureExtractors, type FailureSignals } from "./failure-classifier.js";
+import type { ValidationReport } from "./test-report-helpers.js";
+
+/** fixtures/failures/<expected category>/<sample>.txt — add a sample by dropping in a file */
+const FIXTURES = join(process.cwd(), "fixtures", "failures");
+
+const agent = (overrides: Partial<NonNullable<FailureSignals["agent"]>> = {}) => ({
+  toolCalls: 5, output: "", finalMessage: '{"success":true,"summary":"done","learnings":""}', structured: true, ...overrides,
+});
+
+const corpus = readdirSync(FIXTURES).flatMap((category) =>
+  readdirSync(join(FIXTURES, category)).map((file) => ({ category, file, text: readFileSync(join(FIXTURES, category, file), "utf-8") }))
+);
+
+describe("classifyFailure fixture corpus", () => {
+  it.each(corpus.map((c) => [`${c.category}/${c.file}`, c] as const))("%s", (_name, { category, text }) => {
+    const result = classifyFailure({ output: text, agent: agent({ output: text }) });
+    expect(result.category).toBe(category);
+    if (category === "unknown") {
+      expect(result.confidence).toBe(0);
+    } else {
+      expect(result.confidence).toBeGreaterThanOrEqual(0.6);
+      expect(text).toContain(result.evidence.split("\n")[0]!.trim());
+    }
+  });
+});
+
+describe("classifyFailure", () => {
+  it("quotes the first parsed diagnostic or failing test of a report", () => {
+    const report: ValidationReport = {
+      formats: ["junit"],
+      failed: 1,
+      failures: [{ name: "users > loads 3 users", file: "src/users.test.ts", line: 7, message: "expected 2 to be 3", format: "junit" }],
+    };
+    expect(classifyFailure({ output: "", report })).toEqual({
+      category: "test_failure", confidence: 0.85, evidence: "users > loads 3 users: expected 2 to be 3", source: "junit",
+    });
+  });
+
+  it("takes a stage's category as a prior that only root causes overrule", () => {
+    const stage = { name: "typecheck", category: "type_error" as const };
+    expect(classifyFailure({ output: "" }, { stage })).toMatchObject({ category: "type_error", confidence: 0.6, source: "stage" });
+    expect(classifyFailure({ output: "1 failing" }, { stage }).category).toBe("type_error");
+    expect(classifyFailure({ output: "Error [ERR_MODULE_NOT_FOUND]: Cannot find package 'zod'" }, { stage }).category).toBe("missing_module");
+  });
+
+  it("flags what the agent itself did wrong", () => {
+    expect(classifyFailure({ output: "", agent: agent({ toolCalls: 0 }) })).toMatchObject({ category: "no_tool_calls", confidence: 0.7 });
+    expect(classifyFailure({ output: "", agent: agent({ finalMessage: '{"done": true}', structured: false }) }))
+      .toMatchObject({ category: "schema_violation", evidence: '{"done": true}' });
+    expect(classifyFailure({ output: "", agent: agent({ finalMessage: "All done.", structured: false }) }).category).toBe("unknown");
+  });
+
+  it("tries project categories first and reports bad ones", () => {
+    const { extractors, errors } = failureExtractors([
+      { category: "prisma_error", pattern: "P\\d{4}:" },
+      { category: "broken", pattern: "(" },
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^failureCategories\.broken: /);
+
+    const output = "Error: P2002: Unique constraint failed on the fields: (`email`)\n    at seed (prisma/seed.ts:4:3)";
+    expect(classifyFailure({ output }, { extractors })).toMatchObject({ category: "prisma_error", confidence: 0.9, source: "custom:prisma_error" });
+    expect(classifyFailure({ output }).category).toBe("runtime_crash");
+  });
+});
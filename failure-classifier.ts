@@ -0,0 +1,259 @@
+/**
+ * Failure classification — what kind of failure sank an iteration, and why we think so.
+ *
+ * Each extractor parses one kind of output (tsc diagnostics, eslint problems,
+ * vitest/jest results, node crashes, …) or looks at the agent's own run (no
+ * tool calls, context overflow, schema violation) and proposes a category with
+ * a confidence and the lines that decided it. The most confident proposal wins;
+ * on a tie the extractor listed first does, so root causes (out of memory, a
+ * missing module) outrank their symptoms (a crash, failing tests).
+ *
+ * Categories are open: prd.json `failureCategories` adds regex-matched ones
+ * that are tried before the built-ins.
+ */
+
+import type { ValidationReport } from "./test-report-helpers.js";
+import type { StageCategory } from "./validation-helpers.js";
+
+export type BuiltinFailureCategory =
+  | "type_error" | "lint_error" | "test_failure" | "build_error"
+  | "runtime_crash" | "missing_module" | "out_of_memory" | "network_error" | "sandbox_denied"
+  | "no_tool_calls" | "context_overflow" | "schema_violation"
+  | "timeout" | "verification_rejected" | "demo_verification_failed" | "merge_conflict" | "unknown";
+
+/** A built-in category, or one a project added in prd.json `failureCategories` */
+export type FailureCategory = BuiltinFailureCategory | (string & {});
+
+export interface FailureClassification {
+  category: FailureCategory;
+  /** 0–1: an agent timeout is near certain, a stage's name is a guess, unknown is 0 */
+  confidence: number;
+  /** The output lines that decided it */
+  evidence: string;
+  /** Extractor that produced it: "tsc", "vitest", "stage", "custom:prisma", … */
+  source: string;
+}
+
+/** What an extractor gets to look at */
+export interface FailureSignals {
+  /** Output of the failed validation stage, or the agent's output when validation passed */
+  output: string;
+  /** Parsed failures of that stage, when it wrote a report */
+  report?: ValidationReport;
+  agent?: {
+    toolCalls: number;
+    output: string;
+    finalMessage: string;
+    /** The final message parsed as the structured iteration result */
+    structured: boolean;
+  };
+}
+
+export interface FailureExtractor {
+  name: string;
+  extract: (signals: FailureSignals) => FailureClassification | null;
+}
+
+/** A project-defined category (prd.json `failureCategories`) */
+export interface CustomFailureCategory {
+  category: string;
+  /** Regex (case-insensitive) matched against the failure output and the agent's output */
+  pattern: string;
+  /** Default 0.9 — above every built-in parser but the certain ones */
+  confidence?: number;
+}
+
+const MAX_EVIDENCE = 300;
+
+/** The first line matching `pattern`, plus the next `following` non-blank lines */
+export function evidenceFor(text: string, pattern: RegExp, following = 1): string | null {
+  const lines = text.replace(/\x1b\[[0-9;]*m/g, "").split("\n");
+  const index = lines.findIndex((line) => pattern.test(line));
+  if (index === -1) return null;
+  const after = lines.slice(index + 1).filter((line) => line.trim()).slice(0, following);
+  return [lines[index]!, ...after].map((line) => line.trimEnd()).join("\n").trim().slice(0, MAX_EVIDENCE);
+}
+
+/** Match `pattern` in `text`, classified as `category` with `confidence` */
+function match(source: string, category: FailureCategory, confidence: number, text: string, pattern: RegExp, following = 1): FailureClassification | null {
+  const evidence = evidenceFor(text, pattern, following);
+  return evidence === null ? null : { category, confidence, evidence, source };
+}
+
+/** Agent-side text: everything it printed, and its final message */
+const agentText = (signals: FailureSignals) => signals.agent ? `${signals.agent.output}\n${signals.agent.finalMessage}` : "";
+
+const OUT_OF_MEMORY = /JavaScript heap out of memory|FATAL ERROR: .*(?:Allocation failed|heap limit)|\bENOMEM\b|Cannot allocate memory|\bMemoryError\b|OOMKilled|out of memory/i;
+const KILLED = /^\s*Killed\s*$|exit code 137\b|\bSIGKILL\b/;
+const CONTEXT_OVERFLOW = /context[_ ]length[_ ]exceeded|maximum context length|context window (?:is )?(?:full|exceeded)|exceeds? the context window|prompt is too long|too many tokens/i;
+const SANDBOX_DENIED = /\bEACCES\b|\bEPERM\b|\bEROFS\b|Operation not permitted|Permission denied|Read-only file system|sandbox(?:ed)?[ -](?:denied|violation|blocked)|blocked by (?:the )?sandbox|not allowed by (?:the )?sandbox/i;
+const NETWORK = /\bENOTFOUND\b|\bEAI_AGAIN\b|\bECONNREFUSED\b|\bECONNRESET\b|\bETIMEDOUT\b|\bgetaddrinfo\b|fetch failed|Could not resolve host|Temporary failure in name resolution|Network is unreachable|npm ERR! network|socket hang up/i;
+const MISSING_MODULE = /Cannot find module ['"][^'"]+['"]|Cannot find package ['"][^'"]+['"]|ERR_MODULE_NOT_FOUND|Module not found: .*Can't resolve|Failed to (?:resolve|load url) (?:import )?['"]?\S+|ModuleNotFoundError: No module named|Could not resolve ['"][^'"]+['"]/;
+const TSC = /error TS\d+:/;
+const ESLINT_PROBLEM = /^\s+\d+:\d+\s+error\s+\S/;
+const ESLINT_SUMMARY = /^✖ \d+ problems? \(\d+ errors?/;
+const PRETTIER = /\[warn\] Code style issues|Code style issues found|Forgot to run Prettier/;
+const TEST_RESULT = /^\s*(?:FAIL|×|✗|✕)\s+\S|^\s*Tests?:?\s+\d+ failed|^\s*Test Files\s+\d+ failed|^\s*\d+ failing\b|^\s*not ok \d+|AssertionError|^\s*Expected:|expected .+ to (?:be|equal|deeply equal|have|contain)/;
+const BUILD = /error during build|Build failed|^ERROR in |✘ \[ERROR\]|Rollup failed|webpack compiled with \d+ errors?|Failed to compile/i;
+const EXCEPTION = /^\s*(?:Uncaught\s+)?(?:[\w$]+\.)*(?:[A-Z]\w*)?(?:Error|Exception)(?: \[\w+\])?:\s*\S|Unhandled(?:Promise)?Rejection|Segmentation fault|panicked at|Traceback \(most recent call last\)/;
+const STACK_FRAME = /^\s+at\s+\S/;
+const AGENT_TIMEOUT = /^(?:Stall timeout|Timeout):/m;
+const SCHEMA_VIOLATION = /(?:does(?: not|n't) match|violates|invalid against) (?:the )?(?:--)?(?:output|response)[_ -]?schema|invalid_json_schema|failed to parse (?:the )?(?:structured|final) (?:output|message)/i;
+
+/**
+ * Built-in extractors. Order breaks confidence ties — root causes before
+ * the symptoms they cause.
+ */
+export const BUILTIN_FAILURE_EXTRACTORS: FailureExtractor[] = [
+  {
+    name: "agent-timeout",
+    extract: (s) => s.agent ? match("agent-timeout", "timeout", 0.95, s.agent.output, AGENT_TIMEOUT, 0) : null,
+  },
+  {
+    name: "oom",
+    extract: (s) => match("oom", "out_of_memory", 0.95, s.output, OUT_OF_MEMORY) ?? match("oom", "out_of_memory", 0.6, s.output, KILLED, 0),
+  },
+  {
+    name: "context-overflow",
+    extract: (s) => match("context-overflow", "context_overflow", 0.95, agentText(s), CONTEXT_OVERFLOW, 0),
+  },
+  {
+    name: "missing-module",
+    extract: (s) => match("missing-module", "missing_module", 0.9, s.output, MISSING_MODULE),
+  },
+  {
+    name: "sandbox",
+    extract: (s) => match("sandbox", "sandbox_denied", 0.85, s.output, SANDBOX_DENIED) ?? match("sandbox", "sandbox_denied", 0.5, agentText(s), SANDBOX_DENIED),
+  },
+  {
+    name: "network",
+    extract: (s) => match("network", "network_error", 0.85, s.output, NETWORK) ?? match("network", "network_error", 0.5, agentText(s), NETWORK),
+  },
+  {
+    name: "tsc",
+    extract: (s) => {
+      const diagnostic = s.report?.failures.find((f) => f.format === "tsc");
+      if (diagnostic) {
+        const at = diagnostic.file ? `${diagnostic.file}${diagnostic.line ? `:${diagnostic.line}` : ""}: ` : "";
+        return { category: "type_error", confidence: 0.9, evidence: `${at}${diagnostic.name}: ${diagnostic.message}`.slice(0, MAX_EVIDENCE), source: "tsc" };
+      }
+      return match("tsc", "type_error", 0.9, s.output, TSC, 0);
+    },
+  },
+  {
+    name: "eslint",
+    extract: (s) => match("eslint", "lint_error", 0.9, s.output, ESLINT_PROBLEM, 0)
+      ?? match("eslint", "lint_error", 0.85, s.output, ESLINT_SUMMARY, 0)
+      ?? match("prettier", "lint_error", 0.85, s.output, PRETTIER, 0),
+  },
+  {
+    name: "tests",
+    extract: (s) => {
+      const failure = s.report?.failures.find((f) => f.format !== "tsc");
+      if (failure) {
+        return { category: "test_failure", confidence: 0.85, evidence: `${failure.name}: ${failure.message}`.slice(0, MAX_EVIDENCE), source: failure.format };
+      }
+      return match("tests", "test_failure", 0.85, s.output, TEST_RESULT);
+    },
+  },
+  {
+    name: "build",
+    extract: (s) => match("build", "build_error", 0.85, s.output, BUILD),
+  },
+  {
+    name: "node-crash",
+    extract: (s) => {
+      const crash = match("node-crash", "runtime_crash", 0.8, s.output, EXCEPTION);
+      // An error with a stack trace under it crashed something; a bare "Error:" line may just be a log message
+      if (crash && !crash.evidence.split("\n").slice(1).some((line) => STACK_FRAME.test(line)) && !/Segmentation|panicked|Traceback|Unhandled/.test(crash.evidence)) {
+        crash.confidence = 0.5;
+      }
+      return crash;
+    },
+  },
+  {
+    name: "schema",
+    extract: (s) => {
+      if (!s.agent) return null;
+      const reported = match("schema", "schema_violation", 0.85, agentText(s), SCHEMA_VIOLATION, 0);
+      if (reported) return reported;
+      const final = s.agent.finalMessage.trim();
+      // It tried to answer in JSON, but not in the iteration schema
+      return !s.agent.structured && /^(?:```json|\{)/.test(final)
+        ? { category: "schema_violation", confidence: 0.75, evidence: final.slice(0, MAX_EVIDENCE), source: "schema" }
+        : null;
+    },
+  },
+  {
+    name: "no-tool-calls",
+    extract: (s) => s.agent && s.agent.toolCalls === 0
+      ? { category: "no_tool_calls", confidence: 0.7, evidence: "The agent made no tool calls", source: "no-tool-calls" }
+      : null,
+  },
+];
+
+const STAGE_CATEGORIES = new Set<FailureCategory>(["type_error", "lint_error", "test_failure", "build_error"]);
+
+/**
+ * Extractors for prd.json `failureCategories`, then the built-ins. A bad
+ * entry is reported in `errors` and left out.
+ */
+export function failureExtractors(custom: CustomFailureCategory[] = []): { extractors: FailureExtractor[]; errors: string[] } {
+  const extractors: FailureExtractor[] = [];
+  const errors: string[] = [];
+  for (const entry of custom) {
+    if (!entry || typeof entry.category !== "string" || !entry.category || typeof entry.pattern !== "string") {
+      errors.push("failureCategories: each entry needs a category and a pattern");
+      continue;
+    }
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(entry.pattern, "i");
+    } catch (err) {
+      errors.push(`failureCategories.${entry.category}: ${err instanceof Error ? err.message : String(err)}`);
+      continue;
+    }
+    const confidence = typeof entry.confidence === "number" ? Math.min(1, Math.max(0, entry.confidence)) : 0.9;
+    const source = `custom:${entry.category}`;
+    extractors.push({
+      name: source,
+      extract: (s) => match(source, entry.category, confidence, s.output, pattern) ?? match(source, entry.category, confidence, agentText(s), pattern),
+    });
+  }
+  return { extractors: [...extractors, ...BUILTIN_FAILURE_EXTRACTORS], errors };
+}
+
+/**
+ * Classify a failure: every extractor proposes, the most confident wins (the
+ * earlier one on a tie). A failed stage's category — "typecheck" fails with a
+ * type error — is a 0.6 prior: other stage-kind guesses can't overrule it, but
+ * root causes found in its output (a missing module, OOM, a crash) can.
+ */
+export function classifyFailure(
+  signals: FailureSignals,
+  opts: { extractors?: FailureExtractor[]; stage?: { name: string; category?: StageCategory } } = {}
+): FailureClassification {
+  const stageCategory = opts.stage?.category;
+  const candidates: FailureClassification[] = [];
+  for (const extractor of opts.extractors ?? BUILTIN_FAILURE_EXTRACTORS) {
+    let found: FailureClassification | null = null;
+    try {
+      found = extractor.extract(signals);
+    } catch { /* a broken extractor classifies nothing */ }
+    if (!found) continue;
+    if (stageCategory && found.category !== stageCategory && STAGE_CATEGORIES.has(found.category)) continue;
+    candidates.push(found);
+  }
+  if (opts.stage && stageCategory) {
+    candidates.push({ category: stageCategory, confidence: 0.6, evidence: `Stage "${opts.stage.name}" failed`, source: "stage" });
+  }
+
+  let best: FailureClassification | undefined;
+  for (const candidate of candidates) {
+    if (!best || candidate.confidence > best.confidence) best = candidate;
+  }
+  if (best) return best;
+
+  const firstLine = signals.output.split("\n").map((line) => line.trim()).find(Boolean) ?? "";
+  return { category: "unknown", confidence: 0, evidence: firstLine.slice(0, MAX_EVIDENCE), source: "none" };
+}
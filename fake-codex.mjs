@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+/**
+ * fake-codex.mjs — deterministic stand-in for `codex exec --json` in end-to-end tests.
+ *
+ * Accepts the same argv Ralph passes to Codex (`exec --sandbox S --json --output-schema F
+ * -o OUT -C DIR -m MODEL [-c model_reasoning_effort=E] PROMPT`), emits realistic JSONL wire events on stdout, applies
+ * scripted file edits to the workdir and writes the final message to the `-o` file in the
+ * shape of ralph-iteration-schema.json.
+ *
+ * Scenario: JSON file named by $FAKE_CODEX_SCENARIO — `{ "steps": [Step, ...] }`.
+ * Each run consumes the first unused step whose `match` (if any) appears in the prompt.
+ * Consumed steps are tracked in `<scenario>.state.json`; every run is logged (with its
+ * prompt) to `<scenario>.calls.jsonl`.
+ *
+ * Step fields (all optional):
+ *   match      substring the prompt must contain (e.g. a story title)
+ *   files      { "rel/path": "content" } written into the workdir
+ *   delete     ["rel/path"] removed from the workdir
+ *   commands   ["pnpm test", { "command": "...", "exitCode": 1, "output": "..." }]
+ *              (default: one `git status --short`; [] for a session with no tool calls)
+ *   result     final structured message (defaults filled in from the step)
+ *   message    free-form final message instead of a structured result
+ *   exitCode   process exit code (default 0)
+ *   sleepMs    keep working (emitting progress) this long before finishing — timeouts
+ *   stallMs    go silent this long before finishing — stall detection
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+const emit = (event) => process.stdout.write(JSON.stringify(event) + "\n");
+
+function parseArgs(argv) {
+  const opts = { sandbox: "", model: "", reasoningEffort: undefined, outputFile: "", workdir: process.cwd(), prompt: "" };
+  const rest = argv[0] === "exec" ? argv.slice(1) : argv;
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === "--sandbox") opts.sandbox = rest[++i];
+    else if (arg === "-m") opts.model = rest[++i];
+    else if (arg === "-o") opts.outputFile = rest[++i];
+    else if (arg === "-C") opts.workdir = rest[++i];
+    else if (arg === "-c") {
+      const [key, value] = rest[++i].split("=");
+      if (key === "model_reasoning_effort") opts.reasoningEffort = value;
+    }
+    else if (arg === "--output-schema") i++;
+    else if (arg === "--json") continue;
+    else opts.prompt = arg;
+  }
+  return opts;
+}
+
+function loadStep(scenarioPath, prompt) {
+  const scenario = JSON.parse(readFileSync(scenarioPath, "utf-8"));
+  const statePath = `${scenarioPath}.state.json`;
+  const consumed = existsSync(statePath) ? JSON.parse(readFileSync(statePath, "utf-8")) : [];
+  const index = scenario.steps.findIndex((step, i) => !consumed.includes(i) && (!step.match || prompt.includes(step.match)));
+  if (index === -1) return { index, step: null };
+  writeFileSync(statePath, JSON.stringify([...consumed, index]));
+  return { index, step: scenario.steps[index] };
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const scenarioPath = process.env.FAKE_CODEX_SCENARIO;
+  if (!scenarioPath) {
+    process.stderr.write("fake-codex: FAKE_CODEX_SCENARIO is not set\n");
+    process.exit(2);
+  }
+
+  const { index, step } = loadStep(scenarioPath, opts.prompt);
+  appendFileSync(`${scenarioPath}.calls.jsonl`, JSON.stringify({ step: index, model: opts.model, reasoningEffort: opts.reasoningEffort, sandbox: opts.sandbox, prompt: opts.prompt }) + "\n");
+
+  const threadId = `fake-thread-${Date.now().toString(36)}-${index}`;
+  emit({ type: "thread.started", thread_id: threadId });
+  emit({ type: "turn.started" });
+
+  if (!step) {
+    emit({ type: "error", message: "fake-codex: scenario exhausted" });
+    process.exit(1);
+  }
+
+  let item = 0;
+  const nextId = () => `item_${item++}`;
+
+  if (step.stallMs) await sleep(step.stallMs);
+  if (step.sleepMs) {
+    const until = Date.now() + step.sleepMs;
+    while (Date.now() < until) {
+      emit({ type: "item.completed", item: { id: nextId(), type: "reasoning", text: "Still working..." } });
+      await sleep(Math.min(50, step.sleepMs));
+    }
+  }
+
+  for (const raw of step.commands ?? ["git status --short"]) {
+    const cmd = typeof raw === "string" ? { command: raw } : raw;
+    const id = nextId();
+    const command = `/bin/bash -lc "cd ${opts.workdir} && ${cmd.command}"`;
+    emit({ type: "item.started", item: { id, type: "command_execution", command, status: "in_progress" } });
+    emit({
+      type: "item.completed",
+      item: { id, type: "command_execution", command, aggregated_output: cmd.output ?? "", exit_code: cmd.exitCode ?? 0, status: "completed" },
+    });
+  }
+
+  const written = [];
+  for (const [rel, content] of Object.entries(step.files || {})) {
+    const target = resolve(opts.workdir, rel);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content);
+    written.push(rel);
+    emit({ type: "item.completed", item: { id: nextId(), type: "file_change", path: rel, status: "completed" } });
+  }
+  for (const rel of step.delete || []) {
+    rmSync(join(opts.workdir, rel), { force: true, recursive: true });
+    written.push(rel);
+    emit({ type: "item.completed", item: { id: nextId(), type: "file_change", path: rel, status: "completed" } });
+  }
+
+  const exitCode = step.exitCode ?? 0;
+  const finalMessage = step.message ?? JSON.stringify({
+    success: exitCode === 0,
+    summary: `Implemented the change in ${written.join(", ") || "no files"} and verified it with the story's validation command.`,
+    files_modified: written,
+    learnings: {
+      technical_discovery: "The fake agent writes files exactly as scripted, so validation sees a deterministic tree.",
+      gotcha_for_next_iteration: "Scenario steps are consumed in order; unmatched prompts exhaust the script.",
+      files_context: written.length ? `${written.join(", ")} hold the scripted changes.` : "No files were touched.",
+    },
+    validation_passed: exitCode === 0,
+    error_output: "",
+    ...(step.result || {}),
+  });
+
+  emit({ type: "item.completed", item: { id: nextId(), type: "agent_message", text: finalMessage } });
+  emit({ type: "turn.completed", usage: { input_tokens: 1200, cached_input_tokens: 200, output_tokens: 300 } });
+  if (opts.outputFile) writeFileSync(opts.outputFile, finalMessage);
+  process.exit(exitCode);
+}
+
+main().catch((err) => {
+  process.stderr.write(`fake-codex: ${err.stack || err}\n`);
+  process.exit(1);
+});
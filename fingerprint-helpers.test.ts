@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { normalizeErrorText, fingerprintTscError, fingerprintFailure, clusterFingerprints, describeCluster } from "./fingerprint-helpers.js";
+import type { ValidationReport } from "./test-report-helpers.js";
+
+describe("normalizeErrorText", () => {
+  it("strips directories, line numbers, numbers and colors", () => {
+    expect(normalizeErrorText("\x1b[31mFAIL\x1b[0m /home/ci/app/src/user.test.ts:12:5  took 340ms, expected 3 to be 4"))
+      .toBe("FAIL user.test.ts took N, expected N to be N");
+    expect(normalizeErrorText("src\\api\\client.ts(40,9): at 0x7ffd3a")).toBe("client.ts: at 0x…");
+  });
+});
+
+describe("fingerprintTscError", () => {
+  it("keys a TS error on its code and the symbols it names", () => {
+    const a = fingerprintTscError("TS2322", "Type 'string' is not assignable to type 'UserProfile'.");
+    const b = fingerprintTscError("TS2322", "Type '{ id: number; }' is not assignable to type 'UserProfile'.");
+    expect(a).toMatchObject({ kind: "tsc", signature: "TS2322 on UserProfile" });
+    expect(b.id).toBe(a.id);
+    expect(fingerprintTscError("TS2304", "Cannot find name 'loadUser'.").signature).toBe("TS2304 on loadUser");
+    expect(fingerprintTscError("TS1005", "';' expected.").signature).toBe("TS1005: ';' expected.");
+  });
+});
+
+describe("fingerprintFailure", () => {
+  const report: ValidationReport = {
+    formats: ["tsc", "junit"],
+    failed: 3,
+    failures: [
+      { name: "TS2322", file: "src/a.ts", line: 3, message: "Type 'string' is not assignable to type 'UserProfile'.", format: "tsc" },
+      { name: "TS2322", file: "src/b.ts", line: 9, message: "Type 'number' is not assignable to type 'UserProfile'.", format: "tsc" },
+      { name: "users > loads 3 users", file: "src/users.test.ts", line: 7, message: "expected 2 to be 3", format: "junit" },
+    ],
+  };
+
+  it("puts rejecting checks first, then distinct report failures", () => {
+    expect(fingerprintFailure({ report, output: "ignored", rejectedChecks: ["placeholder_code"] }).map((f) => `${f.kind} ${f.signature}`)).toEqual([
+      "verification placeholder_code",
+      "tsc TS2322 on UserProfile",
+      "test users > loads N users",
+    ]);
+  });
+
+  it("falls back to exceptions in the raw output, with the top stack frame", () => {
+    const output = [
+      "Error: Command failed",
+      "TypeError: Cannot read properties of undefined (reading 'id')",
+      "    at async loadUser (/srv/app/src/user.ts:12:5)",
+      "    at main (/srv/app/src/index.ts:3:1)",
+    ].join("\n");
+    expect(fingerprintFailure({ output }).map((f) => f.signature)).toEqual([
+      "Error: Command failed",
+      "TypeError: Cannot read properties of undefined (reading 'id') at loadUser",
+    ]);
+    expect(fingerprintFailure({ output: "npm ERR! code 1" })).toEqual([]);
+  });
+});
+
+describe("clusterFingerprints", () => {
+  it("counts stories and occurrences per fingerprint, most stories first", () => {
+    const ts = fingerprintTscError("TS2322", "Type 'string' is not assignable to type 'UserProfile'.");
+    const [lazy] = fingerprintFailure({ rejectedChecks: ["lazy_summary"] });
+    const clusters = clusterFingerprints([
+      { storyId: "s1", timestamp: "2026-03-01T10:00:00.000Z", errorFingerprints: [ts, lazy!] },
+      { storyId: "s1", timestamp: "2026-03-01T11:00:00.000Z", errorFingerprints: [lazy!] },
+      { storyId: "s2", timestamp: "2026-03-02T09:00:00.000Z", errorFingerprints: [ts] },
+      { storyId: "s3", timestamp: "2026-03-02T12:00:00.000Z", errorFingerprints: [ts] },
+      { storyId: "s4", timestamp: "2026-03-02T13:00:00.000Z" },
+    ]);
+
+    expect(clusters.map((c) => [c.signature, c.storyIds, c.occurrences])).toEqual([
+      ["TS2322 on UserProfile", ["s1", "s2", "s3"], 3],
+      ["lazy_summary", ["s1"], 2],
+    ]);
+    expect(describeCluster(clusters[0]!)).toBe("TS2322 on UserProfile — 3 stories in 2 days (3 failed iterations)");
+    expect(describeCluster(clusters[1]!)).toBe("lazy_summary — 1 story in 1 day (2 failed iterations)");
+  });
+});
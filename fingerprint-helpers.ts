@@ -0,0 +1,125 @@
+/**
+ * Error fingerprints — the same error recognized across iterations and stories.
+ *
+ * A failure category ("type_error") is too coarse to spot a recurring problem,
+ * and raw output differs run to run in paths, line numbers and timings. Each
+ * failed iteration is reduced to normalized signatures — a TS code plus the
+ * symbols it names, a failing test's name, an exception with its top stack
+ * frame's function, or the verification check that rejected it — each with a
+ * stable short hash. Clustering them over the iteration log shows which exact
+ * error keeps coming back, and across how many stories.
+ */
+
+import { createHash } from "node:crypto";
+import type { ValidationReport } from "./test-report-helpers.js";
+
+export type FingerprintKind = "tsc" | "test" | "error" | "verification";
+
+export interface ErrorFingerprint {
+  /** Hash of kind + signature — equal across runs, checkouts and machines */
+  id: string;
+  kind: FingerprintKind;
+  /** "TS2322 on UserProfile", "auth > logs in", "TypeError: Cannot read properties of undefined (reading 'id') at loadUser" */
+  signature: string;
+}
+
+export interface FingerprintCluster extends ErrorFingerprint {
+  /** Failed iterations that hit it */
+  occurrences: number;
+  storyIds: string[];
+  firstSeen: string;
+  lastSeen: string;
+}
+
+const MAX_SIGNATURE = 200;
+const PRIMITIVE_TYPES = new Set(["string", "number", "boolean", "bigint", "symbol", "object", "any", "unknown", "never", "void", "null", "undefined", "true", "false"]);
+const SOURCE_REF = /(?:file:\/\/)?(?:[\w@.~-]*[\\/])*([\w@.-]+\.(?:[cm]?[jt]sx?|vue|svelte|py|go|rs|rb|java|kt|json))(?:(?::\d+)+|\(\d+,\d+\))?/g;
+const STACK_FRAME = /^\s*at\s+(?:async\s+)?([^\s(]+)\s+\(/;
+const EXCEPTION = /^\s*(?:Uncaught\s+)?((?:[\w$]+\.)*(?:[A-Z]\w*)?(?:Error|Exception)):\s*(.+)$/;
+
+/**
+ * Strip what varies between runs of the same error: ANSI colors, directories,
+ * line and column numbers, numbers and durations, runs of whitespace.
+ */
+export function normalizeErrorText(text: string): string {
+  return text
+    .replace(/\x1b\[[0-9;]*m/g, "")
+    .replace(SOURCE_REF, "$1")
+    .replace(/\b0x[0-9a-f]+\b/gi, "0x…")
+    .replace(/\b\d+(?:\.\d+)?(?:ms|s)?\b/g, "N")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function fingerprint(kind: FingerprintKind, signature: string): ErrorFingerprint {
+  const clipped = signature.slice(0, MAX_SIGNATURE);
+  return { id: createHash("sha256").update(`${kind}|${clipped}`).digest("hex").slice(0, 12), kind, signature: clipped };
+}
+
+/** "TS2322 on UserProfile" from the code and the non-primitive symbols quoted in the message */
+export function fingerprintTscError(code: string, message: string): ErrorFingerprint {
+  const firstLine = message.split("\n")[0] ?? "";
+  const symbols = [...new Set([...firstLine.matchAll(/['"]([A-Za-z_$][\w$]*(?:\.[\w$]+)*)['"]/g)].map((m) => m[1]!))]
+    .filter((s) => !PRIMITIVE_TYPES.has(s));
+  return fingerprint("tsc", symbols.length > 0 ? `${code} on ${symbols.join(", ")}` : `${code}: ${normalizeErrorText(firstLine)}`);
+}
+
+/** Exceptions in raw output, each with the function of its first stack frame */
+function exceptionFingerprints(output: string): ErrorFingerprint[] {
+  const lines = output.split("\n");
+  const found: ErrorFingerprint[] = [];
+  lines.forEach((line, i) => {
+    const m = line.match(EXCEPTION);
+    if (!m) return;
+    // The trace has to follow right away — a later one belongs to another error
+    const frame = lines[i + 1]?.match(STACK_FRAME)?.[1];
+    found.push(fingerprint("error", `${m[1]}: ${normalizeErrorText(m[2]!)}${frame ? ` at ${frame}` : ""}`));
+  });
+  return found;
+}
+
+/**
+ * Fingerprints for a failed iteration: the verification checks that rejected
+ * it, then each parsed report failure, else the exceptions in the raw output.
+ * Distinct, in that order, at most `limit`.
+ */
+export function fingerprintFailure(
+  failure: { report?: ValidationReport; output?: string; rejectedChecks?: string[] },
+  limit = 10
+): ErrorFingerprint[] {
+  const all = [
+    ...(failure.rejectedChecks ?? []).map((check) => fingerprint("verification", check)),
+    ...(failure.report?.failed
+      ? failure.report.failures.map((f) => f.format === "tsc" ? fingerprintTscError(f.name, f.message) : fingerprint("test", normalizeErrorText(f.name)))
+      : exceptionFingerprints(failure.output ?? "")),
+  ];
+  return [...new Map(all.map((f) => [f.id, f])).values()].slice(0, limit);
+}
+
+/** Group fingerprinted failures by id — most stories first, then most occurrences */
+export function clusterFingerprints(
+  entries: Array<{ storyId: string; timestamp: string; errorFingerprints?: ErrorFingerprint[] }>
+): FingerprintCluster[] {
+  const clusters = new Map<string, FingerprintCluster>();
+  for (const entry of entries) {
+    for (const fp of entry.errorFingerprints ?? []) {
+      const cluster = clusters.get(fp.id);
+      if (!cluster) {
+        clusters.set(fp.id, { ...fp, occurrences: 1, storyIds: [entry.storyId], firstSeen: entry.timestamp, lastSeen: entry.timestamp });
+        continue;
+      }
+      cluster.occurrences++;
+      if (!cluster.storyIds.includes(entry.storyId)) cluster.storyIds.push(entry.storyId);
+      if (entry.timestamp < cluster.firstSeen) cluster.firstSeen = entry.timestamp;
+      if (entry.timestamp > cluster.lastSeen) cluster.lastSeen = entry.timestamp;
+    }
+  }
+  return [...clusters.values()].sort((a, b) => b.storyIds.length - a.storyIds.length || b.occurrences - a.occurrences || b.lastSeen.localeCompare(a.lastSeen));
+}
+
+/** "TS2322 on UserProfile — 4 stories in 2 days (6 failed iterations)" */
+export function describeCluster(cluster: FingerprintCluster): string {
+  const days = Math.max(1, Math.ceil((Date.parse(cluster.lastSeen) - Date.parse(cluster.firstSeen)) / 86_400_000));
+  const stories = cluster.storyIds.length;
+  return `${cluster.signature} — ${stories} ${stories === 1 ? "story" : "stories"} in ${days} ${days === 1 ? "day" : "days"} (${cluster.occurrences} failed ${cluster.occurrences === 1 ? "iteration" : "iterations"})`;
+}
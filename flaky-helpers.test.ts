@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, existsSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { execSync } from "node:child_process";
+import { FLAKY_REGISTRY_FILE, knownFlakyKeys, listFlakyTests, recordFlakes, forgetFlakyTests } from "./flaky-helpers.js";
+
+const ROOT = join(process.cwd(), ".test-flaky-helpers");
+const REPO = join(ROOT, "repo");
+
+function git(cmd: string, cwd = REPO): void {
+  execSync(`git ${cmd}`, { cwd, stdio: "pipe" });
+}
+
+beforeEach(() => {
+  rmSync(ROOT, { recursive: true, force: true });
+  mkdirSync(REPO, { recursive: true });
+  git("init -b main");
+  git("-c user.email=t@t -c user.name=t commit --allow-empty -m init");
+});
+
+afterEach(() => {
+  rmSync(ROOT, { recursive: true, force: true });
+});
+
+describe("flaky test registry", () => {
+  it("counts flips per test and lists the most frequent first", () => {
+    recordFlakes(REPO, [{ key: "tap||slow", name: "slow", stage: "unit" }], "s1");
+    recordFlakes(REPO, [{ key: "tap||slow", name: "slow", stage: "unit" }, { key: "stage|e2e", name: "e2e", stage: "e2e" }], "s2");
+
+    expect(listFlakyTests(REPO).map((t) => [t.name, t.flips, t.storyIds])).toEqual([
+      ["slow", 2, ["s1", "s2"]],
+      ["e2e", 1, ["s2"]],
+    ]);
+    expect(knownFlakyKeys(REPO)).toEqual(new Set(["tap||slow", "stage|e2e"]));
+  });
+
+  it("keeps the registry in the main checkout when recorded from a worktree", () => {
+    const worktree = join(ROOT, "wt");
+    git(`worktree add --detach ${worktree}`);
+
+    recordFlakes(worktree, [{ key: "tap||slow", name: "slow", stage: "unit" }], "s1");
+
+    expect(existsSync(join(REPO, FLAKY_REGISTRY_FILE))).toBe(true);
+    expect(existsSync(join(worktree, FLAKY_REGISTRY_FILE))).toBe(false);
+    expect(knownFlakyKeys(worktree).has("tap||slow")).toBe(true);
+  });
+
+  it("forgets tests by name or key, or all of them", () => {
+    recordFlakes(REPO, [
+      { key: "tap||slow", name: "slow", stage: "unit" },
+      { key: "tap||racy", name: "racy", stage: "unit" },
+      { key: "stage|e2e", name: "e2e", stage: "e2e" },
+    ], "s1");
+
+    expect(forgetFlakyTests(REPO, "slow")).toBe(1);
+    expect(forgetFlakyTests(REPO, "stage|e2e")).toBe(1);
+    expect(forgetFlakyTests(REPO, "missing")).toBe(0);
+    expect(forgetFlakyTests(REPO, "all")).toBe(1);
+    expect(listFlakyTests(REPO)).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Flaky test registry.
+ *
+ * With flake detection on, a failed validation stage is re-run; tests that fail
+ * and then pass without any change are flaky. They're recorded per project in
+ * .ralph-flaky-tests.json — in the main checkout, even when the story ran in a
+ * parallel worktree — and from then on their failures don't fail a story.
+ */
+
+import { execSync } from "node:child_process";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+
+export const FLAKY_REGISTRY_FILE = ".ralph-flaky-tests.json";
+
+/** A test (or whole stage, when it had no parseable report) seen flipping from fail to pass */
+export interface FlakeObservation {
+  /** failureKey() of the test, or stageFlakeKey() for a whole stage */
+  key: string;
+  name: string;
+  file?: string;
+  stage: string;
+}
+
+export interface FlakyTest extends FlakeObservation {
+  /** Times it failed and then passed on a re-run */
+  flips: number;
+  firstSeen: string;
+  lastSeen: string;
+  storyIds: string[];
+}
+
+interface FlakyRegistry {
+  version: 1;
+  tests: Record<string, FlakyTest>;
+}
+
+/** Key for a stage whose failure flipped with no test report to say which test */
+export function stageFlakeKey(stage: string): string {
+  return `stage|${stage}`;
+}
+
+/** The main checkout for a workdir that may be a linked worktree (same relative path within it) */
+function mainCheckout(dir: string): string {
+  try {
+    const out = execSync("git rev-parse --git-dir --git-common-dir --show-prefix", { cwd: dir, encoding: "utf-8", stdio: ["pipe", "pipe", "pipe"] });
+    const [gitDir, commonDir, prefix = ""] = out.split("\n");
+    if (!gitDir || !commonDir || resolve(dir, gitDir) === resolve(dir, commonDir)) return dir;
+    return join(dirname(resolve(dir, commonDir)), prefix);
+  } catch {
+    return dir;
+  }
+}
+
+function registryPath(dir: string): string {
+  return join(mainCheckout(dir), FLAKY_REGISTRY_FILE);
+}
+
+function readRegistry(dir: string): FlakyRegistry {
+  const file = registryPath(dir);
+  if (!existsSync(file)) return { version: 1, tests: {} };
+  try {
+    const registry = JSON.parse(readFileSync(file, "utf-8")) as FlakyRegistry;
+    return registry?.tests ? registry : { version: 1, tests: {} };
+  } catch {
+    return { version: 1, tests: {} };
+  }
+}
+
+/** Keys of every test known to be flaky — their failures are tolerated */
+export function knownFlakyKeys(dir: string): Set<string> {
+  return new Set(Object.keys(readRegistry(dir).tests));
+}
+
+/** Flaky tests, most often flipping first */
+export function listFlakyTests(dir: string): FlakyTest[] {
+  return Object.values(readRegistry(dir).tests).sort((a, b) => b.flips - a.flips || b.lastSeen.localeCompare(a.lastSeen));
+}
+
+export function recordFlakes(dir: string, flakes: FlakeObservation[], storyId: string): void {
+  if (flakes.length === 0) return;
+  const registry = readRegistry(dir);
+  const now = new Date().toISOString();
+  for (const flake of flakes) {
+    const known = registry.tests[flake.key];
+    registry.tests[flake.key] = known
+      ? { ...known, flips: known.flips + 1, lastSeen: now, storyIds: known.storyIds.includes(storyId) ? known.storyIds : [...known.storyIds, storyId] }
+      : { ...flake, flips: 1, firstSeen: now, lastSeen: now, storyIds: [storyId] };
+  }
+  try {
+    writeFileSync(registryPath(dir), JSON.stringify(registry, null, 2) + "\n");
+  } catch (err) {
+    console.warn(`[openclaw-codex-ralph] ⚠️ Could not write ${FLAKY_REGISTRY_FILE}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** Drop fixed tests from the registry by key or name ("all" clears it). Returns how many were removed. */
+export function forgetFlakyTests(dir: string, which: string): number {
+  const registry = readRegistry(dir);
+  const keys = Object.keys(registry.tests).filter((k) => which === "all" || k === which || registry.tests[k]!.name === which);
+  if (keys.length === 0) return 0;
+  for (const key of keys) delete registry.tests[key];
+  writeFileSync(registryPath(dir), JSON.stringify(registry, null, 2) + "\n");
+  return keys.length;
+}
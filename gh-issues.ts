@@ -15,6 +15,7 @@ interface Story {
   priority: number;
   passes: boolean;
   validationCommand?: string;
+  validation?: Array<{ name: string; command: string; required?: boolean }>;
   acceptanceCriteria?: string[];
   issueNumber?: number;
 }
@@ -57,7 +58,9 @@ export function createStoryIssue(workdir: string, story: Story, prd: PRD): numbe
     .map((c) => `- [ ] ${c}`)
     .join("\n");
 
-  const validation = story.validationCommand
+  const validation = story.validation?.length
+    ? `### Validation\n${story.validation.map((s) => `- ${s.name}${s.required === false ? " (advisory)" : ""}: \`${s.command}\``).join("\n")}`
+    : story.validationCommand
     ? `### Validation\n\`${story.validationCommand}\``
     : "";
 
@@ -192,6 +195,34 @@ export function updateTrackingChecklist(workdir: string, issueNumber: number, pr
   return result !== null;
 }
 
+/** URL of the open PR for a branch, if any */
+export function findPullRequest(workdir: string, branch: string): string | null {
+  const url = ghExec(`gh pr view ${shellEscape(branch)} --json url,state -q 'select(.state == "OPEN") | .url' 2>/dev/null`, workdir);
+  return url || null;
+}
+
+/** Open a PR for an already-pushed branch, return its URL */
+export function createPullRequest(
+  workdir: string,
+  pr: { head: string; base?: string | null; title: string; body: string }
+): string | null {
+  const baseArg = pr.base ? ` --base ${shellEscape(pr.base)}` : "";
+  const result = ghExec(
+    `gh pr create --head ${shellEscape(pr.head)}${baseArg} --title ${shellEscape(pr.title)} --body ${shellEscape(pr.body)} 2>&1`,
+    workdir
+  );
+  if (!result) return null;
+
+  const match = result.match(/https:\/\/\S+\/pull\/\d+/);
+  return match ? match[0] : null;
+}
+
+/** Comment on a PR (by number, URL or branch) */
+export function commentOnPullRequest(workdir: string, pr: string, body: string): boolean {
+  const result = ghExec(`gh pr comment ${shellEscape(pr)} --body ${shellEscape(body)}`, workdir);
+  return result !== null;
+}
+
 /** Shell-escape a string for use in execSync commands */
 function shellEscape(s: string): string {
   // Use single quotes, escaping any existing single quotes
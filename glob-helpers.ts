@@ -0,0 +1,15 @@
+/**
+ * Path globs for prd.json settings (protectedPaths, forbiddenFiles, placeholder
+ * allowlists), matched against workdir-relative paths with forward slashes.
+ */
+
+/** Anchored path glob: `**` spans directories, `*` and `?` stay within one */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*\*\/?/g, "\0")
+    .replace(/\*/g, "[^/]*")
+    .replace(/\?/g, "[^/]")
+    .replace(/\0/g, ".*");
+  return new RegExp(`^${source}$`);
+}
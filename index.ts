@@ -16,13 +16,30 @@ import { homedir } from "os";
 import { fileURLToPath } from "url";
 import { createHash } from "crypto";
 import { autopsyTools } from "./autopsy.js";
-import { VALIDATION_OUTPUT_LIMIT, captureValidation } from "./validation-helpers.js";
+import { formatUncoveredLines, type CoverageGate, type NewLineCoverage } from "./coverage-helpers.js";
+import { knownFlakyKeys, listFlakyTests, recordFlakes, forgetFlakyTests, FLAKY_REGISTRY_FILE, type FlakeObservation } from "./flaky-helpers.js";
+import { VALIDATION_OUTPUT_LIMIT, runValidationStages, defaultValidationStages, parseValidationStages, runBaselineValidation, judgeAgainstBaseline, type BaselineRun, type ValidationRun, type ValidationStage } from "./validation-helpers.js";
 import { deduplicateFailureContext } from "./prompt-helpers.js";
 import { generateCodebaseMap, enrichMapFromSession } from "./context-generator.js";
-import { processRegistry, monitorProgress, getActualFilesModified } from "./process-helpers.js";
-import { StoryRetryTracker, DEFAULT_MAX_RETRIES, shouldSkipStory, formatSkippedSummary } from "./loop-guards.js";
-import { createStderrMonitor, formatIterationBehavior, type MonitorStats } from "./loop-monitor.js";
-import { verifyOutput } from "./output-verifier.js";
+import { getActualFilesModified, processRegistry } from "./process-helpers.js";
+import { StoryRetryTracker, DEFAULT_MAX_RETRIES, shouldSkipStory, countStoryFailures, formatSkippedSummary } from "./loop-guards.js";
+import { runSplitPlanning, describeSplitProposal, type SplitProposal, type SplitResult, type SplitTrigger } from "./split-helpers.js";
+import { createMemoryStore, createLocalMemoryStore, isSwarmAvailable, type MemoryStore, type MemoryStoreKind } from "./memory-store.js";
+import { selectModelRung, escalationLadderErrors, describeModelChoice, type ModelRung } from "./escalation-helpers.js";
+import { formatIterationBehavior, type MonitorStats } from "./loop-monitor.js";
+import { getAgentBackend, parseAgentSpec, extractToolNames, countToolCalls, changedPaths, type AgentEvent, type AgentSpec, type CodexEvent } from "./agent-backends.js";
+import { verifyOutput, loadVerificationChecks, type VerificationConfig, type CheckOutcome } from "./output-verifier.js";
+import { runReview, formatReviewFindings, type ReviewResult, type ReviewTrigger } from "./review-helpers.js";
+import { createStoryWorktree, captureWorktreePatch, applyWorktreePatch, removeStoryWorktree, type StoryWorktree } from "./worktree-helpers.js";
+import { getHeadCommit, rollbackFailedAttempt, snapshotTree, type FailurePolicy, type RollbackResult, type TreeSnapshot } from "./rollback-helpers.js";
+import { fingerprintFailure, clusterFingerprints, describeCluster, type ErrorFingerprint } from "./fingerprint-helpers.js";
+import { classifyFailure, failureExtractors, type CustomFailureCategory, type FailureCategory, type FailureClassification } from "./failure-classifier.js";
+import { protectedPatterns, snapshotProtectedPaths, restoreProtectedPaths, formatProtectedPathChanges, type ProtectedPathChange, type ProtectedSnapshot } from "./protected-paths-helpers.js";
+import { RALPH_BUNDLES_DIR, checkoutStoryBranch, checkoutLoopBranch, getCurrentBranch, pushBranch, buildStoryReviewSummary, writeStoryBundle, type BranchStrategy, type BranchCheckout } from "./branch-helpers.js";
+import { validateStoryGraph, getReadyStories, getBlockedStories, markDownstreamBlocked, completeSplitParents, clearPassedBlockers, type BlockedStory } from "./story-graph.js";
+import { DEFAULT_MODEL_PRICES, usageFromEvents, computeCost, accumulateSpend, summarizeSpendByStory, type TokenUsage, type ModelPriceTable } from "./usage-helpers.js";
+import { formatReportFailures, type TestFailure, type ValidationReport } from "./test-report-helpers.js";
+import { parseLoopBudget, checkLoopBudget, checkStoryBudget, storySpend, watchBudget, isStoryBudget, type LoopBudget, type BudgetExceeded, type BudgetWatch, type Spend } from "./budget-helpers.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -50,6 +67,12 @@ interface Story {
   priority: number;
   passes: boolean;
   validationCommand?: string;
+  /** Report file the validation command writes (JUnit XML, TAP, vitest/jest JSON), relative to the workdir */
+  validationReport?: string;
+  /** Ordered validation pipeline (typecheck, lint, unit, e2e). Takes precedence over validationCommand. */
+  validation?: ValidationStage[];
+  /** Minimum % of added lines covered, overriding coverageGate.threshold (0 turns the gate off for this story) */
+  coverageThreshold?: number;
   acceptanceCriteria?: string[];
   issueNumber?: number;
   demoInstructions?: string;
@@ -59,15 +82,43 @@ interface Story {
   /** When true, any modification to test files (*.test.*, *.spec.*) causes verification REJECT.
    *  Prevents Codex from writing aspirational tests it can't fulfill. */
   noTestWrites?: boolean;
+  /** Path globs this story must not touch, on top of the project's protectedPaths. Changes are reverted and REJECTed. */
+  forbiddenFiles?: string[];
+  /** The story may delete tests (e.g. it removes a feature); otherwise fewer tests than at HEAD is a REJECT */
+  allowTestRemoval?: boolean;
+  /** true: a read-only reviewer judges every attempt that passes verification; false: never, even when warnings pile up */
+  review?: boolean;
   /** Grep patterns (plain strings) that must appear in targetFiles after completion.
    *  E.g. ["BESTIARY", "Skeleton", "Goblin"] ensures the bestiary was actually populated. */
   acceptanceAssertions?: string[];
+  /** Story IDs that must pass before this story is picked up. Must not form a cycle. */
+  dependsOn?: string[];
+  /** Upstream stories that were skipped after max retries — set by the loop, cleared when they pass. */
+  blockedBy?: string[];
+  /** Coding-agent backend for this story (overrides the project's) */
+  agent?: AgentSpec;
+  /** Model for this story (overrides the loop's); the escalation ladder climbs from it */
+  model?: string;
+  /** Child stories this story was split into — it no longer runs itself and passes once they all do */
+  splitInto?: string[];
+  /** The story this one was split out of */
+  parentId?: string;
+  /** A planned split waiting for ralph_split_story to apply or reject it */
+  splitProposal?: SplitProposal;
 }
 
-interface PRD {
+export interface PRD {
   version: string;
   projectName: string;
   description?: string;
+  /** Coding-agent backend for the project (overrides plugin config) */
+  agent?: AgentSpec;
+  /** Verification check settings (off/warn/reject) and custom check modules */
+  verification?: VerificationConfig;
+  /** Path globs the agent must never change (Ralph's state files are always protected). Changes are reverted and REJECTed. */
+  protectedPaths?: string[];
+  /** Project failure categories: a regex over the failure output, tried before the built-in classifiers */
+  failureCategories?: CustomFailureCategory[];
   stories: Story[];
   metadata?: {
     createdAt: string;
@@ -77,6 +128,14 @@ interface PRD {
   };
 }
 
+/** The verification check set an iteration ran with, and each check's result */
+interface VerificationChecksLog {
+  loaded: Array<{ name: string; source: string }>;
+  results: CheckOutcome[];
+  /** Custom check modules that failed to load, unknown check names */
+  errors?: string[];
+}
+
 interface IterationResult {
   success: boolean;
   storyId: string;
@@ -94,6 +153,32 @@ interface IterationResult {
   verificationWarnings?: string[];
   issueNumber?: number;
   issueCommented?: boolean;
+  /** Branch the commit landed on (per-story / per-loop strategies) */
+  branch?: string;
+  pullRequestUrl?: string;
+  /** Offline review bundle (.patch) when no PR was opened */
+  bundleFile?: string;
+  /** The agent's run plus the review session, when one ran */
+  usage?: TokenUsage;
+  /** Undefined when the model has no entry in the price table */
+  costUsd?: number;
+  /** Set when a budget ceiling killed the agent mid-iteration */
+  budgetExceeded?: BudgetExceeded;
+  /** Set when an immediate cancel killed the agent mid-iteration */
+  cancelled?: boolean;
+  /** Coverage of the added lines (coverage gate) */
+  coverage?: NewLineCoverage;
+  /** Verification checks that ran and what each said */
+  verificationChecks?: VerificationChecksLog;
+  /** Second-opinion review, when one ran */
+  review?: ReviewResult;
+  /** Protected files the agent changed, reverted right after it finished */
+  protectedPathChanges?: ProtectedPathChange[];
+  /** Model and reasoning effort the agent ran with */
+  model?: string;
+  reasoningEffort?: string;
+  /** Escalation rung reached (0 = the story's own model), when a ladder is configured */
+  escalationRung?: number;
 }
 
 // ============================================================================
@@ -131,28 +216,49 @@ const ORCHESTRATION_PATTERNS = {
   },
 } as const;
 
-interface LoopResult {
+export interface LoopResult {
   success: boolean;
   iterationsRun: number;
   storiesCompleted: number;
   remainingStories: number;
   results: IterationResult[];
-  stoppedReason: "complete" | "limit" | "failure" | "error" | "cancelled";
+  stoppedReason: "complete" | "limit" | "failure" | "error" | "cancelled" | "blocked" | "budget";
+  /** Tokens and cost across all iterations, failed ones and split planning included */
+  usage?: TokenUsage;
+  costUsd?: number;
+  /** The ceiling that stopped the loop (stoppedReason "budget") */
+  budgetExceeded?: BudgetExceeded;
 }
 
 // ============================================================================
 // Job Store for Async Loops
 // ============================================================================
 
+interface InFlightStory {
+  id: string;
+  title: string;
+  startedAt: number;
+  worktree?: string;
+}
+
 interface LoopJob {
   id: string;
   workdir: string;
-  status: "running" | "completed" | "failed" | "cancelled";
+  /**
+   * "interrupted" = was running when the gateway died; "paused" = held by ralph_loop_pause.
+   * Both are resumable via ralph_loop_resume.
+   */
+  status: "running" | "completed" | "failed" | "cancelled" | "interrupted" | "paused";
   startedAt: number;
   completedAt?: number;
   currentIteration: number;
+  /** Iterations fully handled (logged) — resume continues from here */
+  lastCompletedIteration: number;
   maxIterations: number;
-  currentStory?: { id: string; title: string };
+  /** Stories currently being worked on (more than one when concurrency > 1) */
+  inFlightStories: InFlightStory[];
+  /** Max stories run in parallel, each in its own git worktree (1 = sequential in the main checkout) */
+  concurrency: number;
   storiesCompleted: number;
   totalStories: number;
   results: IterationResult[];
@@ -161,15 +267,114 @@ interface LoopJob {
   model?: string;
   sandbox?: string;
   ghIssues?: boolean;
+  stopOnFailure?: boolean;
+  onFailure?: FailurePolicy;
+  reapplyFailedPatch?: boolean;
+  branchStrategy?: BranchStrategy;
+  baselineValidation?: boolean;
+  flakeRetries?: number;
+  escalation?: ModelRung[];
+  storySplitting?: StorySplittingConfig;
+  resumedAt?: number[];
+  /** Tokens and cost across all iterations, failed ones and split planning included */
+  usage?: TokenUsage;
+  costUsd?: number;
+  budget?: LoopBudget;
+  /** The ceiling that stopped the loop */
+  budgetExceeded?: BudgetExceeded;
+  /** Set by ralph_loop_pause; the loop holds before its next iteration */
+  pauseRequested?: boolean;
+  pausedAt?: number;
+  /** Time spent paused — not counted against the duration budget */
+  pausedMs?: number;
 }
 
 const activeJobs = new Map<string, LoopJob>();
 
+const RALPH_JOBS_DIR = join(homedir(), ".openclaw", "ralph-jobs");
+
+/** Persist job state so it survives gateway restarts. Never throws. */
+function checkpointJob(job: LoopJob): void {
+  try {
+    mkdirSync(RALPH_JOBS_DIR, { recursive: true });
+    const { abortController: _abortController, ...persisted } = job;
+    writeFileSync(join(RALPH_JOBS_DIR, `${job.id}.json`), JSON.stringify(persisted, null, 2));
+  } catch (err) {
+    console.error(`[openclaw-codex-ralph] Failed to checkpoint job ${job.id}: ${err}`);
+  }
+}
+
+function readPersistedJobs(): LoopJob[] {
+  if (!existsSync(RALPH_JOBS_DIR)) return [];
+  const jobs: LoopJob[] = [];
+  for (const file of readdirSync(RALPH_JOBS_DIR).filter((f) => f.endsWith(".json"))) {
+    try {
+      const job = JSON.parse(readFileSync(join(RALPH_JOBS_DIR, file), "utf-8")) as LoopJob;
+      // Checkpoints written before these fields existed
+      job.inFlightStories = job.inFlightStories || [];
+      job.concurrency = job.concurrency || 1;
+      job.lastCompletedIteration = job.lastCompletedIteration ?? 0;
+      jobs.push(job);
+    } catch {
+      // skip malformed checkpoints
+    }
+  }
+  return jobs;
+}
+
+/**
+ * Load checkpointed jobs into activeJobs on plugin start. Jobs that were still
+ * "running" belonged to a gateway process that died — mark them interrupted.
+ * Finished jobs older than maxAgeMs are deleted.
+ */
+function recoverPersistedJobs(maxAgeMs: number = 7 * 86400000): LoopJob[] {
+  const interrupted: LoopJob[] = [];
+  try {
+    const now = Date.now();
+    for (const job of readPersistedJobs()) {
+      if (activeJobs.has(job.id)) continue;
+
+      if (job.status === "running") {
+        const inFlight = job.inFlightStories.map((st) => st.title).join(", ");
+        job.status = "interrupted";
+        job.error = `Gateway restarted during iteration ${job.currentIteration}${inFlight ? ` (${inFlight})` : ""}, last completed: ${job.lastCompletedIteration}. Use ralph_loop_resume to continue.`;
+        job.inFlightStories = [];
+        checkpointJob(job);
+        interrupted.push(job);
+      } else if (job.status !== "interrupted" && job.completedAt && now - job.completedAt > maxAgeMs) {
+        try { unlinkSync(join(RALPH_JOBS_DIR, `${job.id}.json`)); } catch { /* ignore */ }
+        continue;
+      }
+
+      activeJobs.set(job.id, job);
+    }
+  } catch (err) {
+    console.error(`[openclaw-codex-ralph] Failed to recover persisted jobs: ${err}`);
+  }
+  return interrupted;
+}
+
 function generateJobId(): string {
   return `ralph-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 }
 
-function emitLoopProgress(job: LoopJob, event: "start" | "iteration" | "complete" | "error") {
+/** Story to report in loop_error events: the first in-flight story, else the last one attempted */
+function lastStoryOf(job: LoopJob): { id: string; title: string } | undefined {
+  const inFlight = job.inFlightStories[0];
+  if (inFlight) return { id: inFlight.id, title: inFlight.title };
+  const last = job.results[job.results.length - 1];
+  return last ? { id: last.storyId, title: last.storyTitle } : undefined;
+}
+
+/** Time the loop has spent running, pauses excluded */
+function activeElapsedMs(job: LoopJob): number {
+  const pausedNow = job.status === "paused" && job.pausedAt ? Date.now() - job.pausedAt : 0;
+  return Date.now() - job.startedAt - (job.pausedMs ?? 0) - pausedNow;
+}
+
+function emitLoopProgress(job: LoopJob, event: "start" | "iteration" | "complete" | "error" | "paused") {
+  // Every progress event is a state change worth surviving a restart
+  checkpointJob(job);
   emitDiagnosticEvent({
     type: `ralph:loop:${event}`,
     plugin: "openclaw-codex-ralph",
@@ -179,7 +384,8 @@ function emitLoopProgress(job: LoopJob, event: "start" | "iteration" | "complete
       status: job.status,
       iteration: job.currentIteration,
       maxIterations: job.maxIterations,
-      currentStory: job.currentStory,
+      inFlightStories: job.inFlightStories.map((s) => ({ id: s.id, title: s.title })),
+      concurrency: job.concurrency,
       storiesCompleted: job.storiesCompleted,
       totalStories: job.totalStories,
       elapsedMs: Date.now() - job.startedAt,
@@ -199,6 +405,7 @@ const RALPH_EVENTS_DIR = join(homedir(), ".openclaw", "ralph-events");
 const RALPH_CURSOR_FILE = join(homedir(), ".openclaw", "ralph-cursor.json");
 const RALPH_ITERATIONS_DIR = join(homedir(), ".openclaw", "ralph-iterations");
 const RALPH_PROMPTS_DIR = join(RALPH_ITERATIONS_DIR, "prompts");
+const RALPH_PATCHES_DIR = join(RALPH_ITERATIONS_DIR, "patches");
 
 interface RalphEvent {
   timestamp: string;
@@ -220,6 +427,10 @@ interface RalphEvent {
   codexSessionId?: string;
   issueNumber?: number;
   verificationRejectReason?: string;
+  branch?: string;
+  pullRequestUrl?: string;
+  bundleFile?: string;
+  budgetExceeded?: BudgetExceeded;
 }
 
 function writeRalphEvent(type: string, data: Partial<RalphEvent> & { jobId: string }): void {
@@ -265,7 +476,7 @@ function cleanupOldEvents(maxAgeMs: number = 86400000): void {
 // Iteration Log (per-project JSONL + centralized prompt persistence)
 // ============================================================================
 
-interface IterationLogEntry {
+export interface IterationLogEntry {
   timestamp: string;
   epoch: number;
   jobId: string;
@@ -281,6 +492,8 @@ interface IterationLogEntry {
   success: boolean;
   validationPassed: boolean;
   failureCategory?: FailureCategory;
+  /** How the category was decided: confidence, the lines that decided it, the classifier */
+  failureClassification?: FailureClassification;
   duration: number;
   codexOutputLength: number;
   codexFinalMessageLength: number;
@@ -288,14 +501,49 @@ interface IterationLogEntry {
   toolNames: string[];
   filesModified: string[];
   validationOutput?: string;
+  /** Failing tests / diagnostics parsed from the validation run (new ones only, with a baseline) */
+  validationReport?: ValidationReport;
+  /** Validation of the pre-iteration HEAD (baselineValidation) */
+  baseline?: { head: string; passed: boolean; cached: boolean; report?: ValidationReport };
+  /** Failures the final run shared with the baseline — not held against the story */
+  preExistingFailures?: TestFailure[];
+  /** Per-stage outcome of the validation pipeline */
+  validationStages?: Array<{ name: string; required: boolean; success: boolean; skipped?: boolean; timedOut?: boolean; category?: FailureCategory; durationMs: number; failed?: number; reruns?: number }>;
+  /** Failures tolerated as flaky (flakeRetries): flipped on a re-run, or known from the registry */
+  flakyTests?: Array<FlakeObservation & { known: boolean }>;
+  /** Coverage of the added lines (coverage gate) */
+  coverage?: NewLineCoverage;
+  verificationChecks?: VerificationChecksLog;
+  review?: ReviewResult;
+  protectedPathChanges?: ProtectedPathChange[];
   verificationPassed?: boolean;
   verificationWarnings?: string[];
   verificationRejectReason?: string;
+  errorFingerprints?: ErrorFingerprint[];
   model: string;
+  reasoningEffort?: string;
+  /** Escalation rung the story had reached (0 = its own model), when a ladder is configured */
+  escalationRung?: number;
   sandbox: string;
   startedAt?: string;
   completedAt?: string;
   stderrStats?: MonitorStats;
+  /** What happened to the working tree after a failure (onFailure policy) */
+  failurePolicy?: FailurePolicy;
+  /** Patch of the failed attempt, saved by the "stash" policy */
+  failedPatchFile?: string;
+  rollbackError?: string;
+  /** Previous attempt's patch that was re-applied before this run */
+  reappliedPatchFile?: string;
+  /** "cancelled" = agent killed by an immediate cancel; not counted as a failed attempt */
+  outcome?: "cancelled";
+  branch?: string;
+  pullRequestUrl?: string;
+  bundleFile?: string;
+  /** Agent backend that ran the iteration (codex, scripted, or a command backend's name) */
+  backend?: string;
+  usage?: TokenUsage;
+  costUsd?: number;
 }
 
 function persistPrompt(jobId: string, storyId: string, prompt: string): { path: string; hash: string } {
@@ -316,6 +564,7 @@ function appendIterationLog(workdir: string, entry: IterationLogEntry): void {
   try {
     const logPath = join(resolvePath(workdir), ".ralph-iterations.jsonl");
     appendFileSync(logPath, JSON.stringify(entry) + "\n");
+    noteStateWrite(workdir, ".ralph-iterations.jsonl");
   } catch (err) {
     console.error(`[openclaw-codex-ralph] Failed to append iteration log: ${err}`);
   }
@@ -371,29 +620,6 @@ function resolveSessionFile(sessionId: string): string | undefined {
   }
 }
 
-function extractToolNames(events: CodexEvent[]): string[] {
-  const names = new Set<string>();
-  for (const event of events) {
-    if (!event.item) continue;
-    if (event.type === "item.completed" || event.type === "item.started") {
-      if (event.item.type === "command_execution" && event.item.command) {
-        // Extract the base command name from the full command string
-        // e.g. '/usr/bin/zsh -lc "cd /foo && pnpm test"' → 'pnpm test'
-        const cmd = event.item.command;
-        const shellMatch = cmd.match(/-lc\s+"(?:cd\s+[^&]+&&\s*)?(.+?)"/);
-        const baseCmd = shellMatch ? shellMatch[1]! : cmd;
-        const firstWord = baseCmd.trim().split(/\s+/).slice(0, 2).join(" ");
-        names.add(firstWord);
-      } else if (event.item.type === "file_change" && event.item.path) {
-        names.add("file_change");
-      } else if (event.item.type === "mcp_tool_call") {
-        names.add("mcp_tool_call");
-      }
-    }
-  }
-  return [...names];
-}
-
 function cleanupOldPrompts(maxAgeMs: number = 7 * 86400000): void {
   try {
     if (!existsSync(RALPH_PROMPTS_DIR)) return;
@@ -466,16 +692,45 @@ function getLastCursor(): CursorEntry | null {
 // Failure Categorization
 // ============================================================================
 
-type FailureCategory = "type_error" | "test_failure" | "lint_error" | "build_error" | "timeout" | "verification_rejected" | "demo_verification_failed" | "unknown";
+/**
+ * Classify a failed run: verification first, then the first required validation
+ * stage that failed (its category as a prior, its report and output parsed), then
+ * the agent's own output — catches timeouts and stalls when validation happened to pass.
+ */
+function classifyRunFailure(
+  iterResult: IterationResult,
+  agentResult: CodexIterationResult,
+  validation: ValidationRun,
+  customCategories?: CustomFailureCategory[]
+): FailureClassification {
+  if (iterResult.verificationPassed === false) {
+    const rejected = (iterResult.verificationChecks?.results ?? []).find((c) => c.outcome === "reject");
+    const evidence = rejected ? `${rejected.name}: ${rejected.message ?? ""}` : iterResult.review?.verdict?.summary ?? "";
+    return { category: "verification_rejected", confidence: 1, evidence: evidence.slice(0, 300), source: "verification" };
+  }
+  const stage = validation.success ? undefined : validation.stages?.find((s) => s.required && !s.success && !s.skipped);
+  if (stage?.timedOut) return { category: "timeout", confidence: 1, evidence: `Stage "${stage.name}" timed out`, source: "stage" };
+
+  const { extractors, errors } = failureExtractors(customCategories);
+  for (const error of errors) console.warn(`[openclaw-codex-ralph] ${error}`);
+  const agent = {
+    toolCalls: agentResult.toolCalls,
+    output: agentResult.output,
+    finalMessage: agentResult.finalMessage,
+    structured: agentResult.structuredResult !== undefined,
+  };
+  if (stage) return classifyFailure({ output: stage.output, report: stage.report, agent }, { extractors, stage });
+  if (!validation.success) return classifyFailure({ output: validation.output, report: validation.report, agent }, { extractors });
+  return classifyFailure({ output: agentResult.output, agent }, { extractors });
+}
 
-function categorizeFailure(output: string): FailureCategory {
-  const lower = output.toLowerCase();
-  if (lower.includes("timeout") || lower.includes("exceeded 10 minutes") || lower.includes("timed out")) return "timeout";
-  if (lower.includes("error ts") || lower.includes("ts(") || (lower.includes("type") && lower.includes("not assignable")) || lower.includes("cannot find name")) return "type_error";
-  if (lower.includes("eslint") || lower.includes("prettier") || lower.includes("lint")) return "lint_error";
-  if (lower.includes("assert") || lower.includes("expect(") || lower.includes("test fail") || lower.includes("tests failed") || lower.includes("test suites failed")) return "test_failure";
-  if (lower.includes("build fail") || lower.includes("bundle") || lower.includes("esbuild") || lower.includes("webpack") || lower.includes("rollup") || lower.includes("vite")) return "build_error";
-  return "unknown";
+/** Fingerprints of a failed run: the checks (or reviewer) that rejected it, then its validation failures */
+function failureFingerprints(iterResult: IterationResult, validation: ValidationRun): ErrorFingerprint[] {
+  const rejectedChecks = (iterResult.verificationChecks?.results ?? []).filter((c) => c.outcome === "reject").map((c) => c.name);
+  if (iterResult.review?.verdict?.verdict === "reject") rejectedChecks.push("review");
+  return validation.success
+    ? fingerprintFailure({ rejectedChecks })
+    : fingerprintFailure({ report: validation.report, output: validation.output, rejectedChecks });
 }
 
 // ============================================================================
@@ -495,6 +750,10 @@ interface RalphContextFailure {
   storyTitle?: string;
   category: FailureCategory;
   error: string;
+  /** Exact failing tests, when validation produced a parseable report */
+  failingTests?: TestFailure[];
+  /** Normalized signatures of the errors, stable across iterations and stories */
+  errorFingerprints?: ErrorFingerprint[];
   toolNames?: string[];
   iterationNumber?: number;
 }
@@ -504,6 +763,24 @@ interface RalphContext {
   failures: RalphContextFailure[];
 }
 
+/** The project's protectedPaths plus its custom check modules — an agent could otherwise disarm a check */
+function projectProtectedPaths(prd: PRD): string[] {
+  return [...(prd.protectedPaths ?? []), ...(prd.verification?.customChecks ?? []).map((p) => p.replace(/^\.\//, ""))];
+}
+
+/** Protected-path snapshots of agent runs in flight, by resolved workdir */
+const protectedSnapshots = new Map<string, ProtectedSnapshot>();
+
+/**
+ * Ralph's own state writes while an agent runs (ralph_add_story on a running
+ * loop) move the snapshot along, so restoring it doesn't revert them.
+ */
+function noteStateWrite(workdir: string, file: string): void {
+  const snapshot = protectedSnapshots.get(resolvePath(workdir));
+  if (!snapshot) return;
+  try { snapshot.files.set(file, readFileSync(join(resolvePath(workdir), file))); } catch { /* best-effort */ }
+}
+
 function readRalphContext(workdir: string): RalphContext {
   const contextPath = join(resolvePath(workdir), ".ralph-context.json");
   if (!existsSync(contextPath)) return { stories: [], failures: [] };
@@ -517,6 +794,7 @@ function readRalphContext(workdir: string): RalphContext {
 function writeRalphContext(workdir: string, context: RalphContext): void {
   const contextPath = join(resolvePath(workdir), ".ralph-context.json");
   writeFileSync(contextPath, JSON.stringify(context, null, 2));
+  noteStateWrite(workdir, ".ralph-context.json");
 }
 
 function addContextStory(workdir: string, entry: RalphContextStory): void {
@@ -572,6 +850,9 @@ function buildStructuredContextSnippet(workdir: string): string {
     parts.push("Recent failures:");
     for (const f of failures) {
       parts.push(`  - [${f.category}] Story ${f.storyId}: ${f.error.slice(0, 400)}`);
+      for (const t of f.failingTests?.slice(0, 3) || []) {
+        parts.push(`      ✗ ${t.name}${t.file ? ` (${t.file}${t.line ? `:${t.line}` : ""})` : ""}`);
+      }
     }
   }
 
@@ -584,6 +865,17 @@ function buildFailurePatternContext(workdir: string): string {
 
   const parts: string[] = [];
 
+  // The exact same error across several stories — more telling than a shared category
+  const recurring = clusterFingerprints(readIterationLog(workdir, { onlyFailed: true, limit: 200 }))
+    .filter((c) => c.storyIds.length >= 2)
+    .slice(0, 3);
+  for (const cluster of recurring) {
+    parts.push([
+      `🔁 RECURRING ERROR: ${describeCluster(cluster)}`,
+      `  ACTION REQUIRED: The same error keeps failing different stories. Find its root cause before building on top of it.`,
+    ].join("\n"));
+  }
+
   // Group by failure category
   const byCategory: Record<string, IterationLogEntry[]> = {};
   for (const entry of entries) {
@@ -683,51 +975,18 @@ function readStoryContext(workdir: string): string {
 }
 
 // ============================================================================
-// Hivemind Integration (Learning Capture)
+// Hivemind Integration (Learning Capture, see memory-store.ts)
 // ============================================================================
 
-let _swarmAvailable: boolean | null = null;
-
-function isSwarmAvailable(): boolean {
-  if (_swarmAvailable !== null) return _swarmAvailable;
-  try {
-    execSync("which swarm", { encoding: "utf-8", stdio: "pipe" });
-    _swarmAvailable = true;
-  } catch {
-    _swarmAvailable = false;
-  }
-  return _swarmAvailable;
-}
+/** Where learnings are kept — the local JSONL store unless memoryStore is "swarm" (set in register) */
+let memoryStore: MemoryStore = createLocalMemoryStore();
 
-function hivemindStore(information: string, tags: string): void {
-  if (!isSwarmAvailable()) return;
-  try {
-    // Use -- to prevent information from being parsed as flags
-    const safeInfo = information.replace(/"/g, '\\"').replace(/\n/g, " ").slice(0, 1000);
-    const safeTags = tags.replace(/"/g, "");
-    execSync(`swarm memory store "${safeInfo}" --tags "${safeTags}"`, {
-      encoding: "utf-8",
-      timeout: 15000,
-      stdio: "pipe",
-    });
-  } catch {
-    // Hivemind failures must never break the loop
-  }
+function hivemindStore(information: string, tags: string, project: string): void {
+  memoryStore.store(information, tags.split(","), project);
 }
 
-function hivemindFind(query: string, limit: number = 3): string {
-  if (!isSwarmAvailable()) return "";
-  try {
-    const safeQuery = query.replace(/"/g, '\\"').replace(/\n/g, " ");
-    const result = execSync(`swarm memory find "${safeQuery}" --limit ${limit}`, {
-      encoding: "utf-8",
-      timeout: 15000,
-      stdio: "pipe",
-    });
-    return result.trim();
-  } catch {
-    return "";
-  }
+function hivemindFind(query: string, limit: number = 3, project?: string): string {
+  return memoryStore.find({ query, limit, project });
 }
 
 /**
@@ -738,24 +997,24 @@ function aggressiveHivemindPull(story: Story, prd: PRD, workdir: string): string
   const parts: string[] = [];
 
   // Query 1: Direct story relevance (5 results)
-  const storyContext = hivemindFind(story.title, 5);
+  const storyContext = hivemindFind(story.title, 5, prd.projectName);
   if (storyContext) parts.push("### Story-Relevant Learnings\n" + storyContext);
 
   // Query 2: Project failure patterns (5 results)
-  const failureContext = hivemindFind(`ralph failure ${prd.projectName}`, 5);
+  const failureContext = hivemindFind(`ralph failure ${prd.projectName}`, 5, prd.projectName);
   if (failureContext) parts.push("### Prior Failure Patterns\n" + failureContext);
 
   // Query 3: Project-specific learnings (3 results)
-  const projectContext = hivemindFind(`ralph learning ${prd.projectName}`, 3);
+  const projectContext = hivemindFind(`ralph learning ${prd.projectName}`, 3, prd.projectName);
   if (projectContext) parts.push("### Project Learnings\n" + projectContext);
 
-  // Query 4: Technology-specific gotchas based on story description keywords
+  // Query 4: Technology-specific gotchas based on story description keywords (across projects)
   const descWords = (story.description || story.title || "").split(/\s+/).slice(0, 5).join(" ");
   const techContext = hivemindFind(`${descWords} gotcha`, 3);
   if (techContext) parts.push("### Technology Gotchas\n" + techContext);
 
   // Query 5: Recent iteration behavior insights (how did the last agent perform?)
-  const behaviorContext = hivemindFind(`ralph session-insight ${prd.projectName}`, 2);
+  const behaviorContext = hivemindFind(`ralph session-insight ${prd.projectName}`, 2, prd.projectName);
   if (behaviorContext) parts.push("### Recent Iteration Behavior\n" + behaviorContext);
 
   const combined = parts.join("\n\n");
@@ -805,6 +1064,24 @@ interface ShowboatConfig {
   alwaysRequire: boolean;
 }
 
+interface ReviewConfig {
+  /** Review attempts that pass verification with enough warnings to set requiresLLMReview */
+  enabled: boolean;
+  /** Review every attempt that passes verification */
+  always: boolean;
+  /** Reviewer model (default: the iteration's model) */
+  model?: string;
+}
+
+interface StorySplittingConfig {
+  /** Plan a split of a story that exhausted its retries instead of only skipping it */
+  enabled: boolean;
+  /** Insert the proposed children right away; otherwise the proposal waits for ralph_split_story */
+  autoApply: boolean;
+  /** Planner model (default: the story's model) */
+  model?: string;
+}
+
 interface PluginConfig {
   model: string;
   maxIterations: number;
@@ -813,6 +1090,36 @@ interface PluginConfig {
   debug: boolean;
   ghIssues: boolean;
   showboat: ShowboatConfig;
+  /** What to do with the working tree after a failed iteration */
+  onFailure: FailurePolicy;
+  /** On retry, re-apply the previous attempt's stashed patch as a starting point */
+  reapplyFailedPatch: boolean;
+  /** Where commits land: the checked-out branch, ralph/<story-id> per story, or one ralph/loop-<job-id> per loop */
+  branchStrategy: BranchStrategy;
+  /** Default coding-agent backend (projects and stories can override) */
+  agent: AgentSpec;
+  /** Hard limit for one agent run */
+  iterationTimeoutMs: number;
+  /** Kill the agent when it reports no progress for this long */
+  stallTimeoutMs: number;
+  /** USD per million tokens by model, merged over DEFAULT_MODEL_PRICES */
+  modelPrices: ModelPriceTable;
+  /** Validate the untouched HEAD before each iteration; only new failures fail the story */
+  baselineValidation: boolean;
+  /** Re-run a failed validation stage up to N times; tests that flip are flaky and don't fail the story (0 = off) */
+  flakeRetries: number;
+  /** Verification check on coverage of the lines a story added */
+  coverageGate: CoverageGate;
+  /** Second-opinion review by a read-only agent session */
+  review: ReviewConfig;
+  /** Reasoning effort passed to the agent; unset leaves the model's default */
+  reasoningEffort?: string;
+  /** Model escalation ladder: stronger models / more effort as a story keeps failing */
+  escalation: ModelRung[];
+  /** Break stories that keep failing into smaller child stories */
+  storySplitting: StorySplittingConfig;
+  /** Where learnings are stored and searched: the built-in JSONL store or the swarm CLI */
+  memoryStore: MemoryStoreKind;
 }
 
 const DEFAULT_CONFIG: PluginConfig = {
@@ -823,6 +1130,20 @@ const DEFAULT_CONFIG: PluginConfig = {
   debug: false,
   ghIssues: false,
   showboat: { enabled: false, alwaysRequire: false },
+  onFailure: "keep",
+  reapplyFailedPatch: false,
+  branchStrategy: "current",
+  agent: { type: "codex" },
+  iterationTimeoutMs: 600000,
+  stallTimeoutMs: 120000,
+  modelPrices: DEFAULT_MODEL_PRICES,
+  baselineValidation: false,
+  flakeRetries: 0,
+  coverageGate: { threshold: 0, severity: "WARN" },
+  review: { enabled: false, always: false },
+  escalation: [],
+  storySplitting: { enabled: false, autoApply: false },
+  memoryStore: "local",
 };
 
 // ============================================================================
@@ -849,6 +1170,7 @@ function readPRD(workdir: string): PRD | null {
 function writePRD(workdir: string, prd: PRD): void {
   const prdPath = join(resolvePath(workdir), "prd.json");
   writeFileSync(prdPath, JSON.stringify(prd, null, 2));
+  noteStateWrite(workdir, "prd.json");
 }
 
 function readProgress(workdir: string): string {
@@ -862,13 +1184,20 @@ function appendProgress(workdir: string, entry: string): void {
   const existing = existsSync(progressPath) ? readFileSync(progressPath, "utf-8") : "";
   const timestamp = new Date().toISOString();
   writeFileSync(progressPath, `${existing}\n---\n[${timestamp}]\n${entry}\n`);
+  noteStateWrite(workdir, "progress.txt");
+}
+
+function getNextStory(prd: PRD, exclude?: Set<string>): Story | null {
+  return getReadyStories(prd.stories, exclude)[0] ?? null;
 }
 
-function getNextStory(prd: PRD): Story | null {
-  const pending = prd.stories
-    .filter((s) => !s.passes)
-    .sort((a, b) => a.priority - b.priority);
-  return pending[0] ?? null;
+function parseDependsOn(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : [String(parsed)];
+  } catch {
+    return raw.split(",").map((s) => s.trim()).filter(Boolean);
+  }
 }
 
 // ============================================================================
@@ -1030,9 +1359,54 @@ function extractSessionMessages(events: SessionEvent[], ranges?: string): Array<
   return messages;
 }
 
-function runValidation(workdir: string, command?: string): { success: boolean; output: string } {
-  const result = captureValidation(resolvePath(workdir), command);
-  return { success: result.success, output: result.output };
+/** The story's pipeline: its stages, else its validationCommand as a single stage, else the project defaults */
+function validationStages(workdir: string, story: Story): ValidationStage[] {
+  if (story.validation?.length) return story.validation;
+  if (story.validationCommand) return [{ name: "validation", command: story.validationCommand, report: story.validationReport }];
+  return defaultValidationStages(resolvePath(workdir));
+}
+
+/**
+ * With a baseline to compare against, every stage runs — a skipped stage can't be judged.
+ * With flakeRetries, failed stages are re-run and known-flaky tests are tolerated.
+ */
+function runValidation(workdir: string, story: Story, cfg: PluginConfig, runAll?: boolean): ValidationRun {
+  const dir = resolvePath(workdir);
+  return runValidationStages(dir, validationStages(workdir, story), {
+    runAll,
+    flakeRetries: cfg.flakeRetries,
+    knownFlaky: cfg.flakeRetries > 0 ? knownFlakyKeys(dir) : undefined,
+  });
+}
+
+/** Flaky tolerated by the run, with newly seen flips recorded in the registry */
+function noteFlakes(workdir: string, story: Story, validation: ValidationRun): Array<FlakeObservation & { known: boolean }> {
+  const flaky = (validation.stages ?? []).flatMap((s) => s.flaky ?? []);
+  if (flaky.length === 0) return flaky;
+  recordFlakes(resolvePath(workdir), flaky.filter((f) => !f.known), story.id);
+  console.warn(`[openclaw-codex-ralph] ⚠️ Flaky for ${story.title}, not counted: ${flaky.map((f) => f.name).join(", ")}`);
+  return flaky;
+}
+
+/** The story's validation on the current HEAD, before the agent runs (cached per sha) */
+function baselineFor(workdir: string, story: Story): BaselineRun | undefined {
+  const dir = resolvePath(workdir);
+  const head = getHeadCommit(dir);
+  return head ? runBaselineValidation(dir, head, validationStages(workdir, story)) : undefined;
+}
+
+function describeValidation(story: Story): string {
+  if (story.validation?.length) return story.validation.map((s) => s.name).join(" → ");
+  return story.validationCommand || "default";
+}
+
+/** Prompt lines for failures the baseline already had, so the agent doesn't chase them */
+function buildPreExistingFailuresContext(baseline: BaselineRun | undefined): string {
+  if (!baseline || baseline.success || !baseline.report?.failed) return "";
+  return [
+    `These already fail on ${baseline.head.slice(0, 7)}, before your changes. Don't fix them unless this story asks for it — only new failures count against you.`,
+    formatReportFailures(baseline.report, 20),
+  ].join("\n");
 }
 
 function gitCommit(workdir: string, message: string): string | null {
@@ -1097,7 +1471,13 @@ function extractActionSequence(events: SessionEvent[]): string {
   return trimmed.join("\n");
 }
 
-function buildPreviousAttemptContext(workdir: string, storyId: string): string {
+function findReapplicablePatch(workdir: string, storyId: string): string | undefined {
+  const entries = readIterationLog(workdir, { storyId, onlyFailed: true, limit: 1 });
+  const patchFile = entries[entries.length - 1]?.failedPatchFile;
+  return patchFile && existsSync(patchFile) ? patchFile : undefined;
+}
+
+function buildPreviousAttemptContext(workdir: string, storyId: string, reapplyFailedPatch?: boolean): string {
   // Read iteration log for this story, get the most recent failed entries
   const entries = readIterationLog(workdir, { storyId, onlyFailed: true, limit: 3 });
   if (entries.length === 0) return "";
@@ -1106,8 +1486,15 @@ function buildPreviousAttemptContext(workdir: string, storyId: string): string {
   const parts: string[] = [];
 
   parts.push(`Previous attempt failed (${lastFailed.failureCategory || "unknown"}, ${Math.round(lastFailed.duration / 1000)}s)`);
+  const failedStage = lastFailed.validationStages?.find((s) => s.required && !s.success && !s.skipped);
+  if (failedStage) parts.push(`Failed validation stage: ${failedStage.name}`);
   parts.push(`Tools used: ${lastFailed.toolNames.join(", ") || "none"}`);
   parts.push(`Files touched: ${lastFailed.filesModified.join(", ") || "none"}`);
+  if (reapplyFailedPatch && findReapplicablePatch(workdir, storyId)) {
+    parts.push(`The previous attempt's changes have been re-applied to the working tree as your starting point. Keep what works, fix what broke.`);
+  } else if (lastFailed.failurePolicy === "stash" || lastFailed.failurePolicy === "reset") {
+    parts.push(`The previous attempt's changes were rolled back — you are starting from a clean tree.`);
+  }
 
   // Try to read session transcript for granular action sequence
   if (lastFailed.codexSessionId) {
@@ -1121,8 +1508,23 @@ function buildPreviousAttemptContext(workdir: string, storyId: string): string {
     }
   }
 
-  // Include validation output (already captured in iteration log)
-  if (lastFailed.validationOutput) {
+  // A reviewer's rejection says which criteria it found unmet
+  if (lastFailed.review?.verdict?.verdict === "reject") {
+    parts.push("\nA reviewer rejected the previous attempt:");
+    parts.push(formatReviewFindings(lastFailed.review.verdict));
+  }
+
+  // A coverage rejection names the lines no test ran
+  if (lastFailed.verificationPassed === false && lastFailed.coverage?.uncovered.length) {
+    parts.push(`\nNew lines no test runs (${lastFailed.coverage.percent}% covered):`);
+    parts.push(formatUncoveredLines(lastFailed.coverage));
+  }
+
+  // Exact failing tests beat a truncated log
+  if (lastFailed.validationReport?.failed) {
+    parts.push(`\nFailing tests (${lastFailed.validationReport.failed}):`);
+    parts.push(formatReportFailures(lastFailed.validationReport));
+  } else if (lastFailed.validationOutput) {
     parts.push("\nValidation error:");
     parts.push(lastFailed.validationOutput.slice(0, 1000));
   }
@@ -1137,7 +1539,7 @@ function buildPreviousAttemptContext(workdir: string, storyId: string): string {
   return result.length > 3000 ? result.slice(0, 3000) + "\n..." : result;
 }
 
-function buildIterationPrompt(prd: PRD, story: Story, progress: string, hivemindContext?: string, structuredContext?: string, failurePatternContext?: string, previousAttemptContext?: string, codebaseMap?: string, previousBehavior?: string, issueContext?: string): string {
+function buildIterationPrompt(prd: PRD, story: Story, progress: string, hivemindContext?: string, structuredContext?: string, failurePatternContext?: string, previousAttemptContext?: string, codebaseMap?: string, previousBehavior?: string, issueContext?: string, preExistingFailures?: string): string {
   const parts: string[] = [];
 
   parts.push(`# Project: ${prd.projectName}`);
@@ -1172,11 +1574,20 @@ function buildIterationPrompt(prd: PRD, story: Story, progress: string, hivemind
     story.acceptanceAssertions.forEach((a) => parts.push(`- "${a}"`));
   }
 
-  if (story.validationCommand) {
+  if (story.validation?.length) {
+    parts.push(`\n### Validation`);
+    parts.push(`These stages run in order after you finish; required ones must pass:`);
+    story.validation.forEach((s) => parts.push(`- ${s.name}${s.required === false ? " (advisory)" : ""}: \`${s.command}\`${s.cwd ? ` in ${s.cwd}` : ""}`));
+  } else if (story.validationCommand) {
     parts.push(`\n### Validation`);
     parts.push(`Run: \`${story.validationCommand}\``);
   }
 
+  if (preExistingFailures) {
+    parts.push(`\n### Known Pre-existing Failures (not your job)`);
+    parts.push(preExistingFailures);
+  }
+
   // NOTE: AGENTS.md is NOT injected here — Codex auto-loads it from the repo directory.
   // Double-injecting caused 31k+ char prompts that exceeded the model context window,
   // making the model exit immediately with 0 tool calls (~8s duration).
@@ -1227,12 +1638,14 @@ ${previousAttemptContext}`);
 
 1. **TDD is the law** — Write failing tests FIRST, then implement. No exceptions.
 2. **Implement ONLY this story** — No scope creep, no drive-by refactors.
-3. **Validation MUST pass** — Run the validation command. If it fails, fix it.
-4. **Do NOT modify** prd.json, progress.txt, .ralph-context.json, or .ralph-iterations.jsonl.
+3. **Validation MUST pass** — Run the validation command. If it fails, fix it.${story.allowTestRemoval ? "" : " Fix the code, not the tests: deleting tests is an automatic REJECTION, and skipping tests or removing assertions is flagged."}
+4. **Do NOT modify** ${protectedPatterns(projectProtectedPaths(prd), story.forbiddenFiles).join(", ")}. Changes to these paths are reverted and REJECTED.
 5. **MANDATORY: Review Prior Learnings** — Read the "Prior Learnings" section above BEFORE writing any code.
    If a failure pattern matches your current story, explicitly state: "Prior failure pattern detected: [pattern]. Mitigation: [your approach]."
-6. **MANDATORY: Store learnings in hivemind** — After completing work, run:
-   \`swarm memory store "<specific, actionable learning>" --tags "ralph,learning,${prd.projectName}"\`
+${memoryStore.kind === "swarm"
+  ? `6. **MANDATORY: Store learnings in hivemind** — After completing work, run:
+   \`swarm memory store "<specific, actionable learning>" --tags "ralph,learning,${prd.projectName}"\``
+  : "6. **MANDATORY: Write learnings worth keeping** — Your learnings block (rule 8) is saved to Ralph's memory and shown to the stories after you."}
 
    QUALITY REQUIREMENTS for learnings:
    - Minimum 50 characters of substantive content
@@ -1258,9 +1671,9 @@ ${previousAttemptContext}`);
 9. **TRUST AND ENRICH THE CODEBASE MAP** — The Codebase Reference above has your file tree, types, and imports.
    Do NOT spend time re-exploring with cat/rg/find for files already listed above.
    If the codebase map covers your area, go straight to writing a failing test.
-   If you discover new types, files, or patterns NOT in the map, note them in your learnings so the map can be enriched.
+   If you discover new types, files, or patterns NOT in the map, note them in your learnings so the map can be enriched.${memoryStore.kind === "swarm" ? `
 10. **USE HIVEMIND** — Before implementing, run: \`swarm memory find "<your story topic>"\`
-    After completing, run: \`swarm memory store "<specific learning>" --tags "ralph,learning,${prd.projectName}"\``);
+    After completing, run: \`swarm memory store "<specific learning>" --tags "ralph,learning,${prd.projectName}"\`` : ""}`);
 
   return parts.join("\n");
 }
@@ -1356,241 +1769,126 @@ function extractStructuredLearnings(finalMessage: string, structured?: RalphIter
   return "";
 }
 
-interface CodexEvent {
-  type: string;               // thread.started, turn.started, turn.completed, item.started, item.completed, error
-  thread_id?: string;         // on thread.started
-  item?: {
-    id?: string;
-    type?: string;            // command_execution, file_change, agent_message, reasoning, mcp_tool_call
-    command?: string;         // for command_execution
-    aggregated_output?: string;
-    exit_code?: number | null;
-    status?: string;
-    text?: string;            // for agent_message / reasoning
-    path?: string;            // for file_change
-    new_content?: string;     // for file_change
-  };
-  usage?: {
-    input_tokens?: number;
-    cached_input_tokens?: number;
-    output_tokens?: number;
-  };
-  error?: string;
-}
-
 interface CodexIterationResult {
   success: boolean;
   output: string;
   finalMessage: string;
   structuredResult?: RalphIterationOutput;
-  events: CodexEvent[];
+  /** Normalized agent events, whatever backend produced them */
+  events: AgentEvent[];
   toolCalls: number;
   filesModified: string[];
   sessionId?: string;
+  /** Activity summary from the agent's event stream */
   stderrInsights?: string;
   stderrStats?: MonitorStats;
+  /** Agent backend that ran the iteration */
+  backend?: string;
+  /** Tokens the agent reported, if any */
+  usage?: TokenUsage;
 }
 
-function parseCodexOutput(stdout: string, outputFile: string): {
-  events: CodexEvent[];
-  toolCalls: number;
-  filesModified: string[];
-  sessionId?: string;
-  finalMessage: string;
-  structuredResult?: RalphIterationOutput;
-} {
-  const events: CodexEvent[] = [];
-  const lines = stdout.split("\n").filter((l) => l.trim());
-  for (const line of lines) {
-    try { events.push(JSON.parse(line) as CodexEvent); } catch { /* skip */ }
-  }
-
-  // Codex --json wire format:
-  //   thread.started  → { thread_id }
-  //   item.started    → { item: { type, command?, path? } }
-  //   item.completed  → { item: { type, command?, aggregated_output?, exit_code?, text?, path? } }
-  //   turn.completed  → { usage: { input_tokens, output_tokens } }
-
-  let toolCalls = 0;
-  const filesModified: string[] = [];
-  let sessionId: string | undefined;
-  let lastAgentMessage = "";
-
-  for (const event of events) {
-    // Session/thread ID
-    if (event.type === "thread.started" && event.thread_id) {
-      sessionId = event.thread_id;
-    }
-
-    if (!event.item) continue;
-
-    if (event.type === "item.completed" || event.type === "item.started") {
-      // Command executions = tool calls
-      if (event.item.type === "command_execution") {
-        toolCalls++;
-      }
-      // File changes
-      if (event.item.type === "file_change" && event.item.path) {
-        filesModified.push(event.item.path);
-      }
-      // MCP tool calls
-      if (event.item.type === "mcp_tool_call") {
-        toolCalls++;
-      }
-      // Agent messages — track the last one as potential final message
-      if (event.item.type === "agent_message" && event.item.text) {
-        lastAgentMessage = event.item.text;
-      }
-    }
-  }
-
-  // Prefer the -o output file, fall back to last agent_message from JSONL
-  let finalMessage = "";
+/** Structured final message (when the agent honoured --output-schema), else undefined */
+function parseStructuredResult(finalMessage: string): RalphIterationOutput | undefined {
+  if (!finalMessage) return undefined;
   try {
-    if (existsSync(outputFile)) {
-      finalMessage = readFileSync(outputFile, "utf-8");
-      try { unlinkSync(outputFile); } catch { /* ignore */ }
+    const parsed = JSON.parse(finalMessage);
+    if (typeof parsed === "object" && parsed !== null && "success" in parsed && "summary" in parsed && "learnings" in parsed) {
+      return parsed as RalphIterationOutput;
     }
-  } catch { /* skip */ }
+  } catch { /* not structured JSON — free-form text, use regex fallback */ }
+  return undefined;
+}
 
-  if (!finalMessage && lastAgentMessage) {
-    finalMessage = lastAgentMessage;
-  }
+function formatDurationLimit(ms: number): string {
+  return ms >= 60000 && ms % 60000 === 0 ? `${ms / 60000} minutes` : `${Math.round(ms / 1000)}s`;
+}
 
-  // Try to parse structured output (when --output-schema was used)
-  let structuredResult: RalphIterationOutput | undefined;
-  if (finalMessage) {
-    try {
-      const parsed = JSON.parse(finalMessage);
-      if (typeof parsed === "object" && parsed !== null && "success" in parsed && "summary" in parsed && "learnings" in parsed) {
-        structuredResult = parsed as RalphIterationOutput;
-      }
-    } catch { /* not structured JSON — free-form text, use regex fallback */ }
-  }
+/** Backend for a story: the story's own agent, then the project's, then plugin config */
+function resolveAgentSpec(cfg: PluginConfig, prd?: PRD, story?: Story): AgentSpec {
+  return story?.agent || prd?.agent || cfg.agent;
+}
 
-  return { events, toolCalls, filesModified: [...new Set(filesModified)], sessionId, finalMessage, structuredResult };
+/** Loop-side hooks into one agent run */
+interface IterationHooks {
+  /** processRegistry label for the agent process */
+  processLabel?: string;
+  /** model is the one the emitting session runs, for pricing its usage */
+  onEvent?: (event: AgentEvent, model?: string) => void;
+  /** The job's abort signal — immediate cancel kills the agent */
+  signal?: AbortSignal;
 }
 
-async function runCodexIteration(
+async function runAgentIteration(
   workdir: string,
   prompt: string,
-  cfg: PluginConfig
+  cfg: PluginConfig,
+  agent: AgentSpec,
+  storyId?: string,
+  hooks?: IterationHooks
 ): Promise<CodexIterationResult> {
-  return new Promise((resolve) => {
-    const resolvedWorkdir = resolvePath(workdir);
-    const outputFile = join(resolvedWorkdir, `.ralph-last-message-${Date.now()}.txt`);
-    const schemaFile = join(__dirname, "ralph-iteration-schema.json");
-
-    const args = [
-      "exec",
-      "--sandbox", cfg.sandbox,
-      "--json",
-      "--output-schema", schemaFile,
-      "-o", outputFile,
-      "-C", resolvedWorkdir,
-      "-m", cfg.model,
-      prompt,
-    ];
-
-    if (cfg.debug) {
-      console.log(`[openclaw-codex-ralph] Running: codex ${args.slice(0, 5).join(" ")}...`);
-    }
-
-    const child = spawn("codex", args, {
-      cwd: resolvedWorkdir,
-      env: {
-        ...process.env,
-        PATH: `${process.env.HOME}/.bun/bin:${process.env.HOME}/.local/bin:${process.env.PATH}`,
-      },
-      stdio: ["pipe", "pipe", "pipe"],
-    });
-
-    processRegistry.register(child, "codex-iteration");
-
-    const progressMonitor = monitorProgress(child.stdout!, {
-      stallTimeoutMs: 120000,
-      onStall: () => {
-        if (!child.killed) child.kill("SIGTERM");
-      },
-    });
-
-    const stderrMonitor = createStderrMonitor(child.stderr!);
-
-    let stdout = "";
-    let stderr = "";
-
-    child.stdout?.on("data", (data: Buffer) => {
-      stdout += data.toString();
-    });
-
-    child.stderr?.on("data", (data: Buffer) => {
-      stderr += data.toString();
-    });
+  const resolvedWorkdir = resolvePath(workdir);
+  const backend = getAgentBackend(agent, resolvedWorkdir);
+  const run = await backend.start({
+    workdir: resolvedWorkdir,
+    prompt,
+    model: cfg.model,
+    reasoningEffort: cfg.reasoningEffort,
+    sandbox: cfg.sandbox,
+    schemaFile: join(__dirname, "ralph-iteration-schema.json"),
+    storyId,
+    debug: cfg.debug,
+    timeoutMs: cfg.iterationTimeoutMs,
+    stallTimeoutMs: cfg.stallTimeoutMs,
+    processLabel: hooks?.processLabel,
+    onEvent: hooks?.onEvent && ((event) => hooks.onEvent?.(event, cfg.model)),
+    signal: hooks?.signal,
+  }).result;
+
+  if (run.spawnError) {
+    return {
+      success: false,
+      output: `Spawn error: ${run.spawnError}`,
+      finalMessage: "",
+      events: [],
+      toolCalls: 0,
+      filesModified: [],
+      sessionId: undefined,
+      backend: run.backend,
+    };
+  }
 
-    child.on("close", (code: number | null) => {
-      progressMonitor.cancel();
-      stderrMonitor.stop();
-      const parsed = parseCodexOutput(stdout, outputFile);
-      const output = parsed.finalMessage || stdout.slice(0, 5000);
-
-      const gitFiles = code === 0 ? getActualFilesModified(resolvedWorkdir) : [];
-      const allFilesModified = [...new Set([...gitFiles, ...parsed.filesModified])];
-
-      resolve({
-        success: code === 0,
-        output,
-        finalMessage: parsed.finalMessage,
-        structuredResult: parsed.structuredResult,
-        events: parsed.events,
-        toolCalls: parsed.toolCalls,
-        filesModified: allFilesModified,
-        sessionId: parsed.sessionId,
-        stderrInsights: stderrMonitor.getInsights(),
-        stderrStats: stderrMonitor.getStats(),
-      });
-    });
+  const success = run.exitCode === 0 && !run.timedOut && !run.stalled;
+  const gitFiles = success ? getActualFilesModified(resolvedWorkdir) : [];
+  const body = run.finalMessage || run.stdout.slice(0, 5000);
 
-    child.on("error", (err: Error) => {
-      resolve({
-        success: false,
-        output: `Spawn error: ${err.message}`,
-        finalMessage: "",
-        events: [],
-        toolCalls: 0,
-        filesModified: [],
-        sessionId: undefined,
-      });
-    });
+  // Timeout / stall — keep partial data from whatever the agent produced
+  let output = body;
+  if (hooks?.signal?.aborted) output = `Cancelled: agent killed by ralph_loop_cancel\n${body}`;
+  else if (run.timedOut) output = `Timeout: iteration exceeded ${formatDurationLimit(cfg.iterationTimeoutMs)}\n${body}`;
+  else if (run.stalled) output = `Stall timeout: no agent progress for ${formatDurationLimit(cfg.stallTimeoutMs)}\n${body}`;
 
-    // Timeout after 10 minutes — preserve partial data from accumulated stdout
-    setTimeout(() => {
-      progressMonitor.cancel();
-      stderrMonitor.stop();
-      child.kill("SIGTERM");
-      const partial = parseCodexOutput(stdout, outputFile);
-      const output = "Timeout: iteration exceeded 10 minutes\n" + (partial.finalMessage || stdout.slice(0, 5000));
-
-      resolve({
-        success: false,
-        output,
-        finalMessage: partial.finalMessage,
-        structuredResult: partial.structuredResult,
-        events: partial.events,
-        toolCalls: partial.toolCalls,
-        filesModified: partial.filesModified,
-        sessionId: partial.sessionId,
-        stderrInsights: stderrMonitor.getInsights(),
-        stderrStats: stderrMonitor.getStats(),
-      });
-    }, 600000);
-  });
+  return {
+    success,
+    output,
+    finalMessage: run.finalMessage,
+    structuredResult: parseStructuredResult(run.finalMessage),
+    events: run.events,
+    toolCalls: countToolCalls(run.events),
+    filesModified: [...new Set([...gitFiles, ...changedPaths(run.events)])],
+    sessionId: run.sessionId,
+    stderrInsights: run.activityInsights,
+    stderrStats: run.activityStats,
+    backend: run.backend,
+    usage: usageFromEvents(run.events),
+  };
 }
 
 // ============================================================================
 // Tool Implementations
 // ============================================================================
 
-async function executeRalphInit(params: { workdir: string; projectName: string; description?: string }, cfg: PluginConfig) {
+async function executeRalphInit(params: { workdir: string; projectName: string; description?: string; agent?: string }, cfg: PluginConfig) {
   const dir = resolvePath(params.workdir);
   if (!existsSync(dir)) {
     return { error: `Directory does not exist: ${dir}` };
@@ -1601,10 +1899,16 @@ async function executeRalphInit(params: { workdir: string; projectName: string;
     return { error: "prd.json already exists. Use ralph_add_story to add stories." };
   }
 
+  const agent = params.agent ? parseAgentSpec(params.agent) : undefined;
+  if (typeof agent === "string") {
+    return { error: agent };
+  }
+
   const prd: PRD = {
     version: "1.0",
     projectName: params.projectName,
     description: params.description,
+    agent,
     stories: [],
     metadata: {
       createdAt: new Date().toISOString(),
@@ -1643,18 +1947,27 @@ async function executeRalphAddStory(params: {
   description: string;
   priority?: number;
   validationCommand?: string;
+  validationReport?: string;
+  validation?: string;
+  coverageThreshold?: number;
   acceptanceCriteria?: string;
   demoInstructions?: string;
   targetFiles?: string;
   noTestWrites?: boolean;
+  forbiddenFiles?: string;
+  allowTestRemoval?: boolean;
+  review?: boolean;
   acceptanceAssertions?: string;
+  dependsOn?: string;
+  agent?: string;
+  model?: string;
 }, cfg: PluginConfig) {
   const prd = readPRD(params.workdir);
   if (!prd) {
     return { error: "No prd.json found. Run ralph_init first." };
   }
 
-  const id = `story-${Date.now().toString(36)}`;
+  const id = newStoryId();
   const story: Story = {
     id,
     title: params.title,
@@ -1662,8 +1975,19 @@ async function executeRalphAddStory(params: {
     priority: params.priority ?? 10,
     passes: false,
     validationCommand: params.validationCommand,
+    validationReport: params.validationReport || undefined,
   };
 
+  if (params.validation) {
+    const stages = parseValidationStages(params.validation);
+    if (typeof stages === "string") return { error: stages };
+    story.validation = stages.length > 0 ? stages : undefined;
+  }
+
+  if (params.coverageThreshold !== undefined) {
+    story.coverageThreshold = params.coverageThreshold;
+  }
+
   if (params.acceptanceCriteria) {
     try {
       story.acceptanceCriteria = JSON.parse(params.acceptanceCriteria);
@@ -1685,11 +2009,43 @@ async function executeRalphAddStory(params: {
     story.noTestWrites = true;
   }
 
+  if (params.forbiddenFiles) {
+    try { story.forbiddenFiles = JSON.parse(params.forbiddenFiles); }
+    catch { story.forbiddenFiles = [params.forbiddenFiles]; }
+  }
+
+  if (params.allowTestRemoval) {
+    story.allowTestRemoval = true;
+  }
+
+  if (params.review !== undefined) {
+    story.review = params.review;
+  }
+
   if (params.acceptanceAssertions) {
     try { story.acceptanceAssertions = JSON.parse(params.acceptanceAssertions); }
     catch { story.acceptanceAssertions = [params.acceptanceAssertions]; }
   }
 
+  if (params.dependsOn) {
+    story.dependsOn = parseDependsOn(params.dependsOn);
+  }
+
+  if (params.agent) {
+    const agent = parseAgentSpec(params.agent);
+    if (typeof agent === "string") return { error: agent };
+    story.agent = agent;
+  }
+
+  if (params.model) {
+    story.model = params.model;
+  }
+
+  const graphError = validateStoryGraph([...prd.stories, story]);
+  if (graphError) {
+    return { error: graphError };
+  }
+
   // Create GH issue for the story if ghIssues enabled
   if (cfg.ghIssues) {
     const { createStoryIssue } = await import("./gh-issues.js");
@@ -1720,20 +2076,31 @@ async function executeRalphStatus(params: { workdir: string }) {
   const pending = prd.stories.filter((s) => !s.passes);
   const completed = prd.stories.filter((s) => s.passes);
   const next = getNextStory(prd);
+  const blocked = getBlockedStories(prd.stories);
+  const blockedById = new Map(blocked.map((b) => [b.id, b]));
 
   return {
     projectName: prd.projectName,
+    agent: prd.agent?.type,
     totalStories: prd.stories.length,
     completed: completed.length,
     pending: pending.length,
+    blocked: blocked.length,
     totalIterations: prd.metadata?.totalIterations ?? 0,
     lastIteration: prd.metadata?.lastIteration,
     nextStory: next ? { id: next.id, title: next.title, priority: next.priority } : null,
+    blockedStories: blocked,
     stories: prd.stories.map((s) => ({
       id: s.id,
       title: s.title,
       priority: s.priority,
       passes: s.passes,
+      dependsOn: s.dependsOn,
+      blockedBy: blockedById.get(s.id)?.blockedBy,
+      agent: s.agent?.type,
+      splitInto: s.splitInto,
+      parentId: s.parentId,
+      splitProposal: s.splitProposal ? describeSplitProposal(s.splitProposal) : undefined,
     })),
   };
 }
@@ -1746,10 +2113,19 @@ async function executeRalphEditStory(params: {
   priority?: number;
   passes?: boolean;
   validationCommand?: string;
+  validationReport?: string;
+  validation?: string;
+  coverageThreshold?: number;
   demoInstructions?: string;
   targetFiles?: string;
   noTestWrites?: boolean;
+  forbiddenFiles?: string;
+  allowTestRemoval?: boolean;
+  review?: boolean;
   acceptanceAssertions?: string;
+  dependsOn?: string;
+  agent?: string;
+  model?: string;
 }) {
   const prd = readPRD(params.workdir);
   if (!prd) {
@@ -1766,16 +2142,56 @@ async function executeRalphEditStory(params: {
   if (params.priority !== undefined) story.priority = params.priority;
   if (params.passes !== undefined) story.passes = params.passes;
   if (params.validationCommand !== undefined) story.validationCommand = params.validationCommand;
+  // Empty string clears it (report parsed from the command output only)
+  if (params.validationReport !== undefined) story.validationReport = params.validationReport || undefined;
+  if (params.validation !== undefined) {
+    // Empty string or [] clears it (back to validationCommand / the defaults)
+    const stages = params.validation ? parseValidationStages(params.validation) : [];
+    if (typeof stages === "string") return { error: stages };
+    story.validation = stages.length > 0 ? stages : undefined;
+  }
+  // Negative clears it (back to the project's coverageGate threshold)
+  if (params.coverageThreshold !== undefined) story.coverageThreshold = params.coverageThreshold < 0 ? undefined : params.coverageThreshold;
   if (params.demoInstructions !== undefined) story.demoInstructions = params.demoInstructions;
   if (params.targetFiles !== undefined) {
     try { story.targetFiles = JSON.parse(params.targetFiles); }
     catch { story.targetFiles = [params.targetFiles]; }
   }
   if (params.noTestWrites !== undefined) story.noTestWrites = params.noTestWrites;
+  if (params.forbiddenFiles !== undefined) {
+    // Empty string or [] clears it
+    let globs: string[];
+    try { globs = params.forbiddenFiles ? JSON.parse(params.forbiddenFiles) : []; }
+    catch { globs = [params.forbiddenFiles]; }
+    story.forbiddenFiles = globs.length > 0 ? globs : undefined;
+  }
+  if (params.allowTestRemoval !== undefined) story.allowTestRemoval = params.allowTestRemoval || undefined;
+  if (params.review !== undefined) story.review = params.review;
   if (params.acceptanceAssertions !== undefined) {
     try { story.acceptanceAssertions = JSON.parse(params.acceptanceAssertions); }
     catch { story.acceptanceAssertions = [params.acceptanceAssertions]; }
   }
+  if (params.dependsOn !== undefined) {
+    const dependsOn = parseDependsOn(params.dependsOn);
+    story.dependsOn = dependsOn.length > 0 ? dependsOn : undefined;
+  }
+  if (params.agent !== undefined) {
+    // Empty string clears the override (falls back to the project's agent)
+    const agent = params.agent ? parseAgentSpec(params.agent) : undefined;
+    if (typeof agent === "string") return { error: agent };
+    story.agent = agent;
+  }
+  // Empty string clears it (back to the loop's model)
+  if (params.model !== undefined) story.model = params.model || undefined;
+  if (params.passes) {
+    completeSplitParents(prd.stories);
+    clearPassedBlockers(prd.stories);
+  }
+
+  const graphError = validateStoryGraph(prd.stories);
+  if (graphError) {
+    return { error: graphError };
+  }
 
   writePRD(params.workdir, prd);
 
@@ -1787,10 +2203,67 @@ async function executeRalphEditStory(params: {
       title: story.title,
       priority: story.priority,
       passes: story.passes,
+      dependsOn: story.dependsOn,
+      agent: story.agent,
+      model: story.model,
+      splitInto: story.splitInto,
+      parentId: story.parentId,
     },
   };
 }
 
+async function executeRalphSplitStory(params: {
+  workdir: string;
+  storyId: string;
+  action?: "propose" | "apply" | "reject";
+}, cfg: PluginConfig) {
+  const prd = readPRD(params.workdir);
+  if (!prd) {
+    return { error: "No prd.json found. Run ralph_init first." };
+  }
+
+  const story = prd.stories.find((s) => s.id === params.storyId);
+  if (!story) {
+    return { error: `Story not found: ${params.storyId}` };
+  }
+  if (story.splitInto?.length) return { error: `Story ${story.id} is already split into: ${story.splitInto.join(", ")}` };
+  if (story.passes) return { error: `Story ${story.id} already passes` };
+
+  const action = params.action || "propose";
+  if (action === "reject") {
+    if (!story.splitProposal) return { error: `Story ${story.id} has no split proposal` };
+    story.splitProposal = undefined;
+    writePRD(params.workdir, prd);
+    appendProgress(params.workdir, `Split rejected: ${story.title}`);
+    return { success: true, message: `Dropped the split proposal for: ${story.title}` };
+  }
+
+  // "apply" takes the pending proposal; with none (or on "propose") the planner runs now
+  let proposal = action === "apply" ? story.splitProposal : undefined;
+  if (!proposal) {
+    const planned = await planStorySplit(params.workdir, prd, story, cfg, "manual");
+    if (!planned.proposal) return { error: planned.error, durationMs: planned.durationMs };
+    proposal = planned.proposal;
+  }
+
+  if (action === "propose") {
+    story.splitProposal = proposal;
+    writePRD(params.workdir, prd);
+    return {
+      success: true,
+      message: `${describeSplitProposal(proposal)}. Apply it with action=apply, or drop it with action=reject.`,
+      proposal,
+    };
+  }
+
+  const children = applyStorySplit(params.workdir, prd, story, proposal);
+  return {
+    success: true,
+    message: describeSplitProposal(proposal),
+    children: children.map((c) => ({ id: c.id, title: c.title, dependsOn: c.dependsOn, targetFiles: c.targetFiles })),
+  };
+}
+
 // ============================================================================
 // Shared Helpers (used by all 3 loop variants)
 // ============================================================================
@@ -1801,12 +2274,15 @@ function sendOpenclawEvent(msg: string): void {
       stdio: "ignore",
       detached: true,
     });
+    // Missing openclaw CLI surfaces as an async 'error' event, which would otherwise crash the process
+    child.on("error", () => {});
     child.unref();
   } catch { /* non-fatal */ }
 }
 
 type IterationContextResult =
   | { allDone: true; prd: PRD }
+  | { allBlocked: true; prd: PRD; blocked: BlockedStory[] }
   | { error: string }
   | { prd: PRD; story: Story; prompt: string; promptFile: string; promptHash: string; jobId: string };
 
@@ -1814,21 +2290,38 @@ async function buildIterationContext(
   workdir: string,
   cfg: PluginConfig,
   jobId: string,
-  previousStderrStats?: MonitorStats
+  previousStderrStats?: MonitorStats,
+  skippedStoryIds?: Set<string>
 ): Promise<IterationContextResult> {
   const prd = readPRD(workdir);
   if (!prd) return { error: "No prd.json found" };
 
-  const story = getNextStory(prd);
-  if (!story) return { allDone: true, prd };
+  const story = getNextStory(prd, skippedStoryIds);
+  if (!story) {
+    if (prd.stories.some((s) => !s.passes)) return { allBlocked: true, prd, blocked: getBlockedStories(prd.stories) };
+    return { allDone: true, prd };
+  }
+
+  const { prompt, promptFile, promptHash } = await buildStoryPrompt(workdir, prd, story, cfg, jobId, previousStderrStats);
+  return { prd, story, prompt, promptFile, promptHash, jobId };
+}
 
+async function buildStoryPrompt(
+  workdir: string,
+  prd: PRD,
+  story: Story,
+  cfg: PluginConfig,
+  jobId: string,
+  previousStderrStats?: MonitorStats
+): Promise<{ prompt: string; promptFile: string; promptHash: string }> {
   const progress = readProgress(workdir);
   const codebaseMap = generateCodebaseMap(workdir);
   const hivemindContext = aggressiveHivemindPull(story, prd, workdir);
   const structuredCtx = buildStructuredContextSnippet(workdir);
   const failurePatterns = buildFailurePatternContext(workdir);
-  const prevAttemptCtx = buildPreviousAttemptContext(workdir, story.id);
+  const prevAttemptCtx = buildPreviousAttemptContext(workdir, story.id, cfg.reapplyFailedPatch);
   const prevBehavior = previousStderrStats ? formatIterationBehavior(previousStderrStats) : undefined;
+  const preExisting = cfg.baselineValidation ? buildPreExistingFailuresContext(baselineFor(workdir, story)) : "";
 
   let ghIssueCtx: string | undefined;
   if (cfg.ghIssues && story.issueNumber) {
@@ -1840,22 +2333,255 @@ async function buildIterationContext(
     prd, story, progress,
     hivemindContext || undefined, structuredCtx || undefined,
     failurePatterns || undefined, prevAttemptCtx || undefined,
-    codebaseMap, prevBehavior || undefined, ghIssueCtx
+    codebaseMap, prevBehavior || undefined, ghIssueCtx, preExisting || undefined
   );
 
   const { path: promptFile, hash: promptHash } = persistPrompt(jobId, story.id, prompt);
 
-  return { prd, story, prompt, promptFile, promptHash, jobId };
+  return { prompt, promptFile, promptHash };
+}
+
+/**
+ * Take a story out of rotation after it exhausted its retries and mark everything
+ * downstream of it as blocked so the loop stops picking those stories too.
+ */
+function skipStory(workdir: string, prd: PRD, story: Story, skippedStoryIds: Set<string>, reason = `exceeded ${DEFAULT_MAX_RETRIES} retries`): void {
+  appendProgress(workdir, `Skipped: ${story.title} — ${reason}, needs human review`);
+  skippedStoryIds.add(story.id);
+
+  const newlyBlocked = markDownstreamBlocked(story.id, prd.stories);
+  if (newlyBlocked.length > 0) {
+    writePRD(workdir, prd);
+    appendProgress(workdir, `Blocked: ${newlyBlocked.join(", ")} — depends on skipped story ${story.id}`);
+  }
+}
+
+// Random suffix: stories added in the same millisecond must not share an id
+function newStoryId(): string {
+  return `story-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
 }
 
 // ============================================================================
-// Showboat Demo Phase
+// Story Splitting
 // ============================================================================
 
-interface DemoResult {
-  required: boolean;
-  passed: boolean;
-  demoFile?: string;
+/** One line per failed attempt of a story, oldest first, for the split planner */
+function storyFailureHistory(workdir: string, storyId: string): string[] {
+  return readIterationLog(workdir, { storyId, onlyFailed: true, limit: 10 })
+    .filter((e) => e.outcome !== "cancelled")
+    .map((e, i) => {
+      const why = e.verificationRejectReason || e.failureClassification?.evidence || e.validationOutput || "no output";
+      return `Attempt ${i + 1} [${e.failureCategory || "unknown"}]: ${why.split("\n").slice(0, 3).join(" | ").slice(0, 300)}`;
+    });
+}
+
+/** Run a read-only planning session that proposes child stories. Never throws. */
+function splitPlannerModel(story: Story, cfg: PluginConfig): string {
+  return cfg.storySplitting.model || story.model || cfg.model;
+}
+
+async function planStorySplit(workdir: string, prd: PRD, story: Story, cfg: PluginConfig, trigger: SplitTrigger, hooks?: IterationHooks): Promise<SplitResult> {
+  console.log(`[openclaw-codex-ralph] ✂️ Planning a split of ${story.title} (${trigger})`);
+  const resolvedWorkdir = resolvePath(workdir);
+  const model = splitPlannerModel(story, cfg);
+  return runSplitPlanning(getAgentBackend(resolveAgentSpec(cfg, prd, story), resolvedWorkdir), {
+    workdir: resolvedWorkdir,
+    story,
+    failures: storyFailureHistory(workdir, story.id),
+    codebaseMap: generateCodebaseMap(workdir),
+    trigger,
+    model,
+    debug: cfg.debug,
+    timeoutMs: cfg.iterationTimeoutMs,
+    stallTimeoutMs: cfg.stallTimeoutMs,
+    processLabel: hooks?.processLabel,
+    onEvent: hooks?.onEvent && ((event) => hooks.onEvent?.(event, model)),
+  });
+}
+
+/**
+ * Insert a proposal's children into prd.json right after the story and mark the story split.
+ * Children take the story's priority, dependencies, validation, agent, model and guards.
+ */
+function applyStorySplit(workdir: string, prd: PRD, story: Story, proposal: SplitProposal): Story[] {
+  const ids = proposal.children.map(() => newStoryId());
+  const children: Story[] = proposal.children.map((child, i) => {
+    const dependsOn = [...(story.dependsOn || []), ...child.dependsOn.map((d) => ids[d]!)];
+    return {
+      id: ids[i]!,
+      title: child.title,
+      description: child.description,
+      priority: story.priority,
+      passes: false,
+      validationCommand: story.validationCommand,
+      validationReport: story.validationReport,
+      validation: story.validation,
+      coverageThreshold: story.coverageThreshold,
+      acceptanceCriteria: child.acceptanceCriteria.length > 0 ? child.acceptanceCriteria : undefined,
+      targetFiles: child.targetFiles.length > 0 ? child.targetFiles : undefined,
+      noTestWrites: story.noTestWrites,
+      forbiddenFiles: story.forbiddenFiles,
+      allowTestRemoval: story.allowTestRemoval,
+      review: story.review,
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+      agent: story.agent,
+      model: story.model,
+      parentId: story.id,
+    };
+  });
+
+  prd.stories.splice(prd.stories.indexOf(story) + 1, 0, ...children);
+  story.splitInto = ids;
+  story.splitProposal = undefined;
+  writePRD(workdir, prd);
+  appendProgress(workdir, `Split: ${story.title} — ${describeSplitProposal(proposal)}\nWhy: ${proposal.summary}`);
+  return children;
+}
+
+/**
+ * Take a story that exhausted its retries out of rotation. With storySplitting on, a
+ * planner proposes smaller child stories first: applied right away with autoApply,
+ * otherwise parked on the story for ralph_split_story. Children are never split again.
+ * Returns what the planner spent, for the loop's totals.
+ */
+async function retireStory(workdir: string, prd: PRD, story: Story, skippedStoryIds: Set<string>, cfg: PluginConfig, hooks?: IterationHooks): Promise<Spend> {
+  const retries = `exceeded ${DEFAULT_MAX_RETRIES} retries`;
+  if (!cfg.storySplitting.enabled || story.parentId) {
+    skipStory(workdir, prd, story, skippedStoryIds);
+    return {};
+  }
+  if (story.splitProposal) {
+    skipStory(workdir, prd, story, skippedStoryIds, `${retries}; a split is waiting for ralph_split_story`);
+    return {};
+  }
+
+  const planned = await planStorySplit(workdir, prd, story, cfg, "retries", hooks);
+  const spent = sessionSpend(planned.usage, splitPlannerModel(story, cfg), cfg);
+  if (!planned.proposal) {
+    skipStory(workdir, prd, story, skippedStoryIds, `${retries}; split planning failed (${planned.error})`);
+    return spent;
+  }
+  if (cfg.storySplitting.autoApply) {
+    applyStorySplit(workdir, prd, story, planned.proposal);
+    return spent;
+  }
+
+  story.splitProposal = planned.proposal;
+  writePRD(workdir, prd);
+  skipStory(workdir, prd, story, skippedStoryIds, `${retries}; ${describeSplitProposal(planned.proposal)} — apply it with ralph_split_story`);
+  return spent;
+}
+
+// ============================================================================
+// Loop Budgets
+// ============================================================================
+
+/** processRegistry label for a loop's agent run — loop-wide ceilings kill every `ralph:<jobId>:` process */
+function agentProcessLabel(jobId: string, storyId: string): string {
+  return `ralph:${jobId}:${storyId}`;
+}
+
+/** A side session's spend (review, split planning), priced at the model it ran */
+function sessionSpend(usage: TokenUsage | undefined, model: string, cfg: PluginConfig): Spend {
+  return { usage, costUsd: usage ? computeCost(usage, model, cfg.modelPrices) : undefined };
+}
+
+/**
+ * Watch one iteration against the loop's budget. Crossing a story ceiling kills that
+ * story's agent; crossing a loop ceiling kills every agent the loop is running.
+ */
+function startIterationBudget(
+  budget: LoopBudget | undefined,
+  jobId: string,
+  story: Story,
+  loopStartedAt: number,
+  loop: { results: IterationResult[] } & Spend,
+  cfg: PluginConfig
+): { hooks: IterationHooks; watch: BudgetWatch } {
+  const label = agentProcessLabel(jobId, story.id);
+  const watch = watchBudget(budget, {
+    loopStartedAt,
+    loopSpent: loop,
+    storyId: story.id,
+    storySpent: storySpend(loop.results, story.id),
+    model: cfg.model,
+    prices: cfg.modelPrices,
+    onExceeded: (exceeded) => {
+      const loopWide = !isStoryBudget(exceeded);
+      console.warn(`[openclaw-codex-ralph] 💸 Budget exceeded during ${story.title}: ${exceeded.message} — killing ${loopWide ? "the loop's agents" : "the story's agent"}`);
+      processRegistry.kill(loopWide ? (l) => l.startsWith(`ralph:${jobId}:`) : (l) => l === label);
+    },
+  });
+  return { hooks: { processLabel: label, onEvent: (event, model) => watch.observe(event, model) }, watch };
+}
+
+/** Record a mid-iteration budget kill on the iteration's result */
+function noteBudgetOverrun(run: RunResult, exceeded: BudgetExceeded | null): void {
+  if (!exceeded || run.iterResult.success) return;
+  run.iterResult.budgetExceeded = exceeded;
+  run.iterResult.error = `Budget exceeded: ${exceeded.message}`;
+}
+
+function finishJobOverBudget(job: LoopJob, exceeded: BudgetExceeded): void {
+  job.status = "completed";
+  job.budgetExceeded = exceeded;
+  job.error = `Budget exceeded: ${exceeded.message}`;
+  job.completedAt = Date.now();
+  writeRalphEvent("loop_complete", { jobId: job.id, storiesCompleted: job.storiesCompleted, totalStories: job.totalStories, duration: Date.now() - job.startedAt, results: job.results.map((r) => ({ storyTitle: r.storyTitle, success: r.success, duration: r.duration })), error: job.error, budgetExceeded: exceeded, workdir: job.workdir });
+  emitLoopProgress(job, "complete");
+  sendOpenclawEvent(`💸 Ralph loop stopped: ${job.error}`);
+}
+
+// ============================================================================
+// Loop Control (pause / cancel)
+// ============================================================================
+
+/** Hold a loop between iterations; ralph_loop_resume picks it up again */
+function holdPausedJob(job: LoopJob): void {
+  job.status = "paused";
+  job.pauseRequested = undefined;
+  job.pausedAt = Date.now();
+  job.inFlightStories = [];
+  writeRalphEvent("loop_paused", { jobId: job.id, storiesCompleted: job.storiesCompleted, totalStories: job.totalStories, lastStory: lastStoryOf(job), workdir: job.workdir });
+  emitLoopProgress(job, "paused");
+  sendOpenclawEvent(`⏸️ Ralph loop paused after iteration ${job.lastCompletedIteration}: ${job.storiesCompleted}/${job.totalStories} stories done`);
+}
+
+function finishCancelledJob(job: LoopJob): void {
+  job.inFlightStories = [];
+  writeRalphEvent("loop_error", { jobId: job.id, error: "Loop cancelled", storiesCompleted: job.storiesCompleted, lastStory: lastStoryOf(job), workdir: job.workdir });
+  emitLoopProgress(job, "complete");
+}
+
+/** Hooks for one agent run: budget watch plus the job's abort signal */
+function jobIterationHooks(job: LoopJob, budgetHooks: IterationHooks): IterationHooks {
+  return { ...budgetHooks, signal: job.abortController?.signal };
+}
+
+function formatBlockedSummary(blocked: BlockedStory[]): string {
+  if (blocked.length === 0) return "No runnable stories remaining (pending stories were skipped after max retries)";
+  return `No runnable stories: ${blocked.length} blocked (${blocked.map((b) => `${b.id} ← ${b.blockedBy.join(", ")}`).join("; ")})`;
+}
+
+// ============================================================================
+// Second-Opinion Review
+// ============================================================================
+
+/** Why an attempt that passed verification gets reviewed, or undefined when it doesn't */
+function reviewTrigger(story: Story, cfg: PluginConfig, requiresLLMReview: boolean): ReviewTrigger | undefined {
+  if (story.review !== undefined) return story.review ? "story" : undefined;
+  if (cfg.review.always) return "always";
+  return cfg.review.enabled && requiresLLMReview ? "warnings" : undefined;
+}
+
+// ============================================================================
+// Showboat Demo Phase
+// ============================================================================
+
+interface DemoResult {
+  required: boolean;
+  passed: boolean;
+  demoFile?: string;
   verifyOutput?: string;
   error?: string;
 }
@@ -1896,6 +2622,7 @@ async function runShowboatDemo(
   workdir: string,
   story: Story,
   cfg: PluginConfig,
+  agent: AgentSpec,
 ): Promise<DemoResult> {
   if (!shouldRunDemo(story, cfg)) {
     return { required: false, passed: true };
@@ -1910,11 +2637,11 @@ async function runShowboatDemo(
 
   console.log(`[openclaw-codex-ralph] 🎭 Starting showboat demo phase for: ${story.title}`);
 
-  // Spawn a read-only Codex session for the demo
-  const demoResult = await runCodexIteration(workdir, demoPrompt, {
+  // Spawn a read-only agent session for the demo
+  const demoResult = await runAgentIteration(workdir, demoPrompt, {
     ...cfg,
     sandbox: "read-only",
-  });
+  }, agent, story.id);
 
   if (!demoResult.success) {
     return {
@@ -1949,10 +2676,13 @@ async function runShowboatDemo(
 interface RunResult {
   iterResult: IterationResult;
   codexResult: CodexIterationResult;
-  validation: { success: boolean; output: string };
+  validation: ValidationRun;
   rejectReason?: string;
   startTime: number;
   demoResult?: DemoResult;
+  /** The tree before Codex ran — rollback target for the onFailure policy */
+  preIterationSnapshot: TreeSnapshot | null;
+  reappliedPatchFile?: string;
 }
 
 async function runAndValidateIteration(
@@ -1962,10 +2692,50 @@ async function runAndValidateIteration(
   cfg: PluginConfig,
   outputTruncation: number,
   jobId: string,
-  prd: PRD
+  prd: PRD,
+  hooks?: IterationHooks,
+  /** Project checkout holding the iteration log — differs from workdir for a worktree run */
+  stateDir: string = workdir
 ): Promise<RunResult> {
   const startTime = Date.now();
-  const codexResult = await runCodexIteration(workdir, prompt, cfg);
+  const preIterationSnapshot = cfg.onFailure === "keep" ? null : snapshotTree(resolvePath(workdir));
+  // Before any re-applied patch or agent edit: what was already red
+  const baseline = cfg.baselineValidation ? baselineFor(workdir, story) : undefined;
+
+  let reappliedPatchFile: string | undefined;
+  if (cfg.reapplyFailedPatch) {
+    const patchFile = findReapplicablePatch(stateDir, story.id);
+    if (patchFile) {
+      const applied = applyWorktreePatch(resolvePath(workdir), readFileSync(patchFile, "utf-8"));
+      if (applied.applied) {
+        reappliedPatchFile = patchFile;
+      } else {
+        console.warn(`[openclaw-codex-ralph] ⚠️ Could not re-apply previous attempt for ${story.title}: ${applied.error}`);
+      }
+    }
+  }
+
+  // Climb the escalation ladder by the story's failures so far
+  const modelChoice = selectModelRung(
+    cfg.escalation,
+    { model: story.model || cfg.model, reasoningEffort: cfg.reasoningEffort },
+    cfg.escalation.length > 0 ? countStoryFailures(story.id, resolvePath(stateDir)) : 0
+  );
+  if (modelChoice.rung > 0) {
+    console.log(`[openclaw-codex-ralph] ⬆️ Escalating ${story.title}: ${describeModelChoice(modelChoice)}`);
+  }
+  const agentCfg: PluginConfig = { ...cfg, model: modelChoice.model, reasoningEffort: modelChoice.reasoningEffort };
+
+  // Ralph's state files and the protected paths as they were before the agent ran
+  const protectedSnapshot = snapshotProtectedPaths(resolvePath(workdir), protectedPatterns(projectProtectedPaths(prd), story.forbiddenFiles));
+  protectedSnapshots.set(resolvePath(workdir), protectedSnapshot);
+  const codexResult = await runAgentIteration(workdir, prompt, agentCfg, resolveAgentSpec(cfg, prd, story), story.id, hooks)
+    .finally(() => protectedSnapshots.delete(resolvePath(workdir)));
+  // Revert before validation runs and before Ralph writes its own state
+  const protectedPathChanges = restoreProtectedPaths(resolvePath(workdir), protectedSnapshot);
+  if (protectedPathChanges.length > 0) {
+    console.warn(`[openclaw-codex-ralph] 🛡️ Reverted changes to protected files for ${story.title}:\n${formatProtectedPathChanges(protectedPathChanges)}`);
+  }
 
   // Neutral event: Codex session ended, verification not yet run
   sendOpenclawEvent(`Ralph: Codex finished ${story.title}, verifying...`);
@@ -1975,10 +2745,16 @@ async function runAndValidateIteration(
     data: { jobId, storyId: story.id, storyTitle: story.title, codexSuccess: codexResult.success, filesModified: codexResult.filesModified },
   });
 
-  const validation = runValidation(workdir, story.validationCommand);
+  // Immediate cancel — don't validate half-finished edits
+  const cancelled = hooks?.signal?.aborted === true;
+  const validationStartedAt = Date.now();
+  const validation = cancelled
+    ? { success: false, output: "Cancelled before validation" }
+    : judgeAgainstBaseline(runValidation(workdir, story, cfg, baseline !== undefined), baseline);
+  noteFlakes(workdir, story, validation);
 
   const iterResult: IterationResult = {
-    success: codexResult.success && validation.success,
+    success: codexResult.success && validation.success && !cancelled,
     storyId: story.id,
     storyTitle: story.title,
     validationPassed: validation.success,
@@ -1987,17 +2763,38 @@ async function runAndValidateIteration(
     toolCalls: codexResult.toolCalls,
     filesModified: codexResult.filesModified,
     duration: Date.now() - startTime,
+    usage: codexResult.usage,
+    costUsd: codexResult.usage ? computeCost(codexResult.usage, agentCfg.model, cfg.modelPrices) : undefined,
+    cancelled: cancelled || undefined,
+    error: cancelled ? "Cancelled mid-iteration" : undefined,
+    protectedPathChanges: protectedPathChanges.length > 0 ? protectedPathChanges : undefined,
+    model: modelChoice.model,
+    reasoningEffort: modelChoice.reasoningEffort,
+    escalationRung: cfg.escalation.length > 0 ? modelChoice.rung : undefined,
   };
 
   let rejectReason: string | undefined;
+  let review: ReviewTrigger | undefined;
   if (iterResult.success) {
+    // Custom check modules come from the main checkout: a worktree only has what's committed
+    const registry = await loadVerificationChecks(resolvePath(stateDir), prd.verification);
+    for (const error of registry.errors) console.warn(`[openclaw-codex-ralph] ⚠️ Verification check: ${error}`);
     const verification = verifyOutput({
       workdir: resolvePath(workdir),
       story,
       codexResult,
       validationOutput: validation.output,
-    });
+      coverage: { ...cfg.coverageGate, threshold: story.coverageThreshold ?? cfg.coverageGate.threshold, since: validationStartedAt },
+      placeholders: prd.verification?.placeholders,
+      protectedPathChanges,
+    }, registry.checks, registry.settings);
     iterResult.verificationPassed = verification.passed;
+    iterResult.coverage = verification.coverage;
+    iterResult.verificationChecks = {
+      loaded: registry.checks.map((c) => ({ name: c.name, source: c.source })),
+      results: verification.outcomes,
+      errors: registry.errors.length > 0 ? registry.errors : undefined,
+    };
     iterResult.verificationWarnings = verification.warnings.length > 0 ? verification.warnings : undefined;
 
     if (!verification.passed) {
@@ -2006,7 +2803,8 @@ async function runAndValidateIteration(
       console.warn(`[openclaw-codex-ralph] ❌ Verification rejected: ${story.title} — ${verification.rejectReason}`);
       hivemindStore(
         `Ralph verification rejected: "${story.title}" in ${prd.projectName}. Reason: ${verification.rejectReason}. Checks: ${verification.checks.map(c => `[${c.severity}] ${c.name}: ${c.message}`).join("; ")}`,
-        `ralph,verification,rejected,${prd.projectName}`
+        `ralph,verification,rejected,${prd.projectName}`,
+        prd.projectName
       );
       writeRalphEvent("story_verification_rejected", {
         jobId,
@@ -2028,15 +2826,65 @@ async function runAndValidateIteration(
       console.warn(`[openclaw-codex-ralph] ⚠️ Verification warnings for: ${story.title} — ${verification.warnings.join("; ")}`);
       hivemindStore(
         `Ralph verification warnings: "${story.title}" in ${prd.projectName}. Warnings: ${verification.warnings.join("; ")}`,
-        `ralph,verification,warning,${prd.projectName}`
+        `ralph,verification,warning,${prd.projectName}`,
+        prd.projectName
       );
     }
+    if (verification.passed) review = reviewTrigger(story, cfg, verification.requiresLLMReview);
+  }
+
+  // Second-opinion review — a read-only session judges the diff against the acceptance criteria
+  if (iterResult.success && review) {
+    console.log(`[openclaw-codex-ralph] 🔎 Reviewing ${story.title} (${review})`);
+    const resolvedWorkdir = resolvePath(workdir);
+    const reviewModel = cfg.review.model || cfg.model;
+    iterResult.review = await runReview(getAgentBackend(resolveAgentSpec(cfg, prd, story), resolvedWorkdir), {
+      workdir: resolvedWorkdir,
+      story,
+      filesChanged: codexResult.filesModified,
+      warnings: iterResult.verificationWarnings ?? [],
+      trigger: review,
+      model: reviewModel,
+      debug: cfg.debug,
+      timeoutMs: cfg.iterationTimeoutMs,
+      stallTimeoutMs: cfg.stallTimeoutMs,
+      processLabel: hooks?.processLabel,
+      onEvent: hooks?.onEvent && ((event) => hooks.onEvent?.(event, reviewModel)),
+      signal: hooks?.signal,
+    });
+    accumulateSpend(iterResult, sessionSpend(iterResult.review.usage, reviewModel, cfg));
+    const verdict = iterResult.review.verdict;
+    if (verdict?.verdict === "reject") {
+      iterResult.success = false;
+      iterResult.verificationPassed = false;
+      rejectReason = `Reviewer rejected: ${formatReviewFindings(verdict)}`;
+      console.warn(`[openclaw-codex-ralph] ❌ Review rejected: ${story.title} — ${verdict.summary}`);
+      writeRalphEvent("story_verification_rejected", {
+        jobId,
+        storyId: story.id,
+        storyTitle: story.title,
+        error: rejectReason,
+        failureCategory: "verification_rejected",
+        duration: iterResult.duration,
+        workdir,
+        codexSessionId: codexResult.sessionId,
+        verificationRejectReason: rejectReason,
+      });
+      emitDiagnosticEvent({
+        type: "ralph:story:verification_rejected",
+        plugin: "openclaw-codex-ralph",
+        data: { jobId, storyId: story.id, storyTitle: story.title, duration: iterResult.duration, rejectReason },
+      });
+    } else if (iterResult.review.error) {
+      // An unavailable reviewer doesn't hold the story back — verification already passed
+      console.warn(`[openclaw-codex-ralph] ⚠️ Review inconclusive for ${story.title}: ${iterResult.review.error}`);
+    }
   }
 
   // Showboat demo phase — runs after verification passes, before returning success
   let demoResult: DemoResult | undefined;
   if (iterResult.success && shouldRunDemo(story, cfg)) {
-    demoResult = await runShowboatDemo(workdir, story, cfg);
+    demoResult = await runShowboatDemo(workdir, story, cfg, resolveAgentSpec(cfg, prd, story));
     if (!demoResult.passed) {
       iterResult.success = false;
       rejectReason = demoResult.error || "Demo verification failed";
@@ -2058,18 +2906,46 @@ async function runAndValidateIteration(
       });
       hivemindStore(
         `Ralph demo failed: "${story.title}" in ${prd.projectName}. Error: ${rejectReason}. Verify output: ${(demoResult.verifyOutput || "").slice(0, 300)}`,
-        `ralph,demo,failed,${prd.projectName}`
+        `ralph,demo,failed,${prd.projectName}`,
+        prd.projectName
       );
     } else {
       console.log(`[openclaw-codex-ralph] ✅ Demo phase passed: ${story.title} → ${demoResult.demoFile}`);
       hivemindStore(
         `Ralph demo passed: "${story.title}" in ${prd.projectName}. Demo: ${demoResult.demoFile}`,
-        `ralph,demo,success,${prd.projectName}`
+        `ralph,demo,success,${prd.projectName}`,
+        prd.projectName
       );
     }
   }
 
-  return { iterResult, codexResult, validation, rejectReason, startTime, demoResult };
+  return { iterResult, codexResult, validation, rejectReason, startTime, demoResult, preIterationSnapshot, reappliedPatchFile };
+}
+
+/**
+ * Apply the onFailure policy after a failed run so the next story doesn't
+ * start on top of half-finished edits.
+ */
+function rollbackIfFailed(workdir: string, run: RunResult, story: Story, jobId: string, cfg: PluginConfig): RollbackResult | undefined {
+  if (run.iterResult.success || cfg.onFailure === "keep") return undefined;
+
+  const rollback = rollbackFailedAttempt(resolvePath(workdir), cfg.onFailure, run.preIterationSnapshot, {
+    dir: RALPH_PATCHES_DIR,
+    name: `${Date.now()}-${jobId}-${story.id}`,
+  });
+  if (rollback.error) {
+    console.warn(`[openclaw-codex-ralph] ⚠️ Rollback (${rollback.policy}) failed for ${story.title}: ${rollback.error}`);
+  } else {
+    console.log(`[openclaw-codex-ralph] ↩️ Rolled back failed attempt for ${story.title} (${rollback.policy}${rollback.patchFile ? ` → ${rollback.patchFile}` : ""})`);
+  }
+  return rollback;
+}
+
+/** per-loop strategy: move the checkout onto the loop's branch before any story runs */
+function enterLoopBranch(workdir: string, cfg: PluginConfig, loopId: string): void {
+  if (!cfg.autoCommit || cfg.branchStrategy !== "per-loop") return;
+  const checkout = checkoutLoopBranch(resolvePath(workdir), loopId);
+  if (checkout) console.log(`[openclaw-codex-ralph] 🌿 Committing to ${checkout.branch}${checkout.parent ? ` (from ${checkout.parent})` : ""}`);
 }
 
 interface SuccessContext {
@@ -2083,10 +2959,65 @@ interface SuccessContext {
   demoResult?: DemoResult;
 }
 
+/**
+ * Hand a committed story to reviewers: push and open (or comment on) a PR when
+ * ghIssues is on, otherwise — or when gh fails — write an offline patch bundle.
+ */
+async function publishStoryCommit(ctx: SuccessContext, checkout: BranchCheckout | null): Promise<void> {
+  const { workdir, prd, story, iterResult, codexResult, cfg, demoResult } = ctx;
+  const cwd = resolvePath(workdir);
+  if (!iterResult.commitHash) return;
+
+  const branch = checkout?.branch || getCurrentBranch(cwd);
+  iterResult.branch = branch || undefined;
+
+  const summary = buildStoryReviewSummary({
+    storyId: story.id,
+    storyTitle: story.title,
+    description: story.description,
+    acceptanceCriteria: story.acceptanceCriteria,
+    branch: iterResult.branch,
+    parent: checkout?.parent,
+    commitHash: iterResult.commitHash,
+    filesModified: codexResult.filesModified,
+    summary: codexResult.structuredResult?.summary || codexResult.finalMessage.slice(0, 800),
+    verificationWarnings: iterResult.verificationWarnings,
+    demoFile: demoResult?.required && demoResult.passed ? demoResult.demoFile : undefined,
+    issueNumber: story.issueNumber,
+  });
+
+  if (cfg.ghIssues && branch && pushBranch(cwd, branch)) {
+    const { findPullRequest, createPullRequest, commentOnPullRequest } = await import("./gh-issues.js");
+    const existing = findPullRequest(cwd, branch);
+    if (existing) {
+      // per-loop: one PR collects every story committed on the loop branch
+      if (commentOnPullRequest(cwd, existing, summary)) iterResult.pullRequestUrl = existing;
+    } else {
+      const title = cfg.branchStrategy === "per-loop" ? `[Ralph] ${prd.projectName}` : `[Ralph] ${story.title}`;
+      iterResult.pullRequestUrl = createPullRequest(cwd, { head: branch, base: checkout?.parent, title, body: summary }) || undefined;
+    }
+    if (iterResult.pullRequestUrl) {
+      console.log(`[openclaw-codex-ralph] 🔀 PR for ${story.title}: ${iterResult.pullRequestUrl}`);
+      return;
+    }
+  }
+
+  const bundle = writeStoryBundle(cwd, iterResult.commitHash, summary, {
+    dir: join(RALPH_BUNDLES_DIR, prd.projectName.replace(/[^A-Za-z0-9._-]+/g, "-")),
+    name: story.id,
+  });
+  if (bundle) {
+    iterResult.bundleFile = bundle.patchFile;
+    console.log(`[openclaw-codex-ralph] 📦 Review bundle for ${story.title}: ${bundle.patchFile}`);
+  }
+}
+
 async function handleIterationSuccess(ctx: SuccessContext): Promise<void> {
   const { workdir, prd, story, iterResult, codexResult, jobId, cfg } = ctx;
 
   story.passes = true;
+  const splitDone = completeSplitParents(prd.stories);
+  clearPassedBlockers(prd.stories);
   prd.metadata = prd.metadata || { createdAt: new Date().toISOString() };
   prd.metadata.lastIteration = new Date().toISOString();
   prd.metadata.totalIterations = (prd.metadata.totalIterations || 0) + 1;
@@ -2105,11 +3036,15 @@ async function handleIterationSuccess(ctx: SuccessContext): Promise<void> {
     appendProgress(workdir, progressEntry + `\n⚠️ LAZY LEARNINGS: ${learningCheck.reason}`);
     hivemindStore(
       `LAZY AGENT WARNING: Story "${story.title}" in ${prd.projectName} produced ${learningCheck.reason}. This is a recurring quality issue — agents must provide structured learnings.`,
-      `ralph,laziness,quality,${prd.projectName}`
+      `ralph,laziness,quality,${prd.projectName}`,
+      prd.projectName
     );
   } else {
     appendProgress(workdir, progressEntry);
   }
+  for (const id of splitDone) {
+    appendProgress(workdir, `Completed: ${prd.stories.find((s) => s.id === id)?.title ?? id} — every story it was split into passes`);
+  }
 
   if (cfg.autoCommit) {
     // If demo was required and passed, ensure demo file is staged
@@ -2122,8 +3057,10 @@ async function handleIterationSuccess(ctx: SuccessContext): Promise<void> {
 
     const issueRef = story.issueNumber ? ` (#${story.issueNumber})` : "";
     const demoRef = demoResult?.required && demoResult.passed && demoResult.demoFile ? `\n\nDemo: ${demoResult.demoFile}` : "";
+    const checkout = cfg.branchStrategy === "per-story" ? checkoutStoryBranch(resolvePath(workdir), story.id) : null;
     const hash = gitCommit(workdir, `ralph: ${story.title}${issueRef}${demoRef}`);
     iterResult.commitHash = hash || undefined;
+    if (hash && cfg.branchStrategy !== "current") await publishStoryCommit(ctx, checkout);
   }
 
   if (codexResult.sessionId) {
@@ -2147,7 +3084,8 @@ async function handleIterationSuccess(ctx: SuccessContext): Promise<void> {
   if (iterResult.commitHash) {
     hivemindStore(
       `Ralph completed: ${story.title}. Files: ${codexResult.filesModified.join(", ")}. Summary: ${codexResult.structuredResult?.summary || codexResult.finalMessage.slice(0, 300)}`,
-      `ralph,learning,${prd.projectName}`
+      `ralph,learning,${prd.projectName}`,
+      prd.projectName
     );
   }
 
@@ -2155,7 +3093,8 @@ async function handleIterationSuccess(ctx: SuccessContext): Promise<void> {
   if (learnings && learnings.length >= 50) {
     hivemindStore(
       `Learnings from "${story.title}": ${learnings}`,
-      `ralph,success,learning,${prd.projectName},${story.id}`
+      `ralph,success,learning,${prd.projectName},${story.id}`,
+      prd.projectName
     );
   }
 
@@ -2163,9 +3102,10 @@ async function handleIterationSuccess(ctx: SuccessContext): Promise<void> {
     `Ralph success pattern: "${story.title}" in ${prd.projectName}. ` +
     `Tool calls: ${codexResult.toolCalls}. Files: ${codexResult.filesModified.length}. ` +
     `Duration: ${Math.round(iterResult.duration / 1000)}s. ` +
-    `Validation: ${story.validationCommand || "default"}. ` +
+    `Validation: ${describeValidation(story)}. ` +
     `Key tools: ${extractToolNames(codexResult.events).join(", ")}`,
-    `ralph,success-pattern,${prd.projectName}`
+    `ralph,success-pattern,${prd.projectName}`,
+    prd.projectName
   );
 
   addContextStory(workdir, {
@@ -2179,7 +3119,8 @@ async function handleIterationSuccess(ctx: SuccessContext): Promise<void> {
   if (codexResult.stderrInsights) {
     hivemindStore(
       `Iteration behavior for "${story.title}": ${codexResult.stderrInsights}`,
-      `ralph,session-insight,${prd.projectName}`
+      `ralph,session-insight,${prd.projectName}`,
+      prd.projectName
     );
   }
 
@@ -2193,6 +3134,9 @@ async function handleIterationSuccess(ctx: SuccessContext): Promise<void> {
     summary: codexResult.structuredResult?.summary || codexResult.finalMessage.slice(0, 500),
     workdir,
     codexSessionId: codexResult.sessionId,
+    branch: iterResult.branch,
+    pullRequestUrl: iterResult.pullRequestUrl,
+    bundleFile: iterResult.bundleFile,
   });
   emitDiagnosticEvent({
     type: "ralph:story:committed",
@@ -2216,32 +3160,37 @@ interface FailureContext {
   story: Story;
   iterResult: IterationResult;
   codexResult: CodexIterationResult;
-  validation: { success: boolean; output: string };
+  validation: ValidationRun;
   rejectReason?: string;
   jobId: string;
   cfg: PluginConfig;
   iterationNumber: number;
   retryCount?: number;
+  /** Set when the failure is known up front (e.g. merge_conflict) instead of classified from validation output */
+  failure?: FailureClassification;
 }
 
-async function handleIterationFailure(ctx: FailureContext): Promise<FailureCategory> {
+async function handleIterationFailure(ctx: FailureContext): Promise<FailureClassification> {
   const { workdir, prd, story, iterResult, codexResult, validation, rejectReason, jobId, cfg, iterationNumber, retryCount } = ctx;
 
-  const failureCategory: FailureCategory = iterResult.verificationPassed === false
-    ? "verification_rejected"
-    : categorizeFailure(validation.output);
+  const failure = ctx.failure ?? classifyRunFailure(iterResult, codexResult, validation, prd.failureCategories);
+  const failureCategory = failure.category;
 
+  const failingTests = validation.report?.failed ? formatReportFailures(validation.report, 5) : undefined;
   const failEntry = [
     `Failed: ${story.title} [${failureCategory}]`,
-    `Validation: ${validation.output.slice(0, 300)}`,
+    ...(failure.confidence > 0 && failure.evidence ? [`Cause: ${failure.evidence.split("\n")[0]}`] : []),
+    failingTests ? `Failing tests:\n${failingTests}` : `Validation: ${validation.output.slice(0, 300)}`,
     `Codex: ${codexResult.structuredResult?.summary || codexResult.finalMessage.slice(0, 300)}`,
+    ...(iterResult.budgetExceeded ? [`Budget: ${iterResult.budgetExceeded.message} — agent killed`] : []),
   ].join("\n");
   appendProgress(workdir, failEntry);
 
   if (failureCategory !== "verification_rejected") {
     hivemindStore(
       `Ralph failure [${failureCategory}]: ${story.title}. Files: ${codexResult.filesModified.join(", ")}. Error: ${validation.output.slice(0, 500)}`,
-      `ralph,failure,${failureCategory},${prd.projectName}`
+      `ralph,failure,${failureCategory},${prd.projectName}`,
+      prd.projectName
     );
   }
 
@@ -2257,7 +3206,8 @@ async function handleIterationFailure(ctx: FailureContext): Promise<FailureCateg
   if (codexResult.stderrInsights) {
     hivemindStore(
       `Iteration behavior (FAILED) for "${story.title}": ${codexResult.stderrInsights}`,
-      `ralph,session-insight,failure,${prd.projectName}`
+      `ralph,session-insight,failure,${prd.projectName}`,
+      prd.projectName
     );
   }
 
@@ -2272,7 +3222,9 @@ async function handleIterationFailure(ctx: FailureContext): Promise<FailureCateg
     storyId: story.id,
     storyTitle: story.title,
     category: failureCategory,
-    error: rejectReason ? `[verification_rejected] ${rejectReason}` : validation.output.slice(0, 500),
+    error: rejectReason ? `[${failureCategory}] ${rejectReason}` : failingTests || validation.output.slice(0, 500),
+    failingTests: validation.report?.failed ? validation.report.failures.slice(0, 10) : undefined,
+    errorFingerprints: failureFingerprints(iterResult, validation),
     toolNames: extractToolNames(codexResult.events),
     iterationNumber,
   });
@@ -2294,7 +3246,14 @@ async function handleIterationFailure(ctx: FailureContext): Promise<FailureCateg
   });
   sendOpenclawEvent(`❌ Story failed: ${story.title} [${failureCategory}]`);
 
-  return failureCategory;
+  return failure;
+}
+
+/** A report as logged: the comparison keys can run to thousands for a red repo */
+function withoutKeys(report: ValidationReport | undefined): ValidationReport | undefined {
+  if (!report?.keys) return report;
+  const { keys: _keys, ...logged } = report;
+  return logged;
 }
 
 function writeIterationLogEntry(workdir: string, opts: {
@@ -2303,15 +3262,17 @@ function writeIterationLogEntry(workdir: string, opts: {
   story: Story;
   codexResult: CodexIterationResult;
   iterResult: IterationResult;
-  validation: { success: boolean; output: string };
+  validation: ValidationRun;
   promptHash: string;
   promptFile: string;
   promptLength: number;
   rejectReason?: string;
-  failureCategory?: FailureCategory;
+  failure?: FailureClassification;
   model: string;
   sandbox: string;
   startTime: number;
+  rollback?: RollbackResult;
+  reappliedPatchFile?: string;
 }): void {
   appendIterationLog(workdir, {
     timestamp: new Date().toISOString(),
@@ -2328,7 +3289,8 @@ function writeIterationLogEntry(workdir: string, opts: {
     promptLength: opts.promptLength,
     success: opts.iterResult.success,
     validationPassed: opts.validation.success,
-    failureCategory: opts.failureCategory,
+    failureCategory: opts.failure?.category,
+    failureClassification: opts.failure,
     duration: opts.iterResult.duration,
     codexOutputLength: opts.codexResult.output.length,
     codexFinalMessageLength: opts.codexResult.finalMessage.length,
@@ -2336,14 +3298,52 @@ function writeIterationLogEntry(workdir: string, opts: {
     toolNames: extractToolNames(opts.codexResult.events),
     filesModified: opts.codexResult.filesModified,
     validationOutput: !opts.validation.success ? opts.validation.output.slice(0, VALIDATION_OUTPUT_LIMIT) : undefined,
+    validationReport: !opts.validation.success || opts.validation.preExisting?.length ? withoutKeys(opts.validation.report) : undefined,
+    baseline: opts.validation.baseline && {
+      head: opts.validation.baseline.head,
+      passed: opts.validation.baseline.success,
+      cached: opts.validation.baseline.cached,
+      report: withoutKeys(opts.validation.baseline.report),
+    },
+    preExistingFailures: opts.validation.preExisting?.length ? opts.validation.preExisting : undefined,
+    validationStages: opts.validation.stages?.map((s) => ({
+      name: s.name,
+      required: s.required,
+      success: s.success,
+      skipped: s.skipped,
+      timedOut: s.timedOut,
+      category: s.category,
+      durationMs: s.durationMs,
+      failed: s.report?.failed || undefined,
+      reruns: s.reruns,
+    })),
+    flakyTests: opts.validation.stages?.some((s) => s.flaky) ? opts.validation.stages.flatMap((s) => s.flaky ?? []) : undefined,
+    coverage: opts.iterResult.coverage,
+    verificationChecks: opts.iterResult.verificationChecks,
+    review: opts.iterResult.review,
+    protectedPathChanges: opts.iterResult.protectedPathChanges,
     verificationPassed: opts.iterResult.verificationPassed,
     verificationWarnings: opts.iterResult.verificationWarnings,
     verificationRejectReason: opts.rejectReason,
-    model: opts.model,
+    errorFingerprints: opts.iterResult.success || opts.iterResult.cancelled ? undefined : failureFingerprints(opts.iterResult, opts.validation),
+    model: opts.iterResult.model || opts.model,
+    reasoningEffort: opts.iterResult.reasoningEffort,
+    escalationRung: opts.iterResult.escalationRung,
     sandbox: opts.sandbox,
     startedAt: new Date(opts.startTime).toISOString(),
     completedAt: new Date().toISOString(),
     stderrStats: opts.codexResult.stderrStats,
+    failurePolicy: opts.rollback?.policy,
+    failedPatchFile: opts.rollback?.patchFile,
+    rollbackError: opts.rollback?.error,
+    reappliedPatchFile: opts.reappliedPatchFile,
+    outcome: opts.iterResult.cancelled ? "cancelled" : undefined,
+    branch: opts.iterResult.branch,
+    pullRequestUrl: opts.iterResult.pullRequestUrl,
+    bundleFile: opts.iterResult.bundleFile,
+    backend: opts.codexResult.backend,
+    usage: opts.iterResult.usage,
+    costUsd: opts.iterResult.costUsd,
   });
 }
 
@@ -2363,6 +3363,7 @@ async function executeRalphIterate(
   const ctx = await buildIterationContext(workdir, cfg, iterateJobId);
   if ("error" in ctx) return { error: ctx.error };
   if ("allDone" in ctx) return { success: true, message: "All stories complete!", storiesCompleted: ctx.prd.stories.length };
+  if ("allBlocked" in ctx) return { error: formatBlockedSummary(ctx.blocked) };
 
   const { prd, story, prompt, promptFile, promptHash } = ctx;
 
@@ -2370,23 +3371,26 @@ async function executeRalphIterate(
     return { dryRun: true, story: { id: story.id, title: story.title }, promptLength: prompt.length, promptFile, promptHash, model, sandbox: cfg.sandbox };
   }
 
+  enterLoopBranch(workdir, cfg, iterateJobId);
   const run = await runAndValidateIteration(workdir, prompt, story, iterateCfg, 2000, iterateJobId, prd);
+  const rollback = rollbackIfFailed(workdir, run, story, iterateJobId, iterateCfg);
 
+  let failure: FailureClassification | undefined;
   if (run.iterResult.success) {
     await handleIterationSuccess({ workdir, prd, story, iterResult: run.iterResult, codexResult: run.codexResult, jobId: iterateJobId, cfg, demoResult: run.demoResult });
   } else {
-    const failCat = await handleIterationFailure({
+    failure = await handleIterationFailure({
       workdir, prd, story, iterResult: run.iterResult, codexResult: run.codexResult, validation: run.validation,
       rejectReason: run.rejectReason, jobId: iterateJobId, cfg, iterationNumber: prd.metadata?.totalIterations || 1,
     });
     run.iterResult.error = run.validation.output.slice(0, 500);
   }
 
-  const failCat = run.iterResult.success ? undefined : (run.iterResult.verificationPassed === false ? "verification_rejected" as FailureCategory : categorizeFailure(run.validation.output));
   writeIterationLogEntry(workdir, {
     jobId: iterateJobId, iterationNumber: prd.metadata?.totalIterations || 1, story, codexResult: run.codexResult,
     iterResult: run.iterResult, validation: run.validation, promptHash, promptFile, promptLength: prompt.length,
-    rejectReason: run.rejectReason, failureCategory: failCat, model, sandbox: cfg.sandbox, startTime: run.startTime,
+    rejectReason: run.rejectReason, failure, model, sandbox: cfg.sandbox, startTime: run.startTime,
+    rollback, reappliedPatchFile: run.reappliedPatchFile,
   });
 
   return run.iterResult;
@@ -2394,15 +3398,17 @@ async function executeRalphIterate(
 
 // Legacy synchronous loop (kept for backward compatibility with ralph_iterate)
 async function executeRalphLoopSync(
-  params: { workdir: string; maxIterations?: number; model?: string; stopOnFailure?: boolean },
+  params: { workdir: string; maxIterations?: number; model?: string; stopOnFailure?: boolean; budget?: LoopBudget },
   cfg: PluginConfig
 ): Promise<LoopResult> {
   const workdir = params.workdir;
+  const loopStartedAt = Date.now();
   const maxIterations = params.maxIterations || cfg.maxIterations;
   const model = params.model || cfg.model;
   const stopOnFailure = params.stopOnFailure;
   const loopCfg = { ...cfg, model };
   const retryTracker = new StoryRetryTracker(DEFAULT_MAX_RETRIES);
+  const skippedStoryIds = new Set<string>();
 
   const loopResult: LoopResult = {
     success: false, iterationsRun: 0, storiesCompleted: 0, remainingStories: 0, results: [], stoppedReason: "complete",
@@ -2410,25 +3416,45 @@ async function executeRalphLoopSync(
 
   let lastStderrStats: MonitorStats | undefined;
   sendOpenclawEvent(`🚀 Ralph sync loop started: max ${maxIterations} iterations`);
+  const loopId = `sync-${Date.now().toString(36)}`;
+  enterLoopBranch(workdir, cfg, loopId);
+  let budgetStop: BudgetExceeded | null = null;
 
   for (let i = 0; i < maxIterations; i++) {
-    const syncJobId = `sync-${Date.now().toString(36)}-${i}`;
-    const ctx = await buildIterationContext(workdir, cfg, syncJobId, lastStderrStats);
+    const overBudget = budgetStop ?? checkLoopBudget(params.budget, Date.now() - loopStartedAt, loopResult);
+    if (overBudget) { loopResult.stoppedReason = "budget"; loopResult.budgetExceeded = overBudget; break; }
+
+    const syncJobId = `${loopId}-${i}`;
+    const ctx = await buildIterationContext(workdir, cfg, syncJobId, lastStderrStats, skippedStoryIds);
 
     if ("error" in ctx) { loopResult.stoppedReason = "error"; break; }
     if ("allDone" in ctx) { loopResult.success = true; loopResult.stoppedReason = "complete"; break; }
+    if ("allBlocked" in ctx) { loopResult.stoppedReason = "blocked"; break; }
 
     const { prd, story, prompt, promptFile, promptHash } = ctx;
 
     if (shouldSkipStory(story.id, workdir, DEFAULT_MAX_RETRIES)) {
-      appendProgress(workdir, `Skipped: ${story.title} — exceeded ${DEFAULT_MAX_RETRIES} retries, needs human review`);
+      const { hooks, watch } = startIterationBudget(params.budget, loopId, story, loopStartedAt, loopResult, loopCfg);
+      accumulateSpend(loopResult, await retireStory(workdir, prd, story, skippedStoryIds, loopCfg, hooks));
+      watch.stop();
+      continue;
+    }
+    const storyOverBudget = checkStoryBudget(params.budget, story.id, storySpend(loopResult.results, story.id));
+    if (storyOverBudget) {
+      skipStory(workdir, prd, story, skippedStoryIds, storyOverBudget.message);
       continue;
     }
 
     loopResult.iterationsRun++;
 
-    const run = await runAndValidateIteration(workdir, prompt, story, loopCfg, 500, syncJobId, prd);
+    const { hooks, watch } = startIterationBudget(params.budget, loopId, story, loopStartedAt, loopResult, loopCfg);
+    const run = await runAndValidateIteration(workdir, prompt, story, loopCfg, 500, syncJobId, prd, hooks);
+    const overrun = watch.stop();
+    noteBudgetOverrun(run, overrun);
+    if (overrun && !isStoryBudget(overrun)) budgetStop = overrun;
+    const rollback = rollbackIfFailed(workdir, run, story, syncJobId, loopCfg);
     lastStderrStats = run.codexResult.stderrStats;
+    accumulateSpend(loopResult, run.iterResult);
 
     if (run.iterResult.success) {
       await handleIterationSuccess({ workdir, prd, story, iterResult: run.iterResult, codexResult: run.codexResult, jobId: syncJobId, cfg, demoResult: run.demoResult });
@@ -2437,18 +3463,21 @@ async function executeRalphLoopSync(
 
     retryTracker.recordAttempt(story.id, run.iterResult.success);
 
+    let failure: FailureClassification | undefined;
     if (!run.iterResult.success) {
-      const failCat = await handleIterationFailure({
+      failure = await handleIterationFailure({
         workdir, prd, story, iterResult: run.iterResult, codexResult: run.codexResult, validation: run.validation,
         rejectReason: run.rejectReason, jobId: syncJobId, cfg, iterationNumber: i + 1,
         retryCount: retryTracker.getFailCount(story.id),
       });
 
-      if (stopOnFailure) {
+      // A budget kill stops the loop as "budget" on the next pass instead
+      if (stopOnFailure && !budgetStop) {
         writeIterationLogEntry(workdir, {
           jobId: syncJobId, iterationNumber: i + 1, story, codexResult: run.codexResult,
           iterResult: run.iterResult, validation: run.validation, promptHash, promptFile, promptLength: prompt.length,
-          rejectReason: run.rejectReason, failureCategory: failCat, model, sandbox: cfg.sandbox, startTime: run.startTime,
+          rejectReason: run.rejectReason, failure, model, sandbox: cfg.sandbox, startTime: run.startTime,
+          rollback, reappliedPatchFile: run.reappliedPatchFile,
         });
         loopResult.stoppedReason = "failure";
         loopResult.results.push(run.iterResult);
@@ -2456,22 +3485,25 @@ async function executeRalphLoopSync(
       }
     }
 
-    const failCat = run.iterResult.success ? undefined : (run.iterResult.verificationPassed === false ? "verification_rejected" as FailureCategory : categorizeFailure(run.validation.output));
     writeIterationLogEntry(workdir, {
       jobId: syncJobId, iterationNumber: i + 1, story, codexResult: run.codexResult,
       iterResult: run.iterResult, validation: run.validation, promptHash, promptFile, promptLength: prompt.length,
-      rejectReason: run.rejectReason, failureCategory: failCat, model, sandbox: cfg.sandbox, startTime: run.startTime,
+      rejectReason: run.rejectReason, failure, model, sandbox: cfg.sandbox, startTime: run.startTime,
+      rollback, reappliedPatchFile: run.reappliedPatchFile,
     });
 
     loopResult.results.push(run.iterResult);
   }
 
+  // Killed on the last allowed iteration — still a budget stop
+  if (budgetStop && !loopResult.budgetExceeded) { loopResult.stoppedReason = "budget"; loopResult.budgetExceeded = budgetStop; }
+
   const finalPrd = readPRD(workdir);
   if (finalPrd) {
     loopResult.remainingStories = finalPrd.stories.filter((s) => !s.passes).length;
     if (loopResult.remainingStories === 0) loopResult.success = true;
   }
-  if (loopResult.iterationsRun >= maxIterations && loopResult.remainingStories > 0) loopResult.stoppedReason = "limit";
+  if (loopResult.stoppedReason === "complete" && loopResult.iterationsRun >= maxIterations && loopResult.remainingStories > 0) loopResult.stoppedReason = "limit";
 
   return loopResult;
 }
@@ -2487,24 +3519,37 @@ async function executeRalphLoopAsync(
   const stopOnFailure = params.stopOnFailure;
   const loopCfg = { ...cfg };
   const retryTracker = new StoryRetryTracker(DEFAULT_MAX_RETRIES);
+  const skippedStoryIds = new Set<string>();
 
   emitLoopProgress(job, "start");
   cleanupOldEvents();
   cleanupOldPrompts();
   writeRalphEvent("loop_start", { jobId: job.id, totalStories: job.totalStories, workdir });
   sendOpenclawEvent(`🚀 Ralph loop started: ${job.totalStories} stories, max ${maxIterations} iterations`);
+  enterLoopBranch(workdir, cfg, job.id);
 
   let lastStderrStats: MonitorStats | undefined;
+  let budgetStop: BudgetExceeded | null = null;
 
   try {
-    for (let i = 0; i < maxIterations; i++) {
+    // Resumed jobs pick up after the last fully handled iteration
+    for (let i = job.lastCompletedIteration; i < maxIterations; i++) {
       if (job.status === "cancelled") {
-        writeRalphEvent("loop_error", { jobId: job.id, error: "Loop cancelled", storiesCompleted: job.storiesCompleted, lastStory: job.currentStory ? { id: job.currentStory.id, title: job.currentStory.title } : undefined, workdir });
-        emitLoopProgress(job, "complete");
+        finishCancelledJob(job);
+        return;
+      }
+      if (job.pauseRequested) {
+        holdPausedJob(job);
+        return;
+      }
+
+      const overBudget = budgetStop ?? checkLoopBudget(job.budget, activeElapsedMs(job), job);
+      if (overBudget) {
+        finishJobOverBudget(job, overBudget);
         return;
       }
 
-      const ctx = await buildIterationContext(workdir, cfg, job.id, lastStderrStats);
+      const ctx = await buildIterationContext(workdir, cfg, job.id, lastStderrStats, skippedStoryIds);
 
       if ("error" in ctx) {
         job.status = "failed"; job.error = ctx.error; job.completedAt = Date.now();
@@ -2518,23 +3563,59 @@ async function executeRalphLoopAsync(
         emitLoopProgress(job, "complete");
         return;
       }
+      if ("allBlocked" in ctx) {
+        job.status = "completed"; job.completedAt = Date.now();
+        job.totalStories = ctx.prd.stories.length;
+        job.error = formatBlockedSummary(ctx.blocked);
+        writeRalphEvent("loop_complete", { jobId: job.id, storiesCompleted: job.storiesCompleted, totalStories: job.totalStories, duration: Date.now() - job.startedAt, results: job.results.map((r) => ({ storyTitle: r.storyTitle, success: r.success, duration: r.duration })), error: job.error, workdir });
+        emitLoopProgress(job, "complete");
+        sendOpenclawEvent(`⛔ Ralph loop stopped: ${job.error}`);
+        return;
+      }
 
       const { prd, story, prompt, promptFile, promptHash } = ctx;
       job.totalStories = prd.stories.length;
 
       if (shouldSkipStory(story.id, workdir, DEFAULT_MAX_RETRIES)) {
-        appendProgress(workdir, `Skipped: ${story.title} — exceeded ${DEFAULT_MAX_RETRIES} retries, needs human review`);
+        const { hooks, watch } = startIterationBudget(job.budget, job.id, story, job.startedAt + (job.pausedMs ?? 0), job, loopCfg);
+        accumulateSpend(job, await retireStory(workdir, prd, story, skippedStoryIds, loopCfg, jobIterationHooks(job, hooks)));
+        watch.stop();
+        continue;
+      }
+      const storyOverBudget = checkStoryBudget(job.budget, story.id, storySpend(job.results, story.id));
+      if (storyOverBudget) {
+        skipStory(workdir, prd, story, skippedStoryIds, storyOverBudget.message);
         continue;
       }
 
       job.currentIteration = i + 1;
-      job.currentStory = { id: story.id, title: story.title };
+      job.inFlightStories = [{ id: story.id, title: story.title, startedAt: Date.now() }];
       emitLoopProgress(job, "iteration");
 
-      const run = await runAndValidateIteration(workdir, prompt, story, loopCfg, 500, job.id, prd);
+      const { hooks, watch } = startIterationBudget(job.budget, job.id, story, job.startedAt + (job.pausedMs ?? 0), job, loopCfg);
+      const run = await runAndValidateIteration(workdir, prompt, story, loopCfg, 500, job.id, prd, jobIterationHooks(job, hooks));
+      const overrun = watch.stop();
+      noteBudgetOverrun(run, overrun);
+      if (overrun && !isStoryBudget(overrun)) budgetStop = overrun;
+      const rollback = rollbackIfFailed(workdir, run, story, job.id, loopCfg);
       lastStderrStats = run.codexResult.stderrStats;
 
       job.results.push(run.iterResult);
+      accumulateSpend(job, run.iterResult);
+
+      // Killed by an immediate cancel: log the partial iteration, skip failure handling and retries
+      if (run.iterResult.cancelled) {
+        appendProgress(workdir, `Cancelled: ${story.title} — agent killed mid-iteration`);
+        writeIterationLogEntry(workdir, {
+          jobId: job.id, iterationNumber: i + 1, story, codexResult: run.codexResult,
+          iterResult: run.iterResult, validation: run.validation, promptHash, promptFile, promptLength: prompt.length,
+          model: loopCfg.model, sandbox: cfg.sandbox, startTime: run.startTime,
+          rollback, reappliedPatchFile: run.reappliedPatchFile,
+        });
+        job.lastCompletedIteration = i + 1;
+        finishCancelledJob(job);
+        return;
+      }
 
       if (run.iterResult.success) {
         await handleIterationSuccess({ workdir, prd, story, iterResult: run.iterResult, codexResult: run.codexResult, jobId: job.id, cfg, demoResult: run.demoResult });
@@ -2544,21 +3625,25 @@ async function executeRalphLoopAsync(
 
       retryTracker.recordAttempt(story.id, run.iterResult.success);
 
+      let failure: FailureClassification | undefined;
       if (!run.iterResult.success) {
-        const failCat = await handleIterationFailure({
+        failure = await handleIterationFailure({
           workdir, prd, story, iterResult: run.iterResult, codexResult: run.codexResult, validation: run.validation,
           rejectReason: run.rejectReason, jobId: job.id, cfg, iterationNumber: i + 1,
           retryCount: retryTracker.getFailCount(story.id),
         });
 
-        if (stopOnFailure) {
+        // A budget kill stops the loop as over budget on the next pass instead
+        if (stopOnFailure && !budgetStop) {
           writeIterationLogEntry(workdir, {
             jobId: job.id, iterationNumber: i + 1, story, codexResult: run.codexResult,
             iterResult: run.iterResult, validation: run.validation, promptHash, promptFile, promptLength: prompt.length,
-            rejectReason: run.rejectReason, failureCategory: failCat, model: loopCfg.model, sandbox: cfg.sandbox, startTime: run.startTime,
+            rejectReason: run.rejectReason, failure, model: loopCfg.model, sandbox: cfg.sandbox, startTime: run.startTime,
+            rollback, reappliedPatchFile: run.reappliedPatchFile,
           });
+          job.lastCompletedIteration = i + 1;
           job.status = "failed"; job.error = `Story failed: ${story.title}`; job.completedAt = Date.now();
-          writeRalphEvent("loop_error", { jobId: job.id, error: job.error, storiesCompleted: job.storiesCompleted, lastStory: job.currentStory ? { id: job.currentStory.id, title: job.currentStory.title } : undefined, workdir });
+          writeRalphEvent("loop_error", { jobId: job.id, error: job.error, storiesCompleted: job.storiesCompleted, lastStory: lastStoryOf(job), workdir });
           emitLoopProgress(job, "error");
           return;
         }
@@ -2566,12 +3651,269 @@ async function executeRalphLoopAsync(
         emitLoopProgress(job, "iteration");
       }
 
-      const failCat = run.iterResult.success ? undefined : (run.iterResult.verificationPassed === false ? "verification_rejected" as FailureCategory : categorizeFailure(run.validation.output));
       writeIterationLogEntry(workdir, {
         jobId: job.id, iterationNumber: i + 1, story, codexResult: run.codexResult,
         iterResult: run.iterResult, validation: run.validation, promptHash, promptFile, promptLength: prompt.length,
-        rejectReason: run.rejectReason, failureCategory: failCat, model: loopCfg.model, sandbox: cfg.sandbox, startTime: run.startTime,
+        rejectReason: run.rejectReason, failure, model: loopCfg.model, sandbox: cfg.sandbox, startTime: run.startTime,
+        rollback, reappliedPatchFile: run.reappliedPatchFile,
       });
+      job.lastCompletedIteration = i + 1;
+      job.inFlightStories = [];
+      checkpointJob(job);
+    }
+
+    // Cancelled during the last allowed iteration
+    if (job.status === "cancelled") {
+      finishCancelledJob(job);
+      return;
+    }
+
+    // Killed on the last allowed iteration — still a budget stop
+    if (budgetStop) {
+      finishJobOverBudget(job, budgetStop);
+      return;
+    }
+
+    // Reached max iterations
+    const finalPrd = readPRD(workdir);
+    const remaining = finalPrd ? finalPrd.stories.filter((s) => !s.passes).length : 0;
+    job.status = "completed";
+    if (remaining > 0) job.error = `Max iterations reached with ${remaining} stories remaining`;
+    job.completedAt = Date.now();
+
+    writeRalphEvent("loop_complete", { jobId: job.id, storiesCompleted: job.storiesCompleted, totalStories: job.totalStories, duration: Date.now() - job.startedAt, results: job.results.map((r) => ({ storyTitle: r.storyTitle, success: r.success, duration: r.duration })), workdir });
+    emitLoopProgress(job, "complete");
+
+    const passed = job.results.filter(r => r.success).length;
+    const failed = job.results.filter(r => !r.success).length;
+    const elapsed = Math.round((Date.now() - job.startedAt) / 1000);
+    sendOpenclawEvent(`🏁 Ralph loop complete: ${passed} passed, ${failed} failed, ${elapsed}s elapsed. ${remaining === 0 ? 'All stories done!' : `${remaining} stories remaining.`}`);
+
+  } catch (err) {
+    job.status = "failed";
+    job.error = err instanceof Error ? err.message : String(err);
+    job.completedAt = Date.now();
+    writeRalphEvent("loop_error", { jobId: job.id, error: job.error, storiesCompleted: job.storiesCompleted, lastStory: lastStoryOf(job), workdir });
+    emitLoopProgress(job, "error");
+  }
+}
+
+interface ParallelStoryRun {
+  story: Story;
+  iterationNumber: number;
+  prompt: string;
+  promptFile: string;
+  promptHash: string;
+  worktree: StoryWorktree;
+  run: RunResult;
+  /** Budget ceiling crossed while the story ran */
+  overrun: BudgetExceeded | null;
+}
+
+async function runStoryInWorktree(
+  job: LoopJob,
+  prd: PRD,
+  story: Story,
+  worktree: StoryWorktree,
+  iterationNumber: number,
+  cfg: PluginConfig,
+  previousStderrStats?: MonitorStats
+): Promise<ParallelStoryRun> {
+  job.inFlightStories.push({ id: story.id, title: story.title, startedAt: Date.now(), worktree: worktree.path });
+  emitLoopProgress(job, "iteration");
+
+  const { prompt, promptFile, promptHash } = await buildStoryPrompt(job.workdir, prd, story, cfg, job.id, previousStderrStats);
+  const { hooks, watch } = startIterationBudget(job.budget, job.id, story, job.startedAt + (job.pausedMs ?? 0), job, cfg);
+  const run = await runAndValidateIteration(worktree.path, prompt, story, cfg, 500, job.id, prd, jobIterationHooks(job, hooks), job.workdir);
+  const overrun = watch.stop();
+  noteBudgetOverrun(run, overrun);
+  return { story, iterationNumber, prompt, promptFile, promptHash, worktree, run, overrun };
+}
+
+// Parallel job-based loop - runs up to job.concurrency independent stories at once,
+// each in its own git worktree, then merges successes back in priority order
+async function executeRalphLoopParallel(
+  job: LoopJob,
+  params: { stopOnFailure?: boolean },
+  cfg: PluginConfig
+): Promise<void> {
+  const workdir = job.workdir;
+  const repoDir = resolvePath(workdir);
+  const stopOnFailure = params.stopOnFailure;
+  const retryTracker = new StoryRetryTracker(DEFAULT_MAX_RETRIES);
+  const skippedStoryIds = new Set<string>();
+
+  emitLoopProgress(job, "start");
+  cleanupOldEvents();
+  cleanupOldPrompts();
+  writeRalphEvent("loop_start", { jobId: job.id, totalStories: job.totalStories, workdir });
+  sendOpenclawEvent(`🚀 Ralph loop started: ${job.totalStories} stories, max ${job.maxIterations} iterations, ${job.concurrency} in parallel`);
+  enterLoopBranch(workdir, cfg, job.id);
+
+  let lastStderrStats: MonitorStats | undefined;
+  let budgetStop: BudgetExceeded | null = null;
+  // Resumed jobs pick up after the last fully handled iteration
+  job.currentIteration = job.lastCompletedIteration;
+
+  try {
+    while (job.currentIteration < job.maxIterations) {
+      if (job.status === "cancelled") {
+        finishCancelledJob(job);
+        return;
+      }
+      if (job.pauseRequested) {
+        holdPausedJob(job);
+        return;
+      }
+
+      const overBudget = budgetStop ?? checkLoopBudget(job.budget, activeElapsedMs(job), job);
+      if (overBudget) {
+        finishJobOverBudget(job, overBudget);
+        return;
+      }
+
+      const prd = readPRD(workdir);
+      if (!prd) {
+        job.status = "failed"; job.error = "No prd.json found"; job.completedAt = Date.now();
+        emitLoopProgress(job, "error");
+        return;
+      }
+      job.totalStories = prd.stories.length;
+
+      // Take stories that exhausted their retries or budget out of rotation before picking the batch
+      for (const story of getReadyStories(prd.stories, skippedStoryIds)) {
+        const storyOverBudget = checkStoryBudget(job.budget, story.id, storySpend(job.results, story.id));
+        if (shouldSkipStory(story.id, workdir, DEFAULT_MAX_RETRIES)) {
+          const { hooks, watch } = startIterationBudget(job.budget, job.id, story, job.startedAt + (job.pausedMs ?? 0), job, cfg);
+          accumulateSpend(job, await retireStory(workdir, prd, story, skippedStoryIds, cfg, jobIterationHooks(job, hooks)));
+          watch.stop();
+        } else if (storyOverBudget) skipStory(workdir, prd, story, skippedStoryIds, storyOverBudget.message);
+      }
+
+      const ready = getReadyStories(prd.stories, skippedStoryIds);
+      if (ready.length === 0) {
+        job.status = "completed"; job.completedAt = Date.now();
+        if (prd.stories.some((s) => !s.passes)) job.error = formatBlockedSummary(getBlockedStories(prd.stories));
+        writeRalphEvent("loop_complete", { jobId: job.id, storiesCompleted: job.storiesCompleted, totalStories: job.totalStories, duration: Date.now() - job.startedAt, results: job.results.map((r) => ({ storyTitle: r.storyTitle, success: r.success, duration: r.duration })), error: job.error, workdir });
+        emitLoopProgress(job, "complete");
+        if (job.error) sendOpenclawEvent(`⛔ Ralph loop stopped: ${job.error}`);
+        return;
+      }
+
+      const batch = ready.slice(0, Math.min(job.concurrency, job.maxIterations - job.currentIteration));
+
+      // Create all worktrees up front so a failure doesn't leave half a batch running
+      const worktrees: StoryWorktree[] = [];
+      for (const story of batch) {
+        const worktree = createStoryWorktree(repoDir, story.id);
+        if (!worktree) {
+          for (const wt of worktrees) removeStoryWorktree(repoDir, wt);
+          throw new Error(`Failed to create git worktree for ${story.id} — parallel loops require a git repository with at least one commit`);
+        }
+        worktrees.push(worktree);
+      }
+
+      const runs = await Promise.all(batch.map((story, idx) =>
+        runStoryInWorktree(job, prd, story, worktrees[idx]!, ++job.currentIteration, cfg, lastStderrStats)
+      ));
+
+      // Merge back in priority order (batch is already priority-sorted)
+      let stopStory: Story | undefined;
+      for (const { story, iterationNumber, prompt, promptFile, promptHash, worktree, run, overrun } of runs) {
+        lastStderrStats = run.codexResult.stderrStats;
+        if (overrun && !isStoryBudget(overrun)) budgetStop = overrun;
+        let failure: FailureClassification | undefined;
+
+        // Killed by an immediate cancel: log the partial iteration; the loop stops at the top of the next pass
+        if (run.iterResult.cancelled) {
+          const rollback = rollbackIfFailed(worktree.path, run, story, job.id, cfg);
+          removeStoryWorktree(repoDir, worktree);
+          job.results.push(run.iterResult);
+          accumulateSpend(job, run.iterResult);
+          appendProgress(workdir, `Cancelled: ${story.title} — agent killed mid-iteration`);
+          writeIterationLogEntry(workdir, {
+            jobId: job.id, iterationNumber, story, codexResult: run.codexResult,
+            iterResult: run.iterResult, validation: run.validation, promptHash, promptFile, promptLength: prompt.length,
+            model: cfg.model, sandbox: cfg.sandbox, startTime: run.startTime,
+            rollback, reappliedPatchFile: run.reappliedPatchFile,
+          });
+          job.lastCompletedIteration++;
+          job.inFlightStories = job.inFlightStories.filter((s) => s.id !== story.id);
+          continue;
+        }
+
+        if (run.iterResult.success) {
+          let merge: { applied: boolean; error?: string };
+          try {
+            merge = applyWorktreePatch(repoDir, captureWorktreePatch(worktree));
+          } catch (err) {
+            merge = { applied: false, error: err instanceof Error ? err.message : String(err) };
+          }
+          if (!merge.applied) {
+            run.iterResult.success = false;
+            run.rejectReason = `Merge conflict applying ${story.id} onto main checkout: ${merge.error || "unknown error"}`;
+            failure = { category: "merge_conflict", confidence: 1, evidence: merge.error || "unknown error", source: "merge" };
+            console.warn(`[openclaw-codex-ralph] ❌ ${run.rejectReason}`);
+            writeRalphEvent("story_merge_conflict", {
+              jobId: job.id,
+              storyId: story.id,
+              storyTitle: story.title,
+              error: run.rejectReason,
+              failureCategory: failure.category,
+              duration: run.iterResult.duration,
+              workdir,
+              codexSessionId: run.codexResult.sessionId,
+            });
+          }
+        }
+        // The worktree goes away either way — stash still keeps the failed attempt as a patch
+        const rollback = rollbackIfFailed(worktree.path, run, story, job.id, cfg);
+        removeStoryWorktree(repoDir, worktree);
+
+        job.results.push(run.iterResult);
+        accumulateSpend(job, run.iterResult);
+        retryTracker.recordAttempt(story.id, run.iterResult.success);
+
+        if (run.iterResult.success) {
+          await handleIterationSuccess({ workdir, prd, story, iterResult: run.iterResult, codexResult: run.codexResult, jobId: job.id, cfg, demoResult: run.demoResult });
+          job.storiesCompleted++;
+        } else {
+          failure = await handleIterationFailure({
+            workdir, prd, story, iterResult: run.iterResult, codexResult: run.codexResult, validation: run.validation,
+            rejectReason: run.rejectReason, jobId: job.id, cfg, iterationNumber,
+            retryCount: retryTracker.getFailCount(story.id), failure,
+          });
+          if (stopOnFailure && !stopStory && !budgetStop) stopStory = story;
+        }
+
+        writeIterationLogEntry(workdir, {
+          jobId: job.id, iterationNumber, story, codexResult: run.codexResult,
+          iterResult: run.iterResult, validation: run.validation, promptHash, promptFile, promptLength: prompt.length,
+          rejectReason: run.rejectReason, failure, model: cfg.model, sandbox: cfg.sandbox, startTime: run.startTime,
+          rollback, reappliedPatchFile: run.reappliedPatchFile,
+        });
+
+        job.lastCompletedIteration++;
+        job.inFlightStories = job.inFlightStories.filter((s) => s.id !== story.id);
+        emitLoopProgress(job, "iteration");
+      }
+
+      if (stopStory) {
+        job.status = "failed"; job.error = `Story failed: ${stopStory.title}`; job.completedAt = Date.now();
+        writeRalphEvent("loop_error", { jobId: job.id, error: job.error, storiesCompleted: job.storiesCompleted, lastStory: { id: stopStory.id, title: stopStory.title }, workdir });
+        emitLoopProgress(job, "error");
+        return;
+      }
+    }
+
+    if (job.status === "cancelled") {
+      finishCancelledJob(job);
+      return;
+    }
+
+    if (budgetStop) {
+      finishJobOverBudget(job, budgetStop);
+      return;
     }
 
     // Reached max iterations
@@ -2593,14 +3935,14 @@ async function executeRalphLoopAsync(
     job.status = "failed";
     job.error = err instanceof Error ? err.message : String(err);
     job.completedAt = Date.now();
-    writeRalphEvent("loop_error", { jobId: job.id, error: job.error, storiesCompleted: job.storiesCompleted, lastStory: job.currentStory ? { id: job.currentStory.id, title: job.currentStory.title } : undefined, workdir });
+    writeRalphEvent("loop_error", { jobId: job.id, error: job.error, storiesCompleted: job.storiesCompleted, lastStory: lastStoryOf(job), workdir });
     emitLoopProgress(job, "error");
   }
 }
 
 // Start a loop job in the background - returns immediately
 function startLoopJob(
-  params: { workdir: string; maxIterations?: number; model?: string; stopOnFailure?: boolean },
+  params: { workdir: string; maxIterations?: number; model?: string; stopOnFailure?: boolean; concurrency?: number; budget?: LoopBudget },
   cfg: PluginConfig
 ): LoopJob {
   const prd = readPRD(params.workdir);
@@ -2613,24 +3955,69 @@ function startLoopJob(
     status: "running",
     startedAt: Date.now(),
     currentIteration: 0,
+    lastCompletedIteration: 0,
     maxIterations: params.maxIterations || cfg.maxIterations,
+    inFlightStories: [],
+    concurrency: Math.max(1, Math.floor(params.concurrency || 1)),
     storiesCompleted: 0,
     totalStories,
     results: [],
-    model: cfg.model,
+    model: params.model || cfg.model,
     sandbox: cfg.sandbox,
     ghIssues: cfg.ghIssues,
+    stopOnFailure: params.stopOnFailure,
+    onFailure: cfg.onFailure,
+    reapplyFailedPatch: cfg.reapplyFailedPatch,
+    branchStrategy: cfg.branchStrategy,
+    baselineValidation: cfg.baselineValidation,
+    flakeRetries: cfg.flakeRetries,
+    escalation: cfg.escalation,
+    storySplitting: cfg.storySplitting,
+    budget: params.budget,
   };
 
   activeJobs.set(job.id, job);
+  runLoopJob(job, { ...cfg, model: params.model || cfg.model });
+
+  return job;
+}
 
-  // Start the loop in the background (fire and forget)
-  executeRalphLoopAsync(job, { stopOnFailure: params.stopOnFailure }, { ...cfg, model: params.model || cfg.model })
+// Run (or re-run) a job's loop in the background (fire and forget)
+function runLoopJob(job: LoopJob, cfg: PluginConfig): void {
+  job.abortController = new AbortController();
+  const runLoop = job.concurrency > 1 ? executeRalphLoopParallel : executeRalphLoopAsync;
+  runLoop(job, { stopOnFailure: job.stopOnFailure }, cfg)
     .catch((err) => {
       job.status = "failed";
       job.error = err instanceof Error ? err.message : String(err);
       job.completedAt = Date.now();
+      checkpointJob(job);
     });
+}
+
+// Continue an interrupted or paused job from its last completed iteration with its original settings
+function resumeLoopJob(job: LoopJob, cfg: PluginConfig): LoopJob {
+  if (job.status === "paused" && job.pausedAt) job.pausedMs = (job.pausedMs ?? 0) + Date.now() - job.pausedAt;
+  job.pausedAt = undefined;
+  job.status = "running";
+  job.error = undefined;
+  job.completedAt = undefined;
+  job.inFlightStories = [];
+  job.resumedAt = [...(job.resumedAt || []), Date.now()];
+
+  runLoopJob(job, {
+    ...cfg,
+    model: job.model || cfg.model,
+    sandbox: (job.sandbox as PluginConfig["sandbox"] | undefined) || cfg.sandbox,
+    ghIssues: job.ghIssues ?? cfg.ghIssues,
+    onFailure: job.onFailure ?? cfg.onFailure,
+    reapplyFailedPatch: job.reapplyFailedPatch ?? cfg.reapplyFailedPatch,
+    branchStrategy: job.branchStrategy ?? cfg.branchStrategy,
+    baselineValidation: job.baselineValidation ?? cfg.baselineValidation,
+    flakeRetries: job.flakeRetries ?? cfg.flakeRetries,
+    escalation: job.escalation ?? cfg.escalation,
+    storySplitting: job.storySplitting ?? cfg.storySplitting,
+  });
 
   return job;
 }
@@ -2652,17 +4039,54 @@ const ralphCodexPlugin = {
       autoCommit: { type: "boolean", default: true },
       debug: { type: "boolean", default: false },
       ghIssues: { type: "boolean", default: false },
+      onFailure: { type: "string", enum: ["keep", "stash", "reset"], default: "keep" },
+      reapplyFailedPatch: { type: "boolean", default: false },
+      branchStrategy: { type: "string", enum: ["current", "per-story", "per-loop"], default: "current" },
+      agent: { type: "object", default: { type: "codex" } },
+      iterationTimeoutMs: { type: "number", default: 600000 },
+      stallTimeoutMs: { type: "number", default: 120000 },
+      modelPrices: { type: "object", default: {} },
+      baselineValidation: { type: "boolean", default: false },
+      flakeRetries: { type: "number", default: 0 },
+      coverageGate: { type: "object", default: { threshold: 0, severity: "WARN" } },
+      review: { type: "object", default: { enabled: false, always: false } },
+      reasoningEffort: { type: "string" },
+      escalation: { type: "array", default: [] },
+      storySplitting: { type: "object", default: { enabled: false, autoApply: false } },
+      memoryStore: { type: "string", enum: ["local", "swarm"], default: "local" },
     },
     additionalProperties: false,
   },
 
   register(api: OpenClawPluginApi) {
-    const rawCfg = api.pluginConfig as Partial<PluginConfig> & { showboat?: Partial<ShowboatConfig> };
+    const rawCfg = api.pluginConfig as Partial<PluginConfig> & { showboat?: Partial<ShowboatConfig>; coverageGate?: Partial<CoverageGate>; review?: Partial<ReviewConfig>; storySplitting?: Partial<StorySplittingConfig> };
     const cfg: PluginConfig = {
       ...DEFAULT_CONFIG,
       ...rawCfg,
       showboat: { ...DEFAULT_CONFIG.showboat, ...(rawCfg.showboat || {}) },
+      coverageGate: { ...DEFAULT_CONFIG.coverageGate, ...(rawCfg.coverageGate || {}) },
+      review: { ...DEFAULT_CONFIG.review, ...(rawCfg.review || {}) },
+      storySplitting: { ...DEFAULT_CONFIG.storySplitting, ...(rawCfg.storySplitting || {}) },
+      modelPrices: { ...DEFAULT_CONFIG.modelPrices, ...(rawCfg.modelPrices || {}) },
     };
+    const ladderErrors = escalationLadderErrors(cfg.escalation);
+    if (ladderErrors.length > 0) {
+      console.warn(`[openclaw-codex-ralph] ⚠️ Model escalation disabled: ${ladderErrors.join("; ")}`);
+      cfg.escalation = [];
+    }
+    if (cfg.memoryStore === "swarm" && !isSwarmAvailable()) {
+      console.warn("[openclaw-codex-ralph] ⚠️ memoryStore is \"swarm\" but the swarm CLI is not in PATH — using the local memory store");
+      cfg.memoryStore = "local";
+    }
+    memoryStore = createMemoryStore(cfg.memoryStore);
+
+    const interruptedJobs = recoverPersistedJobs();
+    for (const job of interruptedJobs) {
+      writeRalphEvent("loop_interrupted", { jobId: job.id, error: job.error, storiesCompleted: job.storiesCompleted, totalStories: job.totalStories, lastStory: lastStoryOf(job), workdir: job.workdir });
+    }
+    if (interruptedJobs.length > 0) {
+      console.warn(`[openclaw-codex-ralph] ${interruptedJobs.length} loop job(s) interrupted by restart: ${interruptedJobs.map((j) => j.id).join(", ")}`);
+    }
 
     // ralph_init
     api.registerTool({
@@ -2675,6 +4099,7 @@ const ralphCodexPlugin = {
           workdir: { type: "string", description: "Project directory (required)" },
           projectName: { type: "string", description: "Project name (required)" },
           description: { type: "string", description: "Project description" },
+          agent: { type: "string", description: "Coding-agent backend: \"codex\" or JSON, e.g. {\"type\":\"command\",\"command\":\"my-agent --model {model} {prompt}\",\"format\":\"text\"} or {\"type\":\"scripted\",\"script\":\"agent-script.json\"} (default: from config)" },
         },
         required: ["workdir", "projectName"],
         additionalProperties: false,
@@ -2689,7 +4114,7 @@ const ralphCodexPlugin = {
     api.registerTool({
       name: "ralph_add_story",
       label: "Ralph Add Story",
-      description: "Add a story/task to the project's prd.json. Stories are processed in priority order (lower = higher priority).",
+      description: "Add a story/task to the project's prd.json. Stories are processed in priority order (lower = higher priority) once their dependsOn stories pass.",
       parameters: {
         type: "object",
         properties: {
@@ -2698,11 +4123,20 @@ const ralphCodexPlugin = {
           description: { type: "string", description: "Detailed description of what to implement (required)" },
           priority: { type: "number", description: "Priority (1 = highest, default: 10)" },
           validationCommand: { type: "string", description: "Command to validate the story (e.g., 'npm test')" },
+          validationReport: { type: "string", description: "Report file the validation command writes, relative to workdir — JUnit XML, TAP or vitest/jest JSON (e.g. 'vitest run --reporter=junit --outputFile=report.xml' → 'report.xml'). Failing tests are parsed out for the next attempt." },
+          validation: { type: "string", description: "Validation pipeline as a JSON array of stages run in order, replacing validationCommand: [{\"name\":\"typecheck\",\"command\":\"tsc --noEmit\"},{\"name\":\"lint\",\"command\":\"eslint .\",\"required\":false},{\"name\":\"unit\",\"command\":\"vitest run\",\"timeoutMs\":600000,\"cwd\":\"packages/core\",\"report\":\"report.xml\"}]. Advisory stages (required: false) are reported but never fail the story. The failure category comes from the stage that failed (by name, or its category field)." },
+          coverageThreshold: { type: "number", description: "Minimum % of the story's added lines the tests must cover, overriding coverageGate.threshold (0 turns the gate off for this story)" },
           acceptanceCriteria: { type: "string", description: "Acceptance criteria as JSON array of strings" },
           demoInstructions: { type: "string", description: "Instructions for showboat demo phase (triggers demo when showboat is enabled)" },
           targetFiles: { type: "string", description: "JSON array of filenames that MUST appear in the git diff (partial match). REJECT if missing." },
           noTestWrites: { type: "boolean", description: "When true, any test file modification causes REJECT. Prevents aspirational tests." },
+          forbiddenFiles: { type: "string", description: "JSON array of path globs this story must not touch (e.g. [\"migrations/**\"]), on top of prd.json protectedPaths. Changes are reverted and REJECTed." },
+          allowTestRemoval: { type: "boolean", description: "The story may delete tests (e.g. it removes a feature). Otherwise an attempt that leaves fewer tests than HEAD is REJECTed." },
+          review: { type: "boolean", description: "true: a read-only reviewer session judges every attempt that passes verification against the acceptance criteria; false: never review this story (default: plugin review config)" },
           acceptanceAssertions: { type: "string", description: "JSON array of strings that must appear in targetFiles content after completion." },
+          dependsOn: { type: "string", description: "JSON array of story IDs that must pass before this story runs. Cycles are rejected." },
+          agent: { type: "string", description: "Coding-agent backend for this story, overriding the project's. \"codex\" or a JSON agent spec (see ralph_init)" },
+          model: { type: "string", description: "Model for this story, overriding the loop's. The escalation ladder climbs from it after failures." },
         },
         required: ["workdir", "title", "description"],
         additionalProperties: false,
@@ -2717,7 +4151,7 @@ const ralphCodexPlugin = {
     api.registerTool({
       name: "ralph_status",
       label: "Ralph Status",
-      description: "Get the current status of the Ralph project - pending stories, completed stories, and next task.",
+      description: "Get the current status of the Ralph project - pending stories, completed stories, blocked stories (and what blocks them), and next task.",
       parameters: {
         type: "object",
         properties: {
@@ -2747,10 +4181,19 @@ const ralphCodexPlugin = {
           priority: { type: "number", description: "New priority" },
           passes: { type: "boolean", description: "Mark as passed/failed" },
           validationCommand: { type: "string", description: "New validation command" },
+          validationReport: { type: "string", description: "Report file the validation command writes (JUnit XML, TAP, vitest/jest JSON; empty string clears)" },
+          validation: { type: "string", description: "Validation pipeline as a JSON array of {name, command, timeoutMs?, required?, cwd?, report?, category?} stages (empty string clears)" },
+          coverageThreshold: { type: "number", description: "Minimum % of added lines covered, overriding coverageGate.threshold (negative clears)" },
           demoInstructions: { type: "string", description: "Instructions for showboat demo phase" },
           targetFiles: { type: "string", description: "JSON array of filenames that MUST appear in the git diff" },
           noTestWrites: { type: "boolean", description: "When true, test file modifications cause REJECT" },
+          forbiddenFiles: { type: "string", description: "JSON array of path globs this story must not touch (empty string or [] clears)" },
+          allowTestRemoval: { type: "boolean", description: "When true, fewer tests than HEAD only warns instead of REJECT" },
+          review: { type: "boolean", description: "true: always get a second-opinion review; false: never" },
           acceptanceAssertions: { type: "string", description: "JSON array of strings that must appear in target files" },
+          dependsOn: { type: "string", description: "JSON array of story IDs this story depends on (empty array clears)" },
+          agent: { type: "string", description: "Coding-agent backend override: \"codex\" or a JSON agent spec (empty string clears)" },
+          model: { type: "string", description: "Model override for this story (empty string clears)" },
         },
         required: ["workdir", "storyId"],
         additionalProperties: false,
@@ -2761,6 +4204,27 @@ const ralphCodexPlugin = {
       },
     });
 
+    // ralph_split_story — break a story into smaller child stories
+    api.registerTool({
+      name: "ralph_split_story",
+      label: "Ralph Split Story",
+      description: "Break a story that is too big (or keeps failing) into 2-5 smaller child stories. A read-only planning session reads the story, its failed attempts and the codebase map and proposes children with acceptance criteria and targetFiles. propose stores the proposal on the story, apply inserts the children into prd.json (planning first if nothing is pending) and marks the story split, reject drops a pending proposal.",
+      parameters: {
+        type: "object",
+        properties: {
+          workdir: { type: "string", description: "Project directory (required)" },
+          storyId: { type: "string", description: "Story ID to split (required)" },
+          action: { type: "string", enum: ["propose", "apply", "reject"], description: "propose (default): plan and store a proposal; apply: insert the pending proposal's children, planning one if none; reject: drop the pending proposal" },
+        },
+        required: ["workdir", "storyId"],
+        additionalProperties: false,
+      },
+      execute: async (_toolCallId: string, params: Record<string, unknown>) => {
+        const result = await executeRalphSplitStory(params as Parameters<typeof executeRalphSplitStory>[0], cfg);
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      },
+    });
+
     // ralph_link_issues — bulk-create GH issues for existing PRDs
     api.registerTool({
       name: "ralph_link_issues",
@@ -2858,22 +4322,64 @@ const ralphCodexPlugin = {
           stopOnFailure: { type: "boolean", description: "Stop loop on first failure (default: false)" },
           sync: { type: "boolean", description: "Run synchronously (blocks until complete, legacy behavior)" },
           ghIssues: { type: "boolean", description: "Enable GitHub issue tracking for this loop run" },
+          concurrency: { type: "number", description: "Run up to N independent stories in parallel, each in its own git worktree (async mode only, default: 1)" },
+          onFailure: { type: "string", enum: ["keep", "stash", "reset"], description: "Working tree policy after a failed iteration: keep edits, stash them to a patch file and reset, or reset to the pre-iteration tree — changes made before the iteration are kept (default: from config)" },
+          reapplyFailedPatch: { type: "boolean", description: "On retry, re-apply the previous attempt's stashed patch as a starting point" },
+          branchStrategy: { type: "string", enum: ["current", "per-story", "per-loop"], description: "Where commits land: the checked-out branch, a ralph/<story-id> branch per story, or one ralph/loop-<job-id> branch for the loop (default: from config)" },
+          baselineValidation: { type: "boolean", description: "Validate HEAD before each iteration and fail stories only on new failing tests / type errors (needs a parseable report; default: from config)" },
+          flakeRetries: { type: "number", description: "Re-run a failed validation stage up to N times; tests that fail then pass are recorded as flaky and don't fail the story (default: from config)" },
+          escalation: { type: "string", description: "Model escalation ladder as a JSON array of rungs, each applying once a story has failed afterFailures times: [{\"afterFailures\":1,\"model\":\"gpt-5.2-codex\"},{\"afterFailures\":2,\"reasoningEffort\":\"high\"}]. \"[]\" turns it off (default: from config)" },
+          splitStories: { type: "string", enum: ["off", "propose", "apply"], description: "What to do with a story that exhausts its retries: propose has a planner split it into smaller stories and waits for ralph_split_story to apply them, apply inserts them right away, off only skips it (default: from storySplitting config)" },
+          maxDurationMs: { type: "number", description: "Wall-clock budget for the loop; a running agent is killed when it runs out" },
+          maxTokens: { type: "number", description: "Token budget (input + output) for the loop" },
+          maxCost: { type: "number", description: "Cost budget in USD for the loop (priced with modelPrices)" },
+          maxStoryTokens: { type: "number", description: "Token budget per story within the loop; a story over budget is skipped" },
+          maxStoryCost: { type: "number", description: "Cost budget in USD per story within the loop; a story over budget is skipped" },
         },
         required: ["workdir"],
         additionalProperties: false,
       },
       execute: async (_toolCallId: string, params: Record<string, unknown>) => {
-        // Allow per-invocation ghIssues override
-        const loopCfg = params.ghIssues !== undefined ? { ...cfg, ghIssues: params.ghIssues as boolean } : cfg;
+        // Allow per-invocation config overrides
+        const loopCfg: PluginConfig = { ...cfg };
+        if (params.ghIssues !== undefined) loopCfg.ghIssues = params.ghIssues as boolean;
+        if (params.onFailure !== undefined) loopCfg.onFailure = params.onFailure as FailurePolicy;
+        if (params.reapplyFailedPatch !== undefined) loopCfg.reapplyFailedPatch = params.reapplyFailedPatch as boolean;
+        if (params.branchStrategy !== undefined) loopCfg.branchStrategy = params.branchStrategy as BranchStrategy;
+        if (params.baselineValidation !== undefined) loopCfg.baselineValidation = params.baselineValidation as boolean;
+        if (params.flakeRetries !== undefined) {
+          if (typeof params.flakeRetries !== "number" || !(params.flakeRetries >= 0)) {
+            return { content: [{ type: "text", text: JSON.stringify({ error: "flakeRetries must be a non-negative number" }) }] };
+          }
+          loopCfg.flakeRetries = Math.floor(params.flakeRetries);
+        }
+        if (params.escalation !== undefined) {
+          let ladder: unknown;
+          try { ladder = JSON.parse(String(params.escalation)); } catch { ladder = undefined; }
+          const errors = escalationLadderErrors(ladder);
+          if (errors.length > 0) {
+            return { content: [{ type: "text", text: JSON.stringify({ error: errors.join("; ") }) }] };
+          }
+          loopCfg.escalation = ladder as ModelRung[];
+        }
+        if (params.splitStories !== undefined) {
+          const mode = params.splitStories as string;
+          loopCfg.storySplitting = { ...cfg.storySplitting, enabled: mode !== "off", autoApply: mode === "apply" };
+        }
+
+        const budget = parseLoopBudget(params);
+        if (typeof budget === "string") {
+          return { content: [{ type: "text", text: JSON.stringify({ error: budget }) }] };
+        }
 
         // Legacy sync mode for backward compat
         if (params.sync) {
-          const result = await executeRalphLoopSync(params as Parameters<typeof executeRalphLoopSync>[0], loopCfg);
+          const result = await executeRalphLoopSync({ ...params, budget } as Parameters<typeof executeRalphLoopSync>[0], loopCfg);
           return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
         }
 
         // New async mode - returns immediately
-        const job = startLoopJob(params as Parameters<typeof startLoopJob>[0], loopCfg);
+        const job = startLoopJob({ ...params, budget } as Parameters<typeof startLoopJob>[0], loopCfg);
         return {
           content: [{
             type: "text",
@@ -2882,7 +4388,9 @@ const ralphCodexPlugin = {
               status: job.status,
               workdir: job.workdir,
               maxIterations: job.maxIterations,
+              concurrency: job.concurrency,
               totalStories: job.totalStories,
+              budget: job.budget,
               message: "Loop started in background. Use ralph_loop_status to check progress.",
             }, null, 2),
           }],
@@ -2918,19 +4426,34 @@ const ralphCodexPlugin = {
                 status: job.status,
                 workdir: job.workdir,
                 currentIteration: job.currentIteration,
+                lastCompletedIteration: job.lastCompletedIteration,
                 maxIterations: job.maxIterations,
-                currentStory: job.currentStory,
+                concurrency: job.concurrency,
+                inFlightStories: job.inFlightStories,
                 storiesCompleted: job.storiesCompleted,
                 totalStories: job.totalStories,
                 elapsedMs: Date.now() - job.startedAt,
                 completedAt: job.completedAt,
                 error: job.error,
+                pauseRequested: job.pauseRequested,
+                pausedAt: job.pausedAt,
+                pausedMs: job.pausedMs,
+                usage: job.usage,
+                costUsd: job.costUsd,
+                budget: job.budget,
+                budgetExceeded: job.budgetExceeded,
+                spendByStory: summarizeSpendByStory(job.results),
                 results: job.results.map((r) => ({
                   storyId: r.storyId,
                   storyTitle: r.storyTitle,
                   success: r.success,
                   duration: r.duration,
                   commitHash: r.commitHash,
+                  branch: r.branch,
+                  pullRequestUrl: r.pullRequestUrl,
+                  bundleFile: r.bundleFile,
+                  usage: r.usage,
+                  costUsd: r.costUsd,
                 })),
               }, null, 2),
             }],
@@ -2947,20 +4470,119 @@ const ralphCodexPlugin = {
           storiesCompleted: j.storiesCompleted,
           totalStories: j.totalStories,
           elapsedMs: Date.now() - j.startedAt,
+          costUsd: j.costUsd,
+          resumable: j.status === "interrupted" || j.status === "paused",
         }));
         return { content: [{ type: "text", text: JSON.stringify({ jobs, count: jobs.length }, null, 2) }] };
       },
     });
 
+    // ralph_loop_pause - hold a running job after its current iteration
+    api.registerTool({
+      name: "ralph_loop_pause",
+      label: "Ralph Loop Pause",
+      description: "Pause a running ralph loop job. The current iteration finishes, then the loop holds until ralph_loop_resume. Time spent paused does not count against maxDurationMs.",
+      parameters: {
+        type: "object",
+        properties: {
+          jobId: { type: "string", description: "Job ID to pause (required)" },
+        },
+        required: ["jobId"],
+        additionalProperties: false,
+      },
+      execute: async (_toolCallId: string, params: Record<string, unknown>) => {
+        const jobId = params.jobId as string;
+        const job = activeJobs.get(jobId);
+
+        if (!job) {
+          return { content: [{ type: "text", text: JSON.stringify({ error: "Job not found", jobId }) }] };
+        }
+
+        if (job.status !== "running") {
+          return { content: [{ type: "text", text: JSON.stringify({ error: "Job is not running", jobId, status: job.status }) }] };
+        }
+
+        job.pauseRequested = true;
+        checkpointJob(job);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              jobId: job.id,
+              status: job.status,
+              pauseRequested: true,
+              inFlightStories: job.inFlightStories.map((s) => ({ id: s.id, title: s.title })),
+              message: "Pause requested. The loop holds after the current iteration; use ralph_loop_resume to continue.",
+            }, null, 2),
+          }],
+        };
+      },
+    });
+
+    // ralph_loop_resume - continue a paused job, or one interrupted by a gateway restart
+    api.registerTool({
+      name: "ralph_loop_resume",
+      label: "Ralph Loop Resume",
+      description: "Resume a paused loop job, or one that was interrupted by a gateway restart. Continues from its last completed iteration with the same model, sandbox and maxIterations budget. Resuming a job that is still finishing its iteration before a pause withdraws the pause.",
+      parameters: {
+        type: "object",
+        properties: {
+          jobId: { type: "string", description: "Job ID to resume (required)" },
+        },
+        required: ["jobId"],
+        additionalProperties: false,
+      },
+      execute: async (_toolCallId: string, params: Record<string, unknown>) => {
+        const jobId = params.jobId as string;
+        const job = activeJobs.get(jobId);
+
+        if (!job) {
+          return { content: [{ type: "text", text: JSON.stringify({ error: "Job not found", jobId }) }] };
+        }
+
+        // Pause requested but not reached yet — just keep going
+        if (job.status === "running" && job.pauseRequested) {
+          job.pauseRequested = undefined;
+          checkpointJob(job);
+          return { content: [{ type: "text", text: JSON.stringify({ jobId: job.id, status: job.status, message: "Pause withdrawn. The loop keeps running." }, null, 2) }] };
+        }
+
+        if (job.status !== "interrupted" && job.status !== "paused") {
+          return { content: [{ type: "text", text: JSON.stringify({ error: "Only paused or interrupted jobs can be resumed", jobId, status: job.status }) }] };
+        }
+
+        resumeLoopJob(job, cfg);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              jobId: job.id,
+              status: job.status,
+              workdir: job.workdir,
+              resumingFromIteration: job.lastCompletedIteration + 1,
+              maxIterations: job.maxIterations,
+              model: job.model,
+              sandbox: job.sandbox,
+              storiesCompleted: job.storiesCompleted,
+              message: "Loop resumed in background. Use ralph_loop_status to check progress.",
+            }, null, 2),
+          }],
+        };
+      },
+    });
+
     // ralph_loop_cancel - cancel a running job
     api.registerTool({
       name: "ralph_loop_cancel",
       label: "Ralph Loop Cancel",
-      description: "Cancel a running ralph loop job.",
+      description: "Cancel a running or paused ralph loop job. 'graceful' (default) stops after the current iteration; 'immediate' kills the in-flight agent and logs the partial iteration as cancelled.",
       parameters: {
         type: "object",
         properties: {
           jobId: { type: "string", description: "Job ID to cancel (required)" },
+          mode: { type: "string", enum: ["graceful", "immediate"], description: "graceful (default): finish the current iteration first. immediate: kill the running agent now." },
         },
         required: ["jobId"],
         additionalProperties: false,
@@ -2973,13 +4595,33 @@ const ralphCodexPlugin = {
           return { content: [{ type: "text", text: JSON.stringify({ error: "Job not found", jobId }) }] };
         }
         
-        if (job.status !== "running") {
+        const mode = (params.mode as string | undefined) || "graceful";
+        if (mode !== "graceful" && mode !== "immediate") {
+          return { content: [{ type: "text", text: JSON.stringify({ error: "mode must be 'graceful' or 'immediate'", jobId, mode }) }] };
+        }
+
+        if (job.status !== "running" && job.status !== "paused") {
           return { content: [{ type: "text", text: JSON.stringify({ error: "Job is not running", jobId, status: job.status }) }] };
         }
 
+        const wasPaused = job.status === "paused";
         job.status = "cancelled";
+        job.pauseRequested = undefined;
         job.completedAt = Date.now();
-        emitLoopProgress(job, "complete");
+
+        let message: string;
+        if (wasPaused) {
+          // No loop is running to notice the cancel
+          finishCancelledJob(job);
+          message = "Paused job cancelled.";
+        } else {
+          // The loop sees the cancel and emits loop_error + complete itself; only persist the state here
+          checkpointJob(job);
+          if (mode === "immediate") job.abortController?.abort();
+          message = mode === "immediate"
+            ? "Job cancelled. Killing the in-flight agent; the partial iteration is logged as cancelled."
+            : "Job cancelled. Will stop after current iteration.";
+        }
 
         return {
           content: [{
@@ -2987,7 +4629,8 @@ const ralphCodexPlugin = {
             text: JSON.stringify({
               jobId: job.id,
               status: job.status,
-              message: "Job cancelled. Will stop after current iteration.",
+              mode,
+              message,
               storiesCompleted: job.storiesCompleted,
             }, null, 2),
           }],
@@ -3593,12 +5236,19 @@ const ralphCodexPlugin = {
           storyId: params.storyId as string | undefined,
           jobId: params.jobId as string | undefined,
         });
+        // Spend covers every matching iteration (failed retries included), not just the listed page
+        const spendByStory = summarizeSpendByStory(readIterationLog(workdir, {
+          sinceEpoch: params.sinceEpoch as number | undefined,
+          storyId: params.storyId as string | undefined,
+          jobId: params.jobId as string | undefined,
+        }));
 
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
               count: entries.length,
+              spendByStory,
               entries: entries.map((e) => ({
                 timestamp: e.timestamp,
                 epoch: e.epoch,
@@ -3609,6 +5259,7 @@ const ralphCodexPlugin = {
                 success: e.success,
                 validationPassed: e.validationPassed,
                 failureCategory: e.failureCategory,
+                failureClassification: e.failureClassification,
                 duration: e.duration,
                 durationHuman: `${Math.round(e.duration / 1000)}s`,
                 promptHash: e.promptHash,
@@ -3616,14 +5267,25 @@ const ralphCodexPlugin = {
                 codexSessionId: e.codexSessionId,
                 codexSessionFile: e.codexSessionFile,
                 commitHash: e.commitHash,
+                branch: e.branch,
+                pullRequestUrl: e.pullRequestUrl,
+                bundleFile: e.bundleFile,
                 toolCalls: e.toolCalls,
                 toolNames: e.toolNames,
                 filesModified: e.filesModified,
                 codexOutputLength: e.codexOutputLength,
                 codexFinalMessageLength: e.codexFinalMessageLength,
                 validationOutput: e.validationOutput,
+                failurePolicy: e.failurePolicy,
+                failedPatchFile: e.failedPatchFile,
+                reappliedPatchFile: e.reappliedPatchFile,
                 model: e.model,
+                reasoningEffort: e.reasoningEffort,
+                escalationRung: e.escalationRung,
                 sandbox: e.sandbox,
+                backend: e.backend,
+                usage: e.usage,
+                costUsd: e.costUsd,
               })),
             }, null, 2),
           }],
@@ -3631,7 +5293,76 @@ const ralphCodexPlugin = {
       },
     });
 
-    console.log(`[openclaw-codex-ralph] Registered 27 tools (model: ${cfg.model}, sandbox: ${cfg.sandbox}, ghIssues: ${cfg.ghIssues})`);
+    // ========================================================================
+    // Flaky Tests
+    // ========================================================================
+
+    api.registerTool({
+      name: "ralph_flaky_tests",
+      label: "Ralph Flaky Tests",
+      description: `List tests flake detection (flakeRetries) caught failing and then passing on a re-run, most frequent first — from ${FLAKY_REGISTRY_FILE}. Their failures don't fail stories; fix them, then forget them.`,
+      parameters: {
+        type: "object",
+        properties: {
+          workdir: { type: "string", description: "Project directory (required)" },
+          forget: { type: "string", description: "Key or name of a fixed test to drop from the registry (\"all\" clears it)" },
+        },
+        required: ["workdir"],
+        additionalProperties: false,
+      },
+      execute: async (_toolCallId: string, params: Record<string, unknown>) => {
+        const dir = resolvePath(params.workdir as string);
+        const forgotten = params.forget ? forgetFlakyTests(dir, params.forget as string) : undefined;
+        const tests = listFlakyTests(dir);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ forgotten, total: tests.length, tests }, null, 2),
+          }],
+        };
+      },
+    });
+
+    // ========================================================================
+    // Error Fingerprints
+    // ========================================================================
+
+    api.registerTool({
+      name: "ralph_error_fingerprints",
+      label: "Ralph Error Fingerprints",
+      description: "List the errors that keep failing iterations, grouped by normalized fingerprint (TS code plus symbols, test name, exception plus top stack frame, or rejecting check) — the ones hitting the most stories first.",
+      parameters: {
+        type: "object",
+        properties: {
+          workdir: { type: "string", description: "Project directory (required)" },
+          sinceHours: { type: "number", description: "Only failures from the last N hours" },
+          limit: { type: "number", description: "Max fingerprints to return (default: 10)" },
+        },
+        required: ["workdir"],
+        additionalProperties: false,
+      },
+      execute: async (_toolCallId: string, params: Record<string, unknown>) => {
+        const sinceHours = params.sinceHours as number | undefined;
+        const entries = readIterationLog(params.workdir as string, {
+          onlyFailed: true,
+          sinceEpoch: sinceHours ? Date.now() - sinceHours * 3600000 : undefined,
+          limit: Number.MAX_SAFE_INTEGER,
+        });
+        const clusters = clusterFingerprints(entries);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              failedIterations: entries.length,
+              total: clusters.length,
+              fingerprints: clusters.slice(0, (params.limit as number) || 10).map((c) => ({ ...c, summary: describeCluster(c) })),
+            }, null, 2),
+          }],
+        };
+      },
+    });
+
+    console.log(`[openclaw-codex-ralph] Registered 32 tools (model: ${cfg.model}, sandbox: ${cfg.sandbox}, ghIssues: ${cfg.ghIssues})`);
   },
 };
 
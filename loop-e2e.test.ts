@@ -0,0 +1,796 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import { mkdirSync, writeFileSync, readFileSync, readdirSync, rmSync, existsSync, chmodSync } from "node:fs";
+import { join } from "node:path";
+import { execSync } from "node:child_process";
+import type { IterationLogEntry, LoopResult, PRD } from "./index.js";
+import type { StorySpend } from "./usage-helpers.js";
+
+// End-to-end sync loops against fake-codex.mjs, installed as `codex` on the PATH
+// the codex backend builds from $HOME — no network, no real agent.
+
+const { diagnostics } = vi.hoisted(() => ({ diagnostics: [] as Array<{ type: string; data: { jobId?: string } }> }));
+vi.mock("openclaw/plugin-sdk", () => ({ emitDiagnosticEvent: (event: { type: string; data: { jobId?: string } }) => diagnostics.push(event) }));
+
+const ROOT = join(process.cwd(), ".test-loop-e2e");
+const HOME = join(ROOT, "home");
+const WORKDIR = join(ROOT, "project");
+const SCENARIO = join(ROOT, "scenario.json");
+
+type Tool = { execute: (id: string, params: Record<string, unknown>) => Promise<{ content: Array<{ text: string }> }> };
+const tools = new Map<string, Tool>();
+const originalHome = process.env.HOME;
+
+type Added = { storyId: string };
+type Started = { jobId: string };
+type LoopStatus = { status: string; inFlightStories: unknown[]; pausedMs?: number; results: Array<{ storyId: string; success: boolean }> };
+
+async function call<T = unknown>(name: string, params: Record<string, unknown>): Promise<T> {
+  const result = await tools.get(name)!.execute("test", params);
+  return JSON.parse(result.content[0]!.text);
+}
+
+function scenario(steps: unknown[]) {
+  writeFileSync(SCENARIO, JSON.stringify({ steps }));
+}
+
+function fakeCalls(): Array<{ step: number; prompt: string; model?: string; reasoningEffort?: string; sandbox?: string }> {
+  const file = `${SCENARIO}.calls.jsonl`;
+  return existsSync(file) ? readFileSync(file, "utf-8").trim().split("\n").map((l) => JSON.parse(l)) : [];
+}
+
+function iterationLog(): IterationLogEntry[] {
+  const file = join(WORKDIR, ".ralph-iterations.jsonl");
+  return existsSync(file) ? readFileSync(file, "utf-8").trim().split("\n").map((l) => JSON.parse(l)) : [];
+}
+
+function prd(): PRD {
+  return JSON.parse(readFileSync(join(WORKDIR, "prd.json"), "utf-8"));
+}
+
+function progress(): string {
+  return readFileSync(join(WORKDIR, "progress.txt"), "utf-8");
+}
+
+async function addStory(title: string, validationCommand: string): Promise<string> {
+  const added = await call<Added>("ralph_add_story", { workdir: WORKDIR, title, description: `Implement ${title}`, validationCommand });
+  return added.storyId;
+}
+
+beforeAll(async () => {
+  rmSync(ROOT, { recursive: true, force: true });
+  mkdirSync(join(HOME, ".local", "bin"), { recursive: true });
+  const shim = join(HOME, ".local", "bin", "codex");
+  writeFileSync(shim, `#!/bin/sh\nexec node "${join(process.cwd(), "fake-codex.mjs")}" "$@"\n`);
+  chmodSync(shim, 0o755);
+
+  process.env.HOME = HOME;
+  process.env.FAKE_CODEX_SCENARIO = SCENARIO;
+  await registerPlugin();
+});
+
+/** What a gateway (re)start does: register the plugin, which recovers checkpointed jobs */
+async function registerPlugin() {
+  const { default: plugin } = await import("./index.js");
+  plugin.register({
+    pluginConfig: { iterationTimeoutMs: 2000, stallTimeoutMs: 1000 },
+    registerTool: (tool: Tool & { name: string }) => tools.set(tool.name, tool),
+    on: () => {},
+  } as unknown as Parameters<typeof plugin.register>[0]);
+}
+
+afterAll(() => {
+  process.env.HOME = originalHome;
+  delete process.env.FAKE_CODEX_SCENARIO;
+  rmSync(ROOT, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  rmSync(WORKDIR, { recursive: true, force: true });
+  // Learnings from earlier tests would show up in prompts and match other scenario steps
+  rmSync(join(HOME, ".openclaw", "ralph-memory.jsonl"), { force: true });
+  for (const file of [SCENARIO, `${SCENARIO}.state.json`, `${SCENARIO}.calls.jsonl`]) rmSync(file, { force: true });
+  mkdirSync(WORKDIR, { recursive: true });
+  execSync("git init -b main", { cwd: WORKDIR, stdio: "pipe" });
+  execSync("git config user.email test@test.com && git config user.name Test", { cwd: WORKDIR, stdio: "pipe" });
+  writeFileSync(join(WORKDIR, "app.ts"), "export const a = 1;\n");
+  execSync("git add -A && git commit -m init", { cwd: WORKDIR, stdio: "pipe" });
+  await call("ralph_init", { workdir: WORKDIR, projectName: "e2e" });
+  execSync("git add -A && git commit -m ralph-init", { cwd: WORKDIR, stdio: "pipe" });
+});
+
+describe("sync loop with fake codex", () => {
+  it("completes a story, commits it and records context", async () => {
+    const id = await addStory("Add greeting", "grep -q hello greeting.ts");
+    scenario([{ match: "Add greeting", commands: ["cat app.ts"], files: { "greeting.ts": "export const greeting = 'hello';\n" } }]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 3 });
+
+    expect(result).toMatchObject({ success: true, storiesCompleted: 1, remainingStories: 0, stoppedReason: "complete" });
+    expect(prd().stories[0]).toMatchObject({ id, passes: true });
+    expect(progress()).toContain("Add greeting");
+    expect(execSync("git log --oneline", { cwd: WORKDIR, encoding: "utf-8" })).toContain("Add greeting");
+
+    const context = JSON.parse(readFileSync(join(WORKDIR, ".ralph-context.json"), "utf-8"));
+    expect(context.stories[0]).toMatchObject({ id, status: "completed" });
+    expect(context.stories[0].filesModified).toContain("greeting.ts");
+
+    const [entry] = iterationLog();
+    expect(entry).toMatchObject({ storyId: id, success: true, validationPassed: true, verificationPassed: true });
+    expect(fakeCalls()[0]!.prompt).toContain("Add greeting");
+  });
+
+  it("retries after a validation failure", async () => {
+    const id = await addStory("Add farewell", "grep -q goodbye farewell.ts");
+    scenario([
+      { files: { "farewell.ts": "export const farewell = 'bye';\n" } },
+      { files: { "farewell.ts": "export const farewell = 'goodbye';\n" } },
+    ]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 3 });
+
+    expect(result).toMatchObject({ success: true, iterationsRun: 2, storiesCompleted: 1 });
+    const log = iterationLog();
+    expect(log.map((e) => e.success)).toEqual([false, true]);
+    expect(log[0]).toMatchObject({ storyId: id, validationPassed: false });
+    expect(progress()).toContain("Failed: Add farewell");
+
+    const context = JSON.parse(readFileSync(join(WORKDIR, ".ralph-context.json"), "utf-8"));
+    expect(context.failures[0]).toMatchObject({ storyId: id });
+    // The retry prompt carries the previous failure
+    expect(fakeCalls()[1]!.prompt).toContain("Previous attempt failed");
+  });
+
+  it("carries exact failing tests from a validation report into the retry", async () => {
+    const tap = "TAP version 13\\nnot ok 1 - says goodbye\\n  ---\\n  message: expected goodbye\\n  at: farewell.test.ts:3:5\\n  ...\\n1..1\\n";
+    const { storyId: id } = await call<Added>("ralph_add_story", {
+      workdir: WORKDIR, title: "Add farewell", description: "Implement Add farewell",
+      validationCommand: `grep -q goodbye farewell.ts || { printf '${tap}' > report.tap; exit 1; }`,
+      validationReport: "report.tap",
+    });
+    scenario([
+      { files: { "farewell.ts": "export const farewell = 'bye';\n" } },
+      { files: { "farewell.ts": "export const farewell = 'goodbye';\n" } },
+    ]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 3 });
+
+    expect(result).toMatchObject({ success: true, storiesCompleted: 1 });
+    const log = iterationLog();
+    expect(log[0]).toMatchObject({ failureCategory: "test_failure", validationReport: { formats: ["tap"], failed: 1 } });
+    expect(log[0]!.failureClassification).toMatchObject({ category: "test_failure", evidence: "says goodbye: expected goodbye", source: "tap" });
+    expect(log[0]!.validationReport!.failures[0]).toMatchObject({ name: "says goodbye", file: "farewell.test.ts", line: 3 });
+    const context = JSON.parse(readFileSync(join(WORKDIR, ".ralph-context.json"), "utf-8"));
+    expect(context.failures[0]).toMatchObject({ storyId: id, failingTests: [{ name: "says goodbye" }] });
+    expect(fakeCalls()[1]!.prompt).toContain("- says goodbye (farewell.test.ts:3): expected goodbye");
+    // Consumed, so it never lands in the story's commit
+    expect(existsSync(join(WORKDIR, "report.tap"))).toBe(false);
+  });
+
+  it("fails a story only on failures the baseline didn't have", async () => {
+    // legacy.test.ts is red before the agent starts; the story owns "says goodbye"
+    const legacy = "not ok 1 - legacy parser\\n  ---\\n  message: broken since forever\\n  at: legacy.test.ts:9:1\\n  ...\\n";
+    const goodbye = "not ok 2 - says goodbye\\n  ---\\n  message: expected goodbye\\n  at: farewell.test.ts:3:5\\n  ...\\n";
+    await call<Added>("ralph_add_story", {
+      workdir: WORKDIR, title: "Add farewell", description: "Implement Add farewell",
+      validationCommand: `printf 'TAP version 13\\n${legacy}'; { [ ! -f farewell.ts ] || grep -q goodbye farewell.ts || printf '${goodbye}'; }; printf '1..2\\n'; exit 1`,
+    });
+    scenario([
+      { files: { "farewell.ts": "export const farewell = 'bye';\n" } },
+      { files: { "farewell.ts": "export const farewell = 'goodbye';\n" } },
+    ]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 3, baselineValidation: true });
+
+    expect(result).toMatchObject({ success: true, iterationsRun: 2, storiesCompleted: 1 });
+    const [failed, passed] = iterationLog();
+    expect(failed).toMatchObject({ success: false, validationReport: { failed: 1, failures: [{ name: "says goodbye" }] } });
+    expect(failed!.baseline).toMatchObject({ passed: false, report: { failed: 1, failures: [{ name: "legacy parser" }] } });
+    expect(failed!.preExistingFailures).toEqual([expect.objectContaining({ name: "legacy parser", file: "legacy.test.ts" })]);
+    expect(passed).toMatchObject({ success: true, validationPassed: true, baseline: { cached: true }, preExistingFailures: [{ name: "legacy parser" }] });
+
+    const prompt = fakeCalls()[0]!.prompt;
+    expect(prompt).toContain("Known Pre-existing Failures (not your job)");
+    expect(prompt).toContain("- legacy parser (legacy.test.ts:9): broken since forever");
+    // The retry is told about its own failure, not the legacy one
+    expect(fakeCalls()[1]!.prompt).toContain("Failing tests (1):\n- says goodbye");
+  });
+
+  it("runs validation stages in order and takes the failure category from the failing stage", async () => {
+    const { storyId: id } = await call<Added>("ralph_add_story", {
+      workdir: WORKDIR, title: "Add farewell", description: "Implement Add farewell",
+      validation: JSON.stringify([
+        { name: "typecheck", command: "grep -q export farewell.ts" },
+        { name: "lint", command: "echo 'style nit'; exit 1", required: false },
+        { name: "unit", command: "grep -q goodbye farewell.ts" },
+      ]),
+    });
+    expect(prd().stories[0]!.validation).toHaveLength(3);
+    scenario([
+      { files: { "farewell.ts": "const farewell = 'bye';\n" } },
+      { files: { "farewell.ts": "export const farewell = 'bye';\n" } },
+      { files: { "farewell.ts": "export const farewell = 'goodbye';\n" } },
+    ]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 4 });
+
+    expect(result).toMatchObject({ success: true, iterationsRun: 3, storiesCompleted: 1 });
+    const [typeFail, unitFail, passed] = iterationLog();
+    expect(typeFail).toMatchObject({ storyId: id, failureCategory: "type_error" });
+    expect(typeFail!.failureClassification).toMatchObject({ confidence: 0.6, evidence: 'Stage "typecheck" failed', source: "stage" });
+    expect(typeFail!.validationStages!.map((s) => [s.name, s.success, s.skipped])).toEqual([
+      ["typecheck", false, undefined],
+      ["lint", false, true],
+      ["unit", false, true],
+    ]);
+    expect(unitFail).toMatchObject({ failureCategory: "test_failure" });
+    expect(unitFail!.validationOutput).toContain("[lint] failed (advisory)\nstyle nit");
+    // An advisory failure never holds the story back
+    expect(passed).toMatchObject({ success: true, validationPassed: true });
+    expect(passed!.validationStages!.find((s) => s.name === "lint")).toMatchObject({ required: false, success: false });
+
+    expect(fakeCalls()[0]!.prompt).toContain("- lint (advisory): `echo 'style nit'; exit 1`");
+    expect(fakeCalls()[1]!.prompt).toContain("Failed validation stage: typecheck");
+  });
+
+  it("re-runs a failed stage and records tests that flip as flaky", async () => {
+    // "timing sensitive" fails on the first run only; the counter lives outside the repo
+    const counter = join(ROOT, "flake-count");
+    rmSync(counter, { force: true });
+    await call<Added>("ralph_add_story", {
+      workdir: WORKDIR, title: "Add farewell", description: "Implement Add farewell",
+      validationCommand: `n=$(cat ${counter} 2>/dev/null || echo 0); echo $((n+1)) > ${counter}; printf 'TAP version 13\\nok 1 - says goodbye\\n'; if [ "$n" = 0 ]; then printf 'not ok 2 - timing sensitive\\n1..2\\n'; exit 1; fi; printf 'ok 2 - timing sensitive\\n1..2\\n'`,
+    });
+    scenario([{ files: { "farewell.ts": "export const farewell = 'goodbye';\n" } }]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 2, flakeRetries: 2 });
+
+    expect(result).toMatchObject({ success: true, iterationsRun: 1, storiesCompleted: 1 });
+    expect(readFileSync(counter, "utf-8").trim()).toBe("2");
+    const [entry] = iterationLog();
+    expect(entry).toMatchObject({ success: true, flakyTests: [{ name: "timing sensitive", stage: "validation", known: false }] });
+    expect(entry!.validationStages![0]).toMatchObject({ success: true, reruns: 1 });
+
+    const listed = await call<{ tests: unknown[] }>("ralph_flaky_tests", { workdir: WORKDIR });
+    expect(listed.tests).toEqual([expect.objectContaining({ name: "timing sensitive", flips: 1, storyIds: [entry!.storyId] })]);
+    expect(await call("ralph_flaky_tests", { workdir: WORKDIR, forget: "timing sensitive" })).toMatchObject({ forgotten: 1, total: 0 });
+  });
+
+  it("accounts tokens and cost, including failed retries", async () => {
+    await addStory("Add farewell", "grep -q goodbye farewell.ts");
+    scenario([
+      { files: { "farewell.ts": "export const farewell = 'bye';\n" } },
+      { files: { "farewell.ts": "export const farewell = 'goodbye';\n" } },
+    ]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 3 });
+
+    // fake-codex reports 1200 input (200 cached) + 300 output tokens per run, priced as gpt-5.2-codex
+    expect(result.usage).toEqual({ inputTokens: 2400, cachedInputTokens: 400, outputTokens: 600 });
+    expect(result.costUsd).toBeCloseTo(0.01197, 6);
+    expect(iterationLog()[0]!.costUsd).toBeCloseTo(0.005985, 6);
+
+    const { spendByStory } = await call<{ spendByStory: StorySpend[] }>("ralph_iterations", { workdir: WORKDIR, limit: 1 });
+    expect(spendByStory).toHaveLength(1);
+    expect(spendByStory[0]).toMatchObject({ iterations: 2, failedIterations: 1 });
+    expect(spendByStory[0]!.failedCostUsd).toBeCloseTo(0.005985, 6);
+  });
+
+  it("rejects a no-op session that claims success", async () => {
+    const id = await addStory("Refactor nothing", "true");
+    scenario([{ commands: [] }]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 1, stopOnFailure: true });
+
+    expect(result).toMatchObject({ success: false, stoppedReason: "failure" });
+    expect(prd().stories[0]).toMatchObject({ id, passes: false });
+    const [entry] = iterationLog();
+    expect(entry).toMatchObject({ success: false, validationPassed: true, verificationPassed: false, failureCategory: "verification_rejected" });
+    expect(entry!.verificationRejectReason).toBeTruthy();
+  });
+
+  it("runs the project's verification settings and custom checks, and logs each result", async () => {
+    const id = await addStory("Add logger", "true");
+    mkdirSync(join(WORKDIR, "checks"));
+    writeFileSync(join(WORKDIR, "checks", "no-console.mjs"), `export default (input, diffStats, diff) =>
+  /^\\+.*console\\.log/m.test(diff) ? { name: "no_console", severity: "REJECT", message: "Diff adds console.log" } : null;
+`);
+    writeFileSync(join(WORKDIR, "prd.json"), JSON.stringify({ ...prd(), verification: { checks: { no_tests: "off" }, customChecks: ["checks/no-console.mjs"] } }));
+    execSync("git add -A && git commit -m checks", { cwd: WORKDIR, stdio: "pipe" });
+    // The agent also tries to disarm the check
+    scenario([{ commands: ["cat app.ts"], files: { "app.ts": "export const a = 1;\nconsole.log(a);\n", "checks/no-console.mjs": "export default () => null;\n" } }]);
+
+    await call("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 1, stopOnFailure: true });
+
+    expect(prd().stories[0]).toMatchObject({ id, passes: false });
+    expect(readFileSync(join(WORKDIR, "checks", "no-console.mjs"), "utf-8")).toContain("Diff adds console.log");
+    const [entry] = iterationLog();
+    expect(entry!.verificationRejectReason).toContain("Diff adds console.log");
+    expect(entry!.protectedPathChanges).toEqual([{ file: "checks/no-console.mjs", change: "modified", reverted: true }]);
+    expect(entry!.verificationChecks!.loaded).toContainEqual({ name: "no-console", source: "checks/no-console.mjs" });
+    expect(entry!.verificationChecks!.results).toContainEqual({ name: "no_tests", outcome: "off" });
+    expect(entry!.verificationChecks!.results).toContainEqual({ name: "no-console", outcome: "reject", message: "Diff adds console.log" });
+  });
+
+  it("reverts and rejects changes to Ralph state files and protected paths", async () => {
+    const added = await call<Added>("ralph_add_story", {
+      workdir: WORKDIR,
+      title: "Add greeting",
+      description: "Export a greeting",
+      validationCommand: "grep -q hello greeting.ts",
+      forbiddenFiles: '["app.ts"]',
+    });
+    mkdirSync(join(WORKDIR, "migrations"));
+    writeFileSync(join(WORKDIR, "migrations", "001.sql"), "CREATE TABLE users;\n");
+    writeFileSync(join(WORKDIR, "prd.json"), JSON.stringify({ ...prd(), protectedPaths: ["migrations/**"] }));
+    execSync("git add -A && git commit -m migrations", { cwd: WORKDIR, stdio: "pipe" });
+    scenario([
+      { files: { "greeting.ts": "export const greeting = 'hello';\n", "migrations/001.sql": "DROP TABLE users;\n", "prd.json": "{}" } },
+      { files: { "greeting.ts": "export const greeting = 'hello';\n" } },
+    ]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 3 });
+
+    expect(result).toMatchObject({ success: true, iterationsRun: 2, storiesCompleted: 1 });
+    const [rejected, passed] = iterationLog();
+    expect(rejected).toMatchObject({
+      storyId: added.storyId,
+      success: false,
+      failureCategory: "verification_rejected",
+      protectedPathChanges: [
+        { file: "migrations/001.sql", change: "modified", reverted: true },
+        { file: "prd.json", change: "modified", reverted: true },
+      ],
+    });
+    expect(rejected!.verificationRejectReason).toContain("Protected files were changed (2)");
+    expect(passed!.protectedPathChanges).toBeUndefined();
+    expect(readFileSync(join(WORKDIR, "migrations", "001.sql"), "utf-8")).toBe("CREATE TABLE users;\n");
+    expect(prd()).toMatchObject({ protectedPaths: ["migrations/**"], stories: [{ id: added.storyId, passes: true }] });
+    expect(fakeCalls()[0]!.prompt).toContain(".ralph-flaky-tests.json, migrations/**, app.ts. Changes to these paths are reverted and REJECTED.");
+  });
+
+  it("has a read-only reviewer judge the diff and carries its rejection into the retry", async () => {
+    const added = await call<Added>("ralph_add_story", {
+      workdir: WORKDIR,
+      title: "Add greeting",
+      description: "Export a greeting",
+      validationCommand: "true",
+      acceptanceCriteria: '["greeting says hello"]',
+      review: true,
+    });
+    const verdict = (met: boolean) => JSON.stringify({
+      verdict: met ? "approve" : "reject",
+      summary: met ? "Greeting is in place." : "The greeting never says hello.",
+      criteria: [{ criterion: "greeting says hello", met, reasoning: met ? "greeting.ts exports 'hello'" : "greeting.ts exports 'hi'" }],
+    });
+    scenario([
+      { match: "## Current Task", files: { "greeting.ts": "export const greeting = 'hi';\n" } },
+      { match: "REVIEW PHASE", message: verdict(false) },
+      { match: "## Current Task", files: { "greeting.ts": "export const greeting = 'hello';\n" } },
+      { match: "REVIEW PHASE", message: verdict(true) },
+    ]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 3 });
+
+    expect(result).toMatchObject({ success: true, iterationsRun: 2, storiesCompleted: 1 });
+    const [rejected, approved] = iterationLog();
+    expect(rejected).toMatchObject({ storyId: added.storyId, success: false, failureCategory: "verification_rejected", review: { trigger: "story", verdict: { verdict: "reject" } } });
+    expect(rejected!.verificationRejectReason).toContain("greeting.ts exports 'hi'");
+    expect(approved).toMatchObject({ success: true, review: { verdict: { verdict: "approve" } } });
+    // Each iteration's spend covers the agent and the reviewer: two fake runs
+    expect(approved!.usage).toEqual({ inputTokens: 2400, cachedInputTokens: 400, outputTokens: 600 });
+    expect(approved!.costUsd).toBeCloseTo(0.01197, 6);
+    expect(result.usage).toEqual({ inputTokens: 4800, cachedInputTokens: 800, outputTokens: 1200 });
+
+    const calls = fakeCalls();
+    expect(calls.map((c) => c.step)).toEqual([0, 1, 2, 3]);
+    expect(calls[1]).toMatchObject({ sandbox: "read-only" });
+    expect(calls[1]!.prompt).toContain("1. greeting says hello");
+    expect(calls[2]!.prompt).toContain("A reviewer rejected the previous attempt:\nThe greeting never says hello.\n- ✗ greeting says hello: greeting.ts exports 'hi'");
+  });
+
+  it("kills an iteration that exceeds iterationTimeoutMs", async () => {
+    await addStory("Slow story", "true");
+    scenario([{ sleepMs: 10000, files: { "slow.ts": "export const slow = 1;\n" } }]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 1, stopOnFailure: true });
+
+    expect(result.stoppedReason).toBe("failure");
+    expect(result.results[0]!.codexOutput).toMatch(/^Timeout: iteration exceeded 2s/);
+    expect(iterationLog()[0]).toMatchObject({ success: false, failureCategory: "timeout" });
+    expect(existsSync(join(WORKDIR, "slow.ts"))).toBe(false);
+  }, 20000);
+
+  it("kills an agent that stops reporting progress", async () => {
+    await addStory("Stuck story", "true");
+    scenario([{ stallMs: 10000, files: { "stuck.ts": "export const stuck = 1;\n" } }]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 1, stopOnFailure: true });
+
+    expect(result.results[0]!.codexOutput).toMatch(/^Stall timeout: no agent progress for 1s/);
+    expect(iterationLog()[0]).toMatchObject({ success: false, failureCategory: "timeout" });
+  }, 20000);
+
+  it("fingerprints the same error across stories and flags it once it recurs", async () => {
+    const crash = (path: string) => `TypeError: Cannot read properties of undefined (reading 'id')\n    at loadUser (${path})\n    at main (${path})\n`;
+    writeFileSync(join(WORKDIR, "crash-a.txt"), crash("/srv/a/src/user.ts:12:5"));
+    writeFileSync(join(WORKDIR, "crash-b.txt"), crash("src/users/user.ts:40:9"));
+    execSync("git add -A && git commit -m crashes", { cwd: WORKDIR, stdio: "pipe" });
+    const first = await call<Added>("ralph_add_story", { workdir: WORKDIR, title: "Load user", description: "Load a user", validationCommand: "cat crash-a.txt; exit 1", priority: 1 });
+    const second = await call<Added>("ralph_add_story", { workdir: WORKDIR, title: "Load account", description: "Load an account", validationCommand: "cat crash-b.txt; exit 1", priority: 2 });
+    scenario([1, 2, 3, 4, 5].map((n) => ({ files: { "user.ts": `export const attempt = ${n};\n` } })));
+
+    await call("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 6 });
+
+    const log = iterationLog();
+    expect(log.map((e) => e.storyId)).toEqual([first.storyId, first.storyId, first.storyId, second.storyId, second.storyId]);
+    const ids = new Set(log.map((e) => e.errorFingerprints![0]!.id));
+    expect(ids.size).toBe(1);
+    expect(log[0]!.errorFingerprints).toEqual([
+      { id: [...ids][0], kind: "error", signature: "TypeError: Cannot read properties of undefined (reading 'id') at loadUser" },
+    ]);
+    const context = JSON.parse(readFileSync(join(WORKDIR, ".ralph-context.json"), "utf-8"));
+    expect(context.failures[3].errorFingerprints).toEqual(log[3]!.errorFingerprints);
+
+    const calls = fakeCalls();
+    expect(calls[3]!.prompt).not.toContain("RECURRING ERROR");
+    expect(calls[4]!.prompt).toContain("🔁 RECURRING ERROR: TypeError: Cannot read properties of undefined (reading 'id') at loadUser — 2 stories in 1 day (4 failed iterations)");
+
+    const listed = await call<{ fingerprints: Array<{ summary: string }> }>("ralph_error_fingerprints", { workdir: WORKDIR });
+    expect(listed).toMatchObject({ failedIterations: 5, total: 1 });
+    expect(listed.fingerprints[0]).toMatchObject({ kind: "error", occurrences: 5, storyIds: [first.storyId, second.storyId] });
+    expect(listed.fingerprints[0]!.summary).toMatch(/— 2 stories in 1 day \(5 failed iterations\)$/);
+  });
+
+  it("escalates the model as a story keeps failing", async () => {
+    const { storyId: id } = await call<Added>("ralph_add_story", {
+      workdir: WORKDIR, title: "Add farewell", description: "Implement Add farewell",
+      validationCommand: "grep -q goodbye farewell.ts", model: "gpt-5.1-codex-mini",
+    });
+    scenario([
+      { files: { "farewell.ts": "export const farewell = 'bye';\n" } },
+      { files: { "farewell.ts": "export const farewell = 'bye!';\n" } },
+      { files: { "farewell.ts": "export const farewell = 'goodbye';\n" } },
+    ]);
+
+    const escalation = JSON.stringify([{ afterFailures: 1, model: "gpt-5.2-codex" }, { afterFailures: 2, reasoningEffort: "high" }]);
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 3, escalation });
+
+    expect(result).toMatchObject({ success: true, iterationsRun: 3, storiesCompleted: 1 });
+    expect(fakeCalls().map((c) => [c.model, c.reasoningEffort])).toEqual([
+      ["gpt-5.1-codex-mini", undefined],
+      ["gpt-5.2-codex", undefined],
+      ["gpt-5.2-codex", "high"],
+    ]);
+    expect(iterationLog().map((e) => [e.storyId, e.model, e.escalationRung])).toEqual([
+      [id, "gpt-5.1-codex-mini", 0],
+      [id, "gpt-5.2-codex", 1],
+      [id, "gpt-5.2-codex", 2],
+    ]);
+    expect(await call("ralph_loop", { workdir: WORKDIR, sync: true, escalation: '[{"afterFailures":0}]' }))
+      .toEqual({ error: "escalation[0]: afterFailures must be a positive integer; escalation[0]: needs a model or a reasoningEffort" });
+  });
+
+  it("skips a story after repeated failures and moves on", async () => {
+    const broken = await addStory("Broken story", "false");
+    const next = await addStory("Next story", "test -f next.ts");
+    scenario([
+      { match: "Broken story", files: { "broken.ts": "1\n" } },
+      { match: "Broken story", files: { "broken.ts": "2\n" } },
+      { match: "Broken story", files: { "broken.ts": "3\n" } },
+      { match: "Next story", files: { "next.ts": "export const next = 1;\n" } },
+    ]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 6 });
+
+    expect(result.iterationsRun).toBe(4);
+    expect(result.storiesCompleted).toBe(1);
+    expect(progress()).toContain("Skipped: Broken story");
+    const stories = prd().stories;
+    expect(stories.find((s) => s.id === broken)!.passes).toBe(false);
+    expect(stories.find((s) => s.id === next)!.passes).toBe(true);
+    expect(iterationLog().filter((e) => e.storyId === broken)).toHaveLength(3);
+  });
+
+  it("splits a story that keeps failing into child stories and completes it through them", async () => {
+    const big = await addStory("Big story", "test -f done.ts");
+    const proposal = JSON.stringify({
+      summary: "Do the two halves separately.",
+      children: [
+        { title: "Part one", description: "First half", acceptanceCriteria: ["done.ts exists"], targetFiles: [], dependsOn: [] },
+        { title: "Part two", description: "Second half", acceptanceCriteria: ["part2.ts exists"], targetFiles: [], dependsOn: [0] },
+      ],
+    });
+    scenario([
+      { match: "## Current Task", files: { "attempt1.ts": "export const attempt = 1;\n" } },
+      { match: "## Current Task", files: { "attempt2.ts": "export const attempt = 2;\n" } },
+      { match: "## Current Task", files: { "attempt3.ts": "export const attempt = 3;\n" } },
+      { match: "PLANNING PHASE", message: proposal },
+      { match: "Part one", files: { "done.ts": "export const done = true;\n" } },
+      { match: "Part two", files: { "part2.ts": "export const part2 = true;\n" } },
+    ]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 8, splitStories: "apply" });
+
+    expect(result).toMatchObject({ success: true, iterationsRun: 5 });
+    const [parent, one, two] = prd().stories;
+    expect(parent).toMatchObject({ id: big, passes: true, splitInto: [one!.id, two!.id] });
+    expect(one).toMatchObject({ title: "Part one", parentId: big, passes: true, validationCommand: "test -f done.ts" });
+    expect(two).toMatchObject({ title: "Part two", parentId: big, passes: true, dependsOn: [one!.id] });
+    expect(progress()).toContain("Split: Big story — Split into 2 stories: Part one; Part two (after 1)");
+    expect(progress()).toContain("Completed: Big story — every story it was split into passes");
+
+    const planning = fakeCalls()[3]!;
+    expect(planning).toMatchObject({ step: 3, sandbox: "read-only" });
+    expect(planning.prompt).toContain("FAILED ATTEMPTS (3):");
+    // The planner's tokens count toward the loop's spend: five iterations and one planning run
+    expect(result.usage).toEqual({ inputTokens: 7200, cachedInputTokens: 1200, outputTokens: 1800 });
+  });
+
+  it("proposes a split for approval with ralph_split_story", async () => {
+    const id = await addStory("Too big", "true");
+    const proposal = {
+      summary: "Two steps.",
+      children: [
+        { title: "Step one", description: "One", acceptanceCriteria: [], targetFiles: [], dependsOn: [] },
+        { title: "Step two", description: "Two", acceptanceCriteria: [], targetFiles: [], dependsOn: [] },
+      ],
+    };
+    scenario([{ match: "PLANNING PHASE", message: JSON.stringify(proposal) }]);
+
+    const proposed = await call("ralph_split_story", { workdir: WORKDIR, storyId: id });
+    expect(proposed).toMatchObject({ success: true, proposal: { ...proposal, trigger: "manual" } });
+    expect(prd().stories[0]!.splitProposal).toMatchObject({ summary: "Two steps." });
+
+    const applied = await call<{ children: PRD["stories"] }>("ralph_split_story", { workdir: WORKDIR, storyId: id, action: "apply" });
+    expect(applied.children.map((c) => c.title)).toEqual(["Step one", "Step two"]);
+    expect(fakeCalls()).toHaveLength(1);
+    const [parent] = prd().stories;
+    expect(parent!.splitProposal).toBeUndefined();
+    expect(parent!.splitInto).toEqual(applied.children.map((c) => c.id));
+    expect(await call("ralph_split_story", { workdir: WORKDIR, storyId: id })).toEqual({ error: `Story ${id} is already split into: ${parent!.splitInto!.join(", ")}` });
+  });
+});
+
+describe("loop budgets", () => {
+  // Every fake-codex run reports 1200 input + 300 output tokens
+
+  it("stops between iterations once the token budget is spent", async () => {
+    await addStory("Broken story", "false");
+    scenario([{ files: { "a.ts": "1\n" } }, { files: { "a.ts": "2\n" } }, { files: { "a.ts": "3\n" } }]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 5, maxTokens: 2000 });
+
+    expect(result).toMatchObject({ iterationsRun: 2, stoppedReason: "budget" });
+    expect(result.budgetExceeded).toMatchObject({ budget: "tokens", limit: 2000, used: 3000 });
+  });
+
+  it("skips a story that used up its own budget", async () => {
+    await addStory("Money pit", "false");
+    const next = await addStory("Next story", "test -f next.ts");
+    scenario([
+      { match: "Money pit", files: { "pit.ts": "1\n" } },
+      { match: "Next story", files: { "next.ts": "export const next = 1;\n" } },
+    ]);
+
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 5, maxStoryTokens: 1500 });
+
+    expect(result).toMatchObject({ iterationsRun: 2, storiesCompleted: 1 });
+    expect(progress()).toContain("Skipped: Money pit — Story used 1500 of its 1500 token budget");
+    expect(prd().stories.find((s) => s.id === next)!.passes).toBe(true);
+  });
+
+  it("prices an escalated run at the rung's model when it crosses a cost budget", async () => {
+    await call<Added>("ralph_add_story", {
+      workdir: WORKDIR, title: "Money pit", description: "Implement Money pit", validationCommand: "false", model: "gpt-5.1-codex-mini",
+    });
+    scenario([{ files: { "pit.ts": "1\n" } }, { files: { "pit.ts": "2\n" } }]);
+
+    // A mini run costs under $0.001; the escalated gpt-5.2-codex run about $0.006
+    const escalation = JSON.stringify([{ afterFailures: 1, model: "gpt-5.2-codex" }]);
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 2, escalation, maxStoryCost: 0.005 });
+
+    expect(fakeCalls().map((c) => c.model)).toEqual(["gpt-5.1-codex-mini", "gpt-5.2-codex"]);
+    expect(result.results[0]!.budgetExceeded).toBeUndefined();
+    expect(result.results[1]!.budgetExceeded).toMatchObject({ budget: "story_cost", limit: 0.005 });
+    expect(result.results[1]!.budgetExceeded!.used).toBeCloseTo(0.00684);
+  });
+
+  it("kills the running agent when the wall-clock budget runs out", async () => {
+    await addStory("Slow story", "true");
+    scenario([{ sleepMs: 10000, files: { "slow.ts": "export const slow = 1;\n" } }]);
+
+    const started = Date.now();
+    const result = await call<LoopResult>("ralph_loop", { workdir: WORKDIR, sync: true, maxIterations: 3, maxDurationMs: 600 });
+
+    // Well before iterationTimeoutMs (2s) would have fired
+    expect(Date.now() - started).toBeLessThan(1800);
+    expect(result).toMatchObject({ iterationsRun: 1, stoppedReason: "budget" });
+    expect(result.budgetExceeded!.budget).toBe("duration");
+    expect(result.results[0]!.budgetExceeded!.budget).toBe("duration");
+    expect(progress()).toContain("agent killed");
+  }, 20000);
+
+  it("reports the exhausted budget on the async loop_complete event", async () => {
+    await addStory("Slow story", "true");
+    scenario([{ sleepMs: 10000 }]);
+
+    const { jobId } = await call<Started>("ralph_loop", { workdir: WORKDIR, maxIterations: 3, maxDurationMs: 600 });
+    let status = await call<LoopStatus>("ralph_loop_status", { jobId });
+    for (let i = 0; i < 100 && status.status === "running"; i++) {
+      await new Promise((r) => setTimeout(r, 100));
+      status = await call<LoopStatus>("ralph_loop_status", { jobId });
+    }
+
+    expect(status).toMatchObject({ status: "completed", budget: { maxDurationMs: 600 }, budgetExceeded: { budget: "duration" } });
+    const eventsDir = join(HOME, ".openclaw", "ralph-events");
+    const complete = readdirSync(eventsDir).find((f) => f.includes(`loop_complete-${jobId}`));
+    expect(JSON.parse(readFileSync(join(eventsDir, complete!), "utf-8")).budgetExceeded.budget).toBe("duration");
+  }, 20000);
+});
+
+describe("loop control", () => {
+  async function waitForStatus(jobId: string, done: (status: LoopStatus) => boolean): Promise<LoopStatus> {
+    let status = await call<LoopStatus>("ralph_loop_status", { jobId });
+    for (let i = 0; i < 100 && !done(status); i++) {
+      await new Promise((r) => setTimeout(r, 100));
+      status = await call<LoopStatus>("ralph_loop_status", { jobId });
+    }
+    return status;
+  }
+
+  it("pauses after the current iteration and resumes where it left off", async () => {
+    const first = await addStory("First story", "test -f first.ts");
+    const second = await addStory("Second story", "test -f second.ts");
+    scenario([
+      { match: "First story", sleepMs: 500, files: { "first.ts": "export const first = 1;\n" } },
+      { match: "Second story", files: { "second.ts": "export const second = 1;\n" } },
+    ]);
+
+    const { jobId } = await call<Started>("ralph_loop", { workdir: WORKDIR, maxIterations: 5 });
+    await waitForStatus(jobId, (s) => s.inFlightStories.length > 0);
+    expect(await call("ralph_loop_pause", { jobId })).toMatchObject({ pauseRequested: true });
+
+    const paused = await waitForStatus(jobId, (s) => s.status !== "running");
+    expect(paused).toMatchObject({ status: "paused", lastCompletedIteration: 1, storiesCompleted: 1 });
+    expect(fakeCalls()).toHaveLength(1);
+    expect(prd().stories.find((s) => s.id === second)!.passes).toBe(false);
+    const eventsDir = join(HOME, ".openclaw", "ralph-events");
+    expect(readdirSync(eventsDir).some((f) => f.includes(`loop_paused-${jobId}`))).toBe(true);
+
+    expect(await call("ralph_loop_resume", { jobId })).toMatchObject({ status: "running", resumingFromIteration: 2 });
+    const done = await waitForStatus(jobId, (s) => s.status !== "running");
+
+    expect(done).toMatchObject({ status: "completed", storiesCompleted: 2 });
+    expect(done.pausedMs).toBeGreaterThan(0);
+    expect(prd().stories.every((s) => s.passes)).toBe(true);
+    expect(iterationLog().map((e) => e.storyId)).toEqual([first, second]);
+  }, 20000);
+
+  it("stashes a failed parallel attempt before its worktree goes and re-applies it on the retry", async () => {
+    const cart = await addStory("Add cart", "grep -q done cart.ts");
+    const search = await addStory("Add search", "test -f search.ts");
+    scenario([
+      { match: "Add cart", files: { "cart.ts": "export const cart = 'wip';\n" } },
+      { match: "Add search", files: { "search.ts": "export const search = 1;\n" } },
+      { match: "Add cart", files: { "cart.ts": "export const cart = 'done';\n" } },
+    ]);
+
+    const { jobId } = await call<Started>("ralph_loop", { workdir: WORKDIR, maxIterations: 4, concurrency: 2, onFailure: "stash", reapplyFailedPatch: true });
+    const done = await waitForStatus(jobId, (s) => s.status !== "running");
+
+    expect(done).toMatchObject({ status: "completed", storiesCompleted: 2 });
+    const [failed, , retried] = iterationLog();
+    expect(failed).toMatchObject({ storyId: cart, success: false, failurePolicy: "stash" });
+    expect(failed!.failedPatchFile).toContain(join(HOME, ".openclaw", "ralph-iterations", "patches"));
+    expect(readFileSync(failed!.failedPatchFile!, "utf-8")).toContain("+export const cart = 'wip';");
+    expect(retried).toMatchObject({ storyId: cart, success: true, reappliedPatchFile: failed!.failedPatchFile });
+    expect(iterationLog().map((e) => e.storyId)).toContain(search);
+  }, 20000);
+
+  it("loads custom checks from the main checkout when stories run in worktrees", async () => {
+    const logger = await addStory("Add logger", "true");
+    const search = await addStory("Add search", "true");
+    // Not committed, so the story worktrees don't have it
+    mkdirSync(join(WORKDIR, "checks"));
+    writeFileSync(join(WORKDIR, "checks", "no-console.mjs"), `export default (input, diffStats, diff) =>
+  /^\\+.*console\\.log/m.test(diff) ? { name: "no_console", severity: "REJECT", message: "Diff adds console.log" } : null;
+`);
+    writeFileSync(join(WORKDIR, "prd.json"), JSON.stringify({ ...prd(), verification: { checks: { no_tests: "off" }, customChecks: ["checks/no-console.mjs"] } }));
+    scenario([
+      { match: "Add logger", files: { "app.ts": "export const a = 1;\nconsole.log(a);\n" } },
+      { match: "Add search", files: { "search.ts": "export const search = 1;\n" } },
+    ]);
+
+    const { jobId } = await call<Started>("ralph_loop", { workdir: WORKDIR, maxIterations: 2, concurrency: 2 });
+    await waitForStatus(jobId, (s) => s.status !== "running");
+
+    const byStory = new Map(iterationLog().map((e) => [e.storyId, e]));
+    expect(byStory.get(logger)).toMatchObject({ success: false, verificationRejectReason: "Diff adds console.log" });
+    expect(byStory.get(search)).toMatchObject({ success: true });
+    expect(byStory.get(search)!.verificationChecks!.results).toContainEqual({ name: "no-console", outcome: "pass" });
+  }, 20000);
+
+  it("recovers a job a restart interrupted and resumes it with its saved settings", async () => {
+    const first = await addStory("First story", "true");
+    const second = await addStory("Second story", "test -f second.ts");
+    writeFileSync(join(WORKDIR, "prd.json"), JSON.stringify({ ...prd(), stories: prd().stories.map((s) => ({ ...s, passes: s.id === first })) }));
+    execSync("git add -A && git commit -m first", { cwd: WORKDIR, stdio: "pipe" });
+    scenario([{ match: "Second story", files: { "second.ts": "export const second = 1;\n" } }]);
+
+    const jobsDir = join(HOME, ".openclaw", "ralph-jobs");
+    const checkpoint = (id: string, job: Record<string, unknown>) => {
+      mkdirSync(jobsDir, { recursive: true });
+      writeFileSync(join(jobsDir, `${id}.json`), JSON.stringify({
+        id, workdir: WORKDIR, startedAt: Date.now() - 60000, concurrency: 1, inFlightStories: [],
+        storiesCompleted: 0, totalStories: 2, results: [], currentIteration: 0, lastCompletedIteration: 0, maxIterations: 5, ...job,
+      }));
+    };
+    checkpoint("ralph-e2e-running", {
+      status: "running", currentIteration: 2, lastCompletedIteration: 1, maxIterations: 3, storiesCompleted: 1,
+      inFlightStories: [{ id: second, title: "Second story", startedAt: Date.now() - 1000 }],
+      model: "saved-model", sandbox: "workspace-write",
+    });
+    checkpoint("ralph-e2e-old", { status: "completed", completedAt: Date.now() - 8 * 86400000 });
+    checkpoint("ralph-e2e-recent", { status: "completed", completedAt: Date.now() - 3600000 });
+
+    await registerPlugin();
+
+    expect(await call("ralph_loop_status", { jobId: "ralph-e2e-running" })).toMatchObject({
+      status: "interrupted",
+      error: expect.stringContaining("Gateway restarted during iteration 2 (Second story), last completed: 1"),
+    });
+    expect(existsSync(join(jobsDir, "ralph-e2e-old.json"))).toBe(false);
+    expect(await call("ralph_loop_status", { jobId: "ralph-e2e-old" })).toMatchObject({ error: "Job not found" });
+    expect(await call("ralph_loop_status", { jobId: "ralph-e2e-recent" })).toMatchObject({ status: "completed" });
+
+    expect(await call("ralph_loop_resume", { jobId: "ralph-e2e-running" })).toMatchObject({
+      status: "running", resumingFromIteration: 2, maxIterations: 3, model: "saved-model", sandbox: "workspace-write",
+    });
+    const done = await waitForStatus("ralph-e2e-running", (s) => s.status !== "running");
+
+    expect(done).toMatchObject({ status: "completed", storiesCompleted: 2 });
+    expect(fakeCalls().map((c) => [c.model, c.sandbox])).toEqual([["saved-model", "workspace-write"]]);
+    expect(iterationLog()).toEqual([expect.objectContaining({ jobId: "ralph-e2e-running", storyId: second, iterationNumber: 2, success: true })]);
+  }, 20000);
+
+  it("kills the in-flight agent on an immediate cancel and logs the partial iteration", async () => {
+    const id = await addStory("Slow story", "true");
+    scenario([{ sleepMs: 1500, files: { "slow.ts": "export const slow = 1;\n" } }]);
+
+    const { jobId } = await call<Started>("ralph_loop", { workdir: WORKDIR, maxIterations: 3 });
+    await waitForStatus(jobId, (s) => s.inFlightStories.length > 0);
+    const started = Date.now();
+    expect(await call("ralph_loop_cancel", { jobId, mode: "immediate" })).toMatchObject({ status: "cancelled", mode: "immediate" });
+
+    await new Promise((r) => setTimeout(r, 100));
+    for (let i = 0; i < 50 && iterationLog().length === 0; i++) await new Promise((r) => setTimeout(r, 100));
+
+    // Well before the fake agent's 1.5s run would have finished
+    expect(Date.now() - started).toBeLessThan(1200);
+    expect(iterationLog()).toEqual([expect.objectContaining({ storyId: id, success: false, outcome: "cancelled" })]);
+    expect(iterationLog()[0]!.failureCategory).toBeUndefined();
+    expect(progress()).toContain("Cancelled: Slow story");
+    expect(prd().stories[0]!.passes).toBe(false);
+    const status = await call<LoopStatus>("ralph_loop_status", { jobId });
+    expect(status).toMatchObject({ status: "cancelled", inFlightStories: [] });
+    expect(status.results[0]).toMatchObject({ storyId: id, success: false });
+    // Only the loop reports the end, once
+    expect(diagnostics.filter((e) => e.type === "ralph:loop:complete" && e.data.jobId === jobId)).toHaveLength(1);
+    expect(readdirSync(join(HOME, ".openclaw", "ralph-events")).filter((f) => f.includes(`loop_error-${jobId}`))).toHaveLength(1);
+  }, 20000);
+
+  it("cancels a paused job without running it again", async () => {
+    await addStory("Only story", "test -f only.ts");
+    await addStory("Never run", "true");
+    scenario([{ match: "Only story", sleepMs: 300, files: { "only.ts": "export const only = 1;\n" } }]);
+
+    const { jobId } = await call<Started>("ralph_loop", { workdir: WORKDIR, maxIterations: 5 });
+    await waitForStatus(jobId, (s) => s.inFlightStories.length > 0);
+    await call("ralph_loop_pause", { jobId });
+    await waitForStatus(jobId, (s) => s.status !== "running");
+
+    expect(await call("ralph_loop_cancel", { jobId })).toMatchObject({ status: "cancelled", message: "Paused job cancelled." });
+    expect(await call("ralph_loop_resume", { jobId })).toMatchObject({ error: "Only paused or interrupted jobs can be resumed" });
+    expect(fakeCalls()).toHaveLength(1);
+  }, 20000);
+});
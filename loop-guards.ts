@@ -73,18 +73,14 @@ export class StoryRetryTracker {
 }
 
 /**
- * Stateless check: should this story be skipped based on iteration log?
- * Reads .ralph-iterations.jsonl and counts consecutive failures.
+ * Failed attempts of a story according to the iteration log
+ * (.ralph-iterations.jsonl). Cancelled iterations don't count.
  */
-export function shouldSkipStory(
-  storyId: string,
-  workdir: string,
-  maxRetries: number
-): boolean {
+export function countStoryFailures(storyId: string, workdir: string): number {
   const logPath = join(workdir, ".ralph-iterations.jsonl");
 
   if (!existsSync(logPath)) {
-    return false;
+    return 0;
   }
 
   try {
@@ -96,18 +92,30 @@ export function shouldSkipStory(
       if (!line.trim()) continue;
 
       const entry = JSON.parse(line);
-      if (entry.storyId === storyId && entry.success === false) {
+      // A cancelled iteration was killed by the user, not failed by the agent
+      if (entry.storyId === storyId && entry.success === false && entry.outcome !== "cancelled") {
         failCount += 1;
       }
     }
 
-    return failCount >= maxRetries;
+    return failCount;
   } catch (err) {
-    // On read/parse error, don't skip
-    return false;
+    // On read/parse error, count nothing
+    return 0;
   }
 }
 
+/**
+ * Stateless check: should this story be skipped based on iteration log?
+ */
+export function shouldSkipStory(
+  storyId: string,
+  workdir: string,
+  maxRetries: number
+): boolean {
+  return countStoryFailures(storyId, workdir) >= maxRetries;
+}
+
 /**
  * Format a human-readable summary of skipped stories
  */
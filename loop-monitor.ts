@@ -1,7 +1,8 @@
 /**
- * Real-time stderr monitor for Codex child processes.
+ * Real-time activity monitor for coding-agent child processes.
  *
- * Attaches to the stderr stream and tracks:
+ * Consumes the normalized agent event stream (see agent-backends.ts) — or, for
+ * the legacy path, Codex's raw stderr — and tracks:
  * - Reasoning time vs action time (tool calls)
  * - Tool call counts and types
  * - Files explored vs files written
@@ -87,40 +88,105 @@ export function createStderrMonitor(stderr: NodeJS.ReadableStream): StderrMonito
     };
   }
 
-  function getInsights(): string {
-    const stats = getStats();
-    const parts: string[] = [];
+  function stop(): void {
+    stderr.removeListener("data", onData);
+  }
 
-    const totalSec = Math.round(stats.totalMs / 1000);
-    parts.push(`Duration: ${totalSec}s`);
+  return { getInsights: () => formatInsights(getStats()), getStats, stop };
+}
 
-    if (stats.timeToFirstToolCallMs !== null) {
-      const ttfc = Math.round(stats.timeToFirstToolCallMs / 1000);
-      parts.push(`Time to first tool call: ${ttfc}s`);
-    } else {
-      parts.push(`No tool calls detected in stderr`);
-    }
+function formatInsights(stats: MonitorStats): string {
+  const parts: string[] = [];
 
-    parts.push(`Tool calls: ${stats.toolCalls}`);
-    parts.push(`File explorations: ${stats.fileExplorations}, writes: ${stats.fileWrites}, test runs: ${stats.testRuns}`);
+  const totalSec = Math.round(stats.totalMs / 1000);
+  parts.push(`Duration: ${totalSec}s`);
 
-    if (stats.errorsHit > 0) {
-      parts.push(`Errors encountered: ${stats.errorsHit}`);
-    }
+  if (stats.timeToFirstToolCallMs !== null) {
+    const ttfc = Math.round(stats.timeToFirstToolCallMs / 1000);
+    parts.push(`Time to first tool call: ${ttfc}s`);
+  } else {
+    parts.push(`No tool calls detected`);
+  }
 
-    // Flag heavy exploration with no writes
-    if (stats.fileExplorations > 5 && stats.fileWrites === 0) {
-      parts.push(`⚠️ Heavy exploration (${stats.fileExplorations} reads) with no writes — codebase map may need enrichment`);
-    }
+  parts.push(`Tool calls: ${stats.toolCalls}`);
+  parts.push(`File explorations: ${stats.fileExplorations}, writes: ${stats.fileWrites}, test runs: ${stats.testRuns}`);
 
-    return parts.join(". ");
+  if (stats.errorsHit > 0) {
+    parts.push(`Errors encountered: ${stats.errorsHit}`);
   }
 
-  function stop(): void {
-    stderr.removeListener("data", onData);
+  // Flag heavy exploration with no writes
+  if (stats.fileExplorations > 5 && stats.fileWrites === 0) {
+    parts.push(`⚠️ Heavy exploration (${stats.fileExplorations} reads) with no writes — codebase map may need enrichment`);
   }
 
-  return { getInsights, getStats, stop };
+  return parts.join(". ");
+}
+
+/** Minimal shape of a normalized agent event (agent-backends.ts) */
+interface MonitoredEvent {
+  kind: string;
+  command?: string;
+  exitCode?: number | null;
+}
+
+export interface EventMonitor extends StderrMonitor {
+  /** Feed one normalized agent event */
+  observe(event: MonitoredEvent): void;
+}
+
+/**
+ * Monitor built on normalized agent events — same stats as the stderr monitor,
+ * but works for any backend instead of pattern-matching Codex's log lines.
+ */
+export function createEventMonitor(): EventMonitor {
+  const startTime = Date.now();
+  let firstToolCallTime: number | null = null;
+  let toolCalls = 0;
+  let fileExplorations = 0;
+  let fileWrites = 0;
+  let testRuns = 0;
+  let errorsHit = 0;
+  let eventsProcessed = 0;
+  let stopped = false;
+
+  function observe(event: MonitoredEvent): void {
+    if (stopped) return;
+    eventsProcessed++;
+
+    if (event.kind === "command" || event.kind === "tool_call") {
+      toolCalls++;
+      if (firstToolCallTime === null) firstToolCallTime = Date.now();
+    }
+    if (event.kind === "command" && event.command) {
+      if (EXPLORE_PATTERNS.test(event.command)) fileExplorations++;
+      if (WRITE_PATTERNS.test(event.command)) fileWrites++;
+      if (TEST_PATTERNS.test(event.command)) testRuns++;
+      if (typeof event.exitCode === "number" && event.exitCode !== 0) errorsHit++;
+    }
+    if (event.kind === "file_change") fileWrites++;
+    if (event.kind === "error") errorsHit++;
+  }
+
+  function getStats(): MonitorStats {
+    return {
+      totalMs: Date.now() - startTime,
+      timeToFirstToolCallMs: firstToolCallTime ? firstToolCallTime - startTime : null,
+      toolCalls,
+      fileExplorations,
+      fileWrites,
+      testRuns,
+      errorsHit,
+      linesProcessed: eventsProcessed,
+    };
+  }
+
+  return {
+    observe,
+    getStats,
+    getInsights: () => formatInsights(getStats()),
+    stop: () => { stopped = true; },
+  };
 }
 
 /**
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { rmSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { createLocalMemoryStore, searchMemories, tokenize, type Memory } from "./memory-store.js";
+
+const TMP = join(process.cwd(), ".test-memory-store");
+const FILE = join(TMP, "ralph-memory.jsonl");
+const NOW = Date.parse("2026-03-31T00:00:00.000Z");
+
+function memory(information: string, overrides: Partial<Memory> = {}): Memory {
+  return { id: information, information, tags: ["ralph", "learning"], project: "shop", createdAt: "2026-03-30T00:00:00.000Z", ...overrides };
+}
+
+beforeEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+});
+
+describe("tokenize", () => {
+  it("lowercases words and drops one-character tokens", () => {
+    expect(tokenize("UserProfile needs an e-mail (TS2322) on auth.ts")).toEqual(["userprofile", "needs", "an", "mail", "ts2322", "on", "auth", "ts"]);
+  });
+});
+
+describe("searchMemories", () => {
+  const memories = [
+    memory("Stripe webhook handler must verify the signature before parsing the body"),
+    memory("UserProfile requires optional email when source is OAuth — fixes TS2322 on auth.ts"),
+    memory("Ralph failure [type_error]: checkout. Error: TS2322 Type 'string' is not assignable", { tags: ["ralph", "failure", "type_error"] }),
+    memory("OAuth tokens expire after an hour in the staging sandbox", { project: "crm" }),
+    memory("Prefer vitest --run in CI; watch mode never exits", { project: undefined }),
+  ];
+
+  it("ranks by keyword relevance, text and tags alike", () => {
+    expect(searchMemories(memories, { query: "stripe webhook signature" }, NOW).map((h) => h.id)).toEqual([memories[0]!.id]);
+    expect(searchMemories(memories, { query: "ralph failure shop", limit: 5 }, NOW)[0]!.id).toBe(memories[2]!.id);
+    expect(searchMemories(memories, { query: "kubernetes" }, NOW)).toEqual([]);
+  });
+
+  it("scopes to a project plus unscoped memories, and filters by tags", () => {
+    expect(searchMemories(memories, { query: "oauth", limit: 5 }, NOW).map((h) => h.project)).toEqual(expect.arrayContaining(["shop", "crm"]));
+    expect(new Set(searchMemories(memories, { query: "oauth vitest", project: "shop", limit: 5 }, NOW).map((h) => h.id)))
+      .toEqual(new Set([memories[1]!.id, memories[4]!.id]));
+    expect(searchMemories(memories, { query: "TS2322", tags: ["failure"] }, NOW).map((h) => h.id)).toEqual([memories[2]!.id]);
+  });
+
+  it("prefers recent memories when relevance is equal", () => {
+    const older = memory("Run prisma generate after editing schema.prisma", { id: "old", createdAt: "2026-01-01T00:00:00.000Z" });
+    const newer = memory("Run prisma generate after editing schema.prisma", { id: "new" });
+    const [first, second] = searchMemories([older, newer], { query: "prisma schema" }, NOW);
+    expect(first!.id).toBe("new");
+    expect(second!.score).toBeGreaterThanOrEqual(first!.score / 2);
+    expect(second!.score).toBeLessThan(first!.score);
+  });
+});
+
+describe("createLocalMemoryStore", () => {
+  it("stores memories as JSONL, once each, and finds them formatted for a prompt", () => {
+    const store = createLocalMemoryStore(FILE);
+    store.store("Ralph failure [lint_error]: checkout.\nError: no-unused-vars", ["ralph", "failure", "lint_error", "shop"], "shop");
+    store.store("Ralph failure [lint_error]: checkout.\nError: no-unused-vars", ["ralph", "failure", "lint_error", "shop"], "shop");
+    store.store("Learnings from \"Add cart\": cart totals are computed in cents", ["ralph", "learning", "shop"], "shop");
+
+    const lines = readFileSync(FILE, "utf-8").trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ information: "Ralph failure [lint_error]: checkout. Error: no-unused-vars", project: "shop", tags: ["ralph", "failure", "lint_error", "shop"] });
+
+    expect(store.find({ query: "ralph failure shop", project: "shop" })).toMatch(/^- \[\d{4}-\d\d-\d\d\] \(ralph, failure, lint_error, shop\) Ralph failure \[lint_error\]/);
+    expect(store.find({ query: "cart cents", project: "crm" })).toBe("");
+  });
+
+  it("dedupes against memories already in the file", () => {
+    createLocalMemoryStore(FILE).store("Prefer vitest --run in CI", ["ralph", "learning"], "shop");
+    const store = createLocalMemoryStore(FILE);
+    store.store("Prefer  vitest --run in CI", ["ralph", "learning"], "shop");
+    store.store("Prefer vitest --run in CI", ["ralph", "learning"], "crm");
+
+    const lines = readFileSync(FILE, "utf-8").trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines.map((l) => l.project)).toEqual(["shop", "crm"]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Memory stores for learning capture.
+ *
+ * Every learning, failure and behavior insight the loop records goes through a
+ * MemoryStore, and aggressiveHivemindPull reads them back into later prompts.
+ * The default is a local store — one JSON object per line in
+ * ~/.openclaw/ralph-memory.jsonl — searched with BM25 over the text and tags,
+ * weighted toward recent memories, so learning works offline with nothing
+ * installed. The swarm CLI (`swarm memory`) is the other implementation, for
+ * sharing a hivemind across tools.
+ */
+
+import { execSync } from "node:child_process";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+export const RALPH_MEMORY_FILE = join(homedir(), ".openclaw", "ralph-memory.jsonl");
+
+/** Oldest memories are dropped past this — MEMORY_TRIM at a time, so the file is rarely rewritten */
+const MAX_MEMORIES = 5000;
+const MEMORY_TRIM = 500;
+const MAX_INFORMATION_CHARS = 1000;
+
+/** A memory's weight halves every this many days (never below RECENCY_FLOOR) */
+const RECENCY_HALF_LIFE_DAYS = 30;
+const RECENCY_FLOOR = 0.5;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+export type MemoryStoreKind = "local" | "swarm";
+
+export interface Memory {
+  id: string;
+  information: string;
+  tags: string[];
+  /** Project the memory came from; unscoped memories match every project */
+  project?: string;
+  createdAt: string;
+}
+
+export interface MemoryHit extends Memory {
+  score: number;
+}
+
+export interface MemoryQuery {
+  query: string;
+  limit?: number;
+  /** Only this project's memories and unscoped ones */
+  project?: string;
+  /** Only memories carrying every one of these tags */
+  tags?: string[];
+}
+
+export interface MemoryStore {
+  readonly kind: MemoryStoreKind;
+  /** Never throws: memory failures must never break the loop */
+  store(information: string, tags: string[], project?: string): void;
+  /** Matching memories formatted for a prompt, best first; "" when nothing matches. Never throws. */
+  find(query: MemoryQuery): string;
+}
+
+/** Lowercased word tokens of two or more characters */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]{2,}/gu) ?? [];
+}
+
+/**
+ * Rank memories for a query: BM25 over each memory's text and tags, times a
+ * recency weight that halves every RECENCY_HALF_LIFE_DAYS down to RECENCY_FLOOR.
+ * Memories sharing no term with the query are left out.
+ */
+export function searchMemories(memories: Memory[], query: MemoryQuery, now = Date.now()): MemoryHit[] {
+  const candidates = memories.filter((m) =>
+    (!query.project || !m.project || m.project === query.project) &&
+    (query.tags ?? []).every((t) => m.tags.includes(t))
+  );
+  const terms = [...new Set(tokenize(query.query))];
+  if (candidates.length === 0 || terms.length === 0) return [];
+
+  const docs = candidates.map((m) => {
+    const tokens = tokenize(`${m.information} ${m.tags.join(" ")}`);
+    const counts = new Map<string, number>();
+    for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+    return { memory: m, length: tokens.length, counts };
+  });
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+  const idf = new Map(terms.map((term) => {
+    const df = docs.filter((d) => d.counts.has(term)).length;
+    return [term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  const hits: MemoryHit[] = [];
+  for (const doc of docs) {
+    let bm25 = 0;
+    for (const term of terms) {
+      const tf = doc.counts.get(term);
+      if (!tf) continue;
+      bm25 += idf.get(term)! * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / avgLength));
+    }
+    if (bm25 <= 0) continue;
+    const ageDays = Math.max(0, now - Date.parse(doc.memory.createdAt)) / 86_400_000;
+    const recency = RECENCY_FLOOR + (1 - RECENCY_FLOOR) * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+    hits.push({ ...doc.memory, score: bm25 * recency });
+  }
+  return hits.sort((a, b) => b.score - a.score || b.createdAt.localeCompare(a.createdAt)).slice(0, query.limit ?? 3);
+}
+
+/** "- [2026-03-01] (ralph, failure) Ralph failure [type_error]: ..." */
+export function formatMemoryHits(hits: MemoryHit[]): string {
+  return hits.map((h) => `- [${h.createdAt.slice(0, 10)}] (${h.tags.join(", ")}) ${h.information}`).join("\n");
+}
+
+export function readMemories(file: string): Memory[] {
+  if (!existsSync(file)) return [];
+  const memories: Memory[] = [];
+  try {
+    for (const line of readFileSync(file, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const memory = JSON.parse(line) as Memory;
+        if (typeof memory.information === "string" && Array.isArray(memory.tags)) memories.push(memory);
+      } catch {
+        // skip malformed lines
+      }
+    }
+  } catch {
+    return [];
+  }
+  return memories;
+}
+
+/** The built-in store: a JSONL file, searched in process */
+export function createLocalMemoryStore(file: string = RALPH_MEMORY_FILE): MemoryStore {
+  // Dedupe keys and line count, read from the file on the first store() and kept in step with each write
+  let seen: Set<string> | undefined;
+  let count = 0;
+  const key = (m: Pick<Memory, "information" | "project">) => `${m.project ?? ""}\n${m.information}`;
+
+  return {
+    kind: "local",
+    store(information, tags, project) {
+      try {
+        const text = information.replace(/\s+/g, " ").trim().slice(0, MAX_INFORMATION_CHARS);
+        if (!text) return;
+        if (!seen) {
+          const memories = readMemories(file);
+          seen = new Set(memories.map(key));
+          count = memories.length;
+        }
+        // The loop records the same warning over and over — keep one copy
+        if (seen.has(key({ information: text, project }))) return;
+
+        const memory: Memory = {
+          id: `mem-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+          information: text,
+          tags: [...new Set(tags.map((t) => t.trim()).filter(Boolean))],
+          project,
+          createdAt: new Date().toISOString(),
+        };
+        mkdirSync(dirname(file), { recursive: true });
+        if (count >= MAX_MEMORIES) {
+          const kept = [...readMemories(file).slice(-(MAX_MEMORIES - MEMORY_TRIM)), memory];
+          writeFileSync(file, kept.map((m) => JSON.stringify(m)).join("\n") + "\n");
+          seen = new Set(kept.map(key));
+          count = kept.length;
+        } else {
+          appendFileSync(file, JSON.stringify(memory) + "\n");
+          seen.add(key(memory));
+          count++;
+        }
+      } catch (err) {
+        console.warn(`[openclaw-codex-ralph] ⚠️ Could not write memory to ${file}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    },
+    find(query) {
+      return formatMemoryHits(searchMemories(readMemories(file), query));
+    },
+  };
+}
+
+let _swarmAvailable: boolean | null = null;
+
+export function isSwarmAvailable(): boolean {
+  if (_swarmAvailable !== null) return _swarmAvailable;
+  try {
+    execSync("which swarm", { encoding: "utf-8", stdio: "pipe" });
+    _swarmAvailable = true;
+  } catch {
+    _swarmAvailable = false;
+  }
+  return _swarmAvailable;
+}
+
+/**
+ * The swarm CLI's hivemind. Its search does its own ranking and has no project
+ * scoping: memories are tagged with their project, and tag filters join the query text.
+ */
+export function createSwarmMemoryStore(): MemoryStore {
+  return {
+    kind: "swarm",
+    store(information, tags, project) {
+      if (!isSwarmAvailable()) return;
+      try {
+        const safeInfo = information.replace(/"/g, '\\"').replace(/\n/g, " ").slice(0, MAX_INFORMATION_CHARS);
+        const safeTags = [...new Set(project ? [...tags, project] : tags)].join(",").replace(/"/g, "");
+        execSync(`swarm memory store "${safeInfo}" --tags "${safeTags}"`, {
+          encoding: "utf-8",
+          timeout: 15000,
+          stdio: "pipe",
+        });
+      } catch {
+        // Hivemind failures must never break the loop
+      }
+    },
+    find(query) {
+      if (!isSwarmAvailable()) return "";
+      try {
+        const text = [query.query, ...(query.tags ?? [])].join(" ");
+        const safeQuery = text.replace(/"/g, '\\"').replace(/\n/g, " ");
+        return execSync(`swarm memory find "${safeQuery}" --limit ${query.limit ?? 3}`, {
+          encoding: "utf-8",
+          timeout: 15000,
+          stdio: "pipe",
+        }).trim();
+      } catch {
+        return "";
+      }
+    },
+  };
+}
+
+export function createMemoryStore(kind: MemoryStoreKind, file?: string): MemoryStore {
+  return kind === "swarm" ? createSwarmMemoryStore() : createLocalMemoryStore(file);
+}
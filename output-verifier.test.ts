@@ -13,7 +13,12 @@ import {
   checkSelfReportedFailure,
   checkLazySummary,
   checkHeavyExplorationNoWrites,
+  checkCoverage,
+  checkWeakenedTests,
+  checkProtectedPaths,
   getDiffStats,
+  loadVerificationChecks,
+  BUILTIN_CHECKS,
   type VerificationInput,
 } from "./output-verifier.js";
 
@@ -265,8 +270,56 @@ describe("checkHeavyExplorationNoWrites", () => {
   });
 });
 
+describe("checkCoverage", () => {
+  const coverage = { format: "lcov" as const, covered: 3, total: 6, percent: 50, uncovered: [{ file: "src/a.ts", lines: [4, 5, 6] }], unreported: [], reportFile: "coverage/lcov.info" };
+
+  it("is off without a threshold", () => {
+    expect(checkCoverage(coverage, undefined)).toBeNull();
+    expect(checkCoverage(coverage, { threshold: 0, severity: "REJECT" })).toBeNull();
+  });
+
+  it("emits the gate's severity below the threshold, listing uncovered lines", () => {
+    const check = checkCoverage(coverage, { threshold: 80, severity: "REJECT" })!;
+    expect(check).toMatchObject({ name: "low_coverage", severity: "REJECT" });
+    expect(check.message).toBe("New-line coverage 50% (3/6 lines) is below 80%. Uncovered:\n- src/a.ts: 4-6");
+    expect(checkCoverage(coverage, { threshold: 50, severity: "REJECT" })).toBeNull();
+  });
+
+  it("only warns when there is no report", () => {
+    expect(checkCoverage(undefined, { threshold: 80, severity: "REJECT" })).toMatchObject({ name: "coverage_missing", severity: "WARN" });
+  });
+});
+
 // ─── Git Helpers ────────────────────────────────────────────────────────────
 
+describe("checkWeakenedTests", () => {
+  const removed = { file: "auth.test.ts", testsBefore: 2, testsAfter: 1, removedTests: ["logs out"], skipsAdded: 0, onlysAdded: 0, expectsBefore: 3, expectsAfter: 2 };
+
+  it("rejects fewer tests unless the story allows removing them", () => {
+    const inventory = { files: [removed], testsBefore: 2, testsAfter: 1 };
+    expect(checkWeakenedTests(inventory)).toMatchObject({ name: "weakened_tests", severity: "REJECT" });
+    expect(checkWeakenedTests(inventory)!.message).toContain('Test count dropped from 2 to 1. Fix the code, not the tests:\n- auth.test.ts: 2 → 1 tests (removed "logs out")');
+    expect(checkWeakenedTests(inventory, true)?.severity).toBe("WARN");
+  });
+
+  it("warns on skips and lost assertions with the count intact", () => {
+    const skipped = { ...removed, testsAfter: 2, removedTests: [], skipsAdded: 1 };
+    expect(checkWeakenedTests({ files: [skipped], testsBefore: 2, testsAfter: 2 })).toMatchObject({ severity: "WARN", message: expect.stringMatching(/^Tests were weakened/) });
+    expect(checkWeakenedTests({ files: [], testsBefore: 2, testsAfter: 3 })).toBeNull();
+  });
+});
+
+describe("checkProtectedPaths", () => {
+  it("rejects any change to a protected file and lists what was reverted", () => {
+    expect(checkProtectedPaths([])).toBeNull();
+    expect(checkProtectedPaths([{ file: "prd.json", change: "modified", reverted: true }])).toEqual({
+      name: "protected_paths",
+      severity: "REJECT",
+      message: "Protected files were changed (1) and have been reverted — leave them alone:\n- prd.json (modified, reverted)",
+    });
+  });
+});
+
 describe("getDiffStats", () => {
   it("returns zero stats for clean repo", () => {
     const stats = getDiffStats(TMP);
@@ -354,6 +407,32 @@ describe("verifyOutput", () => {
     expect(result.warnings.length).toBeGreaterThan(0);
   });
 
+  it("rejects added lines the coverage report shows no test ran", () => {
+    writeFileSync(join(TMP, "auth.ts"), "export function login() {\n  return true;\n}\nexport function logout() {\n  return false;\n}\n");
+    mkdirSync(join(TMP, "coverage"));
+    writeFileSync(join(TMP, "coverage", "lcov.info"), `SF:${join(TMP, "auth.ts")}\nDA:1,1\nDA:2,1\nDA:4,0\nDA:5,0\nend_of_record\n`);
+
+    const result = verifyOutput({ ...baseInput, coverage: { threshold: 80, severity: "REJECT" } });
+    expect(result.passed).toBe(false);
+    expect(result.coverage).toMatchObject({ covered: 2, total: 4, percent: 50, uncovered: [{ file: "auth.ts", lines: [4, 5] }] });
+    expect(result.rejectReason).toContain("- auth.ts: 4-5");
+  });
+
+  it("rejects placeholder code in added lines only, with file:line", () => {
+    writeFileSync(join(TMP, "auth.ts"), "export function legacy() {\n  // TODO: implement\n}\n");
+    execSync("git add -A && git commit -m legacy", { cwd: TMP, stdio: "pipe" });
+    writeFileSync(join(TMP, "auth.ts"), "export function legacy() {\n  // TODO: implement\n}\nexport function login(): Session {\n  throw new Error(\"not implemented\");\n}\n");
+    writeFileSync(join(TMP, "auth.test.ts"), "it.skip('logs in', () => {});\n");
+
+    const result = verifyOutput(baseInput);
+    expect(result.passed).toBe(false);
+    expect(result.rejectReason).toBe("Placeholder code in added lines (2):\n- auth.test.ts:1 skipped_test: it.skip('logs in', () => {});\n- auth.ts:5 not_implemented: throw new Error(\"not implemented\");");
+
+    const allowed = verifyOutput({ ...baseInput, placeholders: { severities: { not_implemented: "warn" }, allow: ["*.test.ts"] } });
+    expect(allowed.passed).toBe(true);
+    expect(allowed.warnings).toContain("Placeholder code in added lines (1):\n- auth.ts:5 not_implemented: throw new Error(\"not implemented\");");
+  });
+
   it("includes diffStats in result", () => {
     const result = verifyOutput(baseInput);
     expect(result.diffStats).toBeDefined();
@@ -392,3 +471,72 @@ describe("verifyOutput", () => {
     }
   });
 });
+
+// ─── Check Registry ─────────────────────────────────────────────────────────
+
+describe("check registry", () => {
+  const input: VerificationInput = {
+    workdir: TMP,
+    story: { id: "test-1", title: "Add auth", description: "Implement authentication" },
+    codexResult: { toolCalls: 0, filesModified: [] },
+    validationOutput: "All tests passed",
+  };
+
+  it("turns checks off and overrides their severity", () => {
+    const result = verifyOutput(input, BUILTIN_CHECKS, { empty_diff: "off", zero_tool_calls: "warn" });
+
+    expect(result.passed).toBe(true);
+    expect(result.outcomes.find((o) => o.name === "empty_diff")).toEqual({ name: "empty_diff", outcome: "off" });
+    expect(result.outcomes.find((o) => o.name === "zero_tool_calls")).toMatchObject({ outcome: "warn" });
+    expect(result.outcomes.find((o) => o.name === "lazy_summary")).toEqual({ name: "lazy_summary", outcome: "pass" });
+    expect(result.outcomes).toHaveLength(BUILTIN_CHECKS.length);
+  });
+
+  it("loads custom checks from local modules", async () => {
+    mkdirSync(join(TMP, "checks"));
+    writeFileSync(join(TMP, "checks", "no-todo.mjs"), `export default (input, diffStats, diff) =>
+  diff.includes("TODO") ? { name: "no_todo", severity: "REJECT", message: "Diff adds a TODO" } : null;
+`);
+    writeFileSync(join(TMP, "checks", "more.mjs"), `export default [
+  { name: "always_warn", check: () => ({ name: "always_warn", severity: "WARN", message: "Heads up" }) },
+  { name: "broken", check: () => { throw new Error("boom"); } },
+  { name: "empty_diff", check: () => null },
+];
+`);
+    writeFileSync(join(TMP, "auth.ts"), "export const login = () => true;\n");
+    execSync("git add -A && git commit -m auth", { cwd: TMP, stdio: "pipe" });
+    writeFileSync(join(TMP, "auth.ts"), "// TODO: finish\nexport const login = () => true;\n");
+
+    const { checks, settings, errors } = await loadVerificationChecks(TMP, {
+      customChecks: ["checks/no-todo.mjs", "checks/more.mjs", "checks/missing.mjs"],
+      checks: { always_warn: "reject", nope: "off", lazy_summary: "loud" as never, "no-todo": "REJECT" as never },
+    });
+    expect(checks.slice(BUILTIN_CHECKS.length).map((c) => [c.name, c.source])).toEqual([
+      ["no-todo", "checks/no-todo.mjs"],
+      ["always_warn", "checks/more.mjs"],
+      ["broken", "checks/more.mjs"],
+      ["checks/missing.mjs", "checks/missing.mjs"],
+    ]);
+    expect(errors).toEqual([
+      'checks/more.mjs: check "empty_diff" is already registered',
+      expect.stringContaining("checks/missing.mjs:"),
+      'verification.checks: unknown check "nope"',
+      "verification.checks.lazy_summary: must be off, warn or reject",
+      "verification.checks.no-todo: must be off, warn or reject",
+    ]);
+    // Invalid settings are dropped rather than downgrading the check to a warning
+    expect(settings).toEqual({ always_warn: "reject" });
+
+    const result = verifyOutput({ ...input, codexResult: { toolCalls: 3, filesModified: ["auth.ts"] } }, checks, settings);
+    expect(result.passed).toBe(false);
+    expect(result.rejectReason).toContain("Diff adds a TODO");
+    expect(result.rejectReason).toContain("Heads up");
+    expect(result.rejectReason).toContain("Custom check checks/missing.mjs failed to load");
+    expect(result.outcomes.slice(BUILTIN_CHECKS.length)).toEqual([
+      { name: "no-todo", outcome: "reject", message: "Diff adds a TODO" },
+      { name: "always_warn", outcome: "reject", message: "Heads up" },
+      { name: "broken", outcome: "error", message: "boom" },
+      { name: "checks/missing.mjs", outcome: "reject", message: expect.stringContaining("Custom check checks/missing.mjs failed to load") },
+    ]);
+  });
+});
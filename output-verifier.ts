@@ -11,10 +11,21 @@
  * - WARN: logged/stored, but commit proceeds
  *
  * Budget: <200ms per verification (heuristics only, no LLM calls in v1).
+ *
+ * Checks are registered by name. A project's prd.json `verification` section
+ * turns individual checks off or sets their severity, and adds custom checks
+ * from local modules.
  */
 
 import { execSync } from "node:child_process";
+import { statSync } from "node:fs";
+import { basename, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
 import type { MonitorStats } from "./loop-monitor.js";
+import { addedLineContents, formatUncoveredLines, lineNumbers, newLineCoverage, readCoverageReport, type AddedLine, type CoverageGate, type NewLineCoverage } from "./coverage-helpers.js";
+import { compareTestInventory, formatTestInventoryDiff, type TestInventoryDiff } from "./test-integrity-helpers.js";
+import { findPlaceholders, formatPlaceholderFindings, placeholderConfigErrors, type PlaceholderConfig, type PlaceholderFinding } from "./placeholder-helpers.js";
+import { formatProtectedPathChanges, type ProtectedPathChange } from "./protected-paths-helpers.js";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -42,8 +53,11 @@ export interface VerificationInput {
     acceptanceCriteria?: string[];
     targetFiles?: string[];
     noTestWrites?: boolean;
+    /** The story may delete tests (e.g. removing a feature) — fewer tests only warns */
+    allowTestRemoval?: boolean;
     acceptanceAssertions?: string[];
   };
+  /** Agent run summary — counts are derived from the normalized agent event stream */
   codexResult: {
     toolCalls: number;
     filesModified: string[];
@@ -55,6 +69,12 @@ export interface VerificationInput {
     stderrStats?: MonitorStats;
   };
   validationOutput: string;
+  /** Coverage gate on the added lines; `since` skips reports left from before validation ran */
+  coverage?: CoverageGate & { since?: number };
+  /** Severities and allowlist for the placeholder scan */
+  placeholders?: PlaceholderConfig;
+  /** Protected files the agent changed — already reverted by the time checks run */
+  protectedPathChanges?: ProtectedPathChange[];
 }
 
 export interface VerificationResult {
@@ -64,6 +84,10 @@ export interface VerificationResult {
   rejectReason?: string;
   diffStats: { filesChanged: number; insertions: number; deletions: number };
   requiresLLMReview: boolean;
+  /** Coverage of the added lines, when the coverage gate ran and found a report */
+  coverage?: NewLineCoverage;
+  /** One entry per registered check, in run order */
+  outcomes: CheckOutcome[];
 }
 
 // ─── Git Helpers ────────────────────────────────────────────────────────────
@@ -439,36 +463,256 @@ export function checkAcceptanceAssertions(
   return null;
 }
 
+// ─── Coverage Gate ──────────────────────────────────────────────────────────
+
+/**
+ * Below-threshold coverage of the lines the story added, at the gate's severity.
+ * A missing report only warns — there's nothing to measure.
+ */
+export function checkCoverage(
+  coverage: NewLineCoverage | undefined,
+  gate?: CoverageGate
+): VerificationCheck | null {
+  if (!gate || gate.threshold <= 0) return null;
+  if (!coverage) {
+    return {
+      name: "coverage_missing",
+      severity: "WARN",
+      message: `Coverage gate is on (${gate.threshold}%) but validation produced no coverage report (${gate.report || "coverage/lcov.info, coverage-final.json or coverage-summary.json"}).`,
+    };
+  }
+  if (coverage.total === 0 || coverage.percent >= gate.threshold) return null;
+
+  const scope = coverage.format === "summary" ? "Changed-file coverage" : "New-line coverage";
+  const uncovered = formatUncoveredLines(coverage);
+  return {
+    name: "low_coverage",
+    severity: gate.severity,
+    message: `${scope} ${coverage.percent}% (${coverage.covered}/${coverage.total} lines) is below ${gate.threshold}%.${uncovered ? ` Uncovered:\n${uncovered}` : ""}`,
+  };
+}
+
+// ─── Placeholder Code ───────────────────────────────────────────────────────
+
+/**
+ * Stubs, mocks and placeholders in the added lines, each with its file:line.
+ * REJECT when any finding's kind is set to reject, else WARN.
+ */
+export function checkPlaceholders(findings: PlaceholderFinding[]): VerificationCheck | null {
+  if (findings.length === 0) return null;
+  return {
+    name: "placeholder_code",
+    severity: findings.some((f) => f.severity === "reject") ? "REJECT" : "WARN",
+    message: `Placeholder code in added lines (${findings.length}):\n${formatPlaceholderFindings(findings)}`,
+  };
+}
+
+// ─── Weakened Tests ─────────────────────────────────────────────────────────
+
+/**
+ * Deleted, skipped or loosened tests. REJECT when the touched test files hold
+ * fewer tests than at HEAD (unless the story allows removing tests), else WARN.
+ */
+export function checkWeakenedTests(inventory: TestInventoryDiff, allowTestRemoval?: boolean): VerificationCheck | null {
+  if (inventory.files.length === 0) return null;
+  const fewer = inventory.testsAfter < inventory.testsBefore;
+  return {
+    name: "weakened_tests",
+    severity: fewer && !allowTestRemoval ? "REJECT" : "WARN",
+    message: `${fewer ? `Test count dropped from ${inventory.testsBefore} to ${inventory.testsAfter}` : "Tests were weakened"}. Fix the code, not the tests:\n${formatTestInventoryDiff(inventory)}`,
+  };
+}
+
+// ─── Protected Paths ────────────────────────────────────────────────────────
+
+/**
+ * Changes to Ralph state files, prd.json protectedPaths or the story's
+ * forbiddenFiles. REJECT — the changes were already reverted before the checks ran.
+ */
+export function checkProtectedPaths(changes: ProtectedPathChange[] = []): VerificationCheck | null {
+  if (changes.length === 0) return null;
+  return {
+    name: "protected_paths",
+    severity: "REJECT",
+    message: `Protected files were changed (${changes.length}) and have been reverted — leave them alone:\n${formatProtectedPathChanges(changes)}`,
+  };
+}
+
+// ─── Check Registry ─────────────────────────────────────────────────────────
+
+/** A verification check: null when it has nothing to say */
+export type CheckFn = (input: VerificationInput, diffStats: DiffStats, diff: string) => VerificationCheck | null;
+
+/** Per-check setting: off skips it, warn/reject override the severity it reports */
+export type CheckSetting = "off" | "warn" | "reject";
+
+const CHECK_SETTINGS: CheckSetting[] = ["off", "warn", "reject"];
+
+/** Project verification config (prd.json `verification`) */
+export interface VerificationConfig {
+  checks?: Record<string, CheckSetting>;
+  /** Local modules (relative to the workdir) exporting extra checks */
+  customChecks?: string[];
+  /** Severities and allowlist for the placeholder_code check */
+  placeholders?: PlaceholderConfig;
+}
+
+/** Built-ins also see the added lines and measured coverage, so checks don't re-read the diff */
+interface CheckInput extends VerificationInput {
+  addedLines: Map<string, AddedLine[]>;
+  newLineCoverage?: NewLineCoverage;
+}
+
+export interface RegisteredCheck {
+  name: string;
+  run: (input: CheckInput, diffStats: DiffStats, diff: string) => VerificationCheck | null;
+  /** "builtin", or the module a custom check came from */
+  source: string;
+}
+
+export interface CheckOutcome {
+  name: string;
+  outcome: "pass" | "warn" | "reject" | "off" | "error";
+  message?: string;
+}
+
+function builtin(name: string, run: RegisteredCheck["run"]): RegisteredCheck {
+  return { name, run, source: "builtin" };
+}
+
+export const BUILTIN_CHECKS: RegisteredCheck[] = [
+  builtin("empty_diff", (input, diffStats) => checkEmptyDiff(diffStats, input.codexResult.filesModified)),
+  builtin("no_tests", (input, diffStats) => checkNoTests(diffStats, input.story)),
+  builtin("zero_tool_calls", (input) => checkZeroToolCalls(input.codexResult.toolCalls)),
+  builtin("config_only", (input, diffStats) => checkConfigOnly(diffStats, input.story)),
+  builtin("trivial_diff", (_input, diffStats) => checkTrivialDiff(diffStats)),
+  builtin("acceptance_criteria_miss", (input, _diffStats, diff) => checkAcceptanceCriteriaRelevance(input.story, diff, input.codexResult.structuredResult?.summary || "")),
+  builtin("self_reported_failure", (input) => checkSelfReportedFailure(input.codexResult.structuredResult)),
+  builtin("lazy_summary", (input) => checkLazySummary(input.codexResult.structuredResult?.summary || "")),
+  builtin("heavy_exploration_no_writes", (input) => checkHeavyExplorationNoWrites(input.codexResult.stderrStats)),
+  // Story guards: target files, test write ban, protected paths, acceptance assertions
+  builtin("target_files_missing", (input, diffStats) => checkTargetFiles(diffStats, input.story.targetFiles)),
+  builtin("banned_test_writes", (input, diffStats) => checkNoTestWrites(diffStats, input.story.noTestWrites)),
+  builtin("protected_paths", (input) => checkProtectedPaths(input.protectedPathChanges)),
+  builtin("acceptance_assertions_missing", (input) => checkAcceptanceAssertions(input.workdir, input.story.targetFiles, input.story.acceptanceAssertions)),
+  builtin("coverage", (input) => checkCoverage(input.newLineCoverage, activeCoverageGate(input))),
+  builtin("weakened_tests", (input) => checkWeakenedTests(compareTestInventory(input.workdir), input.story.allowTestRemoval)),
+  builtin("placeholder_code", (input) => checkPlaceholders(findPlaceholders(input.addedLines, input.placeholders))),
+];
+
+function activeCoverageGate(input: VerificationInput): VerificationInput["coverage"] {
+  return input.coverage && input.coverage.threshold > 0 ? input.coverage : undefined;
+}
+
+/** What a custom check module may default-export: a check, a named check, or a list of them */
+type CheckExport = CheckFn | { name: string; check: CheckFn };
+
+/** Stands in for a custom check module that didn't load: the project asked for it, so it can't silently pass */
+function unloadedCheck(modulePath: string, reason: string): RegisteredCheck {
+  return {
+    name: modulePath,
+    run: () => ({ name: modulePath, severity: "REJECT", message: `Custom check ${modulePath} failed to load: ${reason}` }),
+    source: modulePath,
+  };
+}
+
+/**
+ * The built-in checks plus the project's custom check modules. A module that
+ * fails to load, or exports no usable check, is reported in `errors` and
+ * registered as a check that rejects every attempt until it's fixed. A check
+ * whose name is already taken is reported and left out, and so is a setting
+ * for an unknown check or with an invalid value: `settings` holds only the rest.
+ */
+export async function loadVerificationChecks(
+  workdir: string,
+  config?: VerificationConfig
+): Promise<{ checks: RegisteredCheck[]; settings: Record<string, CheckSetting>; errors: string[] }> {
+  const checks = [...BUILTIN_CHECKS];
+  const errors: string[] = [];
+
+  for (const modulePath of config?.customChecks ?? []) {
+    try {
+      const file = resolve(workdir, modulePath);
+      // The mtime busts the import cache when the module changes between iterations
+      const mod = await import(`${pathToFileURL(file).href}?v=${statSync(file).mtimeMs}`);
+      const exported = (Array.isArray(mod.default) ? mod.default : [mod.default]) as CheckExport[];
+      for (const entry of exported) {
+        const check = typeof entry === "function"
+          ? { name: basename(modulePath).replace(/\.[cm]?[jt]s$/, ""), check: entry }
+          : entry;
+        if (!check || typeof check.check !== "function" || !check.name) {
+          const reason = "default export must be a check function, {name, check}, or an array of them";
+          errors.push(`${modulePath}: ${reason}`);
+          if (!checks.some((c) => c.name === modulePath)) checks.push(unloadedCheck(modulePath, reason));
+        } else if (checks.some((c) => c.name === check.name)) {
+          errors.push(`${modulePath}: check "${check.name}" is already registered`);
+        } else {
+          checks.push({ name: check.name, run: check.check, source: modulePath });
+        }
+      }
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      errors.push(`${modulePath}: ${reason}`);
+      checks.push(unloadedCheck(modulePath, reason));
+    }
+  }
+
+  const settings: Record<string, CheckSetting> = {};
+  for (const [name, setting] of Object.entries(config?.checks ?? {})) {
+    if (!checks.some((c) => c.name === name)) errors.push(`verification.checks: unknown check "${name}"`);
+    else if (!CHECK_SETTINGS.includes(setting)) errors.push(`verification.checks.${name}: must be off, warn or reject`);
+    else settings[name] = setting;
+  }
+  errors.push(...placeholderConfigErrors(config?.placeholders));
+  return { checks, settings, errors };
+}
+
 // ─── Main Entry ─────────────────────────────────────────────────────────────
 
-export function verifyOutput(input: VerificationInput): VerificationResult {
-  const { workdir, story, codexResult, validationOutput: _validationOutput } = input;
+/**
+ * Run the registered checks (built-ins by default). Settings turn a check off or
+ * override the severity it reports; a check that throws is recorded as an error
+ * and otherwise ignored.
+ */
+export function verifyOutput(
+  input: VerificationInput,
+  registry: RegisteredCheck[] = BUILTIN_CHECKS,
+  settings: Record<string, CheckSetting> = {}
+): VerificationResult {
+  const { workdir } = input;
 
   const diffStats = getDiffStats(workdir);
   const diffContent = getDiffContent(workdir);
-  const summary = codexResult.structuredResult?.summary || "";
 
-  const checks: VerificationCheck[] = [];
+  const added = addedLineContents(workdir);
+
+  const gate = activeCoverageGate(input);
+  const coverageReport = gate && settings.coverage !== "off" ? readCoverageReport(workdir, gate.report, gate.since) : undefined;
+  const coverage = coverageReport ? newLineCoverage(coverageReport, lineNumbers(added)) : undefined;
+  const checkInput: CheckInput = { ...input, addedLines: added, newLineCoverage: coverage };
 
-  // Run all checks, collecting non-null results
-  const maybeChecks = [
-    checkEmptyDiff(diffStats, codexResult.filesModified),
-    checkNoTests(diffStats, story),
-    checkZeroToolCalls(codexResult.toolCalls),
-    checkConfigOnly(diffStats, story),
-    checkTrivialDiff(diffStats),
-    checkAcceptanceCriteriaRelevance(story, diffContent, summary),
-    checkSelfReportedFailure(codexResult.structuredResult),
-    checkLazySummary(summary),
-    checkHeavyExplorationNoWrites(codexResult.stderrStats),
-    // New guards: target files, test write ban, acceptance assertions
-    checkTargetFiles(diffStats, story.targetFiles),
-    checkNoTestWrites(diffStats, story.noTestWrites),
-    checkAcceptanceAssertions(workdir, story.targetFiles, story.acceptanceAssertions),
-  ];
-
-  for (const check of maybeChecks) {
-    if (check) checks.push(check);
+  const checks: VerificationCheck[] = [];
+  const outcomes: CheckOutcome[] = [];
+  for (const registered of registry) {
+    const setting = settings[registered.name];
+    if (setting === "off") {
+      outcomes.push({ name: registered.name, outcome: "off" });
+      continue;
+    }
+    let check: VerificationCheck | null;
+    try {
+      check = registered.run(checkInput, diffStats, diffContent);
+    } catch (err) {
+      outcomes.push({ name: registered.name, outcome: "error", message: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+    if (!check) {
+      outcomes.push({ name: registered.name, outcome: "pass" });
+      continue;
+    }
+    if (setting) check = { ...check, severity: setting === "reject" ? "REJECT" : "WARN" };
+    checks.push(check);
+    outcomes.push({ name: registered.name, outcome: check.severity === "REJECT" ? "reject" : "warn", message: check.message });
   }
 
   const rejects = checks.filter((c) => c.severity === "REJECT");
@@ -487,5 +731,7 @@ export function verifyOutput(input: VerificationInput): VerificationResult {
       deletions: diffStats.deletions,
     },
     requiresLLMReview: warns.length >= 3,
+    coverage,
+    outcomes,
   };
 }
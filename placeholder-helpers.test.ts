@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { findPlaceholders, placeholderConfigErrors, formatPlaceholderFindings } from "./placeholder-helpers.js";
+
+/** Added lines from file → source text, numbered from `start` */
+function added(files: Record<string, string>, start = 1): Map<string, Array<{ line: number; text: string }>> {
+  return new Map(Object.entries(files).map(([file, text]) => [file, text.split("\n").map((t, i) => ({ line: start + i, text: t }))]));
+}
+
+const kinds = (findings: ReturnType<typeof findPlaceholders>) => findings.map((f) => `${f.file}:${f.line} ${f.kind}`);
+
+describe("findPlaceholders", () => {
+  it("flags stubs in source files with their location", () => {
+    const findings = findPlaceholders(added({
+      "src/users.ts": [
+        "export function loadUser(id: string): User {",
+        "  // TODO: implement the lookup",
+        "  return null as any;",
+        "}",
+        "export function saveUser(user: User): void {}",
+        "export async function deleteUser(id: string) {",
+        "}",
+        "export function listUsers() {",
+        "  return [{ id: 1, name: 'John Doe' }];",
+        "}",
+        "export const audit = () => { throw new Error(\"Not implemented\"); };",
+        "// @ts-ignore",
+        "/* eslint-disable no-console */",
+      ].join("\n"),
+    }, 10));
+
+    expect(kinds(findings)).toEqual([
+      "src/users.ts:11 todo_implement",
+      "src/users.ts:12 null_as_any",
+      "src/users.ts:14 empty_function",
+      "src/users.ts:15 empty_function",
+      "src/users.ts:18 fixture_return",
+      "src/users.ts:20 not_implemented",
+      "src/users.ts:21 suppression",
+      "src/users.ts:22 suppression",
+    ]);
+    expect(findings[1]).toMatchObject({ severity: "reject", text: "return null as any;" });
+    expect(findings[2]).toMatchObject({ severity: "warn" });
+  });
+
+  it("leaves real code alone and keeps fixtures and empty bodies to where they belong", () => {
+    const findings = findPlaceholders(added({
+      "src/math.ts": "export function add(a: number, b: number) {\n  return a + b;\n}\nif (ready) {\n}\nconstructor(private readonly db: Db) {}\nprocess.on(\"exit\", () => {});",
+      "src/users.test.ts": "it.skip(\"loads users\", () => {});\nconst fakeUser = () => { return { name: 'John Doe' }; };\nfunction noop() {}",
+      "test/fixtures/users.ts": "export function user() { return { name: 'Jane Doe' }; }",
+      "README.md": "Use `it.skip` sparingly. // TODO: implement docs",
+      "app.py": "def handler(event):\n    pass\nraise NotImplementedError",
+    }));
+
+    expect(kinds(findings)).toEqual([
+      "app.py:1 empty_function",
+      "app.py:3 not_implemented",
+      "src/users.test.ts:1 skipped_test",
+    ]);
+  });
+
+  it("applies configured severities and the allowlist", () => {
+    const lines = added({
+      "src/legacy/old.ts": "// @ts-ignore\nthrow new Error('not implemented');",
+      "src/gen/api.ts": "/* eslint-disable */\nreturn undefined as any;",
+      "src/app.ts": "test.todo('later');",
+    });
+
+    const findings = findPlaceholders(lines, {
+      severities: { skipped_test: "reject", null_as_any: "off" },
+      allow: ["src/legacy/**", "suppression:src/gen/*.ts"],
+    });
+    expect(findings).toEqual([{ kind: "skipped_test", file: "src/app.ts", line: 1, text: "test.todo('later');", severity: "reject" }]);
+    expect(formatPlaceholderFindings(findings)).toBe("- src/app.ts:1 skipped_test: test.todo('later');");
+  });
+
+  it("reports bad config", () => {
+    expect(placeholderConfigErrors({ severities: { stub: "warn", suppression: "loud" } as never })).toEqual([
+      'verification.placeholders: unknown kind "stub"',
+      "verification.placeholders.suppression: must be off, warn or reject",
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Placeholder, mock and stub detection.
+ *
+ * Scans only the lines a story added (see addedLineContents) for code that
+ * pretends to be done: TODO-implement markers, "not implemented" throws, empty
+ * function bodies, `return null as any`, hard-coded fixture returns outside
+ * tests, skipped tests and inserted type/lint suppressions. Pre-existing code
+ * is never flagged — only what this attempt wrote.
+ */
+
+import type { AddedLine } from "./coverage-helpers.js";
+import { globToRegExp } from "./glob-helpers.js";
+
+export type PlaceholderKind =
+  | "todo_implement"
+  | "not_implemented"
+  | "empty_function"
+  | "null_as_any"
+  | "fixture_return"
+  | "skipped_test"
+  | "suppression";
+
+export type PlaceholderSeverity = "off" | "warn" | "reject";
+
+/** prd.json `verification.placeholders` */
+export interface PlaceholderConfig {
+  /** Per-kind severity, over DEFAULT_PLACEHOLDER_SEVERITIES */
+  severities?: Partial<Record<PlaceholderKind, PlaceholderSeverity>>;
+  /** Path globs never flagged (`src/legacy/**`), optionally for one kind only (`suppression:src/generated/**`) */
+  allow?: string[];
+}
+
+export interface PlaceholderFinding {
+  kind: PlaceholderKind;
+  file: string;
+  line: number;
+  /** The added line, trimmed */
+  text: string;
+  severity: "warn" | "reject";
+}
+
+export const DEFAULT_PLACEHOLDER_SEVERITIES: Record<PlaceholderKind, "warn" | "reject"> = {
+  todo_implement: "reject",
+  not_implemented: "reject",
+  empty_function: "warn",
+  null_as_any: "reject",
+  fixture_return: "warn",
+  skipped_test: "warn",
+  suppression: "warn",
+};
+
+const PLACEHOLDER_KINDS = Object.keys(DEFAULT_PLACEHOLDER_SEVERITIES) as PlaceholderKind[];
+
+const CODE_FILE = /\.(?:[cm]?[jt]sx?|vue|svelte|py|go|rs|rb|java|kt)$/;
+const TEST_FILE = /\.(?:test|spec)\.|__tests__\/|(?:^|\/)tests?\/|_test\.(?:go|py)$|(?:^|\/)test_[^/]+\.py$/;
+/** Where hard-coded sample data belongs */
+const FIXTURE_FILE = /(?:^|\/)(?:__mocks__|mocks?|fixtures?|stories|examples?|seeds?)\/|\.(?:stories|fixture|mock)\./;
+
+/** A function, arrow function assigned to a name, or method signature, up to the body's `{` */
+const SIGNATURE = String.raw`(?:\bfunction\b[^(]*\([^)]*\)|\b(?:const|let|var)\s+[\w$]+\s*(?::[^=]+)?=\s*(?:async\s+)?(?:\([^)]*\)|[\w$]+)\s*(?::[^=]+)?=>|^\s*(?:(?:public|private|protected|static|async|override)\s+)*(?!(?:if|for|while|switch|catch|constructor)\b)[\w$]+\s*\([^)]*\))\s*(?::[^{]+)?\{`;
+/** Body opened and left open on this line: `foo(a: A): B {` */
+const OPENS_FUNCTION = new RegExp(`${SIGNATURE}\\s*$`);
+const PY_DEF = /^\s*(?:async\s+)?def\s+\w+\s*\(.*\)\s*(?:->[^:]+)?:\s*$/;
+
+interface LineRule {
+  kind: PlaceholderKind;
+  pattern: RegExp;
+  /** Only in non-test source files */
+  sourceOnly?: boolean;
+}
+
+const LINE_RULES: LineRule[] = [
+  { kind: "todo_implement", pattern: /\b(?:TODO|FIXME|XXX)\b.*\b(?:implement|stub|placeholder|fill (?:in|this))/i },
+  { kind: "not_implemented", pattern: /throw\s+new\s+\w*Error\(\s*["'`](?:not\s+(?:yet\s+)?implemented|unimplemented|todo)\b|\bthrow\s+new\s+NotImplemented\w*\(|\braise\s+NotImplementedError\b|\b(?:todo|unimplemented)!\(/i },
+  { kind: "empty_function", sourceOnly: true, pattern: new RegExp(`${SIGNATURE}\\s*\\}`) },
+  { kind: "null_as_any", pattern: /\breturn\s+(?:null|undefined|\{\}|\[\])\s+as\s+(?:any|unknown|never)\b/ },
+  { kind: "fixture_return", sourceOnly: true, pattern: /\breturn\b[^;]*["'`][^"'`]*\b(?:lorem ipsum|john doe|jane doe|test user|mock(?:ed)?|dummy|fake|placeholder|hard-?coded)\b/i },
+  { kind: "skipped_test", pattern: /\b(?:it|test|describe)\.(?:skip|todo)\s*\(|\bx(?:it|describe|test)\s*\(|@pytest\.mark\.skip|@unittest\.skip/ },
+  { kind: "suppression", pattern: /@ts-(?:ignore|nocheck|expect-error)\b|eslint-disable|#\s*type:\s*ignore\b/ },
+];
+
+interface AllowEntry {
+  kind?: PlaceholderKind;
+  path: RegExp;
+}
+
+function parseAllowlist(allow: string[] = []): AllowEntry[] {
+  return allow.map((entry) => {
+    const scoped = entry.match(/^(\w+):(.+)$/);
+    return scoped && PLACEHOLDER_KINDS.includes(scoped[1] as PlaceholderKind)
+      ? { kind: scoped[1] as PlaceholderKind, path: globToRegExp(scoped[2]!) }
+      : { path: globToRegExp(entry) };
+  });
+}
+
+/** Problems with a placeholder config, for the loader to report */
+export function placeholderConfigErrors(config?: PlaceholderConfig): string[] {
+  const errors: string[] = [];
+  for (const [kind, severity] of Object.entries(config?.severities ?? {})) {
+    if (!PLACEHOLDER_KINDS.includes(kind as PlaceholderKind)) errors.push(`verification.placeholders: unknown kind "${kind}"`);
+    else if (!["off", "warn", "reject"].includes(severity as string)) errors.push(`verification.placeholders.${kind}: must be off, warn or reject`);
+  }
+  return errors;
+}
+
+/** Placeholder findings in the added lines of code files, in file and line order */
+export function findPlaceholders(added: Map<string, AddedLine[]>, config?: PlaceholderConfig): PlaceholderFinding[] {
+  const severities = { ...DEFAULT_PLACEHOLDER_SEVERITIES, ...(config?.severities ?? {}) };
+  const allowlist = parseAllowlist(config?.allow);
+  const findings: PlaceholderFinding[] = [];
+
+  for (const [file, lines] of [...added].sort(([a], [b]) => a.localeCompare(b))) {
+    if (!CODE_FILE.test(file)) continue;
+    const isSource = !TEST_FILE.test(file) && !FIXTURE_FILE.test(file);
+    const report = (kind: PlaceholderKind, at: AddedLine) => {
+      const severity = severities[kind];
+      if (severity === "off" || allowlist.some((a) => (!a.kind || a.kind === kind) && a.path.test(file))) return;
+      findings.push({ kind, file, line: at.line, text: at.text.trim().slice(0, 160), severity });
+    };
+
+    lines.forEach((added, i) => {
+      for (const rule of LINE_RULES) {
+        if (rule.sourceOnly && !isSource) continue;
+        if (rule.pattern.test(added.text)) report(rule.kind, added);
+      }
+      // A body left empty across two added lines: `foo() {` + `}`, or `def foo():` + `pass`
+      const previous = lines[i - 1];
+      if (isSource && previous && previous.line === added.line - 1) {
+        const body = added.text.trim();
+        if ((body === "}" && OPENS_FUNCTION.test(previous.text)) || ((body === "pass" || body === "...") && PY_DEF.test(previous.text))) {
+          report("empty_function", previous);
+        }
+      }
+    });
+  }
+  return findings;
+}
+
+/** One line per finding: "- src/a.ts:12 not_implemented: throw new Error(...)" */
+export function formatPlaceholderFindings(findings: PlaceholderFinding[], limit = 10): string {
+  const lines = findings.slice(0, limit).map((f) => `- ${f.file}:${f.line} ${f.kind}: ${f.text}`);
+  if (findings.length > limit) lines.push(`- … ${findings.length - limit} more`);
+  return lines.join("\n");
+}
@@ -42,6 +42,18 @@ export class ChildProcessRegistry {
     }, 5000);
   }
 
+  /** SIGTERM the children whose label matches. Returns how many were signalled. */
+  kill(matches: (label: string) => boolean): number {
+    let killed = 0;
+    for (const [child, label] of this.children.entries()) {
+      if (matches(label) && !child.killed) {
+        child.kill("SIGTERM");
+        killed++;
+      }
+    }
+    return killed;
+  }
+
   count(): number {
     return this.children.size;
   }
@@ -52,12 +64,14 @@ export const processRegistry = new ChildProcessRegistry();
 /**
  * Monitor stdout for item.completed events and detect stalls.
  * Calls onStall if no item.completed appears within stallTimeoutMs.
+ * Agents with a different wire format pass their own isProgress line check.
  */
 export function monitorProgress(
   stdout: NodeJS.ReadableStream,
-  options: { stallTimeoutMs?: number; onStall: () => void }
+  options: { stallTimeoutMs?: number; onStall: () => void; isProgress?: (line: string) => boolean }
 ): { cancel: () => void } {
   const stallTimeoutMs = options.stallTimeoutMs ?? 120000;
+  const isProgress = options.isProgress ?? isCodexItemCompleted;
   let stallTimer: NodeJS.Timeout | undefined;
   let buffer = "";
 
@@ -73,14 +87,7 @@ export function monitorProgress(
 
     for (const line of lines) {
       if (!line.trim()) continue;
-      try {
-        const parsed = JSON.parse(line);
-        if (parsed.type === "item.completed") {
-          resetStallTimer();
-        }
-      } catch {
-        // Not JSON or malformed - ignore
-      }
+      if (isProgress(line)) resetStallTimer();
     }
   };
 
@@ -95,6 +102,15 @@ export function monitorProgress(
   };
 }
 
+function isCodexItemCompleted(line: string): boolean {
+  try {
+    return JSON.parse(line).type === "item.completed";
+  } catch {
+    // Not JSON or malformed - ignore
+    return false;
+  }
+}
+
 /**
  * Get all files modified in the working directory using git diff.
  * Returns committed, staged, and unstaged changes.
@@ -5,6 +5,8 @@
  * to prevent prompt bloat across retries.
  */
 
+import { normalizeErrorText } from "./fingerprint-helpers.js";
+
 const BOX_DRAWING_CHARS = /[─│┌┐└┘├┤┬┴┼━┃┏┓┗┛═║╔╗╚╝]/;
 const SIMPLE_BOX_CHARS = /^[\s+|\-]+$/;
 const TREE_DIAGRAM_CHARS = /[→├└]/;
@@ -124,7 +126,8 @@ export function compressAgentsMd(agentsMd: string): string {
  * Deduplicates error signatures between previous attempt and failure patterns.
  *
  * If the same error appears in both sections, removes it from failurePatterns
- * to avoid redundant context.
+ * to avoid redundant context. Lines are compared normalized, so the same error
+ * at a different path or line number still counts as a duplicate.
  *
  * @param previousAttempt Previous attempt context
  * @param failurePatterns Failure pattern context
@@ -138,7 +141,7 @@ export function deduplicateFailureContext(
     return { previousAttempt, failurePatterns };
   }
 
-  // Extract error signatures (first 80 chars of lines containing error keywords)
+  // Extract error signatures (first 80 normalized chars of lines containing error keywords)
   const errorPattern = /error|Error|FAIL|failed|TypeError|Cannot/i;
 
   const extractSignatures = (text: string): Set<string> => {
@@ -147,7 +150,7 @@ export function deduplicateFailureContext(
 
     for (const line of lines) {
       if (errorPattern.test(line)) {
-        const signature = line.trim().slice(0, 80);
+        const signature = normalizeErrorText(line).slice(0, 80);
         if (signature) {
           signatures.add(signature);
         }
@@ -165,7 +168,7 @@ export function deduplicateFailureContext(
 
   for (const line of failureLines) {
     if (errorPattern.test(line)) {
-      const signature = line.trim().slice(0, 80);
+      const signature = normalizeErrorText(line).slice(0, 80);
       if (!previousSigs.has(signature)) {
         deduplicatedLines.push(line);
       }
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { execSync } from "node:child_process";
+import { protectedPatterns, snapshotProtectedPaths, restoreProtectedPaths, formatProtectedPathChanges } from "./protected-paths-helpers.js";
+
+const TMP = join(process.cwd(), ".test-protected-paths");
+
+const read = (file: string) => readFileSync(join(TMP, file), "utf-8");
+
+beforeEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+  mkdirSync(join(TMP, "migrations"), { recursive: true });
+  execSync("git init -q && git config user.email t@t && git config user.name t", { cwd: TMP, stdio: "pipe" });
+  writeFileSync(join(TMP, ".gitignore"), ".env\n.ralph-iterations.jsonl\n");
+  writeFileSync(join(TMP, "prd.json"), '{"stories":[]}');
+  writeFileSync(join(TMP, "progress.txt"), "# Progress\n");
+  writeFileSync(join(TMP, "migrations", "001.sql"), "CREATE TABLE users;\n");
+  writeFileSync(join(TMP, "app.ts"), "export const a = 1;\n");
+  execSync("git add -A && git commit -qm init", { cwd: TMP, stdio: "pipe" });
+  writeFileSync(join(TMP, ".env"), "TOKEN=1\n");
+  writeFileSync(join(TMP, ".ralph-iterations.jsonl"), '{"iterationNumber":1}\n');
+});
+
+afterEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+});
+
+describe("protected paths", () => {
+  it("always protects Ralph state files, then adds project and story globs", () => {
+    expect(protectedPatterns(["migrations/**"], ["app.ts", "migrations/**"])).toEqual([
+      "prd.json", "progress.txt", ".ralph-context.json", ".ralph-iterations.jsonl", ".ralph-flaky-tests.json", "migrations/**", "app.ts",
+    ]);
+  });
+
+  it("reverts modified, deleted and created protected files and leaves the rest", () => {
+    const snapshot = snapshotProtectedPaths(TMP, protectedPatterns(["migrations/", ".env"]));
+
+    writeFileSync(join(TMP, "prd.json"), "{}");
+    rmSync(join(TMP, ".ralph-iterations.jsonl"));
+    writeFileSync(join(TMP, ".env"), "TOKEN=2\n");
+    rmSync(join(TMP, "migrations", "001.sql"));
+    writeFileSync(join(TMP, "migrations", "002.sql"), "DROP TABLE users;\n");
+    writeFileSync(join(TMP, "app.ts"), "export const a = 2;\n");
+
+    const changes = restoreProtectedPaths(TMP, snapshot);
+
+    expect(changes).toEqual([
+      { file: ".env", change: "modified", reverted: true },
+      { file: ".ralph-iterations.jsonl", change: "deleted", reverted: true },
+      { file: "migrations/001.sql", change: "deleted", reverted: true },
+      { file: "migrations/002.sql", change: "created", reverted: true },
+      { file: "prd.json", change: "modified", reverted: true },
+    ]);
+    expect(read("prd.json")).toBe('{"stories":[]}');
+    expect(read(".ralph-iterations.jsonl")).toBe('{"iterationNumber":1}\n');
+    expect(read(".env")).toBe("TOKEN=1\n");
+    expect(read("migrations/001.sql")).toBe("CREATE TABLE users;\n");
+    expect(existsSync(join(TMP, "migrations", "002.sql"))).toBe(false);
+    expect(read("app.ts")).toBe("export const a = 2;\n");
+    expect(formatProtectedPathChanges(changes, 2)).toBe("- .env (modified, reverted)\n- .ralph-iterations.jsonl (deleted, reverted)\n- … 3 more");
+  });
+
+  it("reports nothing when the agent stayed away", () => {
+    const snapshot = snapshotProtectedPaths(TMP, protectedPatterns(["migrations/**"]));
+    writeFileSync(join(TMP, "app.ts"), "export const a = 2;\n");
+    expect(restoreProtectedPaths(TMP, snapshot)).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Protected paths the agent must leave alone.
+ *
+ * Ralph's own state files are always protected; prd.json `protectedPaths` and
+ * a story's `forbiddenFiles` add globs. Every matching file is snapshotted
+ * before the agent runs. Whatever the agent modified, created or deleted there
+ * is put back as soon as it finishes — before validation, and before Ralph
+ * writes its own state — and the protected_paths check rejects the attempt.
+ */
+
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { RALPH_STATE_FILES } from "./rollback-helpers.js";
+import { globToRegExp } from "./glob-helpers.js";
+
+export interface ProtectedSnapshot {
+  patterns: string[];
+  /** Pre-iteration content of each protected file that existed */
+  files: Map<string, Buffer>;
+}
+
+export interface ProtectedPathChange {
+  file: string;
+  change: "modified" | "created" | "deleted";
+  /** False when putting the file back failed */
+  reverted: boolean;
+}
+
+/** Ralph state files, then the project's protectedPaths, then the story's forbiddenFiles */
+export function protectedPatterns(protectedPaths: string[] = [], forbiddenFiles: string[] = []): string[] {
+  return [...new Set([...RALPH_STATE_FILES, ...protectedPaths, ...forbiddenFiles])];
+}
+
+const isLiteral = (pattern: string) => !/[*?]/.test(pattern) && !pattern.endsWith("/");
+
+/** Files under the workdir matching any pattern: git-visible files, plus literal paths even when ignored */
+function matchingFiles(workdir: string, patterns: string[]): string[] {
+  const globs = patterns.map((p) => globToRegExp(p.endsWith("/") ? `${p}**` : p));
+  let visible: string[] = [];
+  try {
+    visible = execFileSync("git", ["ls-files", "--cached", "--others", "--exclude-standard"], {
+      cwd: workdir,
+      encoding: "utf-8",
+      timeout: 10000,
+      stdio: ["pipe", "pipe", "pipe"],
+      maxBuffer: 64 * 1024 * 1024,
+    }).split("\n");
+  } catch { /* not a git repository — literal paths only */ }
+  const literals = patterns.filter(isLiteral).filter((p) => existsSync(join(workdir, p)));
+  return [...new Set([...literals, ...visible.filter((f) => f && globs.some((g) => g.test(f)))])];
+}
+
+/** Snapshot every file the patterns protect, before the agent runs */
+export function snapshotProtectedPaths(workdir: string, patterns: string[]): ProtectedSnapshot {
+  const files = new Map<string, Buffer>();
+  for (const file of matchingFiles(workdir, patterns)) {
+    try { files.set(file, readFileSync(join(workdir, file))); } catch { /* directory or unreadable */ }
+  }
+  return { patterns, files };
+}
+
+/**
+ * Put back every protected file the agent changed since the snapshot: restore
+ * modified and deleted files, remove created ones. Never throws.
+ */
+export function restoreProtectedPaths(workdir: string, snapshot: ProtectedSnapshot): ProtectedPathChange[] {
+  const changes: ProtectedPathChange[] = [];
+  const candidates = new Set([...snapshot.files.keys(), ...matchingFiles(workdir, snapshot.patterns)]);
+
+  for (const file of [...candidates].sort()) {
+    const path = join(workdir, file);
+    const before = snapshot.files.get(file);
+    let after: Buffer | undefined;
+    try { after = existsSync(path) ? readFileSync(path) : undefined; } catch { continue; }
+    if (before && after && before.equals(after)) continue;
+    if (!before && !after) continue;
+
+    const change: ProtectedPathChange["change"] = !before ? "created" : !after ? "deleted" : "modified";
+    try {
+      if (before) {
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, before);
+      } else {
+        rmSync(path, { force: true });
+      }
+      changes.push({ file, change, reverted: true });
+    } catch {
+      changes.push({ file, change, reverted: false });
+    }
+  }
+  return changes;
+}
+
+/** One line per file: "- prd.json (modified, reverted)" */
+export function formatProtectedPathChanges(changes: ProtectedPathChange[], limit = 10): string {
+  const lines = changes.slice(0, limit).map((c) => `- ${c.file} (${c.change}, ${c.reverted ? "reverted" : "NOT reverted"})`);
+  if (changes.length > limit) lines.push(`- … ${changes.length - limit} more`);
+  return lines.join("\n");
+}
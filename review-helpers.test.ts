@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { execSync } from "node:child_process";
+import { runReview, parseReviewVerdict, formatReviewFindings, REVIEW_SCHEMA_FILE, type ReviewRequest, type ReviewVerdict } from "./review-helpers.js";
+import { stubBackend } from "./stub-backend.js";
+
+const TMP = join(process.cwd(), ".test-review-helpers");
+
+const request: ReviewRequest = {
+  workdir: TMP,
+  story: { id: "s1", title: "Add greeting", description: "Export a greeting", acceptanceCriteria: ["greeting says hello", "greeting is exported"] },
+  filesChanged: ["greeting.ts"],
+  warnings: ["No test files were modified or created."],
+  trigger: "warnings",
+  model: "review-model",
+};
+
+const verdict: ReviewVerdict = {
+  verdict: "reject",
+  summary: "The greeting never says hello.",
+  criteria: [
+    { criterion: "greeting says hello", met: false, reasoning: "greeting.ts exports 'hi'" },
+    { criterion: "greeting is exported", met: true, reasoning: "export const greeting" },
+  ],
+};
+
+beforeEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+  mkdirSync(TMP, { recursive: true });
+  execSync("git init -q && git config user.email t@t && git config user.name t", { cwd: TMP, stdio: "pipe" });
+  writeFileSync(join(TMP, "greeting.ts"), "export const greeting = '';\n");
+  execSync("git add -A && git commit -qm init", { cwd: TMP, stdio: "pipe" });
+  writeFileSync(join(TMP, "greeting.ts"), "export const greeting = 'hi';\n");
+});
+
+afterEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+});
+
+describe("runReview", () => {
+  it("runs a read-only session on the diff, criteria and warnings, and returns the verdict", async () => {
+    const backend = stubBackend(JSON.stringify(verdict));
+
+    const result = await runReview(backend, request);
+
+    expect(result).toMatchObject({ trigger: "warnings", sessionId: "stub-1", verdict });
+    expect(result.error).toBeUndefined();
+    const [sent] = backend.requests;
+    expect(sent).toMatchObject({ sandbox: "read-only", schemaFile: REVIEW_SCHEMA_FILE, model: "review-model", storyId: "s1" });
+    expect(sent!.prompt).toContain("1. greeting says hello\n2. greeting is exported");
+    expect(sent!.prompt).toContain("- No test files were modified or created.");
+    expect(sent!.prompt).toContain("+export const greeting = 'hi';");
+  });
+
+  it("returns an error and no verdict when the session fails or answers off-schema", async () => {
+    expect(await runReview(stubBackend("", { exitCode: 1 }), request)).toMatchObject({ error: "Review session exited with code 1" });
+    expect(await runReview(stubBackend("", { timedOut: true }), request)).toMatchObject({ error: "Review session timed out" });
+    const offSchema = await runReview(stubBackend("Looks good to me!"), request);
+    expect(offSchema.verdict).toBeUndefined();
+    expect(offSchema.error).toMatch(/didn't match the verdict schema/);
+  });
+
+  it("reports the session's usage and hands its events to onEvent, whatever the verdict", async () => {
+    const onEvent = () => {};
+    const events = [{ kind: "usage" as const, usage: { inputTokens: 1000, cachedInputTokens: 100, outputTokens: 200 } }];
+    const backend = stubBackend("", { exitCode: 1, events });
+
+    const result = await runReview(backend, { ...request, onEvent });
+
+    expect(result).toMatchObject({ error: "Review session exited with code 1", usage: { inputTokens: 1000, cachedInputTokens: 100, outputTokens: 200 } });
+    expect(backend.requests[0]!.onEvent).toBe(onEvent);
+  });
+});
+
+describe("review verdicts", () => {
+  it("parses fenced JSON and drops malformed criteria", () => {
+    const text = "```json\n" + JSON.stringify({ ...verdict, criteria: [...verdict.criteria, { criterion: "x" }] }) + "\n```";
+    expect(parseReviewVerdict(text)).toEqual(verdict);
+    expect(parseReviewVerdict(JSON.stringify({ ...verdict, verdict: "maybe" }))).toBeUndefined();
+  });
+
+  it("formats the summary and unmet criteria", () => {
+    expect(formatReviewFindings(verdict)).toBe("The greeting never says hello.\n- ✗ greeting says hello: greeting.ts exports 'hi'");
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Second-opinion review.
+ *
+ * The heuristic checks in output-verifier.ts only look at the shape of a change.
+ * When they have doubts (enough warnings to set requiresLLMReview), or when a
+ * story asks for it, a read-only agent session reads the diff and judges it
+ * against the acceptance criteria. Its answer is constrained by
+ * review-verdict-schema.json; a rejection fails the attempt, and the reviewer's
+ * reasons go into the next attempt's prompt.
+ */
+
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AgentBackend, AgentEvent } from "./agent-backends.js";
+import { getDiffContent } from "./output-verifier.js";
+import { usageFromEvents, type TokenUsage } from "./usage-helpers.js";
+
+export const REVIEW_SCHEMA_FILE = join(dirname(fileURLToPath(import.meta.url)), "review-verdict-schema.json");
+
+/** Diffs past this are cut — the reviewer can still read the files */
+const MAX_REVIEW_DIFF_CHARS = 60000;
+
+/** Why the review ran: the story asks for it, the plugin always reviews, or verification warned enough */
+export type ReviewTrigger = "story" | "always" | "warnings";
+
+export interface CriterionVerdict {
+  criterion: string;
+  met: boolean;
+  reasoning: string;
+}
+
+export interface ReviewVerdict {
+  verdict: "approve" | "reject";
+  summary: string;
+  criteria: CriterionVerdict[];
+}
+
+export interface ReviewResult {
+  trigger: ReviewTrigger;
+  /** Missing when the session failed or its answer didn't match the schema */
+  verdict?: ReviewVerdict;
+  error?: string;
+  durationMs: number;
+  sessionId?: string;
+  /** What the session reported, whatever its outcome */
+  usage?: TokenUsage;
+}
+
+export interface ReviewStory {
+  id: string;
+  title: string;
+  description: string;
+  acceptanceCriteria?: string[];
+}
+
+export interface ReviewRequest {
+  /** Absolute workdir */
+  workdir: string;
+  story: ReviewStory;
+  /** Files the agent changed — new files don't show in the diff against HEAD */
+  filesChanged: string[];
+  /** Verification warnings the change passed with */
+  warnings: string[];
+  trigger: ReviewTrigger;
+  model: string;
+  debug?: boolean;
+  timeoutMs?: number;
+  stallTimeoutMs?: number;
+  processLabel?: string;
+  onEvent?: (event: AgentEvent) => void;
+  signal?: AbortSignal;
+}
+
+export function buildReviewPrompt(story: ReviewStory, diff: string, warnings: string[], filesChanged: string[] = []): string {
+  const parts = [
+    "CONTEXT: REVIEW PHASE",
+    "ROLE: You are reviewing another agent's change before it is committed. You are read-only: do not edit any files.",
+    "",
+    `Story: ${story.title} (ID: ${story.id})`,
+    story.description,
+    "",
+  ];
+
+  if (story.acceptanceCriteria?.length) {
+    parts.push("ACCEPTANCE CRITERIA:");
+    story.acceptanceCriteria.forEach((c, i) => parts.push(`${i + 1}. ${c}`));
+  } else {
+    parts.push("ACCEPTANCE CRITERIA: none given. Judge the diff against the description, as a single criterion.");
+  }
+
+  if (warnings.length > 0) {
+    parts.push("", "AUTOMATED CHECKS FLAGGED:");
+    for (const warning of warnings) parts.push(`- ${warning}`);
+  }
+
+  if (filesChanged.length > 0) parts.push("", `FILES CHANGED: ${filesChanged.join(", ")}`);
+
+  const shown = diff.length > MAX_REVIEW_DIFF_CHARS
+    ? `${diff.slice(0, MAX_REVIEW_DIFF_CHARS)}\n... (diff truncated at ${MAX_REVIEW_DIFF_CHARS} characters; read the files for the rest)`
+    : diff || "(empty diff)";
+  parts.push("", "DIFF (tracked files, against HEAD):", "```diff", shown, "```");
+
+  parts.push(
+    "",
+    "RULES:",
+    "- Judge each acceptance criterion against the diff. Read files in the repo when the diff alone doesn't settle it.",
+    "- A criterion is met only if the change implements it: not if it is merely mentioned, stubbed, or left as a TODO.",
+    "- Check whether the flagged warnings point at a real problem.",
+    "- Reject if any criterion is not met. Don't reject over style alone.",
+    "- Answer with the verdict JSON only.",
+  );
+  return parts.join("\n");
+}
+
+/** The verdict in a final message, or undefined when it doesn't match the schema */
+export function parseReviewVerdict(text: string): ReviewVerdict | undefined {
+  const body = text.trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n```$/, "$1");
+  try {
+    const parsed = JSON.parse(body) as Partial<ReviewVerdict>;
+    if ((parsed.verdict !== "approve" && parsed.verdict !== "reject") || typeof parsed.summary !== "string" || !Array.isArray(parsed.criteria)) {
+      return undefined;
+    }
+    const criteria = parsed.criteria.filter((c): c is CriterionVerdict =>
+      !!c && typeof c.criterion === "string" && typeof c.met === "boolean" && typeof c.reasoning === "string"
+    );
+    return { verdict: parsed.verdict, summary: parsed.summary, criteria };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Run a read-only review session. Never throws: a failed session comes back as `error` with no verdict. */
+export async function runReview(backend: AgentBackend, request: ReviewRequest): Promise<ReviewResult> {
+  const startedAt = Date.now();
+  let usage: TokenUsage | undefined;
+  const done = (result: Omit<ReviewResult, "trigger" | "durationMs" | "usage">): ReviewResult =>
+    ({ trigger: request.trigger, ...result, durationMs: Date.now() - startedAt, ...(usage && { usage }) });
+
+  try {
+    const run = await backend.start({
+      workdir: request.workdir,
+      prompt: buildReviewPrompt(request.story, getDiffContent(request.workdir, MAX_REVIEW_DIFF_CHARS + 1), request.warnings, request.filesChanged),
+      model: request.model,
+      sandbox: "read-only",
+      schemaFile: REVIEW_SCHEMA_FILE,
+      storyId: request.story.id,
+      debug: request.debug,
+      timeoutMs: request.timeoutMs,
+      stallTimeoutMs: request.stallTimeoutMs,
+      processLabel: request.processLabel,
+      onEvent: request.onEvent,
+      signal: request.signal,
+    }).result;
+    usage = usageFromEvents(run.events);
+
+    if (run.spawnError) return done({ error: `Review session failed to start: ${run.spawnError}` });
+    if (run.timedOut || run.stalled) return done({ error: `Review session ${run.timedOut ? "timed out" : "stalled"}`, sessionId: run.sessionId });
+    if (run.exitCode !== 0) return done({ error: `Review session exited with code ${run.exitCode}`, sessionId: run.sessionId });
+
+    const verdict = parseReviewVerdict(run.finalMessage);
+    if (!verdict) return done({ error: `Reviewer's answer didn't match the verdict schema: ${run.finalMessage.slice(0, 200)}`, sessionId: run.sessionId });
+    return done({ verdict, sessionId: run.sessionId });
+  } catch (err) {
+    return done({ error: `Review session failed: ${err instanceof Error ? err.message : String(err)}` });
+  }
+}
+
+/** The reviewer's summary and the criteria it found unmet, for a retry prompt or reject reason */
+export function formatReviewFindings(verdict: ReviewVerdict): string {
+  const lines = [verdict.summary];
+  for (const c of verdict.criteria.filter((c) => !c.met)) lines.push(`- ✗ ${c.criterion}: ${c.reasoning}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { execSync } from "node:child_process";
+import { getHeadCommit, rollbackFailedAttempt, snapshotTree } from "./rollback-helpers.js";
+import { FLAKY_REGISTRY_FILE } from "./flaky-helpers.js";
+
+const TMP = join(process.cwd(), ".test-rollback-helpers");
+const PATCHES = join(TMP, "..", ".test-rollback-patches");
+
+function initGit(dir: string) {
+  execSync("git init", { cwd: dir, stdio: "pipe" });
+  execSync("git config user.email test@test.com", { cwd: dir, stdio: "pipe" });
+  execSync("git config user.name Test", { cwd: dir, stdio: "pipe" });
+  writeFileSync(join(dir, "app.ts"), "export const version = 1;\n");
+  writeFileSync(join(dir, "progress.txt"), "# Progress\n");
+  execSync("git add -A && git commit -m init", { cwd: dir, stdio: "pipe" });
+}
+
+function simulateFailedAttempt(dir: string) {
+  writeFileSync(join(dir, "app.ts"), "export const version = 2; // half done\n");
+  writeFileSync(join(dir, "new-file.ts"), "export const wip = true;\n");
+  writeFileSync(join(dir, "progress.txt"), "# Progress\nFailed: story\n");
+  writeFileSync(join(dir, ".ralph-iterations.jsonl"), "{}\n");
+  writeFileSync(join(dir, FLAKY_REGISTRY_FILE), '{"version":1,"tests":{}}\n');
+}
+
+beforeEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+  rmSync(PATCHES, { recursive: true, force: true });
+  mkdirSync(TMP, { recursive: true });
+  initGit(TMP);
+});
+
+afterEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+  rmSync(PATCHES, { recursive: true, force: true });
+});
+
+describe("rollbackFailedAttempt", () => {
+  it("keep leaves the tree untouched", () => {
+    const snapshot = snapshotTree(TMP);
+    simulateFailedAttempt(TMP);
+    const result = rollbackFailedAttempt(TMP, "keep", snapshot, { dir: PATCHES, name: "attempt" });
+    expect(result).toEqual({ policy: "keep" });
+    expect(existsSync(join(TMP, "new-file.ts"))).toBe(true);
+  });
+
+  it("reset restores the pre-iteration tree but keeps Ralph state files", () => {
+    const head = getHeadCommit(TMP)!;
+    const snapshot = snapshotTree(TMP);
+    simulateFailedAttempt(TMP);
+    const result = rollbackFailedAttempt(TMP, "reset", snapshot, { dir: PATCHES, name: "attempt" });
+
+    expect(result.error).toBeUndefined();
+    expect(result.restoredTo).toBe(head);
+    expect(readFileSync(join(TMP, "app.ts"), "utf-8")).toBe("export const version = 1;\n");
+    expect(existsSync(join(TMP, "new-file.ts"))).toBe(false);
+    expect(readFileSync(join(TMP, "progress.txt"), "utf-8")).toContain("Failed: story");
+    expect(existsSync(join(TMP, ".ralph-iterations.jsonl"))).toBe(true);
+    expect(existsSync(join(TMP, FLAKY_REGISTRY_FILE))).toBe(true);
+  });
+
+  it("reset moves HEAD back when the agent committed", () => {
+    const head = getHeadCommit(TMP)!;
+    const snapshot = snapshotTree(TMP);
+    writeFileSync(join(TMP, "app.ts"), "export const version = 3;\n");
+    execSync("git commit -am wip", { cwd: TMP, stdio: "pipe" });
+
+    rollbackFailedAttempt(TMP, "reset", snapshot, { dir: PATCHES, name: "attempt" });
+    expect(getHeadCommit(TMP)).toBe(head);
+    expect(readFileSync(join(TMP, "app.ts"), "utf-8")).toBe("export const version = 1;\n");
+  });
+
+  it("stash saves a re-appliable patch of the attempt without state files", () => {
+    const snapshot = snapshotTree(TMP);
+    simulateFailedAttempt(TMP);
+    const result = rollbackFailedAttempt(TMP, "stash", snapshot, { dir: PATCHES, name: "attempt" });
+
+    expect(result.patchFile).toBe(join(PATCHES, "attempt.patch"));
+    const patch = readFileSync(result.patchFile!, "utf-8");
+    expect(patch).toContain("new-file.ts");
+    expect(patch).toContain("half done");
+    expect(patch).not.toContain("progress.txt");
+    expect(patch).not.toContain(FLAKY_REGISTRY_FILE);
+    expect(existsSync(join(TMP, "new-file.ts"))).toBe(false);
+
+    execSync(`git apply ${result.patchFile}`, { cwd: TMP, stdio: "pipe" });
+    expect(existsSync(join(TMP, "new-file.ts"))).toBe(true);
+  });
+
+  it("keeps the user's uncommitted and untracked work from before the iteration", () => {
+    mkdirSync(join(TMP, "checks"));
+    writeFileSync(join(TMP, "checks", "no-todo.mjs"), "export default () => null;\n");
+    writeFileSync(join(TMP, "app.ts"), "export const version = 1; // user edit\n");
+    writeFileSync(join(TMP, "staged.ts"), "export const staged = true;\n");
+    execSync("git add staged.ts", { cwd: TMP, stdio: "pipe" });
+    const snapshot = snapshotTree(TMP);
+
+    simulateFailedAttempt(TMP);
+    writeFileSync(join(TMP, "checks", "no-todo.mjs"), "export default () => null; // agent\n");
+    mkdirSync(join(TMP, "src"));
+    writeFileSync(join(TMP, "src", "wip.ts"), "export const wip = 1;\n");
+    const stashed = rollbackFailedAttempt(TMP, "stash", snapshot, { dir: PATCHES, name: "attempt" });
+
+    expect(stashed.error).toBeUndefined();
+    expect(readFileSync(join(TMP, "app.ts"), "utf-8")).toBe("export const version = 1; // user edit\n");
+    expect(readFileSync(join(TMP, "checks", "no-todo.mjs"), "utf-8")).toBe("export default () => null;\n");
+    expect(existsSync(join(TMP, "new-file.ts"))).toBe(false);
+    expect(existsSync(join(TMP, "src"))).toBe(false);
+    expect(execSync("git status --porcelain", { cwd: TMP, encoding: "utf-8" })).toContain("A  staged.ts");
+
+    // The patch holds only the attempt, on top of the user's edits
+    const patch = readFileSync(stashed.patchFile!, "utf-8");
+    expect(patch).toContain("-export const version = 1; // user edit");
+    expect(patch).not.toContain("staged.ts");
+    execSync(`git apply ${stashed.patchFile}`, { cwd: TMP, stdio: "pipe" });
+    expect(readFileSync(join(TMP, "app.ts"), "utf-8")).toBe("export const version = 2; // half done\n");
+
+    const reset = rollbackFailedAttempt(TMP, "reset", snapshot, { dir: PATCHES, name: "again" });
+    expect(reset.error).toBeUndefined();
+    expect(readFileSync(join(TMP, "app.ts"), "utf-8")).toBe("export const version = 1; // user edit\n");
+    expect(readFileSync(join(TMP, "checks", "no-todo.mjs"), "utf-8")).toBe("export default () => null;\n");
+  });
+
+  it("reports an error without a snapshot", () => {
+    const result = rollbackFailedAttempt(TMP, "reset", null, { dir: PATCHES, name: "attempt" });
+    expect(result.error).toBeTruthy();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Working-tree rollback after failed iterations.
+ *
+ * A failed Codex run leaves half-finished edits behind, and the next story
+ * starts on top of them. The per-loop `onFailure` policy decides what happens:
+ * - keep:  leave the tree as-is (legacy behavior)
+ * - stash: save the attempt as a patch file, then restore the pre-iteration tree
+ * - reset: restore the pre-iteration tree, discarding the attempt
+ *
+ * The tree is snapshotted before the agent runs — HEAD, the index, and every
+ * non-ignored file, uncommitted and untracked ones included — so a rollback
+ * undoes only what the attempt changed and the user's own work in progress
+ * survives. Ralph's own state files are never captured or reset.
+ */
+
+import { execSync } from "node:child_process";
+import { copyFileSync, existsSync, mkdirSync, readdirSync, rmdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { FLAKY_REGISTRY_FILE } from "./flaky-helpers.js";
+
+export type FailurePolicy = "keep" | "stash" | "reset";
+
+/** Files Ralph owns in the workdir — excluded from attempt patches and rollbacks */
+export const RALPH_STATE_FILES = ["prd.json", "progress.txt", ".ralph-context.json", ".ralph-iterations.jsonl", FLAKY_REGISTRY_FILE];
+
+/** The working tree before an iteration */
+export interface TreeSnapshot {
+  head: string;
+  /** Tree of what was staged */
+  index: string;
+  /** Tree of every non-ignored file, uncommitted and untracked ones included */
+  files: string;
+}
+
+export interface RollbackResult {
+  policy: FailurePolicy;
+  /** HEAD the tree was restored to */
+  restoredTo?: string;
+  /** Saved attempt patch (stash policy) */
+  patchFile?: string;
+  error?: string;
+}
+
+const STATE_EXCLUDES = RALPH_STATE_FILES.map((f) => `":(exclude)${f}"`).join(" ");
+
+function git(cmd: string, cwd: string, env?: NodeJS.ProcessEnv): string {
+  return execSync(`git ${cmd}`, {
+    cwd,
+    env,
+    encoding: "utf-8",
+    timeout: 30000,
+    stdio: ["pipe", "pipe", "pipe"],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+export function getHeadCommit(workdir: string): string | null {
+  try {
+    return git("rev-parse HEAD", workdir).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Tree of every non-ignored file, written through a scratch copy of the index so the real one is left alone */
+function writeWorkingTree(workdir: string): string {
+  const scratch = join(tmpdir(), `ralph-index-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`);
+  try {
+    const index = resolve(workdir, git("rev-parse --git-path index", workdir).trim());
+    // Starting from the real index, only changed files get hashed
+    if (existsSync(index)) copyFileSync(index, scratch);
+    const env = { ...process.env, GIT_INDEX_FILE: scratch };
+    git("add -A", workdir, env);
+    return git("write-tree", workdir, env).trim();
+  } finally {
+    rmSync(scratch, { force: true });
+  }
+}
+
+/** Snapshot the tree before the agent runs; null outside a git repository with a commit */
+export function snapshotTree(workdir: string): TreeSnapshot | null {
+  try {
+    return {
+      head: git("rev-parse HEAD", workdir).trim(),
+      index: git("write-tree", workdir).trim(),
+      files: writeWorkingTree(workdir),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Binary patch of everything the attempt changed since the snapshot (edits,
+ * new files and anything the agent committed), minus Ralph state files.
+ */
+export function captureAttemptPatch(workdir: string, snapshot: TreeSnapshot): string {
+  return git(`diff --binary --no-renames ${snapshot.files} ${writeWorkingTree(workdir)} -- . ${STATE_EXCLUDES}`, workdir);
+}
+
+/**
+ * Put the tree back the way the snapshot found it: HEAD moves back if the
+ * agent committed, every file the attempt changed or deleted is restored, files
+ * it created are removed and the index is staged as before. Files the attempt
+ * didn't touch — the user's uncommitted work among them — stay as they are.
+ */
+export function restoreSnapshot(workdir: string, snapshot: TreeSnapshot): void {
+  const created = git(`diff --name-only --no-renames --diff-filter=A ${snapshot.files} ${writeWorkingTree(workdir)} -- . ${STATE_EXCLUDES}`, workdir)
+    .split("\n")
+    .filter(Boolean);
+
+  git(`reset -q ${snapshot.head}`, workdir);
+  git(`checkout ${snapshot.files} -- . ${STATE_EXCLUDES}`, workdir);
+  for (const file of created) {
+    rmSync(join(workdir, file), { force: true });
+    removeEmptyParents(workdir, dirname(file));
+  }
+  git(`read-tree ${snapshot.index}`, workdir);
+}
+
+function removeEmptyParents(workdir: string, dir: string): void {
+  for (let d = dir; d !== "." && d !== ""; d = dirname(d)) {
+    const path = join(workdir, d);
+    if (!existsSync(path) || readdirSync(path).length > 0) return;
+    rmdirSync(path);
+  }
+}
+
+/**
+ * Apply a failure policy to the working tree after a failed iteration.
+ * Never throws — rollback problems are reported in the result.
+ */
+export function rollbackFailedAttempt(
+  workdir: string,
+  policy: FailurePolicy,
+  snapshot: TreeSnapshot | null,
+  patch: { dir: string; name: string }
+): RollbackResult {
+  if (policy === "keep") return { policy };
+  if (!snapshot) return { policy, error: "No pre-iteration snapshot recorded (not a git repository?)" };
+
+  const result: RollbackResult = { policy };
+  try {
+    if (policy === "stash") {
+      const diff = captureAttemptPatch(workdir, snapshot);
+      if (diff.trim()) {
+        mkdirSync(patch.dir, { recursive: true });
+        result.patchFile = join(patch.dir, `${patch.name}.patch`);
+        writeFileSync(result.patchFile, diff);
+      }
+    }
+    restoreSnapshot(workdir, snapshot);
+    result.restoredTo = snapshot.head;
+  } catch (err) {
+    result.error = (err as Error).message?.slice(0, 500);
+  }
+  return result;
+}
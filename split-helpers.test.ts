@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { runSplitPlanning, parseSplitProposal, describeSplitProposal, SPLIT_SCHEMA_FILE, type SplitRequest } from "./split-helpers.js";
+import { stubBackend } from "./stub-backend.js";
+
+const request: SplitRequest = {
+  workdir: process.cwd(),
+  story: { id: "s1", title: "Add CSV export", description: "Export reports as CSV", acceptanceCriteria: ["reports export as CSV"], targetFiles: ["src/export.ts"] },
+  failures: ["Attempt 1 [type_error]: src/export.ts(3,1): error TS2304: Cannot find name 'Row'."],
+  codebaseMap: "src/\n  export.ts",
+  trigger: "retries",
+  model: "planner-model",
+};
+
+const proposal = {
+  summary: "Build the serializer before wiring the command.",
+  children: [
+    { title: "Add a CSV serializer", description: "Serialize rows", acceptanceCriteria: ["quotes commas"], targetFiles: ["src/csv.ts"], dependsOn: [] },
+    { title: "Wire CSV into export", description: "Use the serializer", acceptanceCriteria: ["reports export as CSV"], targetFiles: ["src/export.ts"], dependsOn: [0] },
+  ],
+};
+
+describe("runSplitPlanning", () => {
+  it("runs a read-only session on the story, its failures and the map, and returns the proposal", async () => {
+    const backend = stubBackend(JSON.stringify(proposal));
+
+    const result = await runSplitPlanning(backend, request);
+
+    expect(result.error).toBeUndefined();
+    expect(result.proposal).toMatchObject({ ...proposal, trigger: "retries", sessionId: "stub-1" });
+    const [sent] = backend.requests;
+    expect(sent).toMatchObject({ sandbox: "read-only", schemaFile: SPLIT_SCHEMA_FILE, model: "planner-model", storyId: "s1" });
+    expect(sent!.prompt).toContain("CONTEXT: PLANNING PHASE");
+    expect(sent!.prompt).toContain("1. reports export as CSV");
+    expect(sent!.prompt).toContain("FAILED ATTEMPTS (1):\n- Attempt 1 [type_error]");
+    expect(sent!.prompt).toContain("CODEBASE MAP:\nsrc/");
+  });
+
+  it("returns an error and no proposal when the session fails or answers off-schema", async () => {
+    expect(await runSplitPlanning(stubBackend("", { exitCode: 1 }), request)).toMatchObject({ error: "Planning session exited with code 1" });
+    const offSchema = await runSplitPlanning(stubBackend("Split it in two."), request);
+    expect(offSchema.proposal).toBeUndefined();
+    expect(offSchema.error).toMatch(/didn't match the split schema/);
+  });
+
+  it("reports the session's usage and hands its events to onEvent", async () => {
+    const onEvent = () => {};
+    const events = [{ kind: "usage" as const, usage: { inputTokens: 1000, cachedInputTokens: 100, outputTokens: 200 } }];
+    const backend = stubBackend(JSON.stringify(proposal), { events });
+
+    const result = await runSplitPlanning(backend, { ...request, onEvent });
+
+    expect(result.usage).toEqual({ inputTokens: 1000, cachedInputTokens: 100, outputTokens: 200 });
+    expect(backend.requests[0]!.onEvent).toBe(onEvent);
+  });
+});
+
+describe("split proposals", () => {
+  it("parses fenced JSON, keeps only backward dependencies and needs 2 to 5 children", () => {
+    const forward = { ...proposal, children: [{ ...proposal.children[0]!, dependsOn: [1, 0] }, proposal.children[1]!] };
+    expect(parseSplitProposal("```json\n" + JSON.stringify(forward) + "\n```")).toEqual(proposal);
+    expect(parseSplitProposal(JSON.stringify({ ...proposal, children: [proposal.children[0]] }))).toBeUndefined();
+    expect(parseSplitProposal(JSON.stringify({ ...proposal, children: [...proposal.children, { title: "", description: "" }] }))).toBeUndefined();
+  });
+
+  it("describes the children in build order", () => {
+    expect(describeSplitProposal(proposal)).toBe("Split into 2 stories: Add a CSV serializer; Wire CSV into export (after 1)");
+  });
+});
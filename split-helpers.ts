@@ -0,0 +1,195 @@
+/**
+ * Story splitting.
+ *
+ * A story that keeps failing is often just too big for one agent session. When
+ * it exhausts its retries (or on request, for a story that looks too big up
+ * front), a read-only planning session reads the story, its failure history and
+ * the codebase map, and proposes 2–5 smaller child stories. Its answer is
+ * constrained by story-split-schema.json. index.ts inserts the children into
+ * prd.json under the original, which is marked split and passes once they all
+ * do — or parks the proposal on the story until someone approves it.
+ */
+
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AgentBackend, AgentEvent } from "./agent-backends.js";
+import { usageFromEvents, type TokenUsage } from "./usage-helpers.js";
+
+export const SPLIT_SCHEMA_FILE = join(dirname(fileURLToPath(import.meta.url)), "story-split-schema.json");
+
+export const MIN_SPLIT_CHILDREN = 2;
+export const MAX_SPLIT_CHILDREN = 5;
+
+/** Codebase maps past this are cut — the planner can still read the files */
+const MAX_SPLIT_MAP_CHARS = 20000;
+
+/** Why the split was planned: the story exhausted its retries, or someone asked */
+export type SplitTrigger = "retries" | "manual";
+
+export interface ProposedChild {
+  title: string;
+  description: string;
+  acceptanceCriteria: string[];
+  targetFiles: string[];
+  /** 0-based indexes of earlier children */
+  dependsOn: number[];
+}
+
+export interface SplitProposal {
+  summary: string;
+  children: ProposedChild[];
+  trigger: SplitTrigger;
+  proposedAt: string;
+  sessionId?: string;
+}
+
+export interface SplitResult {
+  /** Missing when the session failed or its answer didn't match the schema */
+  proposal?: SplitProposal;
+  error?: string;
+  durationMs: number;
+  /** What the session reported, whatever its outcome */
+  usage?: TokenUsage;
+}
+
+export interface SplitStory {
+  id: string;
+  title: string;
+  description: string;
+  acceptanceCriteria?: string[];
+  targetFiles?: string[];
+}
+
+export interface SplitRequest {
+  /** Absolute workdir */
+  workdir: string;
+  story: SplitStory;
+  /** One line per failed attempt, oldest first */
+  failures: string[];
+  codebaseMap: string;
+  trigger: SplitTrigger;
+  model: string;
+  debug?: boolean;
+  timeoutMs?: number;
+  stallTimeoutMs?: number;
+  processLabel?: string;
+  onEvent?: (event: AgentEvent) => void;
+  signal?: AbortSignal;
+}
+
+export function buildSplitPrompt(story: SplitStory, failures: string[], codebaseMap: string): string {
+  const parts = [
+    "CONTEXT: PLANNING PHASE",
+    "ROLE: You are breaking a story that is too big for one agent session into smaller stories. You are read-only: do not edit any files.",
+    "",
+    `Story: ${story.title} (ID: ${story.id})`,
+    story.description,
+    "",
+  ];
+
+  if (story.acceptanceCriteria?.length) {
+    parts.push("ACCEPTANCE CRITERIA:");
+    story.acceptanceCriteria.forEach((c, i) => parts.push(`${i + 1}. ${c}`));
+  }
+  if (story.targetFiles?.length) parts.push("", `TARGET FILES: ${story.targetFiles.join(", ")}`);
+
+  if (failures.length > 0) {
+    parts.push("", `FAILED ATTEMPTS (${failures.length}):`);
+    for (const failure of failures) parts.push(`- ${failure}`);
+  }
+
+  const map = codebaseMap.length > MAX_SPLIT_MAP_CHARS
+    ? `${codebaseMap.slice(0, MAX_SPLIT_MAP_CHARS)}\n... (map truncated)`
+    : codebaseMap;
+  if (map.trim()) parts.push("", "CODEBASE MAP:", map);
+
+  parts.push(
+    "",
+    "RULES:",
+    `- Propose ${MIN_SPLIT_CHILDREN} to ${MAX_SPLIT_CHILDREN} child stories that together deliver every acceptance criterion of the original.`,
+    "- Each child must be small enough to finish and validate in one session, and leave the project building.",
+    "- Give each child its own checkable acceptance criteria and the files it has to change.",
+    "- Use the failed attempts: split along where they went wrong.",
+    "- List children in build order; dependsOn may only name earlier children, by index.",
+    "- Answer with the proposal JSON only.",
+  );
+  return parts.join("\n");
+}
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v.trim() !== "") : [];
+
+/** The proposal in a final message, or undefined when it doesn't match the schema */
+export function parseSplitProposal(text: string): Pick<SplitProposal, "summary" | "children"> | undefined {
+  const body = text.trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n```$/, "$1");
+  try {
+    const parsed = JSON.parse(body) as { summary?: unknown; children?: unknown };
+    if (typeof parsed.summary !== "string" || !Array.isArray(parsed.children)) return undefined;
+    if (parsed.children.length < MIN_SPLIT_CHILDREN || parsed.children.length > MAX_SPLIT_CHILDREN) return undefined;
+
+    const children: ProposedChild[] = [];
+    for (const [i, raw] of (parsed.children as Array<Partial<ProposedChild> | null>).entries()) {
+      if (!raw || typeof raw.title !== "string" || !raw.title.trim() || typeof raw.description !== "string") return undefined;
+      // Only backward edges: the children must stay acyclic among themselves
+      const dependsOn = Array.isArray(raw.dependsOn)
+        ? [...new Set(raw.dependsOn.filter((d): d is number => Number.isInteger(d) && d >= 0 && d < i))]
+        : [];
+      children.push({
+        title: raw.title.trim(),
+        description: raw.description,
+        acceptanceCriteria: stringList(raw.acceptanceCriteria),
+        targetFiles: stringList(raw.targetFiles),
+        dependsOn,
+      });
+    }
+    return { summary: parsed.summary, children };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Run a read-only planning session. Never throws: a failed session comes back as `error` with no proposal. */
+export async function runSplitPlanning(backend: AgentBackend, request: SplitRequest): Promise<SplitResult> {
+  const startedAt = Date.now();
+  let usage: TokenUsage | undefined;
+  const done = (result: Omit<SplitResult, "durationMs" | "usage">): SplitResult =>
+    ({ ...result, durationMs: Date.now() - startedAt, ...(usage && { usage }) });
+
+  try {
+    const run = await backend.start({
+      workdir: request.workdir,
+      prompt: buildSplitPrompt(request.story, request.failures, request.codebaseMap),
+      model: request.model,
+      sandbox: "read-only",
+      schemaFile: SPLIT_SCHEMA_FILE,
+      storyId: request.story.id,
+      debug: request.debug,
+      timeoutMs: request.timeoutMs,
+      stallTimeoutMs: request.stallTimeoutMs,
+      processLabel: request.processLabel,
+      onEvent: request.onEvent,
+      signal: request.signal,
+    }).result;
+    usage = usageFromEvents(run.events);
+
+    if (run.spawnError) return done({ error: `Planning session failed to start: ${run.spawnError}` });
+    if (run.timedOut || run.stalled) return done({ error: `Planning session ${run.timedOut ? "timed out" : "stalled"}` });
+    if (run.exitCode !== 0) return done({ error: `Planning session exited with code ${run.exitCode}` });
+
+    const parsed = parseSplitProposal(run.finalMessage);
+    if (!parsed) return done({ error: `Planner's answer didn't match the split schema: ${run.finalMessage.slice(0, 200)}` });
+    return done({
+      proposal: { ...parsed, trigger: request.trigger, proposedAt: new Date().toISOString(), sessionId: run.sessionId },
+    });
+  } catch (err) {
+    return done({ error: `Planning session failed: ${err instanceof Error ? err.message : String(err)}` });
+  }
+}
+
+/** "Split into 2 stories: Add the parser; Wire it into the CLI (after 1)" */
+export function describeSplitProposal(proposal: Pick<SplitProposal, "children">): string {
+  const children = proposal.children.map((c) =>
+    c.dependsOn.length > 0 ? `${c.title} (after ${c.dependsOn.map((d) => d + 1).join(", ")})` : c.title
+  );
+  return `Split into ${proposal.children.length} stories: ${children.join("; ")}`;
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import {
+  findDependencyCycle,
+  validateStoryGraph,
+  getReadyStories,
+  getBlockedStories,
+  getDownstreamStories,
+  markDownstreamBlocked,
+  completeSplitParents,
+  clearPassedBlockers,
+  type GraphStory,
+} from "./story-graph.js";
+
+function story(id: string, overrides: Partial<GraphStory> = {}): GraphStory {
+  return { id, title: `Story ${id}`, priority: 10, passes: false, ...overrides };
+}
+
+describe("findDependencyCycle", () => {
+  it("returns null for an acyclic graph", () => {
+    const stories = [story("a"), story("b", { dependsOn: ["a"] }), story("c", { dependsOn: ["a", "b"] })];
+    expect(findDependencyCycle(stories)).toBeNull();
+  });
+
+  it("returns the cycle path", () => {
+    const stories = [story("a", { dependsOn: ["c"] }), story("b", { dependsOn: ["a"] }), story("c", { dependsOn: ["b"] })];
+    const cycle = findDependencyCycle(stories);
+    expect(cycle).not.toBeNull();
+    expect(cycle![0]).toBe(cycle![cycle!.length - 1]);
+    expect(new Set(cycle)).toEqual(new Set(["a", "b", "c"]));
+  });
+});
+
+describe("validateStoryGraph", () => {
+  it("rejects unknown dependencies", () => {
+    expect(validateStoryGraph([story("a", { dependsOn: ["missing"] })])).toContain("unknown story: missing");
+  });
+
+  it("rejects self-dependencies", () => {
+    expect(validateStoryGraph([story("a", { dependsOn: ["a"] })])).toContain("cannot depend on itself");
+  });
+
+  it("rejects cycles", () => {
+    const stories = [story("a", { dependsOn: ["b"] }), story("b", { dependsOn: ["a"] })];
+    expect(validateStoryGraph(stories)).toContain("Dependency cycle detected");
+  });
+
+  it("accepts a valid graph", () => {
+    expect(validateStoryGraph([story("a"), story("b", { dependsOn: ["a"] })])).toBeNull();
+  });
+});
+
+describe("getReadyStories", () => {
+  it("only returns stories whose dependencies pass, in priority order", () => {
+    const stories = [
+      story("types", { priority: 5 }),
+      story("feature", { priority: 1, dependsOn: ["types"] }),
+      story("docs", { priority: 3 }),
+    ];
+    expect(getReadyStories(stories).map((s) => s.id)).toEqual(["docs", "types"]);
+
+    stories[0]!.passes = true;
+    expect(getReadyStories(stories).map((s) => s.id)).toEqual(["feature", "docs"]);
+  });
+
+  it("honours the exclude set", () => {
+    const stories = [story("a", { priority: 1 }), story("b", { priority: 2 })];
+    expect(getReadyStories(stories, new Set(["a"])).map((s) => s.id)).toEqual(["b"]);
+  });
+});
+
+describe("getBlockedStories", () => {
+  it("reports what is blocking each pending story", () => {
+    const stories = [story("a"), story("b", { dependsOn: ["a"] }), story("c", { passes: true, dependsOn: ["a"] })];
+    const blocked = getBlockedStories(stories);
+    expect(blocked).toHaveLength(1);
+    expect(blocked[0]!.id).toBe("b");
+    expect(blocked[0]!.blockedBy).toEqual(["a"]);
+    expect(blocked[0]!.reason).toContain("Story a");
+  });
+});
+
+describe("markDownstreamBlocked", () => {
+  it("marks transitive dependents of a skipped story", () => {
+    const stories = [
+      story("a"),
+      story("b", { dependsOn: ["a"] }),
+      story("c", { dependsOn: ["b"] }),
+      story("d"),
+    ];
+    expect(getDownstreamStories("a", stories).map((s) => s.id)).toEqual(["b", "c"]);
+
+    const marked = markDownstreamBlocked("a", stories);
+    expect(marked).toEqual(["b", "c"]);
+    expect(stories[2]!.blockedBy).toEqual(["a"]);
+    expect(stories[3]!.blockedBy).toBeUndefined();
+
+    // Idempotent
+    expect(markDownstreamBlocked("a", stories)).toEqual([]);
+
+    const blocked = getBlockedStories(stories).find((b) => b.id === "c");
+    expect(blocked!.reason).toContain("skipped");
+  });
+});
+
+describe("clearPassedBlockers", () => {
+  it("drops skipped upstream stories from blockedBy once they pass", () => {
+    const stories = [
+      story("a"),
+      story("b"),
+      story("c", { dependsOn: ["a", "b"] }),
+      story("d", { dependsOn: ["c"] }),
+    ];
+    markDownstreamBlocked("a", stories);
+    markDownstreamBlocked("b", stories);
+    stories[0]!.passes = true;
+
+    expect(clearPassedBlockers(stories)).toEqual(["c", "d"]);
+    expect(stories[2]!.blockedBy).toEqual(["b"]);
+    stories[1]!.passes = true;
+    expect(clearPassedBlockers(stories)).toEqual(["c", "d"]);
+    expect(stories[3]!.blockedBy).toBeUndefined();
+    expect(clearPassedBlockers(stories)).toEqual([]);
+  });
+});
+
+describe("completeSplitParents", () => {
+  it("holds a split story until its children pass, then passes it", () => {
+    const stories = [
+      story("a", { splitInto: ["a1", "a2"] }),
+      story("a1", { passes: true }),
+      story("a2", { splitInto: ["a2x"] }),
+      story("a2x"),
+      story("b", { dependsOn: ["a"] }),
+    ];
+    expect(getReadyStories(stories).map((s) => s.id)).toEqual(["a2x"]);
+    expect(getBlockedStories(stories).find((b) => b.id === "a")!.reason).toBe("Split; waiting on: Story a2");
+    expect(completeSplitParents(stories)).toEqual([]);
+
+    stories[3]!.passes = true;
+    expect(completeSplitParents(stories)).toEqual(["a2", "a"]);
+    expect(getReadyStories(stories).map((s) => s.id)).toEqual(["b"]);
+  });
+});
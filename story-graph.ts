@@ -0,0 +1,215 @@
+/**
+ * Story dependency graph helpers for prd.json.
+ *
+ * Stories may declare `dependsOn: string[]` — a story is only runnable once
+ * every story it depends on has `passes: true`. The graph must stay acyclic;
+ * ralph_add_story / ralph_edit_story refuse writes that would introduce a cycle.
+ *
+ * A story that was split (`splitInto`) never runs itself: it waits on its
+ * children and passes once they all do.
+ */
+
+// Minimal story shape (index.ts owns the full Story type)
+export interface GraphStory {
+  id: string;
+  title: string;
+  priority: number;
+  passes: boolean;
+  dependsOn?: string[];
+  /** Upstream story IDs that were skipped after exhausting retries */
+  blockedBy?: string[];
+  /** Child story IDs this story was split into */
+  splitInto?: string[];
+}
+
+export interface BlockedStory {
+  id: string;
+  title: string;
+  blockedBy: string[];
+  reason: string;
+}
+
+/**
+ * Find a dependency cycle in the story graph.
+ * Returns the cycle as a list of story IDs (first ID repeated at the end), or null.
+ */
+export function findDependencyCycle(stories: GraphStory[]): string[] | null {
+  const byId = new Map(stories.map((s) => [s.id, s]));
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const current = state.get(id);
+    if (current === "done") return null;
+    if (current === "visiting") {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const dep of byId.get(id)?.dependsOn || []) {
+      if (!byId.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const story of stories) {
+    const cycle = visit(story.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Validate the dependency graph before writing prd.json.
+ * Returns an error message, or null when the graph is valid.
+ */
+export function validateStoryGraph(stories: GraphStory[]): string | null {
+  const ids = new Set(stories.map((s) => s.id));
+
+  for (const story of stories) {
+    for (const dep of story.dependsOn || []) {
+      if (dep === story.id) return `Story ${story.id} cannot depend on itself`;
+      if (!ids.has(dep)) return `Story ${story.id} depends on unknown story: ${dep}`;
+    }
+  }
+
+  const cycle = findDependencyCycle(stories);
+  if (cycle) return `Dependency cycle detected: ${cycle.join(" → ")}`;
+
+  return null;
+}
+
+/**
+ * Story IDs currently preventing this story from running:
+ * unmet dependencies, skipped upstream stories and split children that still don't pass.
+ */
+export function getBlockingStories(story: GraphStory, stories: GraphStory[]): string[] {
+  const byId = new Map(stories.map((s) => [s.id, s]));
+  const blockers = new Set<string>();
+
+  for (const dep of story.dependsOn || []) {
+    if (!byId.get(dep)?.passes) blockers.add(dep);
+  }
+  for (const upstream of story.blockedBy || []) {
+    if (!byId.get(upstream)?.passes) blockers.add(upstream);
+  }
+  for (const child of story.splitInto || []) {
+    if (!byId.get(child)?.passes) blockers.add(child);
+  }
+
+  return [...blockers];
+}
+
+/**
+ * Pending stories whose dependencies all pass, in priority order. Split stories are never ready.
+ */
+export function getReadyStories<T extends GraphStory>(stories: T[], exclude?: Set<string>): T[] {
+  return stories
+    .filter((s) => !s.passes && !s.splitInto?.length && !exclude?.has(s.id))
+    .filter((s) => getBlockingStories(s, stories).length === 0)
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Pending stories that can't run yet, with what is blocking them.
+ */
+export function getBlockedStories(stories: GraphStory[]): BlockedStory[] {
+  const byId = new Map(stories.map((s) => [s.id, s]));
+  const blocked: BlockedStory[] = [];
+
+  for (const story of stories) {
+    if (story.passes) continue;
+    const blockers = getBlockingStories(story, stories);
+    if (blockers.length === 0) continue;
+
+    const skipped = blockers.filter((id) => story.blockedBy?.includes(id));
+    const reason = skipped.length > 0
+      ? `Upstream story skipped after max retries: ${skipped.join(", ")}`
+      : story.splitInto?.length
+        ? `Split; waiting on: ${blockers.map((id) => byId.get(id)?.title || id).join(", ")}`
+        : `Waiting on: ${blockers.map((id) => byId.get(id)?.title || id).join(", ")}`;
+
+    blocked.push({ id: story.id, title: story.title, blockedBy: blockers, reason });
+  }
+
+  return blocked;
+}
+
+/**
+ * All stories that transitively depend on the given story.
+ */
+export function getDownstreamStories<T extends GraphStory>(storyId: string, stories: T[]): T[] {
+  const downstream = new Set<string>();
+  const queue = [storyId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const story of stories) {
+      if (downstream.has(story.id)) continue;
+      if (story.dependsOn?.includes(current)) {
+        downstream.add(story.id);
+        queue.push(story.id);
+      }
+    }
+  }
+
+  return stories.filter((s) => downstream.has(s.id));
+}
+
+/**
+ * Mark every pending story downstream of a skipped story as blocked by it.
+ * Returns the IDs that were newly marked (mutates the stories in place).
+ */
+export function markDownstreamBlocked(skippedId: string, stories: GraphStory[]): string[] {
+  const marked: string[] = [];
+  for (const story of getDownstreamStories(skippedId, stories)) {
+    if (story.passes) continue;
+    const blockedBy = story.blockedBy || [];
+    if (blockedBy.includes(skippedId)) continue;
+    story.blockedBy = [...blockedBy, skippedId];
+    marked.push(story.id);
+  }
+  return marked;
+}
+
+/**
+ * Drop blockedBy entries for upstream stories that pass now.
+ * Returns the IDs of stories that were changed (mutates the stories in place).
+ */
+export function clearPassedBlockers(stories: GraphStory[]): string[] {
+  const passing = new Set(stories.filter((s) => s.passes).map((s) => s.id));
+  const cleared: string[] = [];
+  for (const story of stories) {
+    if (!story.blockedBy?.some((id) => passing.has(id))) continue;
+    const blockedBy = story.blockedBy.filter((id) => !passing.has(id));
+    story.blockedBy = blockedBy.length > 0 ? blockedBy : undefined;
+    cleared.push(story.id);
+  }
+  return cleared;
+}
+
+/**
+ * Mark split stories whose children all pass as passing, parents of parents included.
+ * Returns the IDs that were newly marked (mutates the stories in place).
+ */
+export function completeSplitParents(stories: GraphStory[]): string[] {
+  const byId = new Map(stories.map((s) => [s.id, s]));
+  const completed: string[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const story of stories) {
+      if (story.passes || !story.splitInto?.length) continue;
+      if (!story.splitInto.every((id) => byId.get(id)?.passes)) continue;
+      story.passes = true;
+      completed.push(story.id);
+      changed = true;
+    }
+  }
+  return completed;
+}
@@ -0,0 +1,34 @@
+/**
+ * Test double for an AgentBackend, shared by the tests of helpers that run a
+ * read-only agent session (review, story splitting).
+ */
+
+import type { AgentBackend, AgentRunRequest, AgentRunResult } from "./agent-backends.js";
+
+/** Backend that records the request and answers with a canned final message */
+export function stubBackend(finalMessage: string, overrides: Partial<AgentRunResult> = {}): AgentBackend & { requests: AgentRunRequest[] } {
+  const requests: AgentRunRequest[] = [];
+  return {
+    name: "stub",
+    requests,
+    start(request) {
+      requests.push(request);
+      return {
+        kill: () => {},
+        result: Promise.resolve({
+          backend: "stub",
+          exitCode: 0,
+          timedOut: false,
+          stalled: false,
+          stdout: "",
+          events: [],
+          finalMessage,
+          sessionId: "stub-1",
+          activityInsights: "",
+          activityStats: {} as AgentRunResult["activityStats"],
+          ...overrides,
+        }),
+      };
+    },
+  };
+}
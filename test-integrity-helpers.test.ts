@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { execSync } from "node:child_process";
+import { compareTestInventory, formatTestInventoryDiff } from "./test-integrity-helpers.js";
+
+const TMP = join(process.cwd(), ".test-test-integrity");
+
+const suite = (...tests: string[]) => `describe("auth", () => {\n${tests.join("\n")}\n});\n`;
+const login = `  it("logs in", () => {\n    expect(login("a")).toBe(true);\n    expect(login("")).toBe(false);\n  });`;
+const logout = `  it("logs out", () => {\n    expect(logout()).toBe(true);\n  });`;
+
+beforeEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+  mkdirSync(TMP, { recursive: true });
+  execSync("git init -q && git config user.email t@t && git config user.name t", { cwd: TMP, stdio: "pipe" });
+  writeFileSync(join(TMP, "auth.test.ts"), suite(login, logout));
+  writeFileSync(join(TMP, "auth.ts"), "export const login = (u: string) => !!u;\n");
+  execSync("git add -A && git commit -qm init", { cwd: TMP, stdio: "pipe" });
+});
+
+afterEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+});
+
+describe("compareTestInventory", () => {
+  it("reports a deleted test by name", () => {
+    writeFileSync(join(TMP, "auth.test.ts"), suite(login));
+
+    const diff = compareTestInventory(TMP);
+    expect(diff).toMatchObject({ testsBefore: 2, testsAfter: 1, files: [{ file: "auth.test.ts", removedTests: ["logs out"] }] });
+    expect(formatTestInventoryDiff(diff)).toBe('- auth.test.ts: 2 → 1 tests (removed "logs out"), expect calls 3 → 2');
+  });
+
+  it("reports added .skip/.only and removed assertions", () => {
+    writeFileSync(join(TMP, "auth.test.ts"), suite(login.replace('\n    expect(login("")).toBe(false);', "").replace("it(", "it.only("), logout.replace("it(", "it.skip(")));
+
+    const diff = compareTestInventory(TMP);
+    expect(diff.files).toEqual([{
+      file: "auth.test.ts", testsBefore: 2, testsAfter: 0, removedTests: [], skipsAdded: 1, onlysAdded: 1, expectsBefore: 3, expectsAfter: 2,
+    }]);
+  });
+
+  it("doesn't count tests moved to another file, or source-only changes", () => {
+    writeFileSync(join(TMP, "auth.ts"), "export const login = (u: string) => u.length > 0;\n");
+    expect(compareTestInventory(TMP)).toEqual({ files: [], testsBefore: 0, testsAfter: 0 });
+
+    writeFileSync(join(TMP, "auth.test.ts"), suite(login));
+    writeFileSync(join(TMP, "logout.test.ts"), suite(logout));
+    expect(compareTestInventory(TMP)).toEqual({ files: [], testsBefore: 2, testsAfter: 2 });
+  });
+});
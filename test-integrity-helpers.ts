@@ -0,0 +1,124 @@
+/**
+ * Test inventory before and after an iteration.
+ *
+ * An agent can turn a red suite green by deleting the failing test, skipping it
+ * or loosening its assertions. Every test file the diff touches is compared at
+ * HEAD and in the working tree: tests counted the way the codebase map counts
+ * them (summarizeTestFile), plus test names, `.skip`/`.only` markers and
+ * `expect` calls.
+ */
+
+import { execFileSync } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { summarizeTestFile } from "./context-generator.js";
+
+const TEST_FILE = /\.(?:test|spec)\.[cm]?[jt]sx?$|(?:^|\/)__tests__\//;
+
+export interface TestFileDelta {
+  file: string;
+  testsBefore: number;
+  testsAfter: number;
+  /** Test names gone from every touched file — a test moved to another file isn't removed */
+  removedTests: string[];
+  skipsAdded: number;
+  onlysAdded: number;
+  expectsBefore: number;
+  expectsAfter: number;
+}
+
+export interface TestInventoryDiff {
+  /** Touched test files that lost tests or assertions, or gained skips */
+  files: TestFileDelta[];
+  /** Totals over every touched test file */
+  testsBefore: number;
+  testsAfter: number;
+}
+
+interface TestFileScan {
+  tests: number;
+  names: string[];
+  skips: number;
+  onlys: number;
+  expects: number;
+}
+
+function scanTestFile(content: string): TestFileScan {
+  const count = (pattern: RegExp) => (content.match(pattern) ?? []).length;
+  return {
+    tests: summarizeTestFile(content).testCount,
+    names: [...content.matchAll(/\b(?:it|test)(?:\.\w+)?\s*\(\s*(["'`])(.+?)\1/g)].map((m) => m[2]!),
+    skips: count(/\b(?:it|test|describe)\.(?:skip|todo)\s*\(|\bx(?:it|test|describe)\s*\(/g),
+    onlys: count(/\b(?:it|test|describe)\.only\s*\(|\bf(?:it|describe)\s*\(/g),
+    expects: count(/\bexpect\s*\(|\bassert(?:\.\w+)?\s*\(/g),
+  };
+}
+
+function git(workdir: string, args: string[]): string {
+  return execFileSync("git", args, { cwd: workdir, encoding: "utf-8", timeout: 10000, stdio: ["pipe", "pipe", "pipe"], maxBuffer: 64 * 1024 * 1024 });
+}
+
+/** Compare each test file the working tree changed against its HEAD version */
+export function compareTestInventory(workdir: string): TestInventoryDiff {
+  let touched: string[];
+  try {
+    touched = [...new Set([
+      ...git(workdir, ["diff", "--name-only", "--no-renames", "HEAD"]).split("\n"),
+      ...git(workdir, ["ls-files", "--others", "--exclude-standard"]).split("\n"),
+    ])].filter((f) => f && TEST_FILE.test(f));
+  } catch {
+    return { files: [], testsBefore: 0, testsAfter: 0 };
+  }
+
+  const scans = touched.map((file) => {
+    let before = "";
+    try { before = git(workdir, ["show", `HEAD:${file}`]); } catch { /* new file */ }
+    const path = join(workdir, file);
+    const after = existsSync(path) ? readFileSync(path, "utf-8") : "";
+    return { file, before: scanTestFile(before), after: scanTestFile(after) };
+  });
+
+  const total = (pick: (scan: TestFileScan) => number, side: "before" | "after") => scans.reduce((n, s) => n + pick(s[side]), 0);
+  const testsBefore = total((s) => s.tests, "before");
+  const testsAfter = total((s) => s.tests, "after");
+  // Tests and assertions moved between touched files don't count as lost
+  const lostTests = testsAfter < testsBefore;
+  const lostExpects = total((s) => s.expects, "after") < total((s) => s.expects, "before");
+  const namesAfter = new Set(scans.flatMap((s) => s.after.names));
+
+  const files: TestFileDelta[] = [];
+  for (const { file, before, after } of scans) {
+    const delta: TestFileDelta = {
+      file,
+      testsBefore: before.tests,
+      testsAfter: after.tests,
+      removedTests: [...new Set(before.names.filter((n) => !namesAfter.has(n)))],
+      skipsAdded: Math.max(0, after.skips - before.skips),
+      onlysAdded: Math.max(0, after.onlys - before.onlys),
+      expectsBefore: before.expects,
+      expectsAfter: after.expects,
+    };
+    const weakened = delta.removedTests.length > 0 || delta.skipsAdded > 0 || delta.onlysAdded > 0
+      || (lostTests && delta.testsAfter < delta.testsBefore) || (lostExpects && delta.expectsAfter < delta.expectsBefore);
+    if (weakened) files.push(delta);
+  }
+
+  return { files: files.sort((a, b) => a.file.localeCompare(b.file)), testsBefore, testsAfter };
+}
+
+/** One line per file: "- a.test.ts: 5 → 3 tests (removed "x", "y"), +1 .skip, expect calls 10 → 6" */
+export function formatTestInventoryDiff(diff: TestInventoryDiff, limit = 10): string {
+  const lines = diff.files.slice(0, limit).map((f) => {
+    const parts: string[] = [];
+    if (f.testsAfter !== f.testsBefore || f.removedTests.length > 0) {
+      const removed = f.removedTests.slice(0, 5).map((n) => `"${n}"`).join(", ");
+      parts.push(`${f.testsBefore} → ${f.testsAfter} tests${removed ? ` (removed ${removed}${f.removedTests.length > 5 ? ", …" : ""})` : ""}`);
+    }
+    if (f.skipsAdded > 0) parts.push(`+${f.skipsAdded} .skip`);
+    if (f.onlysAdded > 0) parts.push(`+${f.onlysAdded} .only`);
+    if (f.expectsAfter < f.expectsBefore) parts.push(`expect calls ${f.expectsBefore} → ${f.expectsAfter}`);
+    return `- ${f.file}: ${parts.join(", ")}`;
+  });
+  if (diff.files.length > limit) lines.push(`- … ${diff.files.length - limit} more files`);
+  return lines.join("\n");
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import {
+  parseJUnitXml,
+  parseTap,
+  parseJestJson,
+  parseTscDiagnostics,
+  readValidationReport,
+  formatReportFailures,
+  splitByBaseline,
+} from "./test-report-helpers.js";
+
+const JUNIT = `<?xml version="1.0" encoding="UTF-8" ?>
+<testsuites name="vitest tests" tests="3" failures="1" errors="0">
+  <testsuite name="src/math.test.ts" tests="3" failures="1">
+    <testcase classname="src/math.test.ts" name="math &gt; adds" time="0.001"></testcase>
+    <testcase classname="src/math.test.ts" name="math &gt; divides" time="0.002">
+      <failure message="expected 2 to be 3 // Object.is equality" type="AssertionError">
+AssertionError: expected 2 to be 3 // Object.is equality
+ ❯ src/math.test.ts:12:21
+      </failure>
+    </testcase>
+    <testcase classname="src/math.test.ts" name="math &gt; skipped"><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+const TAP = `TAP version 13
+# Subtest: parses input
+ok 1 - parses input
+not ok 2 - rejects bad input
+  ---
+  duration_ms: 1.2
+  message: 'Expected values to be strictly equal'
+  location: '/repo/test/parse.test.js:20:3'
+  ...
+not ok 3 - later feature # TODO
+1..3
+`;
+
+const JEST = JSON.stringify({
+  numTotalTests: 4,
+  numFailedTests: 2,
+  testResults: [
+    {
+      name: "/repo/src/auth.test.ts",
+      status: "failed",
+      message: "",
+      assertionResults: [
+        { fullName: "auth logs in", status: "passed", failureMessages: [] },
+        { fullName: "auth rejects bad password", status: "failed", location: { line: 18, column: 5 }, failureMessages: ["Error: expect(received).toBe(expected)\n\nExpected: 401\nReceived: 200"] },
+      ],
+    },
+    {
+      name: "/repo/src/broken.test.ts",
+      status: "failed",
+      message: "SyntaxError: Unexpected token (3:4)",
+      assertionResults: [],
+    },
+  ],
+});
+
+describe("report parsers", () => {
+  it("parses JUnit XML failures with the location from the stack", () => {
+    const report = parseJUnitXml(JUNIT)!;
+    expect(report.tests).toBe(3);
+    expect(report.failures).toEqual([{
+      name: "src/math.test.ts > math > divides",
+      file: "src/math.test.ts",
+      line: 12,
+      message: "expected 2 to be 3 // Object.is equality",
+      format: "junit",
+    }]);
+  });
+
+  it("parses TAP, skipping TODO points", () => {
+    const report = parseTap(TAP)!;
+    expect(report.tests).toBe(3);
+    expect(report.failures).toEqual([expect.objectContaining({
+      name: "rejects bad input",
+      file: "/repo/test/parse.test.js",
+      line: 20,
+      message: "Expected values to be strictly equal",
+    })]);
+    expect(parseTap("everything is ok 1 time")).toBeUndefined();
+  });
+
+  it("parses vitest/jest JSON, including suites that failed to load", () => {
+    const report = parseJestJson(JEST)!;
+    expect(report.tests).toBe(4);
+    expect(report.failures.map((f) => [f.name, f.file, f.line])).toEqual([
+      ["auth rejects bad password", "/repo/src/auth.test.ts", 18],
+      ["/repo/src/broken.test.ts", "/repo/src/broken.test.ts", undefined],
+    ]);
+    expect(parseJestJson("not json")).toBeUndefined();
+  });
+
+  it("parses tsc diagnostics in plain and pretty form", () => {
+    const report = parseTscDiagnostics([
+      "src/a.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "src/b.ts:3:1 - error TS2304: Cannot find name 'foo'.",
+      "Found 2 errors.",
+    ].join("\n"))!;
+    expect(report.failures).toEqual([
+      { name: "TS2322", file: "src/a.ts", line: 12, message: "Type 'string' is not assignable to type 'number'.", format: "tsc" },
+      { name: "TS2304", file: "src/b.ts", line: 3, message: "Cannot find name 'foo'.", format: "tsc" },
+    ]);
+  });
+});
+
+describe("readValidationReport", () => {
+  const dir = join(process.cwd(), ".test-report-helpers");
+
+  beforeEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("combines a report file with tsc diagnostics from the output", () => {
+    const reportFile = join(dir, "junit.xml");
+    writeFileSync(reportFile, JUNIT);
+    const report = readValidationReport("src/a.ts(1,1): error TS1005: ';' expected.\nnot ok 1 - ignored\n1..1", reportFile)!;
+
+    expect(report.formats).toEqual(["junit", "tsc"]);
+    expect(report).toMatchObject({ tests: 3, failed: 2, reportFile });
+    expect(formatReportFailures(report)).toBe([
+      "- src/math.test.ts > math > divides (src/math.test.ts:12): expected 2 to be 3 // Object.is equality",
+      "- TS1005 (src/a.ts:1): ';' expected.",
+    ].join("\n"));
+  });
+
+  it("finds a JSON report embedded in command output", () => {
+    const report = readValidationReport(`> vitest run --reporter=json\n${JEST}\n`)!;
+    expect(report.formats).toEqual(["json"]);
+    expect(report.failed).toBe(2);
+  });
+
+  it("is undefined for plain output", () => {
+    expect(readValidationReport("Error: something broke", join(dir, "missing.xml"))).toBeUndefined();
+  });
+
+  it("notes failures beyond the listed limit", () => {
+    const tsc = Array.from({ length: 4 }, (_, i) => `src/a.ts(${i + 1},1): error TS1005: ';' expected.`).join("\n");
+    expect(formatReportFailures(readValidationReport(tsc)!, 2).split("\n")).toEqual([
+      "- TS1005 (src/a.ts:1): ';' expected.",
+      "- TS1005 (src/a.ts:2): ';' expected.",
+      "- … 2 more",
+    ]);
+  });
+});
+
+describe("splitByBaseline", () => {
+  it("matches failures across runs by name and file, not line", () => {
+    const baseline = readValidationReport([
+      "src/a.ts(10,1): error TS2304: Cannot find name 'legacy'.",
+      "src/b.ts(3,1): error TS2304: Cannot find name 'old'.",
+    ].join("\n"))!;
+    const after = readValidationReport([
+      "src/a.ts(14,1): error TS2304: Cannot find name 'legacy'.",
+      "src/a.ts(20,1): error TS2304: Cannot find name 'fresh'.",
+    ].join("\n"))!;
+
+    const { introduced, preExisting } = splitByBaseline(after, baseline);
+    expect(preExisting.map((f) => f.line)).toEqual([14]);
+    expect(introduced.map((f) => f.message)).toEqual(["Cannot find name 'fresh'."]);
+  });
+
+  it("makes absolute report paths relative to the checkout", () => {
+    const report = readValidationReport(JEST, undefined, "/repo")!;
+    expect(report.failures.map((f) => [f.name, f.file])).toEqual([
+      ["auth rejects bad password", "src/auth.test.ts"],
+      ["src/broken.test.ts", "src/broken.test.ts"],
+    ]);
+  });
+});
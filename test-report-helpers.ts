@@ -0,0 +1,304 @@
+/**
+ * Machine-readable test reports from validation runs.
+ *
+ * Validation output is otherwise an opaque, truncated blob. When the command
+ * writes a report (JUnit XML, TAP, vitest/jest `--reporter=json`) or prints
+ * `tsc --pretty false` diagnostics, the failures are parsed into a typed
+ * ValidationReport: failing test names, file:line and messages — what the next
+ * attempt actually needs to see.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { relative, isAbsolute } from "node:path";
+
+export type ReportFormat = "junit" | "tap" | "json" | "tsc";
+
+export interface TestFailure {
+  /** Test name ("suite > test"), or the TS error code for tsc diagnostics */
+  name: string;
+  file?: string;
+  line?: number;
+  message: string;
+  format: ReportFormat;
+}
+
+export interface ValidationReport {
+  formats: ReportFormat[];
+  /** Total tests run, when a test report says */
+  tests?: number;
+  /** Failing tests and diagnostics — may exceed failures.length */
+  failed: number;
+  failures: TestFailure[];
+  /** failureKey of every failure, past the listed ones too — what runs are compared by */
+  keys?: string[];
+  /** Report file the results were read from */
+  reportFile?: string;
+}
+
+const MAX_FAILURES = 50;
+const MAX_MESSAGE = 1000;
+
+interface ParsedReport {
+  format: ReportFormat;
+  tests?: number;
+  failures: TestFailure[];
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+function xmlAttrs(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of tag.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) attrs[m[1]!] = decodeXml(m[2]!);
+  return attrs;
+}
+
+/** First source location in a stack trace or message: "src/a.test.ts:12:5" */
+function findLocation(text: string): { file: string; line: number } | undefined {
+  const m = text.match(/(\/?(?:[\w@.-]+\/)*[\w@.-]+\.(?:[cm]?[jt]sx?|vue|svelte)):(\d+)(?::\d+)?/);
+  return m ? { file: m[1]!, line: Number(m[2]) } : undefined;
+}
+
+function clip(message: string): string {
+  const trimmed = message.trim();
+  return trimmed.length > MAX_MESSAGE ? `${trimmed.slice(0, MAX_MESSAGE)}…` : trimmed;
+}
+
+export function parseJUnitXml(xml: string): ParsedReport | undefined {
+  if (!/<testsuites?\b/.test(xml) && !/<testcase\b/.test(xml)) return undefined;
+
+  let tests = 0;
+  const failures: TestFailure[] = [];
+  for (const m of xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+    tests++;
+    const body = m[2] || "";
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+    if (!failure) continue;
+
+    const attrs = xmlAttrs(m[1]!);
+    const failureAttrs = xmlAttrs(failure[2]!);
+    const details = decodeXml(failure[3] || "");
+    const location = attrs.file
+      ? { file: attrs.file, line: attrs.line ? Number(attrs.line) : findLocation(details)?.line }
+      : findLocation(details);
+    failures.push({
+      name: attrs.classname && attrs.classname !== attrs.name ? `${attrs.classname} > ${attrs.name}` : attrs.name || "unnamed test",
+      file: location?.file,
+      line: location?.line,
+      message: clip(failureAttrs.message || details || failure[1]!),
+      format: "junit",
+    });
+  }
+  return { format: "junit", tests, failures };
+}
+
+export function parseTap(text: string): ParsedReport | undefined {
+  const lines = text.split("\n");
+  if (!lines.some((l) => /^\s*(?:not )?ok\b/.test(l))) return undefined;
+  if (!lines.some((l) => /^\s*(?:TAP version \d+|\d+\.\.\d+)\s*$/.test(l))) return undefined;
+
+  let tests = 0;
+  const failures: TestFailure[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const m = lines[i]!.match(/^(\s*)(not )?ok\b\s*\d*\s*(?:-\s*)?(.*)$/);
+    if (!m) continue;
+    const [, indent, notOk, rest] = m;
+    // Subtest summaries are indented; count top-level points only
+    if (indent!.length === 0) tests++;
+    if (!notOk || /#\s*(?:skip|todo)\b/i.test(rest!)) continue;
+
+    // Optional YAML diagnostics block: "  ---" … "  ..."
+    const yaml: string[] = [];
+    if (lines[i + 1]?.trim() === "---") {
+      for (i += 2; i < lines.length && lines[i]!.trim() !== "..."; i++) yaml.push(lines[i]!);
+    }
+    const block = yaml.join("\n");
+    const message = block.match(/^\s*message:\s*['"]?(.*?)['"]?\s*$/m)?.[1];
+    const at = block.match(/^\s*(?:at|location):\s*['"]?(.*?)['"]?\s*$/m)?.[1];
+    const location = findLocation(at || block);
+    failures.push({
+      name: rest!.replace(/\s*#.*$/, "").trim() || "unnamed test",
+      file: location?.file,
+      line: location?.line,
+      message: clip(message || block || "not ok"),
+      format: "tap",
+    });
+  }
+  return { format: "tap", tests, failures };
+}
+
+interface JestAssertion {
+  fullName?: string;
+  title?: string;
+  ancestorTitles?: string[];
+  status?: string;
+  failureMessages?: string[];
+  location?: { line?: number };
+}
+
+interface JestJsonReport {
+  numTotalTests?: number;
+  testResults?: Array<{ name?: string; message?: string; status?: string; assertionResults?: JestAssertion[] }>;
+}
+
+/** vitest `--reporter=json` and jest `--json` share this shape */
+export function parseJestJson(text: string): ParsedReport | undefined {
+  let report: JestJsonReport;
+  try {
+    report = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (!report || !Array.isArray(report.testResults)) return undefined;
+
+  const failures: TestFailure[] = [];
+  for (const file of report.testResults) {
+    const failedAssertions = (file.assertionResults || []).filter((a) => a.status === "failed");
+    for (const a of failedAssertions) {
+      const message = (a.failureMessages || []).join("\n");
+      const location = a.location?.line ? { file: file.name, line: a.location.line } : findLocation(message);
+      failures.push({
+        name: a.fullName || [...(a.ancestorTitles || []), a.title].filter(Boolean).join(" > ") || "unnamed test",
+        file: location?.file || file.name,
+        line: location?.line,
+        message: clip(message || "failed"),
+        format: "json",
+      });
+    }
+    // Suite-level failure (import error, syntax error) with no test results
+    if (file.status === "failed" && failedAssertions.length === 0 && file.message) {
+      failures.push({ name: file.name || "test file", file: file.name, message: clip(file.message), format: "json" });
+    }
+  }
+  return { format: "json", tests: report.numTotalTests, failures };
+}
+
+/** The JSON report embedded in command output (other output may surround it) */
+function extractJsonReport(output: string): ParsedReport | undefined {
+  const start = output.search(/\{\s*"num\w+"/);
+  const end = output.lastIndexOf("}");
+  if (start < 0 || end <= start) return undefined;
+  return parseJestJson(output.slice(start, end + 1));
+}
+
+/** `tsc --pretty false` ("file(l,c): error TSxxxx: msg") and pretty ("file:l:c - error TSxxxx: msg") diagnostics */
+export function parseTscDiagnostics(text: string): ParsedReport | undefined {
+  const failures: TestFailure[] = [];
+  const pattern = /^\s*(\S.*?)(?:\((\d+),\d+\):|:(\d+):\d+ -) error (TS\d+): (.*)$/gm;
+  for (const m of text.matchAll(pattern)) {
+    failures.push({ name: m[4]!, file: m[1]!, line: Number(m[2] ?? m[3]), message: clip(m[5]!), format: "tsc" });
+  }
+  return failures.length > 0 ? { format: "tsc", failures } : undefined;
+}
+
+function parseReportFile(content: string): ParsedReport | undefined {
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith("<")) return parseJUnitXml(trimmed);
+  if (trimmed.startsWith("{")) return parseJestJson(trimmed);
+  return parseTap(trimmed);
+}
+
+/**
+ * Build a ValidationReport from a report file the validation command wrote (if
+ * any) and from the command's own output. Undefined when nothing parseable
+ * turned up — callers fall back to the raw output. Absolute paths under `root`
+ * are made relative, so runs in different checkouts (worktrees) compare equal.
+ */
+export function readValidationReport(output: string, reportFile?: string, root?: string): ValidationReport | undefined {
+  const parsed: ParsedReport[] = [];
+
+  let fromFile: string | undefined;
+  if (reportFile && existsSync(reportFile)) {
+    try {
+      const report = parseReportFile(readFileSync(reportFile, "utf-8"));
+      if (report) {
+        parsed.push(report);
+        fromFile = reportFile;
+      }
+    } catch { /* unreadable report — fall back to output */ }
+  }
+
+  const tsc = parseTscDiagnostics(output);
+  if (tsc) parsed.push(tsc);
+  if (!fromFile) {
+    const inline = extractJsonReport(output) ?? parseTap(output) ?? (/<testsuites?\b/.test(output) ? parseJUnitXml(output) : undefined);
+    if (inline) parsed.push(inline);
+  }
+
+  if (parsed.length === 0) return undefined;
+
+  const failures = parsed.flatMap((p) => p.failures).map((f) => root ? relativeTo(root, f) : f);
+  const counted = parsed.filter((p) => p.tests !== undefined);
+  return {
+    formats: parsed.map((p) => p.format),
+    tests: counted.length > 0 ? counted.reduce((sum, p) => sum + p.tests!, 0) : undefined,
+    failed: failures.length,
+    failures: failures.slice(0, MAX_FAILURES),
+    keys: failures.map(failureKey),
+    reportFile: fromFile,
+  };
+}
+
+/** One report for several validation stages; undefined when none had one */
+export function mergeReports(reports: Array<ValidationReport | undefined>): ValidationReport | undefined {
+  const present = reports.filter((r): r is ValidationReport => r !== undefined);
+  if (present.length <= 1) return present[0];
+
+  const counted = present.filter((r) => r.tests !== undefined);
+  return {
+    formats: [...new Set(present.flatMap((r) => r.formats))],
+    tests: counted.length > 0 ? counted.reduce((sum, r) => sum + r.tests!, 0) : undefined,
+    failed: present.reduce((sum, r) => sum + r.failed, 0),
+    failures: present.flatMap((r) => r.failures).slice(0, MAX_FAILURES),
+    keys: present.flatMap(reportKeys),
+    reportFile: present.find((r) => r.reportFile)?.reportFile,
+  };
+}
+
+function relativeTo(root: string, failure: TestFailure): TestFailure {
+  if (!failure.file || !isAbsolute(failure.file)) return failure;
+  const file = relative(root, failure.file);
+  if (file.startsWith("..")) return failure;
+  return { ...failure, file, name: failure.name === failure.file ? file : failure.name };
+}
+
+/** Identity of a failure across runs — line numbers shift as code moves, so they're left out */
+export function failureKey(failure: TestFailure): string {
+  return failure.format === "tsc"
+    ? `tsc|${failure.file ?? ""}|${failure.name}|${failure.message}`
+    : `${failure.format}|${failure.file ?? ""}|${failure.name}`;
+}
+
+/** Keys of all the report's failures; only the listed ones for a report without keys */
+export function reportKeys(report: ValidationReport): string[] {
+  return report.keys ?? report.failures.map(failureKey);
+}
+
+/** Split a run's listed failures into those the baseline already had and the ones that are new */
+export function splitByBaseline(report: ValidationReport, baseline: ValidationReport): { introduced: TestFailure[]; preExisting: TestFailure[] } {
+  const known = new Set(reportKeys(baseline));
+  const introduced: TestFailure[] = [];
+  const preExisting: TestFailure[] = [];
+  for (const failure of report.failures) (known.has(failureKey(failure)) ? preExisting : introduced).push(failure);
+  return { introduced, preExisting };
+}
+
+/** One line per failure: "- name (file:line): first line of the message" */
+export function formatReportFailures(report: ValidationReport, limit = 10): string {
+  const lines = report.failures.slice(0, limit).map((f) => {
+    const where = f.file ? ` (${f.file}${f.line ? `:${f.line}` : ""})` : "";
+    const message = f.message.split("\n").find((l) => l.trim())?.trim().slice(0, 200) || "";
+    return `- ${f.name}${where}: ${message}`;
+  });
+  if (report.failed > lines.length) lines.push(`- … ${report.failed - lines.length} more`);
+  return lines.join("\n");
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  usageFromEvents,
+  computeCost,
+  accumulateSpend,
+  summarizeSpendByStory,
+  DEFAULT_MODEL_PRICES,
+  type TokenUsage,
+} from "./usage-helpers.js";
+import { normalizeCodexEvent } from "./agent-backends.js";
+
+const usage = (inputTokens: number, cachedInputTokens: number, outputTokens: number): TokenUsage => ({ inputTokens, cachedInputTokens, outputTokens });
+
+describe("usageFromEvents", () => {
+  it("sums usage from every Codex turn", () => {
+    const events = [
+      ...normalizeCodexEvent({ type: "turn.completed", usage: { input_tokens: 1000, cached_input_tokens: 400, output_tokens: 50 } }),
+      ...normalizeCodexEvent({ type: "item.completed", item: { type: "agent_message", text: "done" } }),
+      ...normalizeCodexEvent({ type: "turn.completed", usage: { input_tokens: 500, output_tokens: 25 } }),
+    ];
+    expect(usageFromEvents(events)).toEqual(usage(1500, 400, 75));
+  });
+
+  it("is undefined when the agent reported nothing", () => {
+    expect(usageFromEvents([{ kind: "message", text: "hi" }])).toBeUndefined();
+  });
+});
+
+describe("computeCost", () => {
+  const prices = { "m": { input: 2, cachedInput: 0.5, output: 10 } };
+
+  it("prices cached input separately from the rest", () => {
+    // 600 uncached * $2/M + 400 cached * $0.5/M + 100 output * $10/M
+    expect(computeCost(usage(1000, 400, 100), "m", prices)).toBe(0.0024);
+  });
+
+  it("falls back to the input price without a cached price", () => {
+    expect(computeCost(usage(1000, 400, 0), "m", { m: { input: 2, output: 10 } })).toBe(0.002);
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(computeCost(usage(1000, 0, 0), "mystery-model", DEFAULT_MODEL_PRICES)).toBeUndefined();
+  });
+});
+
+describe("spend rollups", () => {
+  it("accumulates loop totals", () => {
+    const total: { usage?: TokenUsage; costUsd?: number } = {};
+    accumulateSpend(total, { usage: usage(100, 0, 10), costUsd: 0.1 });
+    accumulateSpend(total, {});
+    accumulateSpend(total, { usage: usage(50, 20, 5), costUsd: 0.2 });
+    expect(total).toEqual({ usage: usage(150, 20, 15), costUsd: 0.3 });
+  });
+
+  it("reports spend per story with failed-retry cost, most expensive first", () => {
+    const spend = summarizeSpendByStory([
+      { storyId: "a", storyTitle: "Cheap", success: true, usage: usage(10, 0, 1), costUsd: 0.01 },
+      { storyId: "b", storyTitle: "Money pit", success: false, usage: usage(100, 0, 10), costUsd: 0.5 },
+      { storyId: "b", storyTitle: "Money pit", success: false, usage: usage(100, 0, 10), costUsd: 0.5 },
+      { storyId: "b", storyTitle: "Money pit", success: true, usage: usage(100, 0, 10), costUsd: 0.25 },
+      { storyId: "c", storyTitle: "Unpriced", success: true, usage: usage(10, 0, 1) },
+    ]);
+
+    expect(spend.map((s) => s.storyId)).toEqual(["b", "a", "c"]);
+    expect(spend[0]).toMatchObject({ iterations: 3, failedIterations: 2, costUsd: 1.25, failedCostUsd: 1, fullyPriced: true });
+    expect(spend[0]!.usage).toEqual(usage(300, 0, 30));
+    expect(spend[2]).toMatchObject({ costUsd: 0, fullyPriced: false });
+  });
+});
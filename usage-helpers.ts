@@ -0,0 +1,120 @@
+/**
+ * Token usage and cost accounting.
+ *
+ * Agents report token counts as normalized `usage` events (Codex: `turn.completed`).
+ * Usage is priced per model from a table of USD per million tokens and rolled up
+ * per iteration, per story and per loop — including what failed retries burned.
+ */
+
+import type { AgentEvent } from "./agent-backends.js";
+
+export interface TokenUsage {
+  inputTokens: number;
+  /** Subset of inputTokens served from the prompt cache */
+  cachedInputTokens: number;
+  outputTokens: number;
+}
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  cachedInput?: number;
+  output: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+/** Defaults for the Codex models; override or extend with the `modelPrices` config */
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  "gpt-5.2-codex": { input: 1.75, cachedInput: 0.175, output: 14 },
+  "gpt-5.1-codex": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5-codex": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5.1-codex-mini": { input: 0.25, cachedInput: 0.025, output: 2 },
+};
+
+export interface StorySpend {
+  storyId: string;
+  storyTitle: string;
+  iterations: number;
+  failedIterations: number;
+  usage: TokenUsage;
+  costUsd: number;
+  /** Cost of the iterations that failed */
+  failedCostUsd: number;
+  /** False when some iteration's model had no price — costUsd is then a lower bound */
+  fullyPriced: boolean;
+}
+
+/** Anything carrying one iteration's spend: IterationResult, IterationLogEntry */
+export interface SpendRecord {
+  storyId: string;
+  storyTitle: string;
+  success: boolean;
+  usage?: TokenUsage;
+  costUsd?: number;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0 };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    cachedInputTokens: a.cachedInputTokens + b.cachedInputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+  };
+}
+
+/** Sum every usage event of a run; undefined when the agent reported none */
+export function usageFromEvents(events: AgentEvent[]): TokenUsage | undefined {
+  const reported = events.filter((e) => e.kind === "usage" && e.usage);
+  if (reported.length === 0) return undefined;
+  return reported.reduce<TokenUsage>((total, e) => addUsage(total, {
+    inputTokens: e.usage!.inputTokens ?? 0,
+    cachedInputTokens: e.usage!.cachedInputTokens ?? 0,
+    outputTokens: e.usage!.outputTokens ?? 0,
+  }), emptyUsage());
+}
+
+/** Cost in USD, or undefined when the model has no price */
+export function computeCost(usage: TokenUsage, model: string, prices: ModelPriceTable): number | undefined {
+  const price = prices[model];
+  if (!price) return undefined;
+  const cached = Math.min(usage.cachedInputTokens, usage.inputTokens);
+  const uncached = usage.inputTokens - cached;
+  const cost = (uncached * price.input + cached * (price.cachedInput ?? price.input) + usage.outputTokens * price.output) / 1_000_000;
+  return roundUsd(cost);
+}
+
+export function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+/** Add one iteration's spend to a running loop total (LoopJob, LoopResult) */
+export function accumulateSpend(total: { usage?: TokenUsage; costUsd?: number }, record: { usage?: TokenUsage; costUsd?: number }): void {
+  if (record.usage) total.usage = addUsage(total.usage ?? emptyUsage(), record.usage);
+  if (record.costUsd !== undefined) total.costUsd = roundUsd((total.costUsd ?? 0) + record.costUsd);
+}
+
+/** Spend per story, most expensive first */
+export function summarizeSpendByStory(records: SpendRecord[]): StorySpend[] {
+  const byStory = new Map<string, StorySpend>();
+  for (const record of records) {
+    let spend = byStory.get(record.storyId);
+    if (!spend) {
+      spend = { storyId: record.storyId, storyTitle: record.storyTitle, iterations: 0, failedIterations: 0, usage: emptyUsage(), costUsd: 0, failedCostUsd: 0, fullyPriced: true };
+      byStory.set(record.storyId, spend);
+    }
+    spend.iterations++;
+    if (!record.success) spend.failedIterations++;
+    if (record.usage) spend.usage = addUsage(spend.usage, record.usage);
+    if (record.costUsd !== undefined) {
+      spend.costUsd = roundUsd(spend.costUsd + record.costUsd);
+      if (!record.success) spend.failedCostUsd = roundUsd(spend.failedCostUsd + record.costUsd);
+    } else if (record.usage) {
+      spend.fullyPriced = false;
+    }
+  }
+  return [...byStory.values()].sort((a, b) => b.costUsd - a.costUsd || b.usage.outputTokens - a.usage.outputTokens);
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import {
+  runValidationStages,
+  runBaselineValidation,
+  judgeAgainstBaseline,
+  parseValidationStages,
+  defaultValidationStages,
+  stageCategory,
+  retryForFlakes,
+  type StageResult,
+} from "./validation-helpers.js";
+import { readValidationReport } from "./test-report-helpers.js";
+
+const dir = join(process.cwd(), ".test-validation-helpers");
+
+beforeEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  mkdirSync(join(dir, "packages", "core"), { recursive: true });
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("runValidationStages", () => {
+  it("skips the rest after a required failure, but not after an advisory one", () => {
+    const run = runValidationStages(dir, [
+      { name: "lint", command: "echo nit; exit 1", required: false },
+      { name: "typecheck", command: "echo 'src/a.ts(1,1): error TS2304: Cannot find name x.'; exit 2" },
+      { name: "unit", command: "echo never" },
+    ]);
+
+    expect(run.success).toBe(false);
+    expect(run.stages!.map((s) => [s.name, s.success, s.skipped ?? false, s.category])).toEqual([
+      ["lint", false, false, "lint_error"],
+      ["typecheck", false, false, "type_error"],
+      ["unit", false, true, "test_failure"],
+    ]);
+    // Only required stages feed the report
+    expect(run.report).toMatchObject({ formats: ["tsc"], failed: 1 });
+    expect(run.output).toContain("[lint] failed (advisory)\nnit");
+    expect(run.output).toContain("[unit] skipped");
+  });
+
+  it("passes with advisory failures, runs in the stage's cwd, and times out per stage", () => {
+    const run = runValidationStages(dir, [
+      { name: "where", command: "test \"$(basename \"$PWD\")\" = core", cwd: "packages/core" },
+      { name: "e2e", command: "sleep 5", timeoutMs: 200, required: false },
+    ]);
+
+    expect(run.success).toBe(true);
+    expect(run.stages![0]).toMatchObject({ success: true });
+    expect(run.stages![1]).toMatchObject({ success: false, timedOut: true });
+  });
+
+  it("passes trivially with no stages", () => {
+    expect(runValidationStages(dir, [])).toMatchObject({ success: true, output: "No validation stages configured", stages: [] });
+  });
+});
+
+describe("judgeAgainstBaseline", () => {
+  const tap = (...names: string[]) => `printf 'TAP version 13\\n${names.map((n, i) => `not ok ${i + 1} - ${n}\\n`).join("")}1..${names.length}\\n'; exit 1`;
+
+  it("judges each stage against the same stage of the baseline", () => {
+    const baseline = runBaselineValidation(dir, "head-1", [{ name: "unit", command: tap("legacy") }]);
+    const run = runValidationStages(dir, [{ name: "unit", command: tap("legacy") }]);
+
+    const judged = judgeAgainstBaseline(run, baseline);
+    expect(judged.success).toBe(true);
+    expect(judged.stages![0]).toMatchObject({ success: true, preExisting: [{ name: "legacy" }] });
+    expect(runBaselineValidation(dir, "head-1", [{ name: "unit", command: tap("legacy") }]).cached).toBe(true);
+  });
+
+  it("keeps a stage's failure when the baseline's failures were in another stage", () => {
+    const stages = (lint: string) => [
+      { name: "unit", command: tap("legacy") },
+      { name: "lint", command: lint },
+    ];
+    const baseline = runBaselineValidation(dir, "head-2", stages("true"));
+    const run = runValidationStages(dir, stages("echo 'new lint error'; exit 1"), { runAll: true });
+
+    const judged = judgeAgainstBaseline(run, baseline);
+    expect(judged.success).toBe(false);
+    expect(judged.stages!.map((s) => s.success)).toEqual([true, false]);
+    expect(judged.preExisting).toEqual([expect.objectContaining({ name: "legacy" })]);
+  });
+  it("compares every failure, not just the listed ones, when the baseline has more than 50", () => {
+    const legacy = Array.from({ length: 60 }, (_, i) => `legacy ${i}`);
+    const baseline = runBaselineValidation(dir, "head-3", [{ name: "unit", command: tap(...legacy) }]);
+    expect(baseline.report).toMatchObject({ failed: 60 });
+    expect(baseline.report!.failures).toHaveLength(50);
+
+    const unchanged = judgeAgainstBaseline(runValidationStages(dir, [{ name: "unit", command: tap(...legacy) }]), baseline);
+    expect(unchanged.success).toBe(true);
+    expect(unchanged.stages![0]!.report).toMatchObject({ failed: 0, failures: [] });
+
+    const broke = judgeAgainstBaseline(runValidationStages(dir, [{ name: "unit", command: tap(...legacy, "fresh") }]), baseline);
+    expect(broke.success).toBe(false);
+    expect(broke.stages![0]!.report).toMatchObject({ failed: 1, keys: ["tap||fresh"] });
+  });
+});
+
+describe("retryForFlakes", () => {
+  const tapRun = (...failing: string[]): StageResult => ({
+    name: "unit",
+    required: true,
+    success: failing.length === 0,
+    durationMs: 1,
+    output: "",
+    report: readValidationReport(`TAP version 13\n${failing.map((n, i) => `not ok ${i + 1} - ${n}\n`).join("")}1..${Math.max(failing.length, 1)}\n`),
+  });
+
+  it("sets aside tests that pass on a re-run and keeps the rest", () => {
+    const reruns = [tapRun("real", "racy"), tapRun("real")];
+    const result = retryForFlakes(() => reruns.shift() ?? tapRun("real"), tapRun("real", "racy", "slow"), 3, new Set());
+
+    // "real" never flips, so every retry is spent on it
+    expect(result).toMatchObject({ success: false, reruns: 3, report: { failed: 1, failures: [{ name: "real" }] } });
+    expect(result.flaky!.map((f) => [f.name, f.known])).toEqual([["slow", false], ["racy", false]]);
+  });
+
+  it("tolerates known-flaky tests without re-running for them", () => {
+    let reruns = 0;
+    const first = tapRun("racy");
+    const result = retryForFlakes(() => { reruns++; return first; }, first, 3, new Set(["tap||racy"]));
+
+    expect(reruns).toBe(0);
+    expect(result).toMatchObject({ success: true, flaky: [{ name: "racy", known: true }] });
+  });
+
+  it("treats a stage with no report as one unit", () => {
+    const failed: StageResult = { name: "e2e", required: true, success: false, durationMs: 1, output: "boom" };
+    const passed: StageResult = { ...failed, success: true, output: "" };
+
+    expect(retryForFlakes(() => passed, failed, 2, new Set())).toMatchObject({ success: true, reruns: 1, flaky: [{ key: "stage|e2e" }] });
+    expect(retryForFlakes(() => failed, failed, 2, new Set())).toMatchObject({ success: false, reruns: 2 });
+  });
+});
+
+describe("stage configuration", () => {
+  it("parses stages and rejects bad ones", () => {
+    expect(parseValidationStages('[{"name":"unit","command":"vitest run","required":false,"timeoutMs":60000}]')).toEqual([
+      { name: "unit", command: "vitest run", required: false, timeoutMs: 60000, cwd: undefined, report: undefined, category: undefined },
+    ]);
+    expect(parseValidationStages('{"name":"unit"}')).toBe("validation must be a JSON array of stages");
+    expect(parseValidationStages('[{"name":"unit"}]')).toBe("Each validation stage needs a name and a command");
+    expect(parseValidationStages('[{"name":"a","command":"x"},{"name":"a","command":"y"}]')).toBe("Duplicate validation stage: a");
+    expect(parseValidationStages('[{"name":"a","command":"x","category":"oops"}]')).toMatch(/category must be/);
+  });
+
+  it("infers categories from stage names unless one is given", () => {
+    expect(stageCategory({ name: "Typecheck", command: "x" })).toBe("type_error");
+    expect(stageCategory({ name: "e2e", command: "x" })).toBe("test_failure");
+    expect(stageCategory({ name: "smoke", command: "x" })).toBeUndefined();
+    expect(stageCategory({ name: "smoke", command: "x", category: "build_error" })).toBe("build_error");
+  });
+
+  it("defaults to typecheck and the package's real test script", () => {
+    expect(defaultValidationStages(dir)).toEqual([]);
+
+    writeFileSync(join(dir, "tsconfig.json"), "{}");
+    writeFileSync(join(dir, "package.json"), JSON.stringify({ scripts: { test: 'echo "Error: no test specified" && exit 1' } }));
+    expect(defaultValidationStages(dir)).toEqual([{ name: "typecheck", command: "npx --no-install tsc --noEmit" }]);
+
+    writeFileSync(join(dir, "package.json"), JSON.stringify({ scripts: { typecheck: "tsc -b", test: "vitest run" } }));
+    expect(defaultValidationStages(dir).map((s) => s.command)).toEqual(["npm run typecheck", "npm test"]);
+  });
+});
@@ -1,6 +1,78 @@
 import { execSync } from "node:child_process";
+import { existsSync, readFileSync, rmSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { failureKey, mergeReports, readValidationReport, reportKeys, splitByBaseline, type TestFailure, type ValidationReport } from "./test-report-helpers.js";
+import { stageFlakeKey, type FlakeObservation } from "./flaky-helpers.js";
 
 export const VALIDATION_OUTPUT_LIMIT = 8000;
+const DEFAULT_STAGE_TIMEOUT_MS = 300000;
+
+/** Failure categories a stage can stand for — a failed "typecheck" stage is a type error unless its output shows a root cause (missing module, OOM, …) */
+export type StageCategory = "type_error" | "lint_error" | "test_failure" | "build_error";
+
+/** One step of a story's validation pipeline (typecheck, lint, unit, e2e, …) */
+export interface ValidationStage {
+  name: string;
+  command: string;
+  /** Kill the stage after this long (default 300000) */
+  timeoutMs?: number;
+  /** Advisory stages (false) are run and reported but never fail the story (default true) */
+  required?: boolean;
+  /** Working directory, relative to the workdir */
+  cwd?: string;
+  /** Report file the stage writes, relative to its cwd */
+  report?: string;
+  /** Failure category when the stage fails — inferred from the name when unset */
+  category?: StageCategory;
+}
+
+export interface StageResult {
+  name: string;
+  required: boolean;
+  success: boolean;
+  /** Not run: an earlier required stage had already failed */
+  skipped?: boolean;
+  timedOut?: boolean;
+  category?: StageCategory;
+  durationMs: number;
+  output: string;
+  report?: ValidationReport;
+  /** Failures the baseline's run of this stage already had */
+  preExisting?: TestFailure[];
+  /** Failures tolerated as flaky: passed on a re-run, or already in the registry (known) */
+  flaky?: Array<FlakeObservation & { known: boolean }>;
+  /** Re-runs spent on flake detection */
+  reruns?: number;
+}
+
+export interface StageRunOptions {
+  /** Run every stage even after a required one fails */
+  runAll?: boolean;
+  /** Re-run a failed stage up to this many times to catch flaky tests (0 = off) */
+  flakeRetries?: number;
+  /** Registry keys of tests known to be flaky (only used with flakeRetries) */
+  knownFlaky?: Set<string>;
+}
+
+export interface ValidationRun {
+  success: boolean;
+  output: string;
+  /** Parsed test report / tsc diagnostics, when the output or report file had any */
+  report?: ValidationReport;
+  /** The pre-iteration run this one was judged against */
+  baseline?: BaselineRun;
+  /** Failures the baseline already had — not held against the story */
+  preExisting?: TestFailure[];
+  /** Per-stage results, in pipeline order */
+  stages?: StageResult[];
+}
+
+export interface BaselineRun extends ValidationRun {
+  /** HEAD the baseline ran on */
+  head: string;
+  /** Served from the cache rather than re-run */
+  cached: boolean;
+}
 
 /**
  * Strips turborepo boilerplate and noise from validation output.
@@ -60,29 +132,33 @@ export function stripTurboBoilerplate(output: string): string {
 /**
  * Enhanced validation runner that captures stdout and stderr separately,
  * strips turbo boilerplate, and returns combined output capped at VALIDATION_OUTPUT_LIMIT.
+ * The report is parsed from the full, untruncated output plus `reportFile`
+ * (relative to the workdir). The report file is removed before the run, so a stale
+ * one is never read, and after it, so it never lands in the story's commit.
  */
 export function captureValidation(
   resolvedWorkdir: string,
-  command?: string
-): { success: boolean; output: string; stderr: string } {
-  if (!command) {
-    command = "npm run typecheck 2>/dev/null || tsc --noEmit; npm test 2>/dev/null || true";
-  }
+  command: string,
+  reportFile?: string,
+  timeoutMs = DEFAULT_STAGE_TIMEOUT_MS
+): ValidationRun & { stderr: string; timedOut?: boolean } {
+  const reportPath = reportFile ? resolve(resolvedWorkdir, reportFile) : undefined;
+  if (reportPath) rmSync(reportPath, { force: true });
 
   try {
     const stdout = execSync(command, {
       cwd: resolvedWorkdir,
       encoding: "utf-8",
-      timeout: 300000,
+      timeout: timeoutMs,
       stdio: ["pipe", "pipe", "pipe"],
     });
 
     const strippedStdout = stripTurboBoilerplate(stdout);
     const output = strippedStdout.slice(0, VALIDATION_OUTPUT_LIMIT);
 
-    return { success: true, output, stderr: "" };
+    return { success: true, output, stderr: "", report: consumeReport(stdout, resolvedWorkdir, reportPath) };
   } catch (error) {
-    const err = error as { stdout?: string; stderr?: string; message?: string };
+    const err = error as { stdout?: string; stderr?: string; message?: string; code?: string };
     const rawStdout = err.stdout || "";
     const rawStderr = err.stderr || "";
 
@@ -104,6 +180,261 @@ export function captureValidation(
 
     const output = combined.slice(0, VALIDATION_OUTPUT_LIMIT);
 
-    return { success: false, output, stderr: strippedStderr };
+    return {
+      success: false,
+      output,
+      stderr: strippedStderr,
+      report: consumeReport(`${rawStderr}\n${rawStdout}`, resolvedWorkdir, reportPath),
+      timedOut: err.code === "ETIMEDOUT" || undefined,
+    };
+  }
+}
+
+function consumeReport(rawOutput: string, resolvedWorkdir: string, reportPath?: string): ValidationReport | undefined {
+  const report = readValidationReport(rawOutput, reportPath, resolvedWorkdir);
+  if (reportPath) rmSync(reportPath, { force: true });
+  return report;
+}
+
+/** A stage's failure category: explicit, else guessed from its name ("typecheck", "lint", "e2e", …) */
+export function stageCategory(stage: ValidationStage): StageCategory | undefined {
+  if (stage.category) return stage.category;
+  const name = stage.name.toLowerCase();
+  if (/type|tsc/.test(name)) return "type_error";
+  if (/lint|format|prettier|style/.test(name)) return "lint_error";
+  if (/build|compile|bundle/.test(name)) return "build_error";
+  if (/test|unit|e2e|integration|spec/.test(name)) return "test_failure";
+  return undefined;
+}
+
+/**
+ * Stages for a project with no validation configured: typecheck when there's a
+ * tsconfig.json, then the package's test script when it has a real one. Both
+ * required — the old single-command default swallowed every failure.
+ */
+export function defaultValidationStages(resolvedWorkdir: string): ValidationStage[] {
+  let scripts: Record<string, string> = {};
+  try {
+    scripts = JSON.parse(readFileSync(join(resolvedWorkdir, "package.json"), "utf-8")).scripts || {};
+  } catch { /* no package.json */ }
+
+  const stages: ValidationStage[] = [];
+  if (scripts.typecheck) stages.push({ name: "typecheck", command: "npm run typecheck" });
+  else if (existsSync(join(resolvedWorkdir, "tsconfig.json"))) stages.push({ name: "typecheck", command: "npx --no-install tsc --noEmit" });
+  if (scripts.test && !scripts.test.includes("no test specified")) stages.push({ name: "test", command: "npm test" });
+  return stages;
+}
+
+/** Parse a JSON array of stages from tool params. Returns an error string for bad input. */
+export function parseValidationStages(json: string): ValidationStage[] | string {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return "validation must be a JSON array of stages";
   }
+  if (!Array.isArray(raw)) return "validation must be a JSON array of stages";
+
+  const stages: ValidationStage[] = [];
+  const names = new Set<string>();
+  for (const entry of raw as Array<Partial<ValidationStage>>) {
+    if (!entry || typeof entry.name !== "string" || !entry.name || typeof entry.command !== "string" || !entry.command) {
+      return "Each validation stage needs a name and a command";
+    }
+    if (names.has(entry.name)) return `Duplicate validation stage: ${entry.name}`;
+    names.add(entry.name);
+    if (entry.timeoutMs !== undefined && !(typeof entry.timeoutMs === "number" && entry.timeoutMs > 0)) {
+      return `Stage ${entry.name}: timeoutMs must be a positive number`;
+    }
+    if (entry.category !== undefined && !["type_error", "lint_error", "test_failure", "build_error"].includes(entry.category)) {
+      return `Stage ${entry.name}: category must be type_error, lint_error, test_failure or build_error`;
+    }
+    stages.push({
+      name: entry.name,
+      command: entry.command,
+      timeoutMs: entry.timeoutMs,
+      required: entry.required === false ? false : undefined,
+      cwd: entry.cwd || undefined,
+      report: entry.report || undefined,
+      category: entry.category,
+    });
+  }
+  return stages;
+}
+
+/**
+ * Run the stages in order. A failed required stage skips the rest unless
+ * `runAll` is set — baseline comparison needs every stage's failures. With
+ * `flakeRetries`, a failed stage is re-run before it counts as failed.
+ */
+export function runValidationStages(
+  resolvedWorkdir: string,
+  stages: ValidationStage[],
+  opts: StageRunOptions = {}
+): ValidationRun {
+  const results: StageResult[] = [];
+  let blocked = false;
+  for (const stage of stages) {
+    const required = stage.required !== false;
+    const category = stageCategory(stage);
+    if (blocked) {
+      results.push({ name: stage.name, required, success: false, skipped: true, category, durationMs: 0, output: "" });
+      continue;
+    }
+    const started = Date.now();
+    let result = runStage(resolvedWorkdir, stage, required, category);
+    if (!result.success && opts.flakeRetries) {
+      result = retryForFlakes(() => runStage(resolvedWorkdir, stage, required, category), result, opts.flakeRetries, opts.knownFlaky ?? new Set());
+    }
+    results.push({ ...result, durationMs: Date.now() - started });
+    if (!result.success && required && !opts.runAll) blocked = true;
+  }
+  return summarizeStages(results);
+}
+
+function runStage(resolvedWorkdir: string, stage: ValidationStage, required: boolean, category?: StageCategory): StageResult {
+  const started = Date.now();
+  const run = captureValidation(resolve(resolvedWorkdir, stage.cwd ?? "."), stage.command, stage.report, stage.timeoutMs);
+  return {
+    name: stage.name,
+    required,
+    success: run.success,
+    timedOut: run.timedOut,
+    category,
+    durationMs: Date.now() - started,
+    output: run.output,
+    report: run.report,
+  };
+}
+
+/**
+ * Re-run a failed stage until each failing test has passed once or the retries
+ * run out. Tests that passed on a re-run, and known-flaky ones, are set aside as
+ * flaky; the stage passes if nothing else failed. Without a parseable report the
+ * whole stage is the unit: it's flaky if any re-run passes.
+ */
+export function retryForFlakes(rerun: () => StageResult, first: StageResult, retries: number, knownFlaky: Set<string>): StageResult {
+  if (!first.report?.failed) {
+    for (let i = 1; i <= retries; i++) {
+      const again = rerun();
+      if (again.success) {
+        return { ...again, reruns: i, flaky: [{ key: stageFlakeKey(first.name), name: first.name, stage: first.name, known: knownFlaky.has(stageFlakeKey(first.name)) }] };
+      }
+    }
+    return { ...first, reruns: retries };
+  }
+
+  const flaky = new Map<string, FlakeObservation & { known: boolean }>();
+  const observe = (failure: TestFailure, known: boolean) =>
+    flaky.set(failureKey(failure), { key: failureKey(failure), name: failure.name, file: failure.file, stage: first.name, known });
+
+  for (const failure of first.report.failures) {
+    if (knownFlaky.has(failureKey(failure))) observe(failure, true);
+  }
+
+  let reruns = 0;
+  while (reruns < retries && first.report.failures.some((f) => !flaky.has(failureKey(f)))) {
+    reruns++;
+    const again = rerun();
+    // A failed re-run with nothing parsed says nothing about individual tests
+    if (!again.success && !again.report?.failed) continue;
+    const stillFailing = new Set((again.report?.failures ?? []).map(failureKey));
+    for (const failure of first.report.failures) {
+      if (!stillFailing.has(failureKey(failure)) && !flaky.has(failureKey(failure))) observe(failure, false);
+    }
+  }
+
+  const real = first.report.failures.filter((f) => !flaky.has(failureKey(f)));
+  // Failures past the listed ones weren't seen — they count as real
+  const failed = first.report.failed - (first.report.failures.length - real.length);
+  return {
+    ...first,
+    success: failed === 0 && !first.timedOut,
+    report: { ...first.report, failed, failures: real, keys: reportKeys(first.report).filter((k) => !flaky.has(k)) },
+    flaky: flaky.size > 0 ? [...flaky.values()] : undefined,
+    reruns: reruns || undefined,
+  };
+}
+
+/** Overall result: passes when every required stage did; output and report come from the required stages */
+function summarizeStages(stages: StageResult[]): ValidationRun {
+  const required = stages.filter((s) => s.required && !s.skipped);
+  const preExisting = stages.flatMap((s) => s.preExisting ?? []);
+  return {
+    success: stages.every((s) => !s.required || s.success),
+    output: stages.length === 1 ? stages[0]!.output : stageOutput(stages),
+    report: mergeReports(required.map((s) => s.report)),
+    preExisting: preExisting.length > 0 ? preExisting : undefined,
+    stages,
+  };
+}
+
+function stageOutput(stages: StageResult[]): string {
+  if (stages.length === 0) return "No validation stages configured";
+  const sections = stages.map((s) => {
+    const status = s.skipped ? "skipped" : s.timedOut ? "timed out" : s.success ? "passed" : "failed";
+    const header = `[${s.name}] ${status}${s.required ? "" : " (advisory)"}`;
+    return s.success || s.skipped || !s.output ? header : `${header}\n${s.output}`;
+  });
+  return sections.join("\n\n").slice(0, VALIDATION_OUTPUT_LIMIT);
+}
+
+// Keyed by HEAD sha + stages: the same commit always gives the same baseline
+const baselineCache = new Map<string, ValidationRun>();
+const BASELINE_CACHE_SIZE = 50;
+
+/**
+ * Validation on the tree as it was before the agent ran — what was already red.
+ * Every stage runs, so each can be compared. Cached by HEAD sha, so retries and
+ * later stories on the same commit don't re-run it.
+ */
+export function runBaselineValidation(
+  resolvedWorkdir: string,
+  head: string,
+  stages: ValidationStage[]
+): BaselineRun {
+  const key = `${head}\0${JSON.stringify(stages)}`;
+  const hit = baselineCache.get(key);
+  if (hit) return { ...hit, head, cached: true };
+
+  const run = runValidationStages(resolvedWorkdir, stages, { runAll: true });
+  baselineCache.set(key, run);
+  if (baselineCache.size > BASELINE_CACHE_SIZE) baselineCache.delete(baselineCache.keys().next().value!);
+  return { ...run, head, cached: false };
+}
+
+/**
+ * Judge a failed run against its baseline, stage by stage: a required stage
+ * passes when every failure it reports was already failing in the same stage
+ * before. Needs parsed reports on both sides — without them the failure stands,
+ * since raw output can't be compared.
+ */
+export function judgeAgainstBaseline(run: ValidationRun, baseline: BaselineRun | undefined): ValidationRun {
+  if (!baseline) return run;
+  if (run.success || baseline.success || !run.stages) return { ...run, baseline };
+
+  const stages = run.stages.map((stage) => {
+    const before = baseline.stages?.find((b) => b.name === stage.name);
+    return stage.required && !stage.success && !stage.skipped && before ? judgeStage(stage, before) : stage;
+  });
+  const judged = summarizeStages(stages);
+  // Keep the raw output: it still shows the tolerated failures
+  return { ...judged, output: run.output, baseline };
+}
+
+function judgeStage(stage: StageResult, before: StageResult): StageResult {
+  if (before.success || !stage.report?.failed || !before.report?.failed) return stage;
+
+  const { introduced, preExisting } = splitByBaseline(stage.report, before.report);
+  // Compare every failure by key, not just the listed ones; failures without a key count as new
+  const known = new Set(reportKeys(before.report));
+  const keys = reportKeys(stage.report);
+  const newKeys = keys.filter((k) => !known.has(k));
+  const newlyFailed = newKeys.length + Math.max(0, stage.report.failed - keys.length);
+  return {
+    ...stage,
+    success: newlyFailed === 0,
+    report: { ...stage.report, failed: newlyFailed, failures: introduced, keys: newKeys },
+    preExisting,
+  };
 }
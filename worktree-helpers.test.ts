@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { execSync } from "node:child_process";
+import {
+  createStoryWorktree,
+  captureWorktreePatch,
+  applyWorktreePatch,
+  removeStoryWorktree,
+} from "./worktree-helpers.js";
+
+const TMP = join(process.cwd(), ".test-worktree-helpers");
+
+function initGit(dir: string) {
+  execSync("git init", { cwd: dir, stdio: "pipe" });
+  execSync("git config user.email test@test.com", { cwd: dir, stdio: "pipe" });
+  execSync("git config user.name Test", { cwd: dir, stdio: "pipe" });
+  writeFileSync(join(dir, "shared.ts"), "export const a = 1;\nexport const b = 2;\n");
+  execSync("git add -A && git commit -m init", { cwd: dir, stdio: "pipe" });
+}
+
+beforeEach(() => {
+  rmSync(TMP, { recursive: true, force: true });
+  mkdirSync(TMP, { recursive: true });
+  initGit(TMP);
+});
+
+afterEach(() => {
+  execSync("git worktree prune", { cwd: TMP, stdio: "pipe" });
+  rmSync(TMP, { recursive: true, force: true });
+});
+
+describe("story worktrees", () => {
+  it("applies a worktree's changes (including new files) to the main checkout", () => {
+    const wt = createStoryWorktree(TMP, "story-a");
+    expect(wt).not.toBeNull();
+    expect(existsSync(join(wt!.path, "shared.ts"))).toBe(true);
+
+    writeFileSync(join(wt!.path, "feature.ts"), "export const feature = true;\n");
+    const patch = captureWorktreePatch(wt!);
+    removeStoryWorktree(TMP, wt!);
+    expect(existsSync(wt!.path)).toBe(false);
+
+    const result = applyWorktreePatch(TMP, patch);
+    expect(result.applied).toBe(true);
+    expect(readFileSync(join(TMP, "feature.ts"), "utf-8")).toContain("feature");
+  });
+
+  it("reports conflicts without touching the main checkout", () => {
+    const first = createStoryWorktree(TMP, "story-a")!;
+    const second = createStoryWorktree(TMP, "story-b")!;
+
+    writeFileSync(join(first.path, "shared.ts"), "export const a = 10;\nexport const b = 2;\n");
+    writeFileSync(join(second.path, "shared.ts"), "export const a = 20;\nexport const b = 2;\n");
+    const firstPatch = captureWorktreePatch(first);
+    const secondPatch = captureWorktreePatch(second);
+    removeStoryWorktree(TMP, first);
+    removeStoryWorktree(TMP, second);
+
+    expect(applyWorktreePatch(TMP, firstPatch).applied).toBe(true);
+    const conflict = applyWorktreePatch(TMP, secondPatch);
+    expect(conflict.applied).toBe(false);
+    expect(conflict.error).toBeTruthy();
+    expect(readFileSync(join(TMP, "shared.ts"), "utf-8")).toContain("a = 10");
+  });
+
+  it("treats an empty patch as applied", () => {
+    const wt = createStoryWorktree(TMP, "story-empty")!;
+    const patch = captureWorktreePatch(wt);
+    removeStoryWorktree(TMP, wt);
+    expect(applyWorktreePatch(TMP, patch)).toEqual({ applied: true, empty: true });
+  });
+
+  it("returns null outside a git repository", () => {
+    const notRepo = join(tmpdir(), `ralph-not-a-repo-${Date.now()}`);
+    mkdirSync(notRepo, { recursive: true });
+    try {
+      expect(createStoryWorktree(notRepo, "story-x")).toBeNull();
+    } finally {
+      rmSync(notRepo, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Git worktree helpers for parallel story execution.
+ *
+ * Each parallel story runs in its own detached worktree off the current HEAD.
+ * When the story passes, its changes are captured as a binary patch against the
+ * base commit and applied back to the main checkout. The patch is checked with
+ * `git apply --check` first, so a conflicting story never touches the main tree.
+ */
+
+import { execSync } from "node:child_process";
+import { existsSync, mkdirSync, symlinkSync, writeFileSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import { homedir, tmpdir } from "node:os";
+import { createHash } from "node:crypto";
+
+export const RALPH_WORKTREES_DIR = join(homedir(), ".openclaw", "ralph-worktrees");
+
+export interface StoryWorktree {
+  path: string;
+  baseCommit: string;
+}
+
+export interface PatchApplyResult {
+  applied: boolean;
+  empty: boolean;
+  error?: string;
+}
+
+function git(cmd: string, cwd: string, timeout = 30000): string {
+  return execSync(`git ${cmd}`, {
+    cwd,
+    encoding: "utf-8",
+    timeout,
+    stdio: ["pipe", "pipe", "pipe"],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+/**
+ * Create a detached worktree for a story at the main checkout's HEAD.
+ * node_modules is symlinked from the main checkout so validation can run.
+ */
+export function createStoryWorktree(repoDir: string, storyId: string): StoryWorktree | null {
+  try {
+    const baseCommit = git("rev-parse HEAD", repoDir).trim();
+    const repoKey = createHash("sha256").update(repoDir).digest("hex").slice(0, 8);
+    const path = join(RALPH_WORKTREES_DIR, repoKey, `${storyId}-${Date.now().toString(36)}`);
+    mkdirSync(join(RALPH_WORKTREES_DIR, repoKey), { recursive: true });
+
+    git(`worktree add --detach "${path}" ${baseCommit}`, repoDir, 120000);
+
+    const mainModules = join(repoDir, "node_modules");
+    if (existsSync(mainModules) && !existsSync(join(path, "node_modules"))) {
+      try { symlinkSync(mainModules, join(path, "node_modules"), "dir"); } catch { /* validation may still work */ }
+    }
+
+    return { path, baseCommit };
+  } catch (err) {
+    console.error(`[openclaw-codex-ralph] Failed to create worktree for ${storyId}: ${(err as Error).message?.slice(0, 200)}`);
+    return null;
+  }
+}
+
+/**
+ * Capture everything the agent changed in the worktree (including new files)
+ * as a binary patch against the base commit.
+ */
+export function captureWorktreePatch(worktree: StoryWorktree): string {
+  git(`add -A -- . ":(exclude)node_modules"`, worktree.path);
+  return git(`diff --cached --binary ${worktree.baseCommit}`, worktree.path);
+}
+
+/**
+ * Apply a worktree patch to the main checkout. Checks first; on conflict
+ * the main checkout is left untouched.
+ */
+export function applyWorktreePatch(repoDir: string, patch: string): PatchApplyResult {
+  if (!patch.trim()) return { applied: true, empty: true };
+
+  const patchFile = join(tmpdir(), `ralph-worktree-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}.patch`);
+  writeFileSync(patchFile, patch);
+  try {
+    try {
+      git(`apply --check --binary "${patchFile}"`, repoDir);
+    } catch (err) {
+      const e = err as { stderr?: string; message?: string };
+      return { applied: false, empty: false, error: (e.stderr || e.message || "git apply --check failed").trim().slice(0, 1000) };
+    }
+    git(`apply --binary "${patchFile}"`, repoDir);
+    return { applied: true, empty: false };
+  } catch (err) {
+    return { applied: false, empty: false, error: (err as Error).message?.slice(0, 1000) };
+  } finally {
+    try { unlinkSync(patchFile); } catch { /* ignore */ }
+  }
+}
+
+/** Remove a story worktree. Best-effort — a stale worktree is pruned on the next run. */
+export function removeStoryWorktree(repoDir: string, worktree: StoryWorktree): void {
+  try {
+    git(`worktree remove --force "${worktree.path}"`, repoDir, 60000);
+  } catch {
+    try { git("worktree prune", repoDir); } catch { /* ignore */ }
+  }
+}